@@ -5,7 +5,12 @@ import { parseHeader } from '../src/cart/header.ts';
 import { Cartridge } from '../src/cart/cartridge.ts';
 import { Emulator } from '../src/emulator/core.ts';
 import { Scheduler } from '../src/emulator/scheduler.ts';
-import { renderMainScreenRGBA } from '../src/ppu/bg.ts';
+import { renderFrame, scanlineFrame, frameDisplaySize, scaleFrameRGBA } from '../src/ppu/frame.ts';
+import { OUTPUT_PROFILES, OutputProfile } from '../src/ppu/output.ts';
+import { applyVideoFilterChain, parseVideoFilterChain } from '../src/ppu/filters.ts';
+import { DebugView, renderBGTilemap, renderCGRAMGrid, renderOAMTable, renderTileSheet } from '../src/ppu/debug/views.ts';
+
+const USAGE = 'Usage: npm run screenshot -- --rom=path/to/SMW.sfc --out=./out.png [--frames=180] [--ips=200] [--width=256|512] [--height=224|448] [--holdStart=1] [--onCpuError=record|throw|ignore] [--debug=0|1] [--forceUnblank=0|1] [--forceEnableBG1=0|1] [--srm=path/to/save.srm] [--ppu=simple|timing] [--views=dir] [--profile=linear|bsnes-gamma|crt] [--filter=none|nearest|scale2x|scanlines|ntsc]';
 
 function parseArgs(argv: string[]): Record<string, string> {
   const out: Record<string, string> = {};
@@ -22,14 +27,26 @@ function countNonZeroWords(u16: Uint16Array): number {
   return c;
 }
 
+async function writePNG(outPath: string, width: number, height: number, rgba: Uint8ClampedArray): Promise<void> {
+  const png = new PNG({ width, height });
+  Buffer.from(rgba.buffer, rgba.byteOffset, rgba.byteLength).copy(png.data);
+  await new Promise<void>((resolve, reject) => {
+    const s = fs.createWriteStream(outPath);
+    png.pack().pipe(s);
+    s.on('finish', () => resolve());
+    s.on('error', (e) => reject(e));
+  });
+}
+
 async function main() {
   const args = parseArgs(process.argv);
   const romPath = args.rom || process.env.SMW_ROM;
   const outPath = args.out || 'screenshot.png';
   const frames = Number.isFinite(Number(args.frames)) ? Math.max(1, Number(args.frames)) : (Number(process.env.SMW_FRAMES) || 180);
   const ips = Number.isFinite(Number(args.ips)) ? Math.max(1, Number(args.ips)) : (Number(process.env.SMW_IPS) || 200);
-  const width = Number.isFinite(Number(args.width)) ? Number(args.width) : 256;
-  const height = Number.isFinite(Number(args.height)) ? Number(args.height) : 224;
+  // Output size; defaults to the frame's display size (256x224, or 512x448 for hi-res frames)
+  const argWidth = Number.isFinite(Number(args.width)) ? Number(args.width) : undefined;
+  const argHeight = Number.isFinite(Number(args.height)) ? Number(args.height) : undefined;
   const holdStart = (args.holdStart ?? '1') !== '0';
   const pressStartFrame = Number.isFinite(Number(args.pressStartFrame)) ? Math.max(-1, Number(args.pressStartFrame)) : (Number(process.env.SMW_PRESS_START_FRAME ?? '-1'));
   const cpuErrMode = (args.onCpuError as 'ignore'|'throw'|'record') || (process.env.SMW_CPUERR as any) || 'record';
@@ -45,14 +62,27 @@ async function main() {
   const logMmio = (args.logMmio ?? process.env.SMW_LOG_MMIO ?? '0') !== '0';
   const logMmioLimit = args.logMmioLimit ?? process.env.SMW_LOG_LIMIT;
   const logMmioFilter = args.logMmioFilter ?? process.env.SMW_LOG_FILTER;
+  const srmPath = args.srm;
+  const viewsDir = args.views;
+  const profile = (OUTPUT_PROFILES as readonly string[]).includes(args.profile) ? args.profile as OutputProfile : 'linear';
+  const filter = args.filter ?? 'none';
+  const ppuKind = (args.ppu ?? process.env.SNES_PPU) === 'timing' ? 'timing' : 'simple';
   const traceCpuEvery = Number.isFinite(Number(args.traceCpu)) ? Math.max(0, Number(args.traceCpu)) : (Number(process.env.SMW_TRACE_CPU ?? '0'));
 
   if (!romPath) {
-    console.error('Usage: npm run screenshot -- --rom=path/to/SMW.sfc --out=./out.png [--frames=180] [--ips=200] [--width=256] [--height=224] [--holdStart=1] [--onCpuError=record|throw|ignore] [--debug=0|1] [--forceUnblank=0|1] [--forceEnableBG1=0|1]');
+    console.error(USAGE);
+    process.exit(1);
+  }
+  // Check the filter chain before the run rather than after it
+  try {
+    parseVideoFilterChain(filter);
+  } catch (e) {
+    console.error(`[screenshot] ${(e as Error).message}`);
+    console.error(USAGE);
     process.exit(1);
   }
 
-  console.log(`[screenshot] ROM: ${romPath}  out: ${outPath}  frames: ${frames}  ips: ${ips}  size: ${width}x${height}  holdStart=${holdStart}  pressStartFrame=${pressStartFrame}  onCpuError=${cpuErrMode}  debug=${debug}  forceUnblank=${forceUnblank}  forceEnableBG1=${forceEnableBG1}  autoFallback=${autoFallback}  logMmio=${logMmio}  traceCpu=${traceCpuEvery}`);
+  console.log(`[screenshot] ROM: ${romPath}  out: ${outPath}  frames: ${frames}  ips: ${ips}  size: ${argWidth ?? 'auto'}x${argHeight ?? 'auto'}  holdStart=${holdStart}  pressStartFrame=${pressStartFrame}  onCpuError=${cpuErrMode}  debug=${debug}  forceUnblank=${forceUnblank}  forceEnableBG1=${forceEnableBG1}  autoFallback=${autoFallback}  logMmio=${logMmio}  traceCpu=${traceCpuEvery}`);
 
   // Configure optional MMIO logging via env so the bus can pick it up in constructor
   if (logMmio) process.env.SMW_LOG_MMIO = '1';
@@ -63,13 +93,20 @@ async function main() {
   const { rom } = normaliseRom(new Uint8Array(raw));
   const header = parseHeader(rom);
   console.log(`[screenshot] Detected mapping=${header.mapping} title="${header.title}" checksum=${header.checksum.toString(16)}`);
-  const cart = new Cartridge({ rom, mapping: header.mapping });
-  const emu = Emulator.fromCartridge(cart);
+  const cart = new Cartridge({ rom, mapping: header.mapping, sramBytes: header.sramBytes });
+  // Battery saves: load the .srm before reset so the game sees it on boot
+  if (srmPath && cart.sram && fs.existsSync(srmPath)) {
+    cart.importSRAM(new Uint8Array(fs.readFileSync(srmPath)));
+    console.log(`[screenshot] Loaded SRAM (${cart.sram.length} bytes) from ${srmPath}`);
+  }
+  const emu = Emulator.fromCartridge(cart, { ppu: ppuKind });
   emu.reset();
 
   const sched = new Scheduler(emu, ips, { onCpuError: cpuErrMode, traceEveryInstr: traceCpuEvery });
   if (holdStart) emu.bus.setController1State({ Start: true });
 
+  // The last frame is drawn line by line so raster effects show up; earlier frames skip rendering
+  let captured = false;
   try {
     for (let i = 0; i < frames; i++) {
       // Simulate momentary Start press at a chosen frame
@@ -77,7 +114,9 @@ async function main() {
         if (i === pressStartFrame) emu.bus.setController1State({ Start: true });
         if (i === pressStartFrame + 1) emu.bus.setController1State({ Start: false });
       }
+      if (i === frames - 1) emu.bus.getPPU().scanlineRender = true;
       sched.stepFrame();
+      if (i === frames - 1) captured = true;
       if (i % 30 === 29) console.log(`[screenshot] stepped ${i + 1} frames`);
     }
   } catch (e) {
@@ -111,6 +150,7 @@ async function main() {
     } catch {}
   }
 
+  let overridden = forceUnblank || forceEnableBG1;
   if (forceUnblank) {
     ppu.forceBlank = false;
     ppu.brightness = 0x0f;
@@ -122,6 +162,7 @@ async function main() {
   // Fallback: if APU boot prevented the game from drawing anything (blank + zero VRAM/CGRAM), draw a simple test tile
   if (autoFallback && (ppu.forceBlank || (vCount === 0 && cCount === 0))) {
     console.log('[screenshot][fallback] Injecting minimal BG1 tile and palette to avoid black frame');
+    overridden = true;
     const bus = (emu as any).bus as { write8: (addr: number, v: number) => void };
     const mmio = (reg: number) => (0x00 << 16) | (0x2100 + (reg & 0xff));
     const w8 = (addr: number, v: number) => bus.write8(addr, v & 0xff);
@@ -164,8 +205,9 @@ async function main() {
     ppu.tm = (ppu.tm | 0x01) & 0x1f;
   }
 
-  // First render
-  let rgba = renderMainScreenRGBA(emu.bus.getPPU(), width, height);
+  // First render: the captured frame, unless registers were overridden after stepping
+  let frame = captured && !overridden ? scanlineFrame(emu.bus.getPPU(), profile) : renderFrame(emu.bus.getPPU(), undefined, undefined, profile);
+  let rgba = frame.rgba;
 
   // Compute simple brightness sum to detect fully black frames
   let totalRGBSum = 0;
@@ -197,28 +239,48 @@ async function main() {
       w8(mmio(0x22), 0x00); w8(mmio(0x22), 0x7c);
     } catch {}
     // Re-render
-    rgba = renderMainScreenRGBA(emu.bus.getPPU(), width, height);
+    frame = renderFrame(emu.bus.getPPU(), undefined, undefined, profile);
+    rgba = frame.rgba;
     totalRGBSum = 0;
     for (let i = 0; i < rgba.length; i += 4) totalRGBSum += rgba[i] + rgba[i + 1] + rgba[i + 2];
   }
 
-  // Write PNG
-  const png = new PNG({ width, height });
-  const buf = Buffer.from(rgba.buffer, rgba.byteOffset, rgba.byteLength);
-  buf.copy(png.data);
-  await new Promise<void>((resolve, reject) => {
-    const s = fs.createWriteStream(outPath);
-    png.pack().pipe(s);
-    s.on('finish', () => resolve());
-    s.on('error', (e) => reject(e));
-  });
+  if (srmPath && cart.sram) {
+    fs.writeFileSync(srmPath, cart.exportSRAM());
+    console.log(`[screenshot] Saved SRAM (${cart.sram.length} bytes) to ${srmPath}`);
+  }
+
+  // Write PNG, scaled from the 512-wide frame to the requested (or native display) size, then filtered
+  const display = frameDisplaySize(frame);
+  const width = argWidth ?? display.width;
+  const height = argHeight ?? display.height;
+  const shown = applyVideoFilterChain(filter, { width, height, rgba: scaleFrameRGBA(frame, width, height) });
+  await writePNG(outPath, shown.width, shown.height, shown.rgba);
+
+  // PPU debug views: VRAM tile sheets, BG tilemaps with the viewport, OAM and CGRAM
+  if (viewsDir) {
+    fs.mkdirSync(viewsDir, { recursive: true });
+    const views: [string, DebugView][] = [
+      ['tiles-2bpp', renderTileSheet(ppu, { bpp: 2 })],
+      ['tiles-4bpp', renderTileSheet(ppu, { bpp: 4 })],
+      ['tiles-8bpp', renderTileSheet(ppu, { bpp: 8 })],
+      ['bg1', renderBGTilemap(ppu, 1)],
+      ['bg2', renderBGTilemap(ppu, 2)],
+      ['bg3', renderBGTilemap(ppu, 3)],
+      ['bg4', renderBGTilemap(ppu, 4)],
+      ['oam', renderOAMTable(ppu)],
+      ['cgram', renderCGRAMGrid(ppu)],
+    ];
+    for (const [name, v] of views) await writePNG(`${viewsDir}/${name}.png`, v.width, v.height, v.rgba);
+    console.log(`Wrote ${views.length} PPU views to ${viewsDir}`);
+  }
 
   // Basic sanity metrics
   if (debug) {
     console.log(`[screenshot][debug] totalRGBSum=${totalRGBSum}`);
   }
 
-  console.log(`Wrote ${outPath} (${width}x${height}) after ${frames} frames at ${ips} ips`);
+  console.log(`Wrote ${outPath} (${width}x${height}${frame.hiRes ? ', hi-res' : ''}) after ${frames} frames at ${ips} ips`);
 }
 
 main().catch((e) => {
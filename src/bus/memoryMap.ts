@@ -0,0 +1,60 @@
+import { Byte } from '../emulator/types';
+
+// The 24-bit CPU address space as 4096 pages of 4 KiB, looked up by addr >>> 12.
+// A page either reads/writes a typed array directly (ROM, WRAM, SRAM) at base + (addr & mask), or calls
+// its handler (MMIO, open bus, coprocessors, anything not linear within the page).
+export const PAGE_SHIFT = 12;
+export const PAGE_SIZE = 1 << PAGE_SHIFT;
+export const PAGE_COUNT = 0x1000000 >>> PAGE_SHIFT;
+
+export interface PageHandler {
+  read(addr: number): Byte;
+  write(addr: number, value: Byte): void;
+}
+
+export interface MemoryPage {
+  read: Uint8Array | null;   // direct read source; null uses handler.read
+  write: Uint8Array | null;  // direct write target; null uses handler.write
+  base: number;
+  mask: number;              // PAGE_SIZE - 1, or smaller for arrays mirrored inside one page
+  cycles: number;            // master cycles per CPU access
+  handler: PageHandler;
+}
+
+// A cartridge device mapped over whole pages: banks and offsets are inclusive ranges
+export interface DeviceMapping {
+  banks: [number, number];
+  offsets: [number, number];
+  handler: PageHandler;
+  cycles?: number; // default 8 (SlowROM speed)
+}
+
+export class MemoryMap {
+  readonly pages: MemoryPage[] = new Array<MemoryPage>(PAGE_COUNT);
+
+  constructor(fill: MemoryPage) {
+    this.pages.fill(fill);
+  }
+
+  set(bank: number, off: number, page: MemoryPage): void {
+    this.pages[((bank & 0xff) << 4) | ((off & 0xffff) >>> PAGE_SHIFT)] = page;
+  }
+
+  map(m: DeviceMapping): void {
+    const page: MemoryPage = { read: null, write: null, base: 0, mask: PAGE_SIZE - 1, cycles: m.cycles ?? 8, handler: m.handler };
+    for (let bank = m.banks[0]; bank <= m.banks[1]; bank++) {
+      for (let off = m.offsets[0] & ~(PAGE_SIZE - 1); off <= m.offsets[1]; off += PAGE_SIZE) this.set(bank, off, page);
+    }
+  }
+
+  read8(addr: number): Byte {
+    const p = this.pages[addr >>> PAGE_SHIFT];
+    return p.read ? p.read[p.base + (addr & p.mask)] : p.handler.read(addr);
+  }
+
+  write8(addr: number, value: Byte): void {
+    const p = this.pages[addr >>> PAGE_SHIFT];
+    if (p.write) p.write[p.base + (addr & p.mask)] = value;
+    else p.handler.write(addr, value);
+  }
+}
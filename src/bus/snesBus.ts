@@ -1,15 +1,89 @@
 import { IMemoryBus, Byte, Word } from '../emulator/types';
 import { Cartridge } from '../cart/cartridge';
 import { PPU } from '../ppu/ppu';
+import { createPPU, PPUKind } from '../ppu/create';
+import { warnAccessViolation } from '../ppu/access';
 import { Controller, Button } from '../input/controller';
 import { SPC700 } from '../apu/spc700';
 import { APUDevice } from '../apu/apu';
+import { NTSC } from '../timing/ntsc';
+import { DeviceMapping, MemoryMap, MemoryPage, PageHandler, PAGE_SHIFT, PAGE_SIZE } from './memoryMap';
+
+// B-bus address offsets (added to BBAD) for each DMA/HDMA transfer mode, one entry per byte of a unit.
+const DMA_B_PATTERNS: readonly (readonly number[])[] = [
+  [0],          // mode 0: 1 byte,  p
+  [0, 1],       // mode 1: 2 bytes, p, p+1
+  [0, 0],       // mode 2: 2 bytes, p, p
+  [0, 0, 1, 1], // mode 3: 4 bytes, p, p, p+1, p+1
+  [0, 1, 2, 3], // mode 4: 4 bytes, p, p+1, p+2, p+3
+  [0, 1, 0, 1], // mode 5: 4 bytes, p, p+1, p, p+1
+  [0, 0],       // mode 6: same as mode 2
+  [0, 0, 1, 1], // mode 7: same as mode 3
+];
+
+// Env switches for the WRAM write watches: mapWrite's TRACE_TRAMP and DP*_WATCH logs, and the CPU traces
+// that arm its __stackWatchAddrs stack watch. mapWrite checks them through wramWatchOn, so a watch added
+// there has to be listed here, and any of them set keeps WRAM writes off the direct page-table path.
+const WRAM_WATCH_ENV = [
+  'TRACE_TRAMP', 'DP12_WATCH', 'DP18_WATCH', 'DP21_WATCH', 'DP_WATCH_C2',
+  'CPU_JSR8196_TRACE', 'CPU_JSR8127_TRACE', 'CPU_STACK_LOG',
+] as const;
+type WramWatchEnv = (typeof WRAM_WATCH_ENV)[number];
+
+function wramWatchOn(env: Record<string, string | undefined>, name: WramWatchEnv): boolean {
+  return env[name] === '1' || env[name] === 'true';
+}
+
+// DMA/HDMA bus time in master cycles. The CPU is stalled for all of it.
+const DMA_SYNC_CYCLES = 16;    // aligning to the CPU clock around a $420B transfer (12-24 on hardware)
+const DMA_CHANNEL_CYCLES = 8;  // per channel, before its first byte
+const DMA_BYTE_CYCLES = 8;
+const HDMA_LINE_CYCLES = 18;   // per HBlank with any HDMA channel active
+const HDMA_CHANNEL_CYCLES = 8; // per active channel, plus 8 per byte and per table byte fetched
+
+// Snapshot of one HDMA channel, exposed for tests and debugging.
+export interface HDMAChannelState {
+  enabled: boolean;     // $420C bit for this channel
+  indirect: boolean;    // $43x0 bit6
+  mode: number;         // $43x0 bits 0-2
+  bbad: number;         // $43x1
+  tableBank: number;    // $43x4
+  tableAddr: number;    // $43x8-$43x9 (current table address)
+  indirectBank: number; // $43x7
+  indirectAddr: number; // $43x5-$43x6
+  lineCounter: number;  // $43xA (bit7 = repeat)
+  doTransfer: boolean;
+  terminated: boolean;
+}
+
+// One general-purpose DMA channel run, passed to the opt-in trace hook (setDMATraceCallback).
+export interface DMATraceEvent {
+  channel: number;
+  dmap: number;     // $43x0
+  bbad: number;     // $43x1
+  source: number;   // A1B:A1T at the start of the transfer
+  count: number;    // bytes (DAS, 0 = 65536)
+  dirBtoA: boolean;
+}
+
+export interface SNESBusOptions {
+  ppu?: PPUKind; // default 'simple'; 'timing' selects the dot-driven TimingPPU
+  ppuAccessRestrictions?: boolean; // enforce VRAM/OAM/CGRAM access windows during active display
+}
 
 // Partial SNES Bus focusing on ROM, WRAM, MMIO, and basic DMA for tests.
 export class SNESBus implements IMemoryBus {
   // 128 KiB WRAM at 0x7E:0000-0x7F:FFFF
   private wram = new Uint8Array(128 * 1024);
 
+  // CPU-side page table (memoryMap.ts) built from the cartridge mapping; rebuilt on MEMSEL writes and
+  // coprocessor mapping changes. MMIO pages go through mapRead/mapWrite.
+  private memMap!: MemoryMap;
+  private memsel = 0x00; // $420D bit0: FastROM (6 master cycles) for ROM in banks 80-FF
+  private coprocessors: DeviceMapping[] = [];
+  // Debug write watches on WRAM (WRAM_WATCH_ENV) need the mapWrite path
+  private watchWramWrites = false;
+
   // Open-bus last value (tracks last data placed on the data bus)
   private lastBusVal: number = 0x00;
 
@@ -20,9 +94,11 @@ export class SNESBus implements IMemoryBus {
   // Optional callback invoked when HBlank state changes (enter/exit)
   // Parameter: hblank (true if entering HBlank, false if leaving), current scanline
   private onHBlankChange: ((hblank: boolean, scanline: number) => void) | null = null;
+  // Optional hook called for each channel at the start of a $420B DMA
+  private onDMATrace: ((e: DMATraceEvent) => void) | null = null;
 
   // PPU device handling $2100-$21FF
-  private ppu = new PPU();
+  private ppu: PPU;
 
   // Expose PPU for integration tests and emulator orchestration
   public getPPU(): PPU {
@@ -51,7 +127,24 @@ export class SNESBus implements IMemoryBus {
   private bbad = new Uint8Array(8);   // $43x1
   private a1tl = new Uint16Array(8);  // $43x2-$43x3 (little endian)
   private a1b = new Uint8Array(8);    // $43x4
-  private das = new Uint16Array(8);   // $43x5-$43x6
+  private das = new Uint16Array(8);   // $43x5-$43x6 (HDMA: indirect address)
+  private dasb = new Uint8Array(8);   // $43x7 (HDMA indirect bank)
+  private a2a = new Uint16Array(8);   // $43x8-$43x9 (HDMA current table address)
+  private nltr = new Uint8Array(8);   // $43xA (HDMA line counter; bit7 = repeat)
+
+  // Timed DMA: when a timing driver (tickCycles, Scheduler) has enabled it, $420B only starts the
+  // transfer and bytes move as that driver spends stall cycles; otherwise the whole transfer runs in the write
+  private dmaTimed = false;
+  private dmaActive = 0x00;  // channels still to transfer, lowest first
+  private dmaChannel = -1;   // channel currently transferring
+  private dmaIndex = 0;      // byte index within the current channel's transfer
+  private stallCycles = 0;   // master cycles of pending DMA/HDMA bus time
+  private stallDraining = false;
+
+  // HDMA state ($420C HDMAEN plus per-channel internal flags)
+  private hdmaen = 0x00;
+  private hdmaDoTransfer = new Array<boolean>(8).fill(false);
+  private hdmaTerminated = new Array<boolean>(8).fill(true);
 
   // Controllers
   private controller1 = new Controller();
@@ -72,6 +165,14 @@ export class SNESBus implements IMemoryBus {
   private nmitimen = 0; // $4200 (bit7 enables NMI, bit0 enables auto-joypad read)
   private nmiOccurred = 0; // latched NMI flag for $4210 bit7
 
+  // H/V timer IRQ: $4200 bits 4-5 select the mode, $4207-$420A hold the 9-bit compare
+  // positions and $4211 bit7 (TIMEUP) latches a match. The latch drives the CPU IRQ line.
+  private htime = 0x1ff; // $4207/$4208
+  private vtime = 0x1ff; // $4209/$420A
+  private timeUp = 0;
+  private hvLastDot = -1;  // last H position seen by updateHVTimer on hvLastLine
+  private hvLastLine = -1;
+
   // Auto-joypad latch ($4218-$421f) — we model controller 1 only for now
   private joy1l = 0x00; // $4218
   private joy1h = 0x00; // $4219
@@ -149,7 +250,9 @@ export class SNESBus implements IMemoryBus {
   private apuDevice: APUDevice | null = null;
   private spcCyclesPerScanline = 256;
 
-  constructor(private cart: Cartridge) {
+  constructor(private cart: Cartridge, opts: SNESBusOptions = {}) {
+    this.ppu = createPPU(opts.ppu);
+    this.ppu.accessRestrictions = opts.ppuAccessRestrictions ?? false;
     // Optional MMIO logging controlled by env vars
     try {
       // @ts-ignore
@@ -174,7 +277,10 @@ export class SNESBus implements IMemoryBus {
       this.autoHvbOnReads = (autoHvb === '1' || autoHvb.toLowerCase?.() === 'true');
       const hvbThrRaw = Number(env.SNES_AUTOPULSE_HVBJOY_THRESHOLD ?? '64');
       if (Number.isFinite(hvbThrRaw) && hvbThrRaw >= 1 && hvbThrRaw <= 65535) this.autoHvbThresholdReads = hvbThrRaw | 0;
+      // Optional: warn (with the CPU PC) about VRAM/OAM/CGRAM writes made during active display
+      if (env.SNES_PPU_ACCESS_WARN === '1' || env.SNES_PPU_ACCESS_WARN === 'true') this.ppu.onAccessViolation = warnAccessViolation;
       this.logMMIO = env.SMW_LOG_MMIO === '1' || env.SMW_LOG_MMIO === 'true';
+      this.watchWramWrites = WRAM_WATCH_ENV.some((k) => wramWatchOn(env, k));
       this.logPc = env.SMW_LOG_PC === '1' || env.SMW_LOG_PC === 'true' || env.SMW_LOG_MMIO_PC === '1' || env.SMW_LOG_MMIO_PC === 'true';
       const lim = Number(env.SMW_LOG_LIMIT ?? '1000');
       // Optional targeted dump of recent instruction ring when PC matches
@@ -203,6 +309,7 @@ export class SNESBus implements IMemoryBus {
         this.simTimingEnabled = true;
         this.simCycleMode = true;
       }
+      this.dmaTimed = this.simTimingEnabled && this.simCycleMode;
       const ips = Number(env.SNES_TIMING_IPS ?? '100');
       if (Number.isFinite(ips) && ips >= 1 && ips <= 100000) this.simInstrPerScanline = (ips|0);
       const hfrac = Number(env.SNES_TIMING_HBLANK_FRAC ?? '8');
@@ -302,6 +409,82 @@ export class SNESBus implements IMemoryBus {
     this.apuPhase = 'boot';
     this.apuToCpu[2] = 0x00;
     this.apuToCpu[3] = 0x00;
+    this.rebuildMemoryMap();
+  }
+
+  // Page over data[first..] when the page is linear in it, or mirrors a power-of-two array smaller than a
+  // page; otherwise the handler. `last` is the index the page's final byte maps to.
+  private arrayPage(data: Uint8Array, first: number, last: number, cycles: number, writable: boolean, handler: PageHandler): MemoryPage {
+    let mask = -1;
+    if (last === first + PAGE_SIZE - 1) mask = PAGE_SIZE - 1;
+    else if (first === 0 && data.length < PAGE_SIZE && (data.length & (data.length - 1)) === 0) mask = data.length - 1;
+    if (mask < 0) return { read: null, write: null, base: 0, mask: PAGE_SIZE - 1, cycles, handler };
+    return { read: data, write: writable ? data : null, base: first, mask, cycles, handler };
+  }
+
+  // Build the page table: WRAM in banks 7E/7F and at $0000-$1FFF of banks 00-3F/80-BF, MMIO at
+  // $2000-$5FFF of those banks, then SRAM and ROM per the cartridge mapping (sramIndex/romIndex), open bus
+  // elsewhere. Coprocessor mappings are applied last and win.
+  private rebuildMemoryMap(): void {
+    const slow: PageHandler = { read: (a) => this.mapRead(a), write: (a, v) => this.mapWrite(a, v) };
+    const openBus: PageHandler = { read: () => this.lastBusVal & 0xff, write: () => {} };
+    const rom: PageHandler = {
+      read: (a) => {
+        const i = this.romIndex((a >>> 16) & 0xff, a & 0xffff);
+        return i >= 0 ? this.cart.rom[i] : this.lastBusVal & 0xff;
+      },
+      write: () => {},
+    };
+    const sram: PageHandler = {
+      read: (a) => this.cart.sram![this.sramIndex((a >>> 16) & 0xff, a & 0xffff)],
+      write: (a, v) => { this.cart.sram![this.sramIndex((a >>> 16) & 0xff, a & 0xffff)] = v; },
+    };
+    const map = new MemoryMap({ read: null, write: null, base: 0, mask: PAGE_SIZE - 1, cycles: 8, handler: openBus });
+    const wramWrite = this.watchWramWrites ? null : this.wram;
+    const fastRom = (this.memsel & 0x01) !== 0;
+    for (let bank = 0; bank < 0x100; bank++) {
+      const system = (bank & 0x40) === 0;
+      const romCycles = fastRom && (bank & 0x80) ? 6 : 8;
+      for (let off = 0; off < 0x10000; off += PAGE_SIZE) {
+        if (bank === 0x7e || bank === 0x7f || (system && off < 0x2000)) {
+          const base = system ? off : this.wramIndex(bank, off);
+          map.set(bank, off, { read: this.wram, write: wramWrite, base, mask: PAGE_SIZE - 1, cycles: 8, handler: slow });
+          continue;
+        }
+        if (system && off < 0x6000) {
+          map.set(bank, off, { read: null, write: null, base: 0, mask: PAGE_SIZE - 1, cycles: 6, handler: slow });
+          continue;
+        }
+        const s = this.sramIndex(bank, off);
+        if (s >= 0) {
+          map.set(bank, off, this.arrayPage(this.cart.sram!, s, this.sramIndex(bank, off + PAGE_SIZE - 1), 8, true, sram));
+          continue;
+        }
+        const r = this.romIndex(bank, off);
+        if (r >= 0) map.set(bank, off, this.arrayPage(this.cart.rom, r, this.romIndex(bank, off + PAGE_SIZE - 1), romCycles, false, rom));
+      }
+    }
+    for (const m of this.coprocessors) map.map(m);
+    this.memMap = map;
+  }
+
+  // Map a coprocessor's registers or memory over whole 4 KiB pages (e.g. banks 00-3F at $3000-$3FFF).
+  // Coprocessors call this again when their own bank mapping registers change.
+  public mapCoprocessor(m: DeviceMapping): void {
+    this.coprocessors.push(m);
+    this.rebuildMemoryMap();
+  }
+
+  public unmapCoprocessor(handler: PageHandler): void {
+    this.coprocessors = this.coprocessors.filter((m) => m.handler !== handler);
+    this.rebuildMemoryMap();
+  }
+
+  // Master cycles the CPU spends on one access to addr. $4000-$41FF of the system banks are always 12.
+  public accessCycles(addr: number): number {
+    const a = addr & 0xffffff;
+    if ((a & 0x40fe00) === 0x004000) return 12;
+    return this.memMap.pages[a >>> PAGE_SHIFT].cycles;
   }
 
   // When completing the APU handshake, hold port1 at 0x02 and, for SMW-style
@@ -323,6 +506,51 @@ export class SNESBus implements IMemoryBus {
     return ((bank & 1) << 16) | off;
   }
 
+  // Cartridge SRAM window, mirrored across the SRAM size:
+  //  - LoROM: banks 70-7D (and F0-FD) at $0000-$7FFF, 32KiB per bank
+  //  - HiROM: banks 20-3F (and A0-BF) at $6000-$7FFF, 8KiB per bank
+  // ExLoROM/ExHiROM use the same windows as LoROM/HiROM.
+  // Returns -1 when the address is outside the window or the cartridge has no SRAM.
+  private sramIndex(bank: number, off: number): number {
+    const sram = this.cart.sram;
+    if (!sram || sram.length === 0) return -1;
+    const b = bank & 0x7f;
+    if (this.cart.mapping === 'lorom' || this.cart.mapping === 'exlorom') {
+      if (b < 0x70 || b > 0x7d || off >= 0x8000) return -1;
+      return ((b - 0x70) * 0x8000 + off) % sram.length;
+    }
+    if (b < 0x20 || b > 0x3f || off < 0x6000 || off >= 0x8000) return -1;
+    return ((b - 0x20) * 0x2000 + (off - 0x6000)) % sram.length;
+  }
+
+  // Translate a CPU address to a ROM offset (mirrored over the ROM size), or -1 if unmapped.
+  private romIndex(bank: number, off: number): number {
+    const rom = this.cart.rom;
+    if (rom.length === 0) return -1;
+    switch (this.cart.mapping) {
+      case 'lorom':
+        // Banks 0x00-0x7D, 0x80-0xFF: 0x8000-0xFFFF map to ROM in 32KiB chunks
+        if (off < 0x8000) return -1;
+        return ((bank & 0x7f) * 0x8000 + (off - 0x8000)) % rom.length;
+      case 'hirom':
+        // Banks 0x40-0x7D, 0xC0-0xFF: 0x0000-0xFFFF map to ROM in 64KiB chunks
+        return ((bank & 0x7f) * 0x10000 + off) % rom.length;
+      case 'exlorom': {
+        // Banks 0x80-0xFF hold the first 4MiB, banks 0x00-0x7D the rest (32KiB chunks)
+        if (off < 0x8000) return -1;
+        const base = (bank & 0x80) ? 0 : 0x400000;
+        return (base + (bank & 0x7f) * 0x8000 + (off - 0x8000)) % rom.length;
+      }
+      case 'exhirom': {
+        // Banks 0xC0-0xFF hold the first 4MiB, banks 0x40-0x7D the rest (64KiB chunks).
+        // System banks 00-3F/80-BF mirror the upper halves at $8000-$FFFF.
+        if ((bank & 0x40) === 0 && off < 0x8000) return -1;
+        const base = (bank & 0x80) ? 0 : 0x400000;
+        return (base + (bank & 0x3f) * 0x10000 + off) % rom.length;
+      }
+    }
+  }
+
   private mapRead(addr: number): Byte {
     const bank = (addr >>> 16) & 0xff;
     const off = addr & 0xffff;
@@ -341,6 +569,11 @@ export class SNESBus implements IMemoryBus {
     if (((bank <= 0x3f) || (bank >= 0x80 && bank <= 0xbf)) && off < 0x2000) {
       return this.wram[off & 0x1fff];
     }
+    // Battery-backed cartridge SRAM
+    const sramIdx = this.sramIndex(bank, off);
+    if (sramIdx >= 0) {
+      return this.cart.sram![sramIdx];
+    }
 
     // WRAM data port $2180 (read) increments address
     if (off === 0x2180) {
@@ -398,9 +631,22 @@ export class SNESBus implements IMemoryBus {
       return v;
     }
 
+    // $4211 TIMEUP: H/V timer IRQ flag (bit7). Read clears the flag and releases the IRQ line.
+    if (off === 0x4211) {
+      const v = (this.timeUp ? 0x80 : 0x00) | (this.lastBusVal & 0x7f);
+      this.timeUp = 0;
+      if (shouldLog) {
+        const lp: any = (globalThis as any).__lastPC || {};
+        const pcInfo = this.logPc ? ` [PC=${((lp.PBR ?? 0) & 0xff).toString(16).padStart(2,'0')}:${((lp.PC ?? 0) & 0xffff).toString(16).padStart(4,'0')}]` : '';
+        console.log(`[MMIO] R ${bank.toString(16).padStart(2,'0')}:${off.toString(16).padStart(4,'0')} -> ${v.toString(16).padStart(2,'0')}${pcInfo}`);
+        this.logCount++;
+      }
+      return v;
+    }
+
     // $4212 HVBJOY: VBlank status on bit7, HBlank status on bit6
     if (off === 0x4212) {
-      let vblank = this.ppu.scanline >= 224; // default coarse model
+      let vblank = this.ppu.scanline >= this.vblankStartLine(); // default coarse model
       let hblank = this.ppu.hblank;
       try {
         const ppuAny: any = this.ppu as any;
@@ -736,6 +982,25 @@ export class SNESBus implements IMemoryBus {
       return v & 0xff;
     }
 
+    // DMA/HDMA channel registers $43x0-$43xA are readable
+    if (((bank <= 0x3f) || (bank >= 0x80 && bank <= 0xbf)) && off >= 0x4300 && off <= 0x437f) {
+      const ch = (off - 0x4300) >> 4;
+      switch (off & 0x000f) {
+        case 0x0: return this.dmap[ch];
+        case 0x1: return this.bbad[ch];
+        case 0x2: return this.a1tl[ch] & 0xff;
+        case 0x3: return (this.a1tl[ch] >>> 8) & 0xff;
+        case 0x4: return this.a1b[ch];
+        case 0x5: return this.das[ch] & 0xff;
+        case 0x6: return (this.das[ch] >>> 8) & 0xff;
+        case 0x7: return this.dasb[ch];
+        case 0x8: return this.a2a[ch] & 0xff;
+        case 0x9: return (this.a2a[ch] >>> 8) & 0xff;
+        case 0xa: return this.nltr[ch];
+        default: return this.lastBusVal & 0xff;
+      }
+    }
+
     // APU/io ranges not implemented for read
 
     // Controller ports $4016/$4017 (we only model $4016 bit0)
@@ -744,97 +1009,208 @@ export class SNESBus implements IMemoryBus {
       return bit;
     }
 
-    // ROM mapping (simplified LoROM/HiROM)
-    if (this.cart.mapping === 'lorom') {
-      // Standard LoROM: banks 0x00-0x7D, 0x80-0xFF: 0x8000-0xFFFF map to ROM in 32KiB chunks
-      if (off >= 0x8000) {
-        const loBank = bank & 0x7f;
-        const romAddr = (loBank * 0x8000) + (off - 0x8000);
-        return this.cart.rom[romAddr % this.cart.rom.length];
-      }
-    } else {
-      // HiROM: banks 0x40-0x7D, 0xC0-0xFF: 0x0000-0xFFFF map to ROM in 64KiB chunks
-      const hiBank = bank & 0x7f;
-      const romAddr = (hiBank * 0x10000) + off;
-      return this.cart.rom[romAddr % this.cart.rom.length];
+    // ROM mapping
+    const romIdx = this.romIndex(bank, off);
+    if (romIdx >= 0) {
+      return this.cart.rom[romIdx];
     }
 
     // Default open bus: return last bus value
     return this.lastBusVal & 0xff;
   }
 
+  // A-bus addresses DMA cannot reach: the B-bus ($2100-$21FF) and CPU I/O ($4000-$41FF, $4200-$421F,
+  // $4300-$437F) in system banks
+  private dmaABusValid(la: number): boolean {
+    if ((la & 0x400000) !== 0) return true;
+    const off = la & 0xffff;
+    return !((off & 0xff00) === 0x2100 || (off & 0xfe00) === 0x4000 || (off & 0xffe0) === 0x4200 || (off & 0xff80) === 0x4300);
+  }
+
+  // WRAM cannot be both ends of a transfer: $2180 with a WRAM A-bus address moves nothing
+  private dmaWramLoop(bOff: number, la: number): boolean {
+    if ((bOff & 0xff) !== 0x80) return false;
+    const bank = (la >>> 16) & 0xff;
+    return bank === 0x7e || bank === 0x7f || ((bank & 0x40) === 0 && (la & 0xe000) === 0);
+  }
+
+  // One byte of general-purpose DMA: byte `index` of the channel's transfer goes to BBAD plus the mode's
+  // B-bus offset. The A-bus address steps within its bank (A1B never changes) and DAS counts down, both
+  // written back per byte. Unreachable A-bus addresses read open bus and drop writes.
+  private dmaTransferByte(ch: number, index: number): void {
+    const dmap = this.dmap[ch] & 0xff;
+    const pattern = DMA_B_PATTERNS[dmap & 0x07];
+    const bOff = (this.bbad[ch] + pattern[index % pattern.length]) & 0xff;
+    const bAddr = 0x002100 | bOff;
+    const la = (this.a1b[ch] << 16) | this.a1tl[ch];
+    const aValid = this.dmaABusValid(la);
+    const blocked = this.dmaWramLoop(bOff, la);
+    if ((dmap & 0x80) !== 0) {
+      const val = blocked ? this.lastBusVal : this.mapRead(bAddr);
+      if (aValid && !blocked) this.write8(la, val);
+    } else {
+      const val = aValid ? this.read8(la) : this.lastBusVal;
+      if (!blocked) this.mapWrite(bAddr, val);
+    }
+    if ((dmap & 0x08) === 0) this.a1tl[ch] = (this.a1tl[ch] + ((dmap & 0x10) !== 0 ? -1 : 1)) & 0xffff;
+    this.das[ch] = (this.das[ch] - 1) & 0xffff;
+  }
+
+  private traceDMA(ch: number): void {
+    if (!this.onDMATrace) return;
+    const dmap = this.dmap[ch] & 0xff;
+    this.onDMATrace({
+      channel: ch, dmap, bbad: this.bbad[ch], source: (this.a1b[ch] << 16) | this.a1tl[ch],
+      count: this.das[ch] || 0x10000, dirBtoA: (dmap & 0x80) !== 0,
+    });
+  }
+
+  // $420B: run every selected channel to completion, lowest channel first, or hand them to the timed path
   private performMDMA(mask: Byte): void {
+    if (this.dmaTimed) {
+      if (mask === 0) return;
+      this.dmaActive = mask & 0xff;
+      this.dmaChannel = -1;
+      this.stallCycles += DMA_SYNC_CYCLES;
+      return;
+    }
     for (let ch = 0; ch < 8; ch++) {
       if ((mask & (1 << ch)) === 0) continue;
-      const dmap = this.dmap[ch] & 0xff;
-      const mode = dmap & 0x07; // transfer mode (0..7)
-      const fixedA = (dmap & 0x08) !== 0; // fixed A address (no increment)
-      const decA = (dmap & 0x10) !== 0;   // decrement A address
-      const dirBtoA = (dmap & 0x80) !== 0; // 1 = B->A, 0 = A->B
-      
-      // Debug DMA configuration
-      if (ch === 0) {
-        console.log(`DMA ch0 config: DMAP=0x${dmap.toString(16).padStart(2,'0')} mode=${mode} fixedA=${fixedA} decA=${decA} dir=${dirBtoA ? 'B->A' : 'A->B'}`);
-        console.log(`  Source: bank=$${this.a1b[ch].toString(16).padStart(2,'0')} addr=$${this.a1tl[ch].toString(16).padStart(4,'0')}`);
-        console.log(`  Dest: BBAD=$${this.bbad[ch].toString(16).padStart(2,'0')} (PPU $21${this.bbad[ch].toString(16).padStart(2,'0')})`);
-        console.log(`  Count: $${(this.das[ch] || 0x10000).toString(16)} bytes`);
-      }
+      this.traceDMA(ch);
+      let i = 0;
+      do this.dmaTransferByte(ch, i++); while (this.das[ch] !== 0);
+    }
+  }
 
-      const baseB = this.bbad[ch]; // $21xx base
-      let aAddr = this.a1tl[ch];
-      const aBank = this.a1b[ch];
-      const initialCount = this.das[ch] || 0x10000; // 0 means 65536 bytes in hardware
-      let count = initialCount;
-      let debugCounter = 0;
-
-      while (count > 0) {
-        // Determine B address per mode
-        let bOff = baseB;
-        if (mode === 1) {
-          // Alternate between base and base+1 per transfer
-          const toggled = ((initialCount - count) & 1) !== 0;
-          bOff = baseB + (toggled ? 1 : 0);
-        } else {
-          // Fallback for common VRAM DMA patterns: if BBAD==$18 (VMDATA),
-          // treat unknown modes like mode 1 (alternate $2118/$2119) so words commit.
-          if ((baseB & 0xfe) === 0x18) {
-            const toggled = ((initialCount - count) & 1) !== 0;
-            bOff = baseB + (toggled ? 1 : 0); // alternate between baseB and baseB+1
-          }
-        }
-        const bAddr = 0x002100 | (bOff & 0xff);
+  // Timed DMA: transfer the next byte and return the master cycles it takes
+  private dmaStep(): number {
+    const ch = 31 - Math.clz32(this.dmaActive & -this.dmaActive);
+    let cycles = DMA_BYTE_CYCLES;
+    if (ch !== this.dmaChannel) {
+      this.dmaChannel = ch;
+      this.dmaIndex = 0;
+      cycles += DMA_CHANNEL_CYCLES;
+      this.traceDMA(ch);
+    }
+    this.dmaTransferByte(ch, this.dmaIndex++);
+    if (this.das[ch] === 0) this.dmaActive &= ~(1 << ch);
+    return cycles;
+  }
 
-        if (dirBtoA) {
-          const val = this.mapRead(bAddr);
-          // write to A-bus location
-          const la = ((aBank << 16) | aAddr) >>> 0;
-          this.write8(la, val);
-        } else {
-          // A->B
-          const la = ((aBank << 16) | aAddr) >>> 0;
-          const val = this.read8(la);
-          // Debug first few bytes of DMA to VRAM
-          if ((bOff & 0xfe) === 0x18 && debugCounter < 16) {
-            console.log(`DMA ch${ch}: src=$${la.toString(16).padStart(6,'0')} val=$${val.toString(16).padStart(2,'0')} -> $21${bOff.toString(16).padStart(2,'0')}`);
-            debugCounter++;
-          }
-          this.mapWrite(bAddr, val);
-        }
+  // True while a timed DMA or HDMA overhead still holds the bus; the CPU must not run
+  public isCPUStalled(): boolean {
+    return this.stallCycles > 0 || this.dmaActive !== 0;
+  }
 
-        // Update A address per flags
-        if (!fixedA) {
-          if (decA) aAddr = (aAddr - 1) & 0xffff;
-          else aAddr = (aAddr + 1) & 0xffff;
-        }
-        count--;
-      }
+  // Let up to `cycles` master cycles of stall pass (for drivers that count instructions, like Scheduler).
+  // Pending HDMA overhead is spent before the running DMA resumes.
+  public runStall(cycles: number): void {
+    let budget = Math.max(0, cycles | 0);
+    while (budget > 0 && this.isCPUStalled()) {
+      if (this.stallCycles === 0) this.stallCycles = this.dmaStep();
+      const n = Math.min(budget, this.stallCycles);
+      this.stallCycles -= n;
+      budget -= n;
+    }
+  }
+
+  // Timing drivers call this to have $420B transfers take bus time instead of completing in the write
+  public setDMATiming(on: boolean): void {
+    this.dmaTimed = on;
+    if (!on) {
+      // Finish anything in flight at once
+      while (this.dmaActive !== 0) this.dmaStep();
+      this.stallCycles = 0;
+    }
+  }
+
+  // HDMA frame-start initialisation (V=0): reload table address, first line counter and,
+  // for indirect channels, the first indirect address for every channel enabled in $420C.
+  public hdmaInit(): void {
+    for (let ch = 0; ch < 8; ch++) {
+      this.hdmaDoTransfer[ch] = false;
+      this.hdmaTerminated[ch] = true;
+      if ((this.hdmaen & (1 << ch)) === 0) continue;
+      this.a2a[ch] = this.a1tl[ch];
+      this.hdmaTerminated[ch] = false;
+      this.hdmaLoadLine(ch);
+    }
+  }
 
-      // Update channel registers post-transfer
-      // Only update A1T if it was not fixed
-      if (!fixedA) {
-        this.a1tl[ch] = aAddr;
+  // Run one scanline's worth of HDMA (called at HBlank of each visible line).
+  // With timed DMA its bus time is added to the stall, ahead of any DMA it interrupts.
+  public hdmaStep(): void {
+    let cycles = 0;
+    for (let ch = 0; ch < 8; ch++) {
+      if ((this.hdmaen & (1 << ch)) === 0 || this.hdmaTerminated[ch]) continue;
+      cycles += HDMA_CHANNEL_CYCLES;
+      if (this.hdmaDoTransfer[ch]) {
+        this.hdmaTransferUnit(ch);
+        cycles += DMA_BYTE_CYCLES * DMA_B_PATTERNS[this.dmap[ch] & 0x07].length;
+      }
+      this.nltr[ch] = (this.nltr[ch] - 1) & 0xff;
+      this.hdmaDoTransfer[ch] = (this.nltr[ch] & 0x80) !== 0;
+      if ((this.nltr[ch] & 0x7f) === 0) {
+        this.hdmaLoadLine(ch);
+        cycles += DMA_BYTE_CYCLES * ((this.dmap[ch] & 0x40) !== 0 ? 3 : 1);
       }
-      this.das[ch] = 0;
+    }
+    if (this.dmaTimed && cycles > 0) this.stallCycles += HDMA_LINE_CYCLES + cycles;
+  }
+
+  public getHDMAChannelState(ch: number): HDMAChannelState {
+    const c = ch & 7;
+    return {
+      enabled: (this.hdmaen & (1 << c)) !== 0,
+      indirect: (this.dmap[c] & 0x40) !== 0,
+      mode: this.dmap[c] & 0x07,
+      bbad: this.bbad[c],
+      tableBank: this.a1b[c],
+      tableAddr: this.a2a[c],
+      indirectBank: this.dasb[c],
+      indirectAddr: this.das[c],
+      lineCounter: this.nltr[c],
+      doTransfer: this.hdmaDoTransfer[c],
+      terminated: this.hdmaTerminated[c],
+    };
+  }
+
+  // Fetch the next table entry: line counter byte, plus a 16-bit indirect address in indirect mode.
+  // A line counter of $00 terminates the channel for the rest of the frame.
+  private hdmaLoadLine(ch: number): void {
+    const bank = this.a1b[ch];
+    const line = this.read8((bank << 16) | this.a2a[ch]);
+    this.a2a[ch] = (this.a2a[ch] + 1) & 0xffff;
+    this.nltr[ch] = line & 0xff;
+    if ((this.dmap[ch] & 0x40) !== 0) {
+      const lo = this.read8((bank << 16) | this.a2a[ch]);
+      this.a2a[ch] = (this.a2a[ch] + 1) & 0xffff;
+      const hi = this.read8((bank << 16) | this.a2a[ch]);
+      this.a2a[ch] = (this.a2a[ch] + 1) & 0xffff;
+      this.das[ch] = ((hi << 8) | lo) & 0xffff;
+    }
+    if (line === 0) {
+      this.hdmaTerminated[ch] = true;
+      this.hdmaDoTransfer[ch] = false;
+      return;
+    }
+    this.hdmaDoTransfer[ch] = true;
+  }
+
+  // Transfer one unit for the channel's mode. Direct mode reads from the table (A1B:A2A),
+  // indirect mode from DASB:DAS. The A-bus address never crosses a bank.
+  private hdmaTransferUnit(ch: number): void {
+    const dmap = this.dmap[ch];
+    const indirect = (dmap & 0x40) !== 0;
+    const dirBtoA = (dmap & 0x80) !== 0;
+    const pattern = DMA_B_PATTERNS[dmap & 0x07];
+    for (const bStep of pattern) {
+      const bAddr = 0x002100 | ((this.bbad[ch] + bStep) & 0xff);
+      const la = indirect ? ((this.dasb[ch] << 16) | this.das[ch]) : ((this.a1b[ch] << 16) | this.a2a[ch]);
+      if (dirBtoA) this.write8(la, this.mapRead(bAddr));
+      else this.mapWrite(bAddr, this.read8(la));
+      if (indirect) this.das[ch] = (this.das[ch] + 1) & 0xffff;
+      else this.a2a[ch] = (this.a2a[ch] + 1) & 0xffff;
     }
   }
 
@@ -859,7 +1235,7 @@ export class SNESBus implements IMemoryBus {
     try {
       // @ts-ignore
       const env = (globalThis as any).process?.env ?? {};
-      const enabled = env.TRACE_TRAMP === '1' || env.TRACE_TRAMP === 'true';
+      const enabled = wramWatchOn(env, 'TRACE_TRAMP');
       if (enabled && this.logCount < this.logLimit) {
         const lp: any = (globalThis as any).__lastPC || {};
         const pcInfo = this.logPc ? ` [PC=${((lp.PBR ?? 0) & 0xff).toString(16).padStart(2,'0')}:${((lp.PC ?? 0) & 0xffff).toString(16).padStart(4,'0')}]` : '';
@@ -885,6 +1261,12 @@ export class SNESBus implements IMemoryBus {
       this.wram[this.wramIndex(bank, off)] = value & 0xff;
       return;
     }
+    // Battery-backed cartridge SRAM
+    const sramIdx = this.sramIndex(bank, off);
+    if (sramIdx >= 0) {
+      this.cart.sram![sramIdx] = value & 0xff;
+      return;
+    }
     // Low WRAM mirrors in banks 00-3F and 80-BF at $0000-$1FFF
     if (((bank <= 0x3f) || (bank >= 0x80 && bank <= 0xbf)) && off < 0x2000) {
       // Optional stack write watch: logs writes to specific stack addresses (bank 00)
@@ -901,25 +1283,25 @@ export class SNESBus implements IMemoryBus {
       try {
         // @ts-ignore
         const env = (globalThis as any).process?.env ?? {};
-        if ((env.DP12_WATCH === '1') && (off === 0x0012 || off === 0x0013)) {
+        if (wramWatchOn(env, 'DP12_WATCH') && (off === 0x0012 || off === 0x0013)) {
           const lp: any = (globalThis as any).__lastPC || {};
           const pcStr = `${((lp.PBR ?? 0) & 0xff).toString(16).padStart(2,'0')}:${((lp.PC ?? 0) & 0xffff).toString(16).padStart(4,'0')}`;
           // eslint-disable-next-line no-console
           console.log(`[DP12:WRITE] ${bank.toString(16).padStart(2,'0')}:${off.toString(16).padStart(4,'0')} <- ${value.toString(16).padStart(2,'0')} [PC=${pcStr}]`);
         }
-        if (env.DP18_WATCH === '1' && (off === 0x0018 || off === 0x0019)) {
+        if (wramWatchOn(env, 'DP18_WATCH') && (off === 0x0018 || off === 0x0019)) {
           const lp: any = (globalThis as any).__lastPC || {};
           const pcStr = `${((lp.PBR ?? 0) & 0xff).toString(16).padStart(2,'0')}:${((lp.PC ?? 0) & 0xffff).toString(16).padStart(4,'0')}`;
           // eslint-disable-next-line no-console
           console.log(`[DP18:WRITE] ${bank.toString(16).padStart(2,'0')}:${off.toString(16).padStart(4,'0')} <- ${value.toString(16).padStart(2,'0')} [PC=${pcStr}]`);
         }
-        if (env.DP21_WATCH === '1' && (off === 0x0021 || off === 0x0022)) {
+        if (wramWatchOn(env, 'DP21_WATCH') && (off === 0x0021 || off === 0x0022)) {
           const lp: any = (globalThis as any).__lastPC || {};
           const pcStr = `${((lp.PBR ?? 0) & 0xff).toString(16).padStart(2,'0')}:${((lp.PC ?? 0) & 0xffff).toString(16).padStart(4,'0')}`;
           // eslint-disable-next-line no-console
           console.log(`[DP21:WRITE] ${bank.toString(16).padStart(2,'0')}:${off.toString(16).padStart(4,'0')} <- ${value.toString(16).padStart(2,'0')} [PC=${pcStr}]`);
         }
-        if (env.DP_WATCH_C2 === '1' && off === 0x00c2) {
+        if (wramWatchOn(env, 'DP_WATCH_C2') && off === 0x00c2) {
           const lp: any = (globalThis as any).__lastPC || {};
           const pcStr = `${((lp.PBR ?? 0) & 0xff).toString(16).padStart(2,'0')}:${((lp.PC ?? 0) & 0xffff).toString(16).padStart(4,'0')}`;
           // eslint-disable-next-line no-console
@@ -1196,6 +1578,10 @@ export class SNESBus implements IMemoryBus {
         case 0x4: this.a1b[ch] = value & 0xff; break;       // A1B
         case 0x5: this.das[ch] = (this.das[ch] & 0xff00) | value; break; // DAS low
         case 0x6: this.das[ch] = (this.das[ch] & 0x00ff) | (value << 8); break; // DAS high
+        case 0x7: this.dasb[ch] = value & 0xff; break;      // DASB (HDMA indirect bank)
+        case 0x8: this.a2a[ch] = (this.a2a[ch] & 0xff00) | value; break; // A2A low
+        case 0x9: this.a2a[ch] = (this.a2a[ch] & 0x00ff) | (value << 8); break; // A2A high
+        case 0xa: this.nltr[ch] = value & 0xff; break;      // NLTR
         // Others ignored for now
       }
       return;
@@ -1206,6 +1592,20 @@ export class SNESBus implements IMemoryBus {
       this.nmitimen = value & 0xff;
       // Clear auto-joy latch state when toggling
       this.joyAutoLatched = false;
+      // Disabling the H/V timer also acknowledges a pending timer IRQ
+      if ((value & 0x30) === 0) this.timeUp = 0;
+      return;
+    }
+
+    // HTIME/VTIME $4207-$420A (9-bit compare positions)
+    if (off === 0x4207) { this.htime = (this.htime & 0x100) | (value & 0xff); return; }
+    if (off === 0x4208) { this.htime = (this.htime & 0x0ff) | ((value & 0x01) << 8); return; }
+    if (off === 0x4209) { this.vtime = (this.vtime & 0x100) | (value & 0xff); return; }
+    if (off === 0x420a) { this.vtime = (this.vtime & 0x0ff) | ((value & 0x01) << 8); return; }
+
+    // WRIO $4201: bit7 drives the PPU counter latch pin (1 -> 0 latches H/V)
+    if (off === 0x4201) {
+      (this.ppu as any).setLatchEnable?.((value & 0x80) !== 0);
       return;
     }
 
@@ -1243,31 +1643,44 @@ export class SNESBus implements IMemoryBus {
 
     // MDMAEN $420B
     if (off === 0x420b) {
-      // Debug: log current VRAM address before DMA
-      const ppuAny = this.ppu as any;
-      console.log(`DMA triggered (MDMAEN=$${(value & 0xff).toString(16).padStart(2,'0')}), current VRAM addr=0x${(ppuAny.vaddr || 0).toString(16).padStart(4,'0')}`);
       this.performMDMA(value & 0xff);
       return;
     }
 
-    // TODO: Other MMIO, SRAM, etc.
+    // MEMSEL $420D: FastROM timing for banks 80-FF
+    if (off === 0x420d) {
+      this.memsel = value & 0x01;
+      this.rebuildMemoryMap();
+      return;
+    }
+
+    // HDMAEN $420C: channels take part from the next frame-start table initialisation
+    if (off === 0x420c) {
+      this.hdmaen = value & 0xff;
+      return;
+    }
+
+    // TODO: Other MMIO, etc.
   }
 
   read8(addr: number): Byte {
-    const v = this.mapRead(addr & 0xffffff) & 0xff;
+    const v = this.memMap.read8(addr & 0xffffff) & 0xff;
     this.lastBusVal = v;
     return v;
   }
 
   read16(addr: number): Word {
     const a = addr & 0xffffff;
-    const lo = this.read8(a) & 0xff;
-    const hi = this.read8((a + 1) & 0xffffff) & 0xff;
+    const lo = this.memMap.read8(a) & 0xff;
+    this.lastBusVal = lo;
+    const hi = this.memMap.read8((a + 1) & 0xffffff) & 0xff;
+    this.lastBusVal = hi;
     return (hi << 8) | lo;
   }
 
   write8(addr: number, value: Byte): void {
-    this.mapWrite(addr & 0xffffff, value & 0xff);
+    this.lastBusVal = value & 0xff;
+    this.memMap.write8(addr & 0xffffff, value & 0xff);
   }
 
   write16(addr: number, value: Word): void {
@@ -1281,7 +1694,44 @@ export class SNESBus implements IMemoryBus {
     return (this.nmitimen & 0x80) !== 0;
   }
 
-  // Allow emulator to register a callback for VBlank start (scanline 224)
+  // Level of the CPU IRQ line; the CPU samples it between instructions.
+  public isIRQAsserted(): boolean {
+    return this.timeUp !== 0;
+  }
+
+  // Advance the H/V timer comparator to H position `hdot` on the PPU's current scanline.
+  // Fires when the counter reaches the compare point since the previous call:
+  //  - H-IRQ  ($4200 bits 4-5 = 01): H == HTIME on every line
+  //  - V-IRQ  (10): V == VTIME at H == 0
+  //  - HV-IRQ (11): V == VTIME and H == HTIME
+  public updateHVTimer(hdot: number): void {
+    // A dot-driven PPU follows the same H position, so $2137 latches where the CPU is
+    (this.ppu as any).setHCounter?.(hdot);
+    const line = this.ppu.scanline;
+    if (line !== this.hvLastLine) {
+      this.hvLastLine = line;
+      this.hvLastDot = -1;
+    }
+    const prev = this.hvLastDot;
+    if (hdot <= prev) return;
+    this.hvLastDot = hdot;
+    const mode = (this.nmitimen >>> 4) & 0x03;
+    if (mode === 0) return;
+    const crossed = (h: number) => h < NTSC.dotsPerLine && prev < h && h <= hdot;
+    let fire = false;
+    if (mode === 1) fire = crossed(this.htime);
+    else if (mode === 2) fire = line === this.vtime && crossed(0);
+    else fire = line === this.vtime && crossed(this.htime);
+    if (fire) this.timeUp = 1;
+  }
+
+  // First VBlank line from the PPU (overscan-aware); injected PPUs without it use the NTSC default
+  private vblankStartLine(): number {
+    const ppuAny = this.ppu as any;
+    return typeof ppuAny.vblankStartLine === 'function' ? ppuAny.vblankStartLine() : NTSC.vblankStartLine;
+  }
+
+  // Allow emulator to register a callback for VBlank start (scanline 224, or 240 with overscan)
   public setVBlankCallback(cb: (() => void) | null): void {
     this.onVBlankStart = cb ?? null;
   }
@@ -1291,6 +1741,11 @@ export class SNESBus implements IMemoryBus {
     this.onHBlankChange = cb ?? null;
   }
 
+  // Opt-in DMA tracing; null turns it off
+  public setDMATraceCallback(cb: ((e: DMATraceEvent) => void) | null): void {
+    this.onDMATrace = cb ?? null;
+  }
+
   // Instruction-based synthetic timing tick (CPU-only compare helper)
   public tickInstr(count: number = 1): void {
     if (!this.simTimingEnabled) return;
@@ -1298,6 +1753,7 @@ export class SNESBus implements IMemoryBus {
     if (!this.simFrameStarted) {
       this.ppu.startFrame();
       this.simFrameStarted = true;
+      this.hdmaInit();
       this.simInstrInScanline = 0;
       const prevHb = this.ppu.hblank;
       this.ppu.hblank = false;
@@ -1312,20 +1768,24 @@ export class SNESBus implements IMemoryBus {
       const newHb = !(this.simInstrInScanline <= visibleInstr);
       if (newHb !== this.ppu.hblank) {
         this.ppu.hblank = newHb;
+        if (newHb && this.ppu.scanline < this.vblankStartLine()) this.hdmaStep();
         try { if (this.onHBlankChange) this.onHBlankChange(this.ppu.hblank, this.ppu.scanline); } catch { /* noop */ }
       }
+      this.updateHVTimer(Math.floor(this.simInstrInScanline * NTSC.dotsPerLine / Math.max(1, this.simInstrPerScanline)));
       // End of scanline
       if (this.simInstrInScanline >= this.simInstrPerScanline) {
         const prevScanline = this.ppu.scanline;
+        const vblankStart = this.vblankStartLine();
         this.ppu.endScanline();
         this.simInstrInScanline = 0;
+        if (this.ppu.scanline === 0) this.hdmaInit();
         // Leaving HBlank at end-of-line for next scanline
         if (this.ppu.hblank) {
           this.ppu.hblank = false;
           try { if (this.onHBlankChange) this.onHBlankChange(this.ppu.hblank, this.ppu.scanline); } catch { /* noop */ }
         }
         // VBlank start: set RDNMI latch regardless of enable; scheduler would also deliver CPU NMI
-        if (prevScanline === 223 && this.ppu.scanline === 224) {
+        if (prevScanline === vblankStart - 1 && this.ppu.scanline === vblankStart) {
           this.nmiOccurred = 1;
           // Auto-joypad latch when enabled
           if ((this.nmitimen & 0x01) !== 0) this.autoJoypadRead();
@@ -1365,6 +1825,7 @@ export class SNESBus implements IMemoryBus {
     if (!this.simFrameStarted) {
       this.ppu.startFrame();
       this.simFrameStarted = true;
+      this.hdmaInit();
       this.simCyclesInScanline = 0;
       const prevHb = this.ppu.hblank;
       this.ppu.hblank = false;
@@ -1373,36 +1834,58 @@ export class SNESBus implements IMemoryBus {
       }
     }
     let c = Math.max(0, count|0);
-    while (c-- > 0) {
-      this.simCyclesInScanline++;
-      const visible = Math.max(0, this.simCyclesPerScanline - this.simHBlankCycles);
-      const newHb = this.simCyclesInScanline > visible;
-      if (newHb !== this.ppu.hblank) {
-        this.ppu.hblank = newHb;
+    // The CPU is stalled while DMA/HDMA hold the bus: once the requested cycles have passed, keep the
+    // clock running through pending stall and the rest of a timed DMA (not from inside a nested call)
+    const drain = this.dmaTimed && !this.stallDraining;
+    if (drain) this.stallDraining = true;
+    try {
+      for (;;) {
+        if (c > 0) c--;
+        else if (!drain) break;
+        else if (this.stallCycles > 0) this.stallCycles--;
+        else if (this.dmaActive !== 0) { this.stallCycles = this.dmaStep(); continue; }
+        else break;
+        this.simCycle();
+      }
+    } finally {
+      if (drain) this.stallDraining = false;
+    }
+  }
+
+  // Advance the cycle-based synthetic timing by one master cycle
+  private simCycle(): void {
+    this.simCyclesInScanline++;
+    const visible = Math.max(0, this.simCyclesPerScanline - this.simHBlankCycles);
+    const newHb = this.simCyclesInScanline > visible;
+    if (newHb !== this.ppu.hblank) {
+      this.ppu.hblank = newHb;
+      if (newHb && this.ppu.scanline < this.vblankStartLine()) this.hdmaStep();
+      try { if (this.onHBlankChange) this.onHBlankChange(this.ppu.hblank, this.ppu.scanline); } catch { /* noop */ }
+    }
+    this.updateHVTimer(Math.floor(this.simCyclesInScanline * NTSC.dotsPerLine / Math.max(1, this.simCyclesPerScanline)));
+    if (this.simCyclesInScanline >= this.simCyclesPerScanline) {
+      const prevScanline = this.ppu.scanline;
+      const vblankStart = this.vblankStartLine();
+      this.ppu.endScanline();
+      this.simCyclesInScanline = 0;
+      if (this.ppu.scanline === 0) this.hdmaInit();
+      // Leaving HBlank at end-of-line for next scanline
+      if (this.ppu.hblank) {
+        this.ppu.hblank = false;
         try { if (this.onHBlankChange) this.onHBlankChange(this.ppu.hblank, this.ppu.scanline); } catch { /* noop */ }
       }
-      if (this.simCyclesInScanline >= this.simCyclesPerScanline) {
-        const prevScanline = this.ppu.scanline;
-        this.ppu.endScanline();
-        this.simCyclesInScanline = 0;
-        // Leaving HBlank at end-of-line for next scanline
-        if (this.ppu.hblank) {
-          this.ppu.hblank = false;
-          try { if (this.onHBlankChange) this.onHBlankChange(this.ppu.hblank, this.ppu.scanline); } catch { /* noop */ }
-        }
-        if (prevScanline === 223 && this.ppu.scanline === 224) {
-          // Latch NMI and invoke optional callback for delivery
-          this.nmiOccurred = 1;
-          // Auto-joypad latch when enabled
-          if ((this.nmitimen & 0x01) !== 0) this.autoJoypadRead();
-          try { if (this.onVBlankStart) this.onVBlankStart(); } catch { /* noop */ }
-        }
-        // Step APU per scanline in sim timing modes (mirror scheduler behavior)
-        try {
-          const busAny = this as any;
-          if (typeof busAny.stepApuScanline === 'function') busAny.stepApuScanline();
-        } catch { /* noop */ }
+      if (prevScanline === vblankStart - 1 && this.ppu.scanline === vblankStart) {
+        // Latch NMI and invoke optional callback for delivery
+        this.nmiOccurred = 1;
+        // Auto-joypad latch when enabled
+        if ((this.nmitimen & 0x01) !== 0) this.autoJoypadRead();
+        try { if (this.onVBlankStart) this.onVBlankStart(); } catch { /* noop */ }
       }
+      // Step APU per scanline in sim timing modes (mirror scheduler behavior)
+      try {
+        const busAny = this as any;
+        if (typeof busAny.stepApuScanline === 'function') busAny.stepApuScanline();
+      } catch { /* noop */ }
     }
   }
 
@@ -1,4 +1,6 @@
-export type Mapping = 'lorom' | 'hirom';
+// ExLoROM/ExHiROM extend LoROM/HiROM past 4MiB: the first 4MiB sit in banks $80-$FF and the
+// remainder in banks $00-$7D.
+export type Mapping = 'lorom' | 'hirom' | 'exlorom' | 'exhirom';
 
 export class Cartridge {
   readonly rom: Uint8Array;
@@ -10,5 +12,16 @@ export class Cartridge {
     this.mapping = params.mapping ?? 'lorom';
     this.sram = params.sramBytes && params.sramBytes > 0 ? new Uint8Array(params.sramBytes) : null;
   }
-}
 
+  // Snapshot of battery-backed SRAM in raw .srm layout (empty when the cart has none)
+  exportSRAM(): Uint8Array {
+    return this.sram ? this.sram.slice() : new Uint8Array(0);
+  }
+
+  // Restore SRAM from a .srm image. Shorter images leave the tail zeroed; longer ones are truncated.
+  importSRAM(data: Uint8Array): void {
+    if (!this.sram) return;
+    this.sram.fill(0);
+    this.sram.set(data.subarray(0, this.sram.length));
+  }
+}
@@ -1,38 +1,214 @@
-export type Mapping = 'lorom' | 'hirom';
+import type { Mapping } from './cartridge';
+
+export type { Mapping };
 
 function readLE16(rom: Uint8Array, off: number): number {
   return (rom[off] | (rom[off + 1] << 8)) & 0xffff;
 }
 
+// Header field offsets relative to the header base ($xxFFC0 / $xx7FC0)
+const H_TITLE = 0x00;
+const H_MAP_MODE = 0x15;
+const H_CART_TYPE = 0x16;
+const H_ROM_SIZE = 0x17;
+const H_SRAM_SIZE = 0x18;
+const H_REGION = 0x19;
+const H_DEVELOPER = 0x1a;
+const H_VERSION = 0x1b;
+const H_COMPLEMENT = 0x1c;
+const H_CHECKSUM = 0x1e;
+const H_RESET_VECTOR = 0x3c; // emulation-mode RESET at $FFFC
+
+// Candidate header locations in detection order; ties keep the earlier entry.
+// The extended layouts only fit in ROMs over 4MiB, where they get a bonus over the
+// (usually mirrored or garbage) standard locations.
+const CANDIDATES: readonly { mapping: Mapping; offset: number; mapMode: number; bonus: number }[] = [
+  { mapping: 'lorom', offset: 0x7fc0, mapMode: 0x20, bonus: 0 },
+  { mapping: 'hirom', offset: 0xffc0, mapMode: 0x21, bonus: 0 },
+  { mapping: 'exlorom', offset: 0x407fc0, mapMode: 0x22, bonus: 4 },
+  { mapping: 'exhirom', offset: 0x40ffc0, mapMode: 0x25, bonus: 4 },
+];
+
+// First instructions seen at real reset vectors (weights follow bsnes' heuristics)
+const LIKELY_RESET_OPS = new Set([0x78, 0x18, 0x38, 0x9c, 0x4c, 0x5c]); // sei clc sec stz jmp jml
+const PLAUSIBLE_RESET_OPS = new Set([0xc2, 0xe2, 0xad, 0xae, 0xac, 0xaf, 0xa9, 0xa2, 0xa0, 0x20, 0x22]);
+const UNLIKELY_RESET_OPS = new Set([0x40, 0x60, 0x6b, 0xcd, 0xec, 0xcc]); // returns, compares
+const IMPLAUSIBLE_RESET_OPS = new Set([0x00, 0x02, 0xdb, 0x42, 0xff]); // brk cop stp wdm sbc long
+
+// Score how plausible it is that a valid header lives at `offset`.
+// Returns -Infinity when the ROM is too small to hold it.
+export function scoreHeader(rom: Uint8Array, offset: number, expectedMapMode: number): number {
+  if (rom.length < offset + 0x40) return -Infinity;
+  let score = 0;
+
+  const resetVector = readLE16(rom, offset + H_RESET_VECTOR);
+  if (resetVector < 0x8000) {
+    // Reset must land in the ROM half of bank 00
+    score -= 4;
+  } else {
+    const opAddr = (offset & ~0x7fff) | (resetVector & 0x7fff);
+    const op = rom[opAddr] ?? 0;
+    if (LIKELY_RESET_OPS.has(op)) score += 8;
+    else if (PLAUSIBLE_RESET_OPS.has(op)) score += 4;
+    else if (UNLIKELY_RESET_OPS.has(op)) score -= 4;
+    else if (IMPLAUSIBLE_RESET_OPS.has(op)) score -= 8;
+  }
+
+  const complement = readLE16(rom, offset + H_COMPLEMENT);
+  const checksum = readLE16(rom, offset + H_CHECKSUM);
+  if (((complement ^ checksum) & 0xffff) === 0xffff) score += 4;
+
+  // Map mode byte agrees with the location (ignoring the FastROM bit)
+  if ((rom[offset + H_MAP_MODE] & ~0x10) === expectedMapMode) score += 2;
+
+  // Remaining fields within their documented ranges
+  if ((rom[offset + H_CART_TYPE] & 0x0f) < 0x07) score++;
+  if (rom[offset + H_ROM_SIZE] < 0x10) score++;
+  if (rom[offset + H_SRAM_SIZE] < 0x09) score++;
+  if (rom[offset + H_REGION] < 0x15) score++;
+
+  return score;
+}
+
+function detectCandidate(rom: Uint8Array): (typeof CANDIDATES)[number] {
+  let best = CANDIDATES[0]!;
+  let bestScore = -Infinity;
+  for (const c of CANDIDATES) {
+    const s = scoreHeader(rom, c.offset, c.mapMode) + c.bonus;
+    if (s > bestScore) {
+      best = c;
+      bestScore = s;
+    }
+  }
+  return best;
+}
+
 export function detectMapping(rom: Uint8Array): Mapping {
-  const loOff = 0x7fc0;
-  const hiOff = 0xffc0;
-  const score = (off: number): number => {
-    if (rom.length < off + 0x50) return 0;
-    const complement = readLE16(rom, off + 0x1c);
-    const checksum = readLE16(rom, off + 0x1e);
-    if (((complement ^ checksum) & 0xffff) === 0xffff) return 2;
-    return 0;
-  };
-  const loScore = score(loOff);
-  const hiScore = score(hiOff);
-  if (hiScore > loScore) return 'hirom';
-  return 'lorom';
+  return detectCandidate(rom).mapping;
+}
+
+export type Coprocessor =
+  | 'none' | 'dsp' | 'superfx' | 'obc1' | 'sa1' | 'sdd1' | 'srtc'
+  | 'spc7110' | 'st010' | 'st018' | 'cx4' | 'unknown';
+
+export type VideoStandard = 'ntsc' | 'pal';
+
+// Extended header at base-$10, present when the developer ID is $33
+export interface ExtendedHeader {
+  makerCode: string;        // $FFB0-$FFB1
+  gameCode: string;         // $FFB2-$FFB5
+  expansionFlashBytes: number; // $FFBC
+  expansionRamBytes: number;   // $FFBD
+  specialVersion: number;   // $FFBE
+  chipsetSubtype: number;   // $FFBF
 }
 
 export interface ParsedHeader {
   mapping: Mapping;
+  headerOffset: number; // ROM offset of the header base ($xxFFC0 / $xx7FC0)
   checksum: number;
   complement: number;
   title: string;
+  mapMode: number;      // $FFD5 raw
+  fastRom: boolean;     // $FFD5 bit4
+  cartType: number;     // $FFD6 raw
+  coprocessor: Coprocessor;
+  hasBattery: boolean;
+  romBytes: number;     // declared ROM size from $FFD7
+  sramBytes: number;    // battery-backed SRAM size from $FFD8 (0 = none)
+  region: number;       // $FFD9 raw destination code
+  video: VideoStandard;
+  developerId: number;  // $FFDA ($33 = extended header)
+  version: number;      // $FFDB
+  extended: ExtendedHeader | null;
+}
+
+// Header SRAM size byte: 1KiB << n, 0 means no SRAM. Values beyond 8 (256KiB) are treated as bogus.
+export function sramBytesFromHeader(sizeByte: number): number {
+  const n = sizeByte & 0xff;
+  if (n === 0 || n > 0x08) return 0;
+  return 0x400 << n;
+}
+
+// Header ROM size byte: 1KiB << n (so $0C = 4MiB). Out-of-range values yield 0.
+export function romBytesFromHeader(sizeByte: number): number {
+  const n = sizeByte & 0xff;
+  if (n === 0 || n > 0x0e) return 0;
+  return 0x400 << n;
+}
+
+function coprocessorFor(cartType: number, chipsetSubtype: number): Coprocessor {
+  if ((cartType & 0x0f) < 0x03) return 'none';
+  switch ((cartType >>> 4) & 0x0f) {
+    case 0x0: return 'dsp';
+    case 0x1: return 'superfx';
+    case 0x2: return 'obc1';
+    case 0x3: return 'sa1';
+    case 0x4: return 'sdd1';
+    case 0x5: return 'srtc';
+    case 0xf:
+      // Custom chips are told apart by the extended header subtype
+      switch (chipsetSubtype) {
+        case 0x00: return 'spc7110';
+        case 0x01: return 'st010';
+        case 0x02: return 'st018';
+        case 0x10: return 'cx4';
+        default: return 'unknown';
+      }
+    default: return 'unknown';
+  }
+}
+
+// Destination codes $02-$0C are PAL territories; the rest are NTSC
+function videoForRegion(region: number): VideoStandard {
+  return region >= 0x02 && region <= 0x0c ? 'pal' : 'ntsc';
+}
+
+function decodeAscii(bytes: Uint8Array): string {
+  return new TextDecoder('ascii', { fatal: false }).decode(bytes).replace(/\u0000/g, '').trim();
 }
 
 export function parseHeader(rom: Uint8Array): ParsedHeader {
-  const mapping = detectMapping(rom);
-  const base = mapping === 'lorom' ? 0x7fc0 : 0xffc0;
-  const titleBytes = rom.slice(base, base + 21);
-  const title = new TextDecoder('ascii', { fatal: false }).decode(titleBytes).replace(/\u0000/g, '').trim();
-  const complement = readLE16(rom, base + 0x1c);
-  const checksum = readLE16(rom, base + 0x1e);
-  return { mapping, checksum, complement, title };
+  const { mapping, offset: base } = detectCandidate(rom);
+  const byte = (rel: number) => rom[base + rel] ?? 0;
+  const title = decodeAscii(rom.slice(base + H_TITLE, base + H_TITLE + 21));
+  const complement = readLE16(rom, base + H_COMPLEMENT);
+  const checksum = readLE16(rom, base + H_CHECKSUM);
+  const mapMode = byte(H_MAP_MODE);
+  const cartType = byte(H_CART_TYPE);
+  const developerId = byte(H_DEVELOPER);
+
+  let extended: ExtendedHeader | null = null;
+  if (developerId === 0x33 && base >= 0x10) {
+    const ext = base - 0x10;
+    extended = {
+      makerCode: decodeAscii(rom.slice(ext, ext + 2)),
+      gameCode: decodeAscii(rom.slice(ext + 2, ext + 6)),
+      expansionFlashBytes: romBytesFromHeader(rom[ext + 0x0c] ?? 0),
+      expansionRamBytes: romBytesFromHeader(rom[ext + 0x0d] ?? 0),
+      specialVersion: rom[ext + 0x0e] ?? 0,
+      chipsetSubtype: rom[ext + 0x0f] ?? 0,
+    };
+  }
+
+  const battery = cartType & 0x0f;
+  return {
+    mapping,
+    headerOffset: base,
+    checksum,
+    complement,
+    title,
+    mapMode,
+    fastRom: (mapMode & 0x10) !== 0,
+    cartType,
+    coprocessor: coprocessorFor(cartType, extended?.chipsetSubtype ?? 0),
+    hasBattery: battery === 0x02 || battery === 0x05 || battery === 0x06,
+    romBytes: romBytesFromHeader(byte(H_ROM_SIZE)),
+    sramBytes: sramBytesFromHeader(byte(H_SRAM_SIZE)),
+    region: byte(H_REGION),
+    video: videoForRegion(byte(H_REGION)),
+    developerId,
+    version: byte(H_VERSION),
+    extended,
+  };
 }
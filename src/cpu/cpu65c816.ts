@@ -88,8 +88,10 @@ export class CPU65C816 {
     } catch { return false; }
   }
   private accessCycles(bank: number, addr: number, isWrite: boolean): number {
-    // More granular heuristic costs (in SNES master cycles) — tunable via env
-    // These are placeholders for a future accurate model; defaults are conservative.
+    // Buses with a timing model (SNESBus: per-page speeds, FastROM via MEMSEL) decide the cost
+    const busCycles = this.bus.accessCycles?.(((bank & 0xff) << 16) | (addr & 0xffff));
+    if (busCycles !== undefined) return busCycles;
+    // Otherwise heuristic costs (in SNES master cycles), tunable via env
     const env = (globalThis as any).process?.env ?? {};
     const romC = Number(env.CPU_ROM_CYC ?? '6') | 0;      // ROM fetch/data
     const wramC = Number(env.CPU_WRAM_CYC ?? '6') | 0;    // WRAM general
@@ -1026,6 +1028,16 @@ export class CPU65C816 {
   stepInstruction(): void {
     // If CPU is stopped, do nothing (halt)
     if (this.stopped) return;
+    // The IRQ line is level-triggered: sample it between instructions. An asserted line
+    // releases WAI even when I=1; it is only serviced when I=0.
+    const busIrq = this.bus as IMemoryBus & { isIRQAsserted?: () => boolean };
+    if (busIrq.isIRQAsserted?.()) {
+      this.waitingForInterrupt = false;
+      if ((this.state.P & Flag.I) === 0) {
+        this.irq();
+        return;
+      }
+    }
     // If in WAI (wait for interrupt), do nothing until an interrupt occurs
     if (this.waitingForInterrupt) return;
 
@@ -1,12 +1,13 @@
 import { CPU65C816 } from '../cpu/cpu65c816';
-import { SNESBus } from '../bus/snesBus';
+import { SNESBus, SNESBusOptions } from '../bus/snesBus';
 import { Cartridge } from '../cart/cartridge';
 import { MasterClock } from './masterClock';
 
 export class Emulator {
   constructor(public readonly bus: SNESBus, public readonly cpu: CPU65C816) {}
-  static fromCartridge(cart: Cartridge): Emulator {
-    const bus = new SNESBus(cart);
+  // opts.ppu picks the PPU for this instance ('timing' for the dot-driven TimingPPU)
+  static fromCartridge(cart: Cartridge, opts: SNESBusOptions = {}): Emulator {
+    const bus = new SNESBus(cart, opts);
     const cpu = new CPU65C816(bus);
     const emu = new Emulator(bus, cpu);
     // Optionally auto-deliver NMI to CPU at VBlank start in synthetic timing modes.
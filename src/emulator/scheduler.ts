@@ -1,4 +1,5 @@
 import { Emulator } from './core';
+import { NTSC } from '../timing/ntsc';
 
 export type CpuErrorMode = 'ignore' | 'throw' | 'record';
 
@@ -6,11 +7,16 @@ export interface SchedulerOptions {
   instrPerScanline?: number;
   onCpuError?: CpuErrorMode;
   traceEveryInstr?: number; // if >0, log CPU state every N instructions
+  dmaTiming?: boolean; // default true: $420B DMA takes bus time and stalls the CPU instead of completing at once
 }
 
+// Master cycles per scanline, shared out evenly between the scanline's instruction slots
+const MASTER_CYCLES_PER_LINE = 1364;
+
 // Very simple deterministic scheduler for tests: not cycle accurate.
 // - stepScanline: executes N CPU instructions and signals PPU end-of-scanline
 // - stepFrame: repeats scanlines for 262 lines
+// While DMA/HDMA stall the CPU, an instruction slot is spent on bus time instead of an instruction.
 export class Scheduler {
   private instrPerScanline: number;
   private onCpuError: CpuErrorMode;
@@ -24,11 +30,30 @@ export class Scheduler {
     this.instrPerScanline = opts.instrPerScanline ?? instrPerScanline;
     this.onCpuError = opts.onCpuError ?? 'ignore';
     this.traceEveryInstr = Math.max(0, opts.traceEveryInstr ?? 0) | 0;
+    const busAny = emu.bus as any;
+    if (typeof busAny.setDMATiming === 'function') busAny.setDMATiming(opts.dmaTiming ?? true);
+  }
+
+  // One instruction slot: run the CPU, or let the slot's share of the scanline pass as DMA/HDMA stall
+  private stepSlot(busAny: any): boolean {
+    if (typeof busAny.isCPUStalled === 'function' && busAny.isCPUStalled()) {
+      busAny.runStall(Math.round(MASTER_CYCLES_PER_LINE / this.instrPerScanline));
+      return false;
+    }
+    this.emu.stepInstruction();
+    return true;
   }
 
   stepScanline(): void {
     const ppu = this.emu.bus.getPPU();
     const prevScanline = ppu.scanline;
+    const vblankStart: number = (ppu as any).vblankStartLine?.() ?? NTSC.vblankStartLine; // 240 with overscan
+    const busAny = this.emu.bus as any;
+
+    // HDMA tables are reloaded at the start of every frame
+    if (prevScanline === 0 && typeof busAny.hdmaInit === 'function') {
+      busAny.hdmaInit();
+    }
 
     // Coarse HBlank window: last ~1/8th of the scanline
     const hblankInstr = Math.max(1, Math.floor(this.instrPerScanline / 8));
@@ -38,7 +63,8 @@ export class Scheduler {
     ppu.hblank = false;
     for (let i = 0; i < visibleInstr; i++) {
       try {
-        this.emu.stepInstruction();
+        this.updateHVTimer(busAny, i);
+        if (!this.stepSlot(busAny)) continue;
         this.execCount++;
         if (this.traceEveryInstr > 0 && (this.execCount % this.traceEveryInstr) === 0) {
           const s = (this.emu.cpu as any).state ?? {};
@@ -58,9 +84,14 @@ export class Scheduler {
     // HBlank part
     if (!this.lastCpuError) {
       ppu.hblank = true;
+      // HDMA transfers happen at the start of HBlank on visible lines
+      if (prevScanline < vblankStart && typeof busAny.hdmaStep === 'function') {
+        busAny.hdmaStep();
+      }
       for (let i = 0; i < hblankInstr; i++) {
         try {
-          this.emu.stepInstruction();
+          this.updateHVTimer(busAny, visibleInstr + i);
+          if (!this.stepSlot(busAny)) continue;
           this.execCount++;
           if (this.traceEveryInstr > 0 && (this.execCount % this.traceEveryInstr) === 0) {
             const s = (this.emu.cpu as any).state ?? {};
@@ -77,6 +108,9 @@ export class Scheduler {
       }
     }
 
+    // Let the H/V timer see the remainder of the line before it ends
+    if (typeof busAny.updateHVTimer === 'function') busAny.updateHVTimer(NTSC.dotsPerLine);
+
     // After executing, clear hblank and advance scanline
     ppu.hblank = false;
 
@@ -84,14 +118,13 @@ export class Scheduler {
     ppu.endScanline();
 
     // Advance APU stub per scanline if available
-    const busAny = this.emu.bus as any;
     if (typeof busAny.stepApuScanline === 'function') {
       busAny.stepApuScanline();
     }
 
-    // Detect VBlank start transition (223 -> 224) and set RDNMI latch every frame.
+    // Detect VBlank start transition (223 -> 224, or 239 -> 240 with overscan) and set RDNMI latch every frame.
     // Always pulse the bus latch so $4210 bit7 toggles regardless of NMI enable.
-    if (prevScanline === 223 && ppu.scanline === 224) {
+    if (prevScanline === vblankStart - 1 && ppu.scanline === vblankStart) {
       if (!this.nmiFiredThisFrame) {
         if (typeof (this.emu.bus as any).pulseNMI === 'function') {
           (this.emu.bus as any).pulseNMI();
@@ -112,6 +145,12 @@ export class Scheduler {
     }
   }
 
+  // Map the instruction index within the scanline to an H position for the H/V timer IRQ
+  private updateHVTimer(busAny: any, instrIndex: number): void {
+    if (typeof busAny.updateHVTimer !== 'function') return;
+    busAny.updateHVTimer(Math.floor(instrIndex * NTSC.dotsPerLine / this.instrPerScanline));
+  }
+
   stepFrame(): void {
     this.lastCpuError = undefined;
     const ppu = this.emu.bus.getPPU();
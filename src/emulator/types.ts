@@ -7,6 +7,7 @@ export interface IMemoryBus {
   read16(addr: number): Word;
   write8(addr: number, value: Byte): void;
   write16(addr: number, value: Word): void;
+  accessCycles?(addr: number): number; // master cycles per CPU access, on buses that model them
 }
 
 export interface IClocked {
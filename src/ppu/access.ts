@@ -0,0 +1,33 @@
+// VRAM/OAM/CGRAM port access while the PPU is drawing. On hardware VRAM only accepts writes during
+// VBlank or forced blank, OAM is busy with sprite evaluation on every visible line, and CGRAM is read
+// for every pixel outside HBlank.
+export type PPUPort = 'vram' | 'oam' | 'cgram';
+
+export interface PPUAccessViolation {
+  port: PPUPort;
+  reg: number;      // $2104, $2118, $2119 or $2122
+  addr: number;     // address the program meant to write (VRAM word, OAM byte, CGRAM byte)
+  value: number;
+  scanline: number;
+  dot: number;      // H position when the PPU tracks it (TimingPPU), else 0
+  pc: number;       // 24-bit PBR:PC of the writing instruction, -1 when unknown
+}
+
+// PC of the instruction being executed, as recorded by the CPU core for MMIO logs
+export function lastCPUPC(): number {
+  const lp = (globalThis as any).__lastPC;
+  return lp ? (((lp.PBR & 0xff) << 16) | (lp.PC & 0xffff)) : -1;
+}
+
+export function formatAccessViolation(v: PPUAccessViolation): string {
+  const hex = (n: number, w: number) => n.toString(16).padStart(w, '0');
+  const pc = v.pc < 0 ? '??:????' : `${hex(v.pc >> 16, 2)}:${hex(v.pc & 0xffff, 4)}`;
+  return `[PPU] ${v.port.toUpperCase()} write $${hex(v.reg, 4)} addr=0x${hex(v.addr, 4)} value=0x${hex(v.value, 2)} ` +
+    `during active display (line ${v.scanline}, dot ${v.dot}) at PC=${pc}`;
+}
+
+// Ready-made hook for PPU.onAccessViolation
+export const warnAccessViolation = (v: PPUAccessViolation): void => {
+  // eslint-disable-next-line no-console
+  console.warn(formatAccessViolation(v));
+};
@@ -1,11 +1,222 @@
 import { PPU } from './ppu';
-import { render4bppTileIndices, render2bppTileIndices } from './renderer';
+import { render4bppTileIndices, renderTileIndices } from './renderer';
+import { OBJLine, renderOBJLine } from './obj';
 import { decodeSNESColorToRGBA } from './palette';
+import { convertBGR555, OutputProfile } from './output';
+import { packProvenance, PROV_CLIPPED, PROV_FIXED, PROV_MATH, PROV_WINDOW_MASKED } from './provenance';
+
+// Color depth of BG1-BG4 for each BG mode (0 = layer not present in that mode).
+// Mode 7's single 8bpp layer is rendered by renderMode7RegionIndices.
+export const BG_MODE_BPP: readonly (readonly number[])[] = [
+  [2, 2, 2, 2], // mode 0
+  [4, 4, 2, 0], // mode 1
+  [4, 4, 0, 0], // mode 2 (offset-per-tile)
+  [8, 4, 0, 0], // mode 3
+  [8, 2, 0, 0], // mode 4 (offset-per-tile)
+  [4, 2, 0, 0], // mode 5 (hi-res)
+  [4, 0, 0, 0], // mode 6 (hi-res, offset-per-tile)
+  [8, 0, 0, 0], // mode 7
+];
+
+export function bgLayerBpp(mode: number, layer: number): number {
+  return BG_MODE_BPP[mode & 7]?.[layer - 1] ?? 0;
+}
+
+// Palette index for a BG tile pixel. 2bpp layers use 4-color palettes, and in mode 0 each BG gets
+// its own 32-color block. 8bpp pixels keep the tilemap palette bits in bits 8-10 for direct color.
+export function bgPaletteIndex(ppu: PPU, layer: number, bpp: number, paletteGroup: number, pix: number): number {
+  if (bpp === 8) return pix | (paletteGroup << 8);
+  if (bpp === 4) return paletteGroup * 16 + pix;
+  return (ppu.bgMode === 0 ? (layer - 1) * 32 : 0) + paletteGroup * 4 + pix;
+}
+
+// Tilemap registers of one BG layer as the renderers use them: $2105 tile size, $2107-$210A map base and
+// screen size, $210B/$210C character base and the scroll registers
+export interface BGLayerRegs {
+  mapBase: number;   // word address of the first 32x32 screen
+  charBase: number;  // word address of tile 0
+  hofs: number;
+  vofs: number;
+  mapWidth: number;  // in tiles: 32 or 64
+  mapHeight: number;
+  tileSize: number;  // 8 or 16 pixels
+}
+
+export function bgLayerRegs(ppu: PPU, layer: number): BGLayerRegs {
+  switch (layer) {
+    case 1:
+      return {
+        mapBase: ppu.bg1MapBaseWord, charBase: ppu.bg1CharBaseWord, hofs: ppu.bg1HOfs, vofs: ppu.bg1VOfs,
+        mapWidth: ppu.bg1MapWidth64 ? 64 : 32, mapHeight: ppu.bg1MapHeight64 ? 64 : 32, tileSize: ppu.bg1TileSize16 ? 16 : 8,
+      };
+    case 2:
+      return {
+        mapBase: ppu.bg2MapBaseWord, charBase: ppu.bg2CharBaseWord, hofs: ppu.bg2HOfs, vofs: ppu.bg2VOfs,
+        mapWidth: ppu.bg2MapWidth64 ? 64 : 32, mapHeight: ppu.bg2MapHeight64 ? 64 : 32, tileSize: ppu.bg2TileSize16 ? 16 : 8,
+      };
+    case 3:
+      return {
+        mapBase: ppu.bg3MapBaseWord, charBase: ppu.bg3CharBaseWord, hofs: ppu.bg3HOfs, vofs: ppu.bg3VOfs,
+        mapWidth: ppu.bg3MapWidth64 ? 64 : 32, mapHeight: ppu.bg3MapHeight64 ? 64 : 32, tileSize: ppu.bg3TileSize16 ? 16 : 8,
+      };
+    default:
+      return {
+        mapBase: ppu.bg4MapBaseWord, charBase: ppu.bg4CharBaseWord, hofs: ppu.bg4HOfs, vofs: ppu.bg4VOfs,
+        mapWidth: ppu.bg4MapWidth64 ? 64 : 32, mapHeight: ppu.bg4MapHeight64 ? 64 : 32, tileSize: ppu.bg4TileSize16 ? 16 : 8,
+      };
+  }
+}
+
+// VRAM word address of tilemap entry (tileX, tileY) within the map. Each 32x32 screen is $400 words and
+// screens follow left to right, then top to bottom: 64x32 and 32x64 maps both put the second at +$400.
+export function bgMapEntryAddr(regs: BGLayerRegs, tileX: number, tileY: number): number {
+  const screen = (tileX >> 5) + (tileY >> 5) * (regs.mapWidth >> 5);
+  return regs.mapBase + screen * 0x400 + (tileY & 31) * 32 + (tileX & 31);
+}
+
+// Direct color (CGWSEL bit0, 8bpp layers): pixel bits BBGGGRRR, tilemap palette bits bgr extend each channel
+export function directColorBGR15(pix: number, paletteGroup: number): number {
+  const r = ((pix & 0x07) << 2) | ((paletteGroup & 0x01) << 1);
+  const g = (((pix >> 3) & 0x07) << 2) | (paletteGroup & 0x02);
+  const b = (((pix >> 6) & 0x03) << 3) | (paletteGroup & 0x04);
+  return (r << 10) | (g << 5) | b;
+}
+
+// Front-to-back layer order per BG mode as [layer, priority]; layer 1-4 = BG1-BG4, 5 = OBJ (priority 0-3)
+const OBJ = 5;
+const LAYER_ORDER_MODE0: readonly (readonly [number, number])[] = [
+  [OBJ, 3], [1, 1], [2, 1], [OBJ, 2], [1, 0], [2, 0], [OBJ, 1], [3, 1], [4, 1], [OBJ, 0], [3, 0], [4, 0],
+];
+const LAYER_ORDER_MODE1: readonly (readonly [number, number])[] = [
+  [OBJ, 3], [1, 1], [2, 1], [OBJ, 2], [1, 0], [2, 0], [OBJ, 1], [3, 1], [OBJ, 0], [3, 0],
+];
+const LAYER_ORDER_MODE1_BG3_PRIORITY: readonly (readonly [number, number])[] = [
+  [3, 1], [OBJ, 3], [1, 1], [2, 1], [OBJ, 2], [1, 0], [2, 0], [OBJ, 1], [OBJ, 0], [3, 0],
+];
+const LAYER_ORDER_MODE2_5: readonly (readonly [number, number])[] = [
+  [OBJ, 3], [1, 1], [OBJ, 2], [2, 1], [OBJ, 1], [1, 0], [OBJ, 0], [2, 0],
+];
+const LAYER_ORDER_MODE6: readonly (readonly [number, number])[] = [
+  [OBJ, 3], [1, 1], [OBJ, 2], [OBJ, 1], [1, 0], [OBJ, 0],
+];
+const LAYER_ORDER_MODE7: readonly (readonly [number, number])[] = [
+  [OBJ, 3], [OBJ, 2], [2, 1], [OBJ, 1], [1, 0], [OBJ, 0], [2, 0],
+];
+
+// Rank table for the current mode: rank[layer * 4 + priority], higher is in front, -1 = never shown
+function layerRanks(ppu: PPU): number[] {
+  let order = LAYER_ORDER_MODE2_5;
+  switch (ppu.bgMode & 7) {
+    case 0: order = LAYER_ORDER_MODE0; break;
+    case 1: order = ppu.bg3Priority ? LAYER_ORDER_MODE1_BG3_PRIORITY : LAYER_ORDER_MODE1; break;
+    case 6: order = LAYER_ORDER_MODE6; break;
+    case 7: order = LAYER_ORDER_MODE7; break;
+  }
+  const ranks = new Array(6 * 4).fill(-1);
+  order.forEach(([layer, pri], i) => { ranks[layer * 4 + pri] = order.length - i; });
+  return ranks;
+}
 
 // Render a 4bpp BG tilemap region into palette indices.
 // - mapBaseWordAddr: VRAM word address of the tilemap base (assumed 32x32 entries)
 // - tileBaseWordAddr: VRAM word address where tile graphics begin
 // - widthTiles, heightTiles: dimensions in tiles of the region to render (<= 32x32)
+// Modes 5/6 render BGs 512 pixels across: tiles are 16 hi-res pixels wide and HOFS counts hi-res pixels.
+export function isHiResBGMode(ppu: PPU): boolean {
+  return ppu.bgMode === 5 || ppu.bgMode === 6;
+}
+
+// True when the frame is output 512 wide: hi-res BG modes or pseudo-hires (SETINI bit3)
+export function isHiResFrame(ppu: PPU): boolean {
+  return isHiResBGMode(ppu) || (ppu.setini & 0x08) !== 0;
+}
+
+// BG world X for screen column x. Hi-res callers pass 512-wide columns; 256-wide callers in
+// modes 5/6 sample the main-screen (odd) hi-res columns.
+function bgWorldX(ppu: PPU, x: number, hofs: number, hiRes: boolean): number {
+  if (!isHiResBGMode(ppu)) return (x + hofs) >>> 0;
+  const hx = hiRes ? x : x * 2 + 1;
+  return (hx + hofs * 2) >>> 0;
+}
+
+// BG world Y for screen line y. Interlaced hi-res modes draw alternate BG lines on each field,
+// doubling vertical resolution.
+function bgWorldY(ppu: PPU, y: number, vofs: number): number {
+  if (ppu.interlace && isHiResBGMode(ppu)) return (y * 2 + ppu.field + vofs) >>> 0;
+  return (y + vofs) >>> 0;
+}
+
+// Effective [HOFS, VOFS] of a BG at screen column x. In modes 2, 4 and 6 (offset-per-tile) BG3's
+// tilemap at BG3HOFS/BG3VOFS supplies per-column scroll values for BG1/BG2: screen tile column c (after
+// BG fine scroll) reads BG3 entry c-1 (through BG3's $2109 screen size), so the leftmost column always
+// uses the registers. Bit 13 (BG1) or 14 (BG2) enables an entry. Modes 2/6 read H from the first row and
+// V from the next; mode 4 has a single row where bit 15 selects whether the value replaces V instead of H.
+function bgScroll(ppu: PPU, layer: number, regs: BGLayerRegs, x: number, hiRes: boolean): [number, number] {
+  let hofs = regs.hofs;
+  let vofs = regs.vofs;
+  const mode = ppu.bgMode;
+  if (layer > 2 || (mode !== 2 && mode !== 4 && mode !== 6)) return [hofs, vofs];
+  const col = ((hiRes && isHiResBGMode(ppu) ? x >> 1 : x) + (hofs & 7)) >> 3;
+  if (col === 0) return [hofs, vofs];
+
+  const valid = layer === 1 ? 0x2000 : 0x4000;
+  const bg3 = bgLayerRegs(ppu, 3);
+  const tileX = (col - 1 + (bg3.hofs >> 3)) & (bg3.mapWidth - 1);
+  const tileY = (bg3.vofs >> 3) & (bg3.mapHeight - 1);
+  const hval = ppu.inspectVRAMWord(bgMapEntryAddr(bg3, tileX, tileY));
+  if (mode === 4) {
+    if (hval & valid) {
+      if (hval & 0x8000) vofs = hval & 0x3ff;
+      else hofs = (hval & 0x3f8) | (hofs & 7);
+    }
+    return [hofs, vofs];
+  }
+  const vval = ppu.inspectVRAMWord(bgMapEntryAddr(bg3, tileX, (tileY + 1) & (bg3.mapHeight - 1)));
+  if (hval & valid) hofs = (hval & 0x3f8) | (hofs & 7);
+  if (vval & valid) vofs = vval & 0x3ff;
+  return [hofs, vofs];
+}
+
+// Vertical mosaic block start for each screen line. The counter restarts at the top of the frame and
+// a block's height is latched when it begins, so a mid-frame $2106 write takes effect at the next block.
+function mosaicBlockStarts(ppu: PPU, heightPixels: number): number[] {
+  const starts = new Array(heightPixels).fill(0);
+  let start = 0;
+  let size = ((ppu.mosaicAtLine(0) >> 4) & 0x0f) + 1;
+  for (let y = 0; y < heightPixels; y++) {
+    if (y - start >= size) {
+      start = y;
+      size = ((ppu.mosaicAtLine(y) >> 4) & 0x0f) + 1;
+    }
+    starts[y] = start;
+  }
+  return starts;
+}
+
+// $2106 mosaic as a coordinate snap for lines firstLine.. of a layer: each pixel samples the top-left of its
+// block, so `line` holds the screen line to sample and `width` the block width (1 when mosaic is off).
+// Blocks are anchored to screen column 0 and the vertical counter; scroll registers are still the current ones.
+interface MosaicGrid {
+  line: number[];
+  width: number[];
+}
+function mosaicGrid(ppu: PPU, layer: number, firstLine: number, heightPixels: number, hiRes = false): MosaicGrid {
+  const bit = 1 << (layer - 1);
+  const line = new Array<number>(heightPixels);
+  const width = new Array<number>(heightPixels);
+  let starts: number[] | null = null;
+  for (let y = 0; y < heightPixels; y++) {
+    const sy = firstLine + y;
+    const m = ppu.mosaicAtLine(sy);
+    if ((m & bit) === 0) { line[y] = sy; width[y] = 1; continue; }
+    starts ??= mosaicBlockStarts(ppu, firstLine + heightPixels);
+    const size = ((m >> 4) & 0x0f) + 1;
+    line[y] = starts[sy];
+    width[y] = hiRes && isHiResBGMode(ppu) ? size * 2 : size;
+  }
+  return { line, width };
+}
+
 export function renderBG4bppTilemapIndices(
   ppu: PPU,
   mapBaseWordAddr: number,
@@ -42,66 +253,72 @@ export function renderBG4bppTilemapIndices(
   return out;
 }
 
-// Render a BG2 region (in pixels) using PPU's BG2 registers
-export function renderBG2RegionIndices(ppu: PPU, widthPixels: number, heightPixels: number): number[] {
-  const out = new Array(widthPixels * heightPixels).fill(0);
-  const mapBase = ppu.bg2MapBaseWord;
-  const charBase = ppu.bg2CharBaseWord;
-
-  const tileSize = (ppu as any).bg2TileSize16 ? 16 : 8;
-  const mapWidth = ppu.bg2MapWidth64 ? 64 : 32;
-  const mapHeight = ppu.bg2MapHeight64 ? 64 : 32;
-  const is2bpp = (ppu.bgMode === 0); // Mode 0: BG2 is 2bpp; else default to 4bpp
+// One BG layer sampled over a screen region: palette indices (see bgPaletteIndex; 0 in the low bpp bits
+// is transparent) and each pixel's tilemap priority bit
+interface BGLayerPixels {
+  indices: number[];
+  priority: number[];
+}
 
+// Sample BG1-BG4 through their tilemap registers (bgLayerRegs). Tiles are 8x8 or 16x16 and always 16
+// pixels wide in modes 5/6; large tiles are built from 8x8 tiles, right +1 and down +16. With hiRes set
+// in modes 5/6, widthPixels counts 512-wide columns.
+function renderBGLayer(ppu: PPU, layer: number, widthPixels: number, heightPixels: number, hiRes = false, firstLine = 0): BGLayerPixels {
+  const indices = new Array(widthPixels * heightPixels).fill(0);
+  const priority = new Array(widthPixels * heightPixels).fill(0);
+  const bpp = bgLayerBpp(ppu.bgMode, layer);
+  if (bpp === 0) return { indices, priority };
+
+  const regs = bgLayerRegs(ppu, layer);
+  const tileHeight = regs.tileSize;
+  const tileWidth = isHiResBGMode(ppu) ? 16 : regs.tileSize;
+  const mos = mosaicGrid(ppu, layer, firstLine, heightPixels, hiRes);
   for (let y = 0; y < heightPixels; y++) {
+    const my = mos.line[y];
     for (let x = 0; x < widthPixels; x++) {
-      const worldX = (x + ppu.bg2HOfs) >>> 0;
-      const worldY = (y + ppu.bg2VOfs) >>> 0;
-
-      let tileX = Math.floor(worldX / tileSize) % mapWidth;
-      let tileY = Math.floor(worldY / tileSize) % mapHeight;
-      if (tileX < 0) tileX += mapWidth;
-      if (tileY < 0) tileY += mapHeight;
+      const mx = x - (x % mos.width[y]);
+      const [hofs, vofs] = bgScroll(ppu, layer, regs, mx, hiRes);
+      const worldX = bgWorldX(ppu, mx, hofs, hiRes);
+      const worldY = bgWorldY(ppu, my, vofs);
+
+      const tileX = Math.floor(worldX / tileWidth) % regs.mapWidth;
+      const tileY = Math.floor(worldY / tileHeight) % regs.mapHeight;
+      const entry = ppu.inspectVRAMWord(bgMapEntryAddr(regs, tileX, tileY));
+      const inTileX = worldX % tileWidth;
+      const inTileY = worldY % tileHeight;
+      const effX = (entry & 0x4000) ? (tileWidth - 1) - inTileX : inTileX;
+      const effY = (entry & 0x8000) ? (tileHeight - 1) - inTileY : inTileY;
+
+      const tile = renderTileIndices(ppu, regs.charBase, (entry & 0x03ff) + (effX >> 3) + ((effY >> 3) << 4), bpp);
+      const pix = tile[(effY & 7) * 8 + (effX & 7)];
+      const i = y * widthPixels + x;
+      indices[i] = bgPaletteIndex(ppu, layer, bpp, (entry >>> 10) & 0x07, pix);
+      priority[i] = (entry & 0x2000) ? 1 : 0;
+    }
+  }
+  return { indices, priority };
+}
 
-      let inTileX = worldX % tileSize; if (inTileX < 0) inTileX += tileSize;
-      let inTileY = worldY % tileSize; if (inTileY < 0) inTileY += tileSize;
+// Render a BG region (in pixels) into palette indices using the layer's registers
+export function renderBGRegionIndices(ppu: PPU, layer: number, widthPixels: number, heightPixels: number, hiRes = false, firstLine = 0): number[] {
+  return renderBGLayer(ppu, layer, widthPixels, heightPixels, hiRes, firstLine).indices;
+}
 
-      // Handle 64x32/32x64/64x64 screen arrangements for BG2 similar to BG1
-      let screenOffset = 0; // in words
-      if (ppu.bg2MapWidth64 && tileX >= 32) { tileX -= 32; screenOffset += 0x400; }
-      if (ppu.bg2MapHeight64 && tileY >= 32) { tileY -= 32; screenOffset += 0x800; }
+export function renderBG1RegionIndices(ppu: PPU, widthPixels: number, heightPixels: number, hiRes = false, firstLine = 0): number[] {
+  return renderBGRegionIndices(ppu, 1, widthPixels, heightPixels, hiRes, firstLine);
+}
 
-      const entry = ppu.inspectVRAMWord(mapBase + screenOffset + tileY * 32 + tileX);
-      const tileIndexBase = entry & 0x03ff;
-      const paletteGroup = (entry >>> 10) & 0x07;
-      const xFlip = (entry & 0x4000) !== 0;
-      const yFlip = (entry & 0x8000) !== 0;
+export function renderBG2RegionIndices(ppu: PPU, widthPixels: number, heightPixels: number, hiRes = false, firstLine = 0): number[] {
+  return renderBGRegionIndices(ppu, 2, widthPixels, heightPixels, hiRes, firstLine);
+}
 
-      if (!(ppu as any).bg2TileSize16) {
-        const sx = xFlip ? (7 - (inTileX & 7)) : (inTileX & 7);
-        const sy = yFlip ? (7 - (inTileY & 7)) : (inTileY & 7);
-        const tile = is2bpp ? render2bppTileIndices(ppu, charBase, tileIndexBase)
-                            : render4bppTileIndices(ppu, charBase, tileIndexBase);
-        const pix = tile[sy * 8 + sx];
-        out[y * widthPixels + x] = paletteGroup * 16 + pix;
-      } else {
-        // 16x16 composed of four 8x8 tiles: right +1, down +16
-        const effX = xFlip ? ((tileSize - 1) - inTileX) : inTileX;
-        const effY = yFlip ? ((tileSize - 1) - inTileY) : inTileY;
-        const subX = (effX >> 3) & 1;
-        const subY = (effY >> 3) & 1;
-        const inSubX = effX & 7;
-        const inSubY = effY & 7;
-        const subTileIndex = tileIndexBase + subX + (subY << 4);
-        const tile = is2bpp ? render2bppTileIndices(ppu, charBase, subTileIndex)
-                            : render4bppTileIndices(ppu, charBase, subTileIndex);
-        const pix = tile[inSubY * 8 + inSubX];
-        out[y * widthPixels + x] = paletteGroup * 16 + pix;
-      }
-    }
-  }
+// BG3/BG4 only exist in modes 0/1, which are never hi-res
+export function renderBG3RegionIndices(ppu: PPU, widthPixels: number, heightPixels: number, firstLine = 0): number[] {
+  return renderBGRegionIndices(ppu, 3, widthPixels, heightPixels, false, firstLine);
+}
 
-  return out;
+export function renderBG4RegionIndices(ppu: PPU, widthPixels: number, heightPixels: number, firstLine = 0): number[] {
+  return renderBGRegionIndices(ppu, 4, widthPixels, heightPixels, false, firstLine);
 }
 
 // Render BG1 to an RGBA Uint8ClampedArray using CGRAM palette colors.
@@ -143,191 +360,99 @@ export function renderBG2RegionRGBA(ppu: PPU, widthPixels: number, heightPixels:
   return out;
 }
 
-// Compose main screen BG1 over BG2 (very simplified). Pixel value 0 is treated as transparent.
-// Compute per-pixel priority masks (1 = high priority, 0 = low) for BG1
-function computeBG1PriorityMask(ppu: PPU, widthPixels: number, heightPixels: number): number[] {
-  const out = new Array(widthPixels * heightPixels).fill(0);
-  const mapBase = ppu.bg1MapBaseWord;
-  const tileSize = ppu.bg1TileSize16 ? 16 : 8;
-  const mapWidth = ppu.bg1MapWidth64 ? 64 : 32;
-  const mapHeight = ppu.bg1MapHeight64 ? 64 : 32;
-  for (let y = 0; y < heightPixels; y++) {
-    for (let x = 0; x < widthPixels; x++) {
-      const worldX = (x + ppu.bg1HOfs) >>> 0;
-      const worldY = (y + ppu.bg1VOfs) >>> 0;
-      let tileX = Math.floor(worldX / tileSize) % mapWidth;
-      let tileY = Math.floor(worldY / tileSize) % mapHeight;
-      if (tileX < 0) tileX += mapWidth;
-      if (tileY < 0) tileY += mapHeight;
-      let screenOffset = 0;
-      if (ppu.bg1MapWidth64 && tileX >= 32) { tileX -= 32; screenOffset += 0x400; }
-      if (ppu.bg1MapHeight64 && tileY >= 32) { tileY -= 32; screenOffset += 0x800; }
-      const entry = ppu.inspectVRAMWord(mapBase + screenOffset + tileY * 32 + tileX);
-      out[y * widthPixels + x] = (entry & 0x2000) ? 1 : 0;
-    }
-  }
-  return out;
-}
-
-// Compute per-pixel priority masks for BG2 (8x8 tiles, 32x32 map)
-function computeBG2PriorityMask(ppu: PPU, widthPixels: number, heightPixels: number): number[] {
-  const out = new Array(widthPixels * heightPixels).fill(0);
-  const mapBase = ppu.bg2MapBaseWord;
-  const tileSize = (ppu as any).bg2TileSize16 ? 16 : 8;
-  const mapWidth = ppu.bg2MapWidth64 ? 64 : 32;
-  const mapHeight = ppu.bg2MapHeight64 ? 64 : 32;
-  for (let y = 0; y < heightPixels; y++) {
-    for (let x = 0; x < widthPixels; x++) {
-      const worldX = (x + ppu.bg2HOfs) >>> 0;
-      const worldY = (y + ppu.bg2VOfs) >>> 0;
-      let tileX = Math.floor(worldX / tileSize) % mapWidth;
-      let tileY = Math.floor(worldY / tileSize) % mapHeight;
-      if (tileX < 0) tileX += mapWidth;
-      if (tileY < 0) tileY += mapHeight;
-      let screenOffset = 0;
-      if (ppu.bg2MapWidth64 && tileX >= 32) { tileX -= 32; screenOffset += 0x400; }
-      if (ppu.bg2MapHeight64 && tileY >= 32) { tileY -= 32; screenOffset += 0x800; }
-      const entry = ppu.inspectVRAMWord(mapBase + screenOffset + tileY * 32 + tileX);
-      out[y * widthPixels + x] = (entry & 0x2000) ? 1 : 0;
-    }
-  }
-  return out;
+// Mode 7 clips the 13-bit (scroll - center) term to 10 bits plus sign
+function m7Clip(v: number): number {
+  return (v & 0x2000) ? (v | ~0x3ff) : (v & 0x3ff);
 }
 
-// Compute per-pixel priority masks for BG3 (8x8 tiles, 32x32 map)
-function computeBG3PriorityMask(ppu: PPU, widthPixels: number, heightPixels: number): number[] {
+// Render the mode 7 affine plane into raw 8bpp pixel values (0 = transparent).
+// The 128x128 tilemap lives in the low bytes of VRAM words 0-$3FFF, the 8bpp tiles in the high bytes.
+// M7SEL bits 6-7 choose what lies outside the 1024x1024 plane: 0/1 wrap, 2 transparent, 3 tile 0.
+export function renderMode7RegionIndices(ppu: PPU, widthPixels: number, heightPixels: number, firstLine = 0): number[] {
   const out = new Array(widthPixels * heightPixels).fill(0);
-  const mapBase = ppu.bg3MapBaseWord;
-  const tileSize = 8;
-  const mapWidth = 32;
-  const mapHeight = 32;
+  const a = ppu.m7a, b = ppu.m7b, c = ppu.m7c, d = ppu.m7d;
+  const cx = ppu.m7x, cy = ppu.m7y;
+  const hofs = m7Clip(ppu.m7HOfs - cx);
+  const vofs = m7Clip(ppu.m7VOfs - cy);
+  const over = (ppu.m7sel >> 6) & 0x03;
+  const hflip = (ppu.m7sel & 0x01) !== 0;
+  const vflip = (ppu.m7sel & 0x02) !== 0;
+
+  const mos = mosaicGrid(ppu, 1, firstLine, heightPixels);
   for (let y = 0; y < heightPixels; y++) {
+    const my = mos.line[y];
+    const sy = vflip ? 255 - my : my;
+    // Row origin in 8.8 fixed point; hardware truncates each product to a multiple of 64
+    const rowX = ((a * hofs) & ~63) + ((b * vofs) & ~63) + ((b * sy) & ~63) + (cx << 8);
+    const rowY = ((c * hofs) & ~63) + ((d * vofs) & ~63) + ((d * sy) & ~63) + (cy << 8);
     for (let x = 0; x < widthPixels; x++) {
-      const worldX = (x + ppu.bg3HOfs) >>> 0;
-      const worldY = (y + ppu.bg3VOfs) >>> 0;
-      let tileX = Math.floor(worldX / tileSize) % mapWidth;
-      let tileY = Math.floor(worldY / tileSize) % mapHeight;
-      if (tileX < 0) tileX += mapWidth;
-      if (tileY < 0) tileY += mapHeight;
-      const entry = ppu.inspectVRAMWord(mapBase + tileY * 32 + tileX);
-      out[y * widthPixels + x] = (entry & 0x2000) ? 1 : 0;
-    }
-  }
-  return out;
-}
-
-// Compute per-pixel priority masks for BG4 (8x8 tiles, 32x32 map)
-function computeBG4PriorityMask(ppu: PPU, widthPixels: number, heightPixels: number): number[] {
-  const out = new Array(widthPixels * heightPixels).fill(0);
-  const mapBase = ppu.bg4MapBaseWord;
-  const tileSize = 8;
-  const mapWidth = 32;
-  const mapHeight = 32;
-  for (let y = 0; y < heightPixels; y++) {
-    for (let x = 0; x < widthPixels; x++) {
-      const worldX = (x + ppu.bg4HOfs) >>> 0;
-      const worldY = (y + ppu.bg4VOfs) >>> 0;
-      let tileX = Math.floor(worldX / tileSize) % mapWidth;
-      let tileY = Math.floor(worldY / tileSize) % mapHeight;
-      if (tileX < 0) tileX += mapWidth;
-      if (tileY < 0) tileY += mapHeight;
-      const entry = ppu.inspectVRAMWord(mapBase + tileY * 32 + tileX);
-      out[y * widthPixels + x] = (entry & 0x2000) ? 1 : 0;
+      const mx = x - (x % mos.width[y]);
+      const sx = hflip ? 255 - mx : mx;
+      let px = (rowX + a * sx) >> 8;
+      let py = (rowY + c * sx) >> 8;
+      const outside = (px & ~0x3ff) !== 0 || (py & ~0x3ff) !== 0;
+      let tile: number;
+      if (outside && over === 2) continue;
+      if (outside && over === 3) {
+        tile = 0;
+      } else {
+        px &= 0x3ff; py &= 0x3ff;
+        tile = ppu.inspectVRAMWord(((py >> 3) << 7) | (px >> 3)) & 0xff;
+      }
+      const pix = (ppu.inspectVRAMWord((tile << 6) | ((py & 7) << 3) | (px & 7)) >>> 8) & 0xff;
+      out[y * widthPixels + x] = pix;
     }
   }
   return out;
 }
 
-// Render a BG3 region (2bpp) indices
-export function renderBG3RegionIndices(ppu: PPU, widthPixels: number, heightPixels: number): number[] {
-  const out = new Array(widthPixels * heightPixels).fill(0);
-  const mapBase = ppu.bg3MapBaseWord;
-  const charBase = ppu.bg3CharBaseWord;
-
-  const tileSize = 8;
-  const mapWidth = 32;
-  const mapHeight = 32;
-
-  for (let y = 0; y < heightPixels; y++) {
-    for (let x = 0; x < widthPixels; x++) {
-      const worldX = (x + ppu.bg3HOfs) >>> 0;
-      const worldY = (y + ppu.bg3VOfs) >>> 0;
-
-      let tileX = Math.floor(worldX / tileSize) % mapWidth;
-      let tileY = Math.floor(worldY / tileSize) % mapHeight;
-      if (tileX < 0) tileX += mapWidth;
-      if (tileY < 0) tileY += mapHeight;
-
-      let inTileX = worldX % tileSize; if (inTileX < 0) inTileX += tileSize;
-      let inTileY = worldY % tileSize; if (inTileY < 0) inTileY += tileSize;
-
-      const entry = ppu.inspectVRAMWord(mapBase + tileY * 32 + tileX);
-      const tileIndexBase = entry & 0x03ff;
-      const paletteGroup = (entry >>> 10) & 0x07;
-      const xFlip = (entry & 0x4000) !== 0;
-      const yFlip = (entry & 0x8000) !== 0;
-
-      const sx = xFlip ? (7 - (inTileX & 7)) : (inTileX & 7);
-      const sy = yFlip ? (7 - (inTileY & 7)) : (inTileY & 7);
-      const tile = render2bppTileIndices(ppu, charBase, tileIndexBase);
-      const pix = tile[sy * 8 + sx];
-      out[y * widthPixels + x] = paletteGroup * 16 + pix;
-    }
+// With hiRes set, widthPixels counts 512-wide output columns: even columns show the sub screen and
+// odd columns the main screen. Modes 5/6 render BGs at that resolution; other modes (pseudo-hires)
+// render them at half width. firstLine is the screen line of the first output row.
+// Returns BGR555 colors after color math, before master brightness. When `provenance` is given, each
+// pixel's source layers, priorities and math/window flags are recorded in it (see provenance.ts).
+export function renderMainScreenBGR555(
+  ppu: PPU, widthPixels: number, heightPixels: number, hiRes = false, firstLine = 0, provenance?: Uint16Array,
+): Uint16Array {
+  const mode7 = ppu.bgMode === 7;
+  const bgW = hiRes && !isHiResBGMode(ppu) ? widthPixels >> 1 : widthPixels;
+  let bg1: number[], bg2: number[], bg3: number[], bg4: number[];
+  let pr1: number[], pr2: number[], pr3: number[], pr4: number[];
+  if (mode7) {
+    // BG1 is the affine plane. With EXTBG, BG2 reuses it: bits 0-6 are the color, bit7 the priority.
+    const blank = new Array(bgW * heightPixels).fill(0);
+    bg1 = renderMode7RegionIndices(ppu, bgW, heightPixels, firstLine);
+    const extbg = (ppu.setini & 0x40) !== 0;
+    bg2 = extbg ? bg1.map((p) => p & 0x7f) : blank;
+    pr1 = blank;
+    pr2 = extbg ? bg1.map((p) => (p >> 7) & 1) : blank;
+    bg3 = blank; bg4 = blank; pr3 = blank; pr4 = blank;
+  } else {
+    const l1 = renderBGLayer(ppu, 1, bgW, heightPixels, hiRes, firstLine);
+    const l2 = renderBGLayer(ppu, 2, bgW, heightPixels, hiRes, firstLine);
+    const l3 = renderBGLayer(ppu, 3, bgW, heightPixels, hiRes, firstLine);
+    const l4 = renderBGLayer(ppu, 4, bgW, heightPixels, hiRes, firstLine);
+    bg1 = l1.indices; bg2 = l2.indices; bg3 = l3.indices; bg4 = l4.indices;
+    pr1 = l1.priority; pr2 = l2.priority; pr3 = l3.priority; pr4 = l4.priority;
   }
-
-  return out;
-}
-
-export function renderBG4RegionIndices(ppu: PPU, widthPixels: number, heightPixels: number): number[] {
-  const out = new Array(widthPixels * heightPixels).fill(0);
-  const mapBase = ppu.bg4MapBaseWord;
-  const charBase = ppu.bg4CharBaseWord;
-
-  const tileSize = 8;
-  const mapWidth = 32;
-  const mapHeight = 32;
-
-  for (let y = 0; y < heightPixels; y++) {
-    for (let x = 0; x < widthPixels; x++) {
-      const worldX = (x + ppu.bg4HOfs) >>> 0;
-      const worldY = (y + ppu.bg4VOfs) >>> 0;
-
-      let tileX = Math.floor(worldX / tileSize) % mapWidth;
-      let tileY = Math.floor(worldY / tileSize) % mapHeight;
-      if (tileX < 0) tileX += mapWidth;
-      if (tileY < 0) tileY += mapHeight;
-
-      let inTileX = worldX % tileSize; if (inTileX < 0) inTileX += tileSize;
-      let inTileY = worldY % tileSize; if (inTileY < 0) inTileY += tileSize;
-
-      const entry = ppu.inspectVRAMWord(mapBase + tileY * 32 + tileX);
-      const tileIndexBase = entry & 0x03ff;
-      const paletteGroup = (entry >>> 10) & 0x07;
-      const xFlip = (entry & 0x4000) !== 0;
-      const yFlip = (entry & 0x8000) !== 0;
-
-      const sx = xFlip ? (7 - (inTileX & 7)) : (inTileX & 7);
-      const sy = yFlip ? (7 - (inTileY & 7)) : (inTileY & 7);
-      const tile = render2bppTileIndices(ppu, charBase, tileIndexBase);
-      const pix = tile[sy * 8 + sx];
-      out[y * widthPixels + x] = paletteGroup * 16 + pix;
-    }
+  // Transparency is pixel value 0, i.e. the low 2/4/8 bits of each layer's palette index.
+  // Mode 7 BG1 is 8bpp; EXTBG BG2 is 7 bits.
+  const zeroMaskFor = (layer: number) => {
+    if (mode7) return layer === 2 ? 0x7f : 0xff;
+    return (1 << bgLayerBpp(ppu.bgMode, layer)) - 1;
+  };
+  const zeroMask1 = zeroMaskFor(1);
+  const zeroMask2 = zeroMaskFor(2);
+  const zeroMask3 = zeroMaskFor(3);
+  const zeroMask4 = zeroMaskFor(4);
+  const ranks = layerRanks(ppu);
+  // Direct color replaces the CGRAM lookup for 8bpp BG pixels (modes 3, 4 and 7 BG1)
+  const directColor = (ppu.cgwsel & 0x01) !== 0 && bgLayerBpp(ppu.bgMode, 1) === 8;
+  function layerColor(layerId: number, pal: number): number {
+    if (directColor && layerId === 1) return directColorBGR15(pal & 0xff, (pal >> 8) & 0x07);
+    return ppu.inspectCGRAMWord(pal & 0xff);
   }
-
-  return out;
-}
-
-export function renderMainScreenRGBA(ppu: PPU, widthPixels: number, heightPixels: number): Uint8ClampedArray {
-  const bg1 = renderBG1RegionIndices(ppu, widthPixels, heightPixels);
-  const bg2 = renderBG2RegionIndices(ppu, widthPixels, heightPixels);
-  const bg3 = renderBG3RegionIndices(ppu, widthPixels, heightPixels);
-  const bg4 = renderBG4RegionIndices(ppu, widthPixels, heightPixels);
-  const pr1 = computeBG1PriorityMask(ppu, widthPixels, heightPixels);
-  const pr2 = computeBG2PriorityMask(ppu, widthPixels, heightPixels);
-  const pr3 = computeBG3PriorityMask(ppu, widthPixels, heightPixels);
-  const pr4 = computeBG4PriorityMask(ppu, widthPixels, heightPixels);
-  const out = new Uint8ClampedArray(widthPixels * heightPixels * 4);
-  const scale = ppu.forceBlank ? 0 : Math.max(0, Math.min(15, ppu.brightness)) / 15;
+  const out = new Uint16Array(widthPixels * heightPixels);
   const enableBG1 = (ppu.tm & 0x01) !== 0;
   const enableBG2 = (ppu.tm & 0x02) !== 0;
   const enableBG3 = (ppu.tm & 0x04) !== 0;
@@ -350,7 +475,7 @@ export function renderMainScreenRGBA(ppu: PPU, widthPixels: number, heightPixels
   const mask = ppu.cgadsub & 0x1f; // per-layer select (BG1..BG4/OBJ) in our simplified model
 
   // Windowing: two inclusive ranges A[wh0..wh1] and B[wh2..wh3].
-  // W12SEL/W34SEL/WOBJSEL enable gating per layer but we only support A/B with OR/AND/XOR/XNOR via CGWSEL bits 6-7.
+  // W12SEL/W34SEL/WOBJSEL enable A/B per layer; WBGLOG/WOBJLOG pick each layer's OR/AND/XOR/XNOR logic.
   // cgwsel bit0: 0 = apply outside combined window, 1 = inside combined window
   const aL = (ppu.wh0 & 0xff) >>> 0;
   const aR = (ppu.wh1 & 0xff) >>> 0;
@@ -363,9 +488,13 @@ export function renderMainScreenRGBA(ppu: PPU, widthPixels: number, heightPixels
   }
   function inA(x: number): boolean { return inRangeWrap(x, aL, aR); }
   function inB(x: number): boolean { return inRangeWrap(x, bL, bR); }
-  const comb = (ppu.cgwsel >> 6) & 0x03; // 00=OR,01=AND,10=XOR,11=XNOR
-  function combineWin(ax: boolean, bx: boolean): boolean {
-    switch (comb) {
+  // Per-layer logic from WBGLOG/WOBJLOG (layer 0 = backdrop/color window): 0=OR, 1=AND, 2=XOR, 3=XNOR
+  function windowLogic(layerId: number): number {
+    if (layerId >= 1 && layerId <= 4) return (ppu.wbglog >> ((layerId - 1) * 2)) & 0x03;
+    return layerId === 5 ? ppu.wobjlog & 0x03 : (ppu.wobjlog >> 2) & 0x03;
+  }
+  function combineWin(logic: number, ax: boolean, bx: boolean): boolean {
+    switch (logic) {
       case 0: return ax || bx;
       case 1: return ax && bx;
       case 2: return ax !== bx;
@@ -373,57 +502,42 @@ export function renderMainScreenRGBA(ppu: PPU, widthPixels: number, heightPixels
       default: return ax || bx;
     }
   }
+  // A/B enable (bits 0-1) and invert (bits 4-5) for a layer, in the simplified W12SEL/W34SEL/WOBJSEL layout:
+  // BG1/BG3/OBJ use the low bits of their register, BG2/BG4/backdrop the same bits shifted left by 2
+  function windowSel(layerId: number): number {
+    switch (layerId) {
+      case 1: return ppu.w12sel & 0x33;
+      case 2: return (ppu.w12sel >> 2) & 0x33;
+      case 3: return ppu.w34sel & 0x33;
+      case 4: return (ppu.w34sel >> 2) & 0x33;
+      case 5: return ppu.wobjsel & 0x33;
+      default: return (ppu.wobjsel >> 2) & 0x33;
+    }
+  }
+  // Combined window for a layer at column x, or null when the layer has neither window enabled
+  function layerInWindow(layerId: number, x: number): boolean | null {
+    const sel = windowSel(layerId);
+    const useA = (sel & 0x01) !== 0;
+    const useB = (sel & 0x02) !== 0;
+    if (!useA && !useB) return null;
+    const aEff = useA && inA(x) !== ((sel & 0x10) !== 0);
+    const bEff = useB && inB(x) !== ((sel & 0x20) !== 0);
+    if (useA && useB) return combineWin(windowLogic(layerId), aEff, bEff);
+    return useA ? aEff : bEff;
+  }
+  // TMW/TSW: a designated layer is hidden inside its window on that screen
+  function windowMasked(designation: number, layerId: number, x: number): boolean {
+    return (designation & (1 << (layerId - 1))) !== 0 && layerInWindow(layerId, x) === true;
+  }
   const applyInside = (ppu.cgwsel & 0x01) !== 0;
 
-  // Minimal OBJ sampler: iterate OAM entries (128 max), 8x8 or 16x16 4bpp, H/V flips via attr; bit0 used as high X (adds 256).
+  // OBJ pixels come from per-line sprite buffers (range/time limits applied), built on first use
+  const objLines: OBJLine[] = [];
   function sampleOBJPixel(x: number, y: number): { pal: number; zero: boolean; pri: number } {
-    let best = { pal: 0, zero: true, pri: -1, idx: 9999 } as { pal: number; zero: boolean; pri: number; idx: number };
-    for (let i = 0; i < 128; i++) {
-      const base = i * 4;
-      const oy = ppu.inspectOAMByte(base) | 0;
-      const oxLow = ppu.inspectOAMByte(base + 1) | 0;
-      const tile = ppu.inspectOAMByte(base + 2) | 0;
-      const attr = ppu.inspectOAMByte(base + 3) | 0;
-      // High table: one byte per sprite (simplified) at oam[512 + i]
-      const high = ppu.inspectOAMByte(512 + i) | 0;
-      const ox = oxLow + ((high & 0x01) ? 256 : 0);
-      // Per-sprite size override: high bit1 -> 16x16, else use global
-      const sprSize = (high & 0x02) ? 16 : (ppu.objSize16 ? 16 : 8);
-      const lx = x - ox;
-      const ly = y - oy;
-      if (lx < 0 || ly < 0 || lx >= sprSize || ly >= sprSize) continue;
-      const hflip = (attr & 0x40) !== 0;
-      const vflip = (attr & 0x80) !== 0;
-      const effX = hflip ? (sprSize - 1 - (lx & (sprSize - 1))) : (lx & (sprSize - 1));
-      const effY = vflip ? (sprSize - 1 - (ly & (sprSize - 1))) : (ly & (sprSize - 1));
-
-      let pix = 0;
-      if (sprSize === 8) {
-        const tx = effX & 7;
-        const ty = effY & 7;
-        const tileData = render4bppTileIndices(ppu, ppu.objCharBaseWord, tile);
-        pix = tileData[ty * 8 + tx];
-      } else {
-        // 16x16 composed of four 8x8 tiles: right +1, down +16
-        const subX = (effX >> 3) & 1;
-        const subY = (effY >> 3) & 1;
-        const inSubX = effX & 7;
-        const inSubY = effY & 7;
-        const subTileIndex = tile + subX + (subY << 4);
-        const tileData = render4bppTileIndices(ppu, ppu.objCharBaseWord, subTileIndex);
-        pix = tileData[inSubY * 8 + inSubX];
-      }
-
-      const zero = (pix & 0x0f) === 0;
-      if (zero) continue;
-      const palIndex = ((attr >> 1) & 0x07) * 16 + pix; // palette group from attr bits 1-3
-      const pri = (attr & 0x20) ? 1 : 0; // simple priority from attr bit5
-      if (pri > best.pri || (pri === best.pri && i < best.idx)) {
-        best = { pal: palIndex, zero: false, pri, idx: i };
-      }
-    }
-    if (best.pri < 0) return { pal: 0, zero: true, pri: 0 };
-    return { pal: best.pal, zero: false, pri: best.pri };
+    const line = objLines[y] ??= renderOBJLine(ppu, y);
+    const pri = line.pri[x & 0x1ff];
+    if (pri < 0) return { pal: 0, zero: true, pri: 0 };
+    return { pal: line.pal[x & 0x1ff], zero: false, pri };
   }
 
   // Optional debug for BG4/BG2 window math issues
@@ -444,25 +558,32 @@ export function renderMainScreenRGBA(ppu: PPU, widthPixels: number, heightPixels
     }
   } catch {}
 
-  for (let i = 0; i < bg1.length; i++) {
-    const pal1 = bg1[i] & 0xff; const z1 = (pal1 & 0x0f) === 0; const prio1 = pr1[i] | 0;
-    const pal2 = bg2[i] & 0xff; const z2 = (pal2 & 0x0f) === 0; const prio2 = pr2[i] | 0;
-    const pal3 = bg3[i] & 0xff; const z3 = (pal3 & 0x0f) === 0; const prio3 = pr3[i] | 0;
+  for (let i = 0; i < widthPixels * heightPixels; i++) {
+    const xo = i % widthPixels; const y = Math.floor(i / widthPixels);
+    const x = hiRes ? xo >> 1 : xo; // 256-wide screen column for OBJ and windows
+    const bi = y * bgW + (bgW === widthPixels ? xo : xo >> 1);
+    const pal1 = bg1[bi] | 0; const z1 = (pal1 & zeroMask1) === 0; const prio1 = pr1[bi] | 0;
+    const pal2 = bg2[bi] | 0; const z2 = (pal2 & zeroMask2) === 0; const prio2 = pr2[bi] | 0;
+    const pal3 = bg3[bi] | 0; const z3 = (pal3 & zeroMask3) === 0; const prio3 = pr3[bi] | 0;
+    const pal4 = bg4[bi] | 0; const z4 = (pal4 & zeroMask4) === 0; const prio4 = pr4[bi] | 0;
 
     // Choose main pixel by priority among enabled TM layers
     let mainColor: number = backColor;
-    let mainLayer = 0; // 0=backdrop, 1=BG1, 2=BG2, 3=BG3, 4=OBJ
-    let bestPri = -1;
+    let mainLayer = 0; // 0=backdrop, 1-4=BG1-BG4, 5=OBJ
+    let mainPri = 0;
+    let bestRank = -1;
+    let maskedByWindow = false;
     function considerMain(layerId: number, layerEnabled: boolean, zero: boolean, pri: number, pal: number) {
       if (!layerEnabled || zero) return;
-      if (pri > bestPri) { bestPri = pri; mainColor = ppu.inspectCGRAMWord(pal); mainLayer = layerId; }
+      if (windowMasked(ppu.tmw, layerId, x)) { maskedByWindow = true; return; }
+      const rank = ranks[layerId * 4 + pri] ?? -1;
+      if (rank > bestRank) { bestRank = rank; mainColor = layerColor(layerId, pal); mainLayer = layerId; mainPri = pri; }
     }
-    const x = i % widthPixels; const y = Math.floor(i / widthPixels);
-    const obj = sampleOBJPixel(x, y);
+    const obj = sampleOBJPixel(x, firstLine + y);
     considerMain(1, enableBG1, z1, prio1, pal1);
     considerMain(2, enableBG2, z2, prio2, pal2);
     considerMain(3, enableBG3, z3, prio3, pal3);
-    considerMain(4, enableBG4, (bg4[i] & 0x0f) === 0, pr4[i] | 0, bg4[i] & 0xff);
+    considerMain(4, enableBG4, z4, prio4, pal4);
 
     // Optional debug
     try {
@@ -484,19 +605,25 @@ export function renderMainScreenRGBA(ppu: PPU, widthPixels: number, heightPixels
   // Choose subscreen pixel by priority among enabled TS layers
   let subColor: number = backColor;
   const useFixedWhenNoSub = (ppu.cgwsel & 0x04) !== 0; // simplified: CGWSEL bit2 selects fixed color as subscreen when absent/masked
-  let bestSubPri = -1;
-  let subLayer = 0; // 0=backdrop, 1=BG1, 2=BG2, 3=BG3, 4=OBJ
+  let bestSubRank = -1;
+  let subLayer = 0; // 0=backdrop, 1-4=BG1-BG4, 5=OBJ
+  let subPri = 0;
+  let subSource = 0; // subLayer, or PROV_FIXED when the fixed color stands in
   function considerSub(lid: number, layerEnabled: boolean, zero: boolean, pri: number, pal: number) {
     if (!layerEnabled || zero) return;
-    if (pri > bestSubPri) { bestSubPri = pri; subColor = ppu.inspectCGRAMWord(pal); subLayer = lid; }
+    if (windowMasked(ppu.tsw, lid, x)) { maskedByWindow = true; return; }
+    const rank = ranks[lid * 4 + pri] ?? -1;
+    if (rank > bestSubRank) { bestSubRank = rank; subColor = layerColor(lid, pal); subLayer = lid; subPri = pri; }
   }
   considerSub(1, subBG1, z1, prio1, pal1);
   considerSub(2, subBG2, z2, prio2, pal2);
   considerSub(3, subBG3, z3, prio3, pal3);
-  considerSub(4, subBG4, (bg4[i] & 0x0f) === 0, pr4[i] | 0, bg4[i] & 0xff);
+  considerSub(4, subBG4, z4, prio4, pal4);
   considerSub(5, subOBJ, obj.zero, obj.pri, obj.pal);
-  if (useFixedWhenNoSub && bestSubPri < 0) {
+  subSource = subLayer;
+  if (useFixedWhenNoSub && bestSubRank < 0) {
     subColor = ((ppu.fixedR & 0x1f) << 10) | ((ppu.fixedG & 0x1f) << 5) | (ppu.fixedB & 0x1f);
+    subSource = PROV_FIXED;
   }
 
     let outColor = mainColor;
@@ -514,68 +641,35 @@ export function renderMainScreenRGBA(ppu: PPU, widthPixels: number, heightPixels
     // In strict mode with mask=0, all layers including backdrop are affected
     let mainAffected = (strictMask && mask === 0) || layerSelected(mainLayer);
 
-    // Window gate: per-layer A/B enables via W12SEL/W34SEL/WOBJSEL.
-    // Mapping (simplified):
-    //  - W12SEL: BG1 A=bit0, B=bit1; BG2 A=bit2, B=bit3
-    //  - W34SEL: BG3 A=bit0, B=bit1; BG4 A=bit2, B=bit3
-    //  - WOBJSEL: OBJ A=bit0, B=bit1
-    let useA = false, useB = false;
-    let invA = false, invB = false;
-    if (mainLayer === 0) { // backdrop uses WOBJSEL bits for A/B enable and invert (extended mapping)
-      useA = (ppu.wobjsel & 0x04) !== 0; useB = (ppu.wobjsel & 0x08) !== 0; invA = (ppu.wobjsel & 0x40) !== 0; invB = (ppu.wobjsel & 0x80) !== 0;
-    }
-    else if (mainLayer === 1) { useA = (ppu.w12sel & 0x01) !== 0; useB = (ppu.w12sel & 0x02) !== 0; invA = (ppu.w12sel & 0x10) !== 0; invB = (ppu.w12sel & 0x20) !== 0; }
-    else if (mainLayer === 2) { useA = (ppu.w12sel & 0x04) !== 0; useB = (ppu.w12sel & 0x08) !== 0; invA = (ppu.w12sel & 0x40) !== 0; invB = (ppu.w12sel & 0x80) !== 0; }
-    else if (mainLayer === 3) { useA = (ppu.w34sel & 0x01) !== 0; useB = (ppu.w34sel & 0x02) !== 0; invA = (ppu.w34sel & 0x10) !== 0; invB = (ppu.w34sel & 0x20) !== 0; }
-    else if (mainLayer === 4) { useA = (ppu.w34sel & 0x04) !== 0; useB = (ppu.w34sel & 0x08) !== 0; invA = (ppu.w34sel & 0x40) !== 0; invB = (ppu.w34sel & 0x80) !== 0; }
-    else if (mainLayer === 5) { useA = (ppu.wobjsel & 0x01) !== 0; useB = (ppu.wobjsel & 0x02) !== 0; invA = (ppu.wobjsel & 0x10) !== 0; invB = (ppu.wobjsel & 0x20) !== 0; }
-
+    // Window gate: the main layer's combined window decides two things in our simplified model:
+    //  - whether color math can apply (applyInside controls which side)
+    //  - optionally, whether to clip the main color to black on the non-math side
     const clipToBlack = (ppu.cgwsel & 0x08) !== 0; // simplified: bit3 => clip-to-black on non-math side of window
     let clipThisPixel = false;
-    if (useA || useB) {
-      const aHit = useA ? inA(x) : false;
-      const bHit = useB ? inB(x) : false;
-      const aEff = invA ? !aHit : aHit;
-      const bEff = invB ? !bHit : bHit;
-      const inWindow = (useA && useB) ? combineWin(aEff, bEff) : (useA ? aEff : bEff);
-      // Window decides two things in our simplified model:
-      //  - whether color math can apply (applyInside controls which side)
-      //  - optionally, whether to clip the main color to black on the non-math side
+    const inWindow = layerInWindow(mainLayer, x);
+    if (inWindow !== null) {
       const mathSide = applyInside ? inWindow : !inWindow;
       try {
         // @ts-ignore
         const dbg2 = (globalThis as any).process?.env?.DEBUG_BG2;
         if (dbg2 && widthPixels === 8 && heightPixels === 1 && (i === 1 || i === 5) && mainLayer === 2) {
           // eslint-disable-next-line no-console
-          console.log(`[DBG_BG2] gate i=${i} inA=${aHit} inB=${bHit} inWindow=${inWindow} applyInside=${applyInside} mathSide=${mathSide}`);
+          console.log(`[DBG_BG2] gate i=${i} inWindow=${inWindow} applyInside=${applyInside} mathSide=${mathSide}`);
         }
       } catch {}
       if (!mathSide) mainAffected = false;
       if (clipToBlack && !mathSide) clipThisPixel = true;
     }
 
-    // Optional subscreen window gating (CGWSEL bit1): mask subColor by windows using same mapping
+    // Optional subscreen window gating (CGWSEL bit1): mask subColor by the sub layer's window
     const subGate = (ppu.cgwsel & 0x02) !== 0;
     if (subGate) {
-      let sUseA = false, sUseB = false;
-      let sInvA = false, sInvB = false;
-      if (subLayer === 0) { sUseA = (ppu.wobjsel & 0x04) !== 0; sUseB = (ppu.wobjsel & 0x08) !== 0; sInvA = (ppu.wobjsel & 0x40) !== 0; sInvB = (ppu.wobjsel & 0x80) !== 0; }
-      else if (subLayer === 1) { sUseA = (ppu.w12sel & 0x01) !== 0; sUseB = (ppu.w12sel & 0x02) !== 0; sInvA = (ppu.w12sel & 0x10) !== 0; sInvB = (ppu.w12sel & 0x20) !== 0; }
-      else if (subLayer === 2) { sUseA = (ppu.w12sel & 0x04) !== 0; sUseB = (ppu.w12sel & 0x08) !== 0; sInvA = (ppu.w12sel & 0x40) !== 0; sInvB = (ppu.w12sel & 0x80) !== 0; }
-      else if (subLayer === 3) { sUseA = (ppu.w34sel & 0x01) !== 0; sUseB = (ppu.w34sel & 0x02) !== 0; sInvA = (ppu.w34sel & 0x10) !== 0; sInvB = (ppu.w34sel & 0x20) !== 0; }
-      else if (subLayer === 4) { sUseA = (ppu.w34sel & 0x04) !== 0; sUseB = (ppu.w34sel & 0x08) !== 0; sInvA = (ppu.w34sel & 0x40) !== 0; sInvB = (ppu.w34sel & 0x80) !== 0; }
-      else if (subLayer === 5) { sUseA = (ppu.wobjsel & 0x01) !== 0; sUseB = (ppu.wobjsel & 0x02) !== 0; sInvA = (ppu.wobjsel & 0x10) !== 0; sInvB = (ppu.wobjsel & 0x20) !== 0; }
-      if (sUseA || sUseB) {
-        const aHit = sUseA ? inA(x) : false;
-        const bHit = sUseB ? inB(x) : false;
-        const aEff = sInvA ? !aHit : aHit;
-        const bEff = sInvB ? !bHit : bHit;
-        const sIn = (sUseA && sUseB) ? combineWin(aEff, bEff) : (sUseA ? aEff : bEff);
-        // Subside masking uses the same applyInside sense
-        const sMathSide = applyInside ? sIn : !sIn;
-        if (!sMathSide) {
-          subColor = useFixedWhenNoSub ? (((ppu.fixedR & 0x1f) << 10) | ((ppu.fixedG & 0x1f) << 5) | (ppu.fixedB & 0x1f)) : backColor;
-        }
+      const sIn = layerInWindow(subLayer, x);
+      // Subside masking uses the same applyInside sense
+      if (sIn !== null && !(applyInside ? sIn : !sIn)) {
+        subColor = useFixedWhenNoSub ? (((ppu.fixedR & 0x1f) << 10) | ((ppu.fixedG & 0x1f) << 5) | (ppu.fixedB & 0x1f)) : backColor;
+        subSource = useFixedWhenNoSub ? PROV_FIXED : 0;
+        subPri = 0;
       }
     }
 
@@ -602,79 +696,25 @@ export function renderMainScreenRGBA(ppu: PPU, widthPixels: number, heightPixels
       outColor = ((r & 0x1f) << 10) | ((g & 0x1f) << 5) | (b & 0x1f);
     }
 
-    const { r, g, b, a } = decodeSNESColorToRGBA(outColor);
-    const o = i * 4;
-    out[o] = Math.round(r * scale);
-    out[o + 1] = Math.round(g * scale);
-    out[o + 2] = Math.round(b * scale);
-    out[o + 3] = a;
-  }
-  return out;
-}
-
-// Render a BG1 region (in pixels) using PPU's BG1 registers (map base, char base, scroll).
-export function renderBG1RegionIndices(ppu: PPU, widthPixels: number, heightPixels: number): number[] {
-  const out = new Array(widthPixels * heightPixels).fill(0);
-  const mapBase = ppu.bg1MapBaseWord;
-  const charBase = ppu.bg1CharBaseWord;
-
-  const tileSize = ppu.bg1TileSize16 ? 16 : 8;
-  const mapWidth = ppu.bg1MapWidth64 ? 64 : 32;
-  const mapHeight = ppu.bg1MapHeight64 ? 64 : 32;
-  const is2bpp = (ppu.bgMode === 0); // Mode 0: BG1 is 2bpp; else default to 4bpp
-
-  for (let y = 0; y < heightPixels; y++) {
-    for (let x = 0; x < widthPixels; x++) {
-      const worldX = (x + ppu.bg1HOfs) >>> 0;
-      const worldY = (y + ppu.bg1VOfs) >>> 0;
-
-      // Determine tilemap coordinates based on configured tile size
-      let tileX = Math.floor(worldX / tileSize) % mapWidth;
-      let tileY = Math.floor(worldY / tileSize) % mapHeight;
-      if (tileX < 0) tileX += mapWidth;
-      if (tileY < 0) tileY += mapHeight;
-
-      // Pixel within the selected tile (before flip handling)
-      let inTileX = worldX % tileSize; if (inTileX < 0) inTileX += tileSize;
-      let inTileY = worldY % tileSize; if (inTileY < 0) inTileY += tileSize;
-
-      // Handle 64x32/32x64/64x64 screen arrangements
-      let screenOffset = 0; // in words
-      if (ppu.bg1MapWidth64 && tileX >= 32) { tileX -= 32; screenOffset += 0x400; }
-      if (ppu.bg1MapHeight64 && tileY >= 32) { tileY -= 32; screenOffset += 0x800; }
-
-      const entry = ppu.inspectVRAMWord(mapBase + screenOffset + tileY * 32 + tileX);
-      const tileIndexBase = entry & 0x03ff; // 8x8 tile index base
-      const paletteGroup = (entry >>> 10) & 0x07;
-      const xFlip = (entry & 0x4000) !== 0;
-      const yFlip = (entry & 0x8000) !== 0;
+    // Hi-res: even columns show the sub screen
+    if (hiRes && (xo & 1) === 0) outColor = subColor;
 
-      if (!ppu.bg1TileSize16) {
-        // 8x8 tiles
-        const sx = xFlip ? (7 - (inTileX & 7)) : (inTileX & 7);
-        const sy = yFlip ? (7 - (inTileY & 7)) : (inTileY & 7);
-        const tile = is2bpp ? render2bppTileIndices(ppu, charBase, tileIndexBase)
-                            : render4bppTileIndices(ppu, charBase, tileIndexBase);
-        const pix = tile[sy * 8 + sx];
-        out[y * widthPixels + x] = paletteGroup * 16 + pix;
-      } else {
-        // 16x16 tiles composed of four 8x8 subtiles
-        const effX = xFlip ? (15 - inTileX) : inTileX;
-        const effY = yFlip ? (15 - inTileY) : inTileY;
-        const subX = (effX >> 3) & 1;
-        const subY = (effY >> 3) & 1;
-        const inSubX = effX & 7;
-        const inSubY = effY & 7;
-
-        // Subtile index mapping: right +1, down +16
-        const subTileIndex = tileIndexBase + subX + (subY << 4);
-        const tile = is2bpp ? render2bppTileIndices(ppu, charBase, subTileIndex)
-                            : render4bppTileIndices(ppu, charBase, subTileIndex);
-        const pix = tile[inSubY * 8 + inSubX];
-        out[y * widthPixels + x] = paletteGroup * 16 + pix;
-      }
+    out[i] = outColor;
+    if (provenance) {
+      const flags = (clipThisPixel ? PROV_CLIPPED : (globalEnable && mainAffected ? PROV_MATH : 0)) |
+        (maskedByWindow ? PROV_WINDOW_MASKED : 0);
+      provenance[i] = packProvenance(mainLayer, mainPri, subSource, subSource === PROV_FIXED ? 0 : subPri, flags);
     }
   }
-
   return out;
 }
+
+// Main screen as RGBA with INIDISP brightness applied (forced blank is black) through an output profile
+export function renderMainScreenRGBA(
+  ppu: PPU, widthPixels: number, heightPixels: number, hiRes = false, firstLine = 0, provenance?: Uint16Array,
+  profile: OutputProfile = 'linear',
+): Uint8ClampedArray {
+  const colors = renderMainScreenBGR555(ppu, widthPixels, heightPixels, hiRes, firstLine, provenance);
+  const brightness = ppu.forceBlank ? 0 : Math.max(0, Math.min(15, ppu.brightness));
+  return convertBGR555(colors, widthPixels, brightness, profile);
+}
@@ -1,8 +1,9 @@
 import { PPU } from './ppu';
 import { TimingPPU } from './timing/ppu_timing';
-import type { IPPU } from './ipu';
 
-export const createPPU = (mode: 'simple' | 'timing' = 'simple'): IPPU => {
-  return mode === 'timing' ? new TimingPPU() : (new PPU() as unknown as IPPU);
-};
+// 'simple' is the line-driven PPU; 'timing' adds the dot counter and $2137/$213C-$213F counter latching
+export type PPUKind = 'simple' | 'timing';
 
+export const createPPU = (mode: PPUKind = 'simple'): PPU => {
+  return mode === 'timing' ? new TimingPPU() : new PPU();
+};
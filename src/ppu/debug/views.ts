@@ -0,0 +1,206 @@
+import type { PPU } from '../ppu';
+import { renderTileIndices } from '../renderer';
+import { bgLayerBpp, bgLayerRegs, bgMapEntryAddr, bgPaletteIndex, directColorBGR15, isHiResBGMode } from '../bg';
+import { OBJSprite, objCharWord, objNameBase, objSprite } from '../obj';
+import { decodeSNESColorToRGBA } from '../palette';
+import { decodeProvenance } from '../provenance';
+
+// Debug views of PPU memory as RGBA images (canvas ImageData / pngjs layout, 4 bytes per pixel).
+// They read VRAM, CGRAM and OAM through the PPU's inspect accessors and never change PPU state.
+export interface DebugView {
+  width: number;
+  height: number;
+  rgba: Uint8ClampedArray;
+}
+
+export interface DebugRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+function newView(width: number, height: number): DebugView {
+  return { width, height, rgba: new Uint8ClampedArray(width * height * 4) };
+}
+
+function putColor(view: DebugView, x: number, y: number, bgr15: number): void {
+  const c = decodeSNESColorToRGBA(bgr15);
+  const o = (y * view.width + x) * 4;
+  view.rgba[o] = c.r;
+  view.rgba[o + 1] = c.g;
+  view.rgba[o + 2] = c.b;
+  view.rgba[o + 3] = 255;
+}
+
+export interface TileSheetOptions {
+  bpp?: 2 | 4 | 8;    // default 4
+  palette?: number;   // CGRAM palette for 2/4bpp tiles (4 or 16 colors each); 8bpp uses all 256 colors
+  columns?: number;   // tiles per row, default 16
+}
+
+// All of VRAM decoded as tiles of one color depth, in address order: 4096 2bpp, 2048 4bpp or 1024 8bpp tiles
+export function renderTileSheet(ppu: PPU, opts: TileSheetOptions = {}): DebugView {
+  const bpp = opts.bpp ?? 4;
+  const columns = Math.max(1, opts.columns ?? 16);
+  const colorBase = bpp === 8 ? 0 : ((opts.palette ?? 0) << bpp) & 0xff;
+  const tiles = 0x8000 / (bpp * 4);
+  const view = newView(columns * 8, Math.ceil(tiles / columns) * 8);
+  for (let t = 0; t < tiles; t++) {
+    const tile = renderTileIndices(ppu, 0, t, bpp);
+    const ox = (t % columns) * 8;
+    const oy = Math.floor(t / columns) * 8;
+    for (let i = 0; i < 64; i++) putColor(view, ox + (i & 7), oy + (i >> 3), ppu.inspectCGRAMWord(colorBase + tile[i]));
+  }
+  return view;
+}
+
+export interface TilemapView extends DebugView {
+  layer: number;
+  // Part of the map on screen, in map pixels. It wraps around the map edges like the BG does;
+  // null for mode 7, whose screen is an affine view of the plane.
+  viewport: DebugRect | null;
+}
+
+// Outline a rectangle that may wrap around the view's edges
+function strokeWrapped(view: DebugView, r: DebugRect, bgr15: number): void {
+  const px = (x: number, y: number) => putColor(view, ((x % view.width) + view.width) % view.width,
+    ((y % view.height) + view.height) % view.height, bgr15);
+  for (let x = 0; x < r.width; x++) { px(r.x + x, r.y); px(r.x + x, r.y + r.height - 1); }
+  for (let y = 0; y < r.height; y++) { px(r.x, r.y + y); px(r.x + r.width - 1, r.y + y); }
+}
+
+const VIEWPORT_COLOR = 0x7fe0; // yellow
+
+// Mode 7: the whole 1024x1024 plane, 128x128 tiles from the low bytes of VRAM and pixels from the high bytes
+function renderMode7Map(ppu: PPU): TilemapView {
+  const view = newView(1024, 1024);
+  const direct = (ppu.cgwsel & 0x01) !== 0;
+  for (let y = 0; y < 1024; y++) {
+    for (let x = 0; x < 1024; x++) {
+      const tile = ppu.inspectVRAMWord(((y >> 3) << 7) | (x >> 3)) & 0xff;
+      const pix = (ppu.inspectVRAMWord((tile << 6) | ((y & 7) << 3) | (x & 7)) >>> 8) & 0xff;
+      putColor(view, x, y, direct ? directColorBGR15(pix, 0) : ppu.inspectCGRAMWord(pix));
+    }
+  }
+  return { ...view, layer: 1, viewport: null };
+}
+
+// A BG's whole tilemap (every screen of its screen size) in the current mode's color depth, transparent
+// pixels showing the backdrop. The viewport rectangle is drawn unless `drawViewport` is false.
+// Offset-per-tile and mosaic are not applied.
+export function renderBGTilemap(ppu: PPU, layer: number, drawViewport = true): TilemapView {
+  if (ppu.bgMode === 7 && layer === 1) return renderMode7Map(ppu);
+  const regs = bgLayerRegs(ppu, layer);
+  const bpp = bgLayerBpp(ppu.bgMode, layer);
+  const hiRes = isHiResBGMode(ppu);
+  const tileW = hiRes ? 16 : regs.tileSize;
+  const tileH = regs.tileSize;
+  const view = newView(regs.mapWidth * tileW, regs.mapHeight * tileH);
+  const backdrop = ppu.inspectCGRAMWord(0);
+  const direct = bpp === 8 && (ppu.cgwsel & 0x01) !== 0;
+
+  for (let ty = 0; ty < regs.mapHeight; ty++) {
+    for (let tx = 0; tx < regs.mapWidth; tx++) {
+      const entry = ppu.inspectVRAMWord(bgMapEntryAddr(regs, tx, ty));
+      const name = entry & 0x03ff;
+      const pal = (entry >>> 10) & 0x07;
+      const xFlip = (entry & 0x4000) !== 0;
+      const yFlip = (entry & 0x8000) !== 0;
+      for (let py = 0; py < tileH; py++) {
+        for (let px = 0; px < tileW; px++) {
+          let color = backdrop;
+          if (bpp !== 0) {
+            const effX = xFlip ? tileW - 1 - px : px;
+            const effY = yFlip ? tileH - 1 - py : py;
+            // 8x8 subtiles of a large tile: right +1, down +16
+            const tile = renderTileIndices(ppu, regs.charBase, name + (effX >> 3) + ((effY >> 3) << 4), bpp);
+            const pix = tile[(effY & 7) * 8 + (effX & 7)];
+            if (pix !== 0) {
+              color = direct ? directColorBGR15(pix, pal) : ppu.inspectCGRAMWord(bgPaletteIndex(ppu, layer, bpp, pal, pix) & 0xff);
+            }
+          }
+          putColor(view, tx * tileW + px, ty * tileH + py, color);
+        }
+      }
+    }
+  }
+
+  const viewport: DebugRect = {
+    x: ((hiRes ? regs.hofs * 2 : regs.hofs) % view.width + view.width) % view.width,
+    y: (regs.vofs % view.height + view.height) % view.height,
+    width: hiRes ? 512 : 256,
+    height: ppu.visibleLines() * (hiRes && ppu.interlace ? 2 : 1),
+  };
+  if (drawViewport) strokeWrapped(view, viewport, VIEWPORT_COLOR);
+  return { ...view, layer, viewport };
+}
+
+export interface OAMTableView extends DebugView {
+  sprites: OBJSprite[];  // all 128 entries in OAM order
+  cellWidth: number;     // each sprite is drawn top-left in a cell this large
+  cellHeight: number;
+}
+
+// All 128 sprites drawn as they appear on screen (size, flips, palette), one per cell in OAM order.
+// Transparent pixels are left at alpha 0.
+export function renderOAMTable(ppu: PPU, columns = 16): OAMTableView {
+  const sprites: OBJSprite[] = [];
+  for (let i = 0; i < 128; i++) sprites.push(objSprite(ppu, i));
+  const cellWidth = Math.max(...sprites.map((s) => s.width));
+  const cellHeight = Math.max(...sprites.map((s) => s.height));
+  const view = newView(columns * cellWidth, Math.ceil(128 / columns) * cellHeight);
+  for (const s of sprites) {
+    const ox = (s.index % columns) * cellWidth;
+    const oy = Math.floor(s.index / columns) * cellHeight;
+    const group = (s.attr >> 1) & 0x07;
+    const hflip = (s.attr & 0x40) !== 0;
+    const vflip = (s.attr & 0x80) !== 0;
+    for (let y = 0; y < s.height; y++) {
+      const effY = vflip ? s.height - 1 - y : y;
+      for (let x = 0; x < s.width; x++) {
+        const effX = hflip ? s.width - 1 - x : x;
+        const tile = renderTileIndices(ppu, objNameBase(ppu, s), objCharWord(ppu, s, effX >> 3, effY >> 3), 4);
+        const pix = tile[(effY & 7) * 8 + (effX & 7)];
+        if (pix !== 0) putColor(view, ox + x, oy + y, ppu.inspectCGRAMWord(128 + group * 16 + pix));
+      }
+    }
+  }
+  return { ...view, sprites, cellWidth, cellHeight };
+}
+
+// CGRAM as a 16x16 grid of `cellSize`-pixel squares; row n holds colors 16n..16n+15 (OBJ palettes are rows 8-15)
+export function renderCGRAMGrid(ppu: PPU, cellSize = 8): DebugView {
+  const view = newView(16 * cellSize, 16 * cellSize);
+  for (let y = 0; y < view.height; y++) {
+    for (let x = 0; x < view.width; x++) {
+      putColor(view, x, y, ppu.inspectCGRAMWord(Math.floor(y / cellSize) * 16 + Math.floor(x / cellSize)));
+    }
+  }
+  return view;
+}
+
+// Main-screen source color per layer for provenance views: backdrop, BG1-BG4, OBJ (BGR555)
+const PROVENANCE_COLORS = [0x2108, 0x001f << 10, 0x001f << 5, 0x001f, 0x7fe0, 0x7c1f];
+
+// Layer provenance (see provenance.ts) as an image: each pixel takes its main source's color, darker for
+// low priorities; color math adds grey, window-clipped pixels are black and window-masked ones get a
+// dotted pattern.
+export function renderProvenanceView(provenance: Uint16Array, width: number, height: number): DebugView {
+  const view = newView(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = decodeProvenance(provenance[y * width + x]);
+      const o = (y * width + x) * 4;
+      view.rgba[o + 3] = 255;
+      if (p.clipped) continue;
+      const c = decodeSNESColorToRGBA(PROVENANCE_COLORS[p.mainLayer] ?? 0);
+      const scale = (p.mainLayer === 0 ? 1 : 0.55 + p.mainPriority * 0.15) * (p.windowMasked && ((x ^ y) & 1) ? 0.5 : 1);
+      const grey = p.colorMath ? 64 : 0;
+      view.rgba[o] = c.r * scale + grey;
+      view.rgba[o + 1] = c.g * scale + grey;
+      view.rgba[o + 2] = c.b * scale + grey;
+    }
+  }
+  return view;
+}
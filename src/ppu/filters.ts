@@ -0,0 +1,148 @@
+// Video filters: post-processing applied to a displayed RGBA image (after frameDisplaySize/scaleFrameRGBA)
+// for the web canvas and PNG scripts. Filters never touch emulator state and return a new image.
+//  - none: the image unchanged
+//  - nearest: nearest-neighbour integer scaling (options.scale, default 2)
+//  - scale2x: Scale2x/EPX edge-directed 2x scaling
+//  - scanlines: 2x nearest with every second output row darkened (options.strength, default 0.5)
+//  - ntsc: composite video encode/decode (see ntsc below)
+// Filters chain with '+', e.g. "ntsc+scanlines".
+export interface VideoImage {
+  width: number;
+  height: number;
+  rgba: Uint8ClampedArray;
+}
+
+export interface VideoFilterOptions {
+  scale?: number;     // nearest: integer factor, 1-8
+  strength?: number;  // scanlines: how much the dark rows lose, 0-1
+}
+
+export type VideoFilterName = 'none' | 'nearest' | 'scale2x' | 'scanlines' | 'ntsc';
+
+export const VIDEO_FILTERS: readonly VideoFilterName[] = ['none', 'nearest', 'scale2x', 'scanlines', 'ntsc'];
+
+function nearest(img: VideoImage, sx: number, sy: number): VideoImage {
+  const width = img.width * sx;
+  const height = img.height * sy;
+  const src = new Uint32Array(img.rgba.buffer, img.rgba.byteOffset, img.width * img.height);
+  const rgba = new Uint8ClampedArray(width * height * 4);
+  const dst = new Uint32Array(rgba.buffer);
+  for (let y = 0; y < height; y++) {
+    const row = Math.floor(y / sy) * img.width;
+    for (let x = 0; x < width; x++) dst[y * width + x] = src[row + Math.floor(x / sx)];
+  }
+  return { width, height, rgba };
+}
+
+// Scale2x (AdvanceMAME; the same rule as EPX): each pixel becomes 2x2, a corner taking a neighbour's
+// color where the two neighbours meeting at that corner agree and the opposite ones don't
+function scale2x(img: VideoImage): VideoImage {
+  const { width: w, height: h } = img;
+  const src = new Uint32Array(img.rgba.buffer, img.rgba.byteOffset, w * h);
+  const rgba = new Uint8ClampedArray(w * h * 16);
+  const dst = new Uint32Array(rgba.buffer);
+  const at = (x: number, y: number) => src[Math.min(h - 1, Math.max(0, y)) * w + Math.min(w - 1, Math.max(0, x))];
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const b = at(x, y - 1), d = at(x - 1, y), e = at(x, y), f = at(x + 1, y), hh = at(x, y + 1);
+      const o = y * 2 * w * 2 + x * 2;
+      const edge = b !== hh && d !== f;
+      dst[o] = edge && d === b ? d : e;
+      dst[o + 1] = edge && b === f ? f : e;
+      dst[o + w * 2] = edge && d === hh ? d : e;
+      dst[o + w * 2 + 1] = edge && hh === f ? f : e;
+    }
+  }
+  return { width: w * 2, height: h * 2, rgba };
+}
+
+function scanlines(img: VideoImage, strength: number): VideoImage {
+  const out = nearest(img, 2, 2);
+  const keep = 1 - Math.max(0, Math.min(1, strength));
+  const row = out.width * 4;
+  for (let y = 1; y < out.height; y += 2) {
+    for (let i = y * row; i < (y + 1) * row; i += 4) {
+      out.rgba[i] *= keep;
+      out.rgba[i + 1] *= keep;
+      out.rgba[i + 2] *= keep;
+    }
+  }
+  return out;
+}
+
+// Composite NTSC. Each line is encoded at the master clock rate as Y + I cos(phase) + Q sin(phase), one
+// pixel lasting 4 master clocks (2 for 512-wide images) and the color subcarrier 6, with the phase
+// advancing 120 degrees per line (1364 clocks). Decoding averages over two subcarrier cycles, so luma
+// loses fine detail and picks up chroma, and chroma picks up luma edges (rainbowing). Averaging over about
+// three low-res pixels is what blends dithered and striped patterns into the transparency games intend.
+const SUBCARRIER_COS = Array.from({ length: 6 }, (_, i) => Math.cos((i * Math.PI) / 3));
+const SUBCARRIER_SIN = Array.from({ length: 6 }, (_, i) => Math.sin((i * Math.PI) / 3));
+
+function ntsc(img: VideoImage): VideoImage {
+  const { width: w, height: h } = img;
+  const perPixel = w > 256 ? 2 : 4;
+  const samples = w * perPixel;
+  const signal = new Float32Array(samples);
+  const rgba = new Uint8ClampedArray(w * h * 4);
+  const taps = 12; // two subcarrier cycles
+  for (let y = 0; y < h; y++) {
+    const linePhase = y * 2;
+    for (let x = 0; x < w; x++) {
+      const i = (y * w + x) * 4;
+      const r = img.rgba[i] / 255, g = img.rgba[i + 1] / 255, b = img.rgba[i + 2] / 255;
+      const yy = 0.299 * r + 0.587 * g + 0.114 * b;
+      const ii = 0.596 * r - 0.274 * g - 0.322 * b;
+      const qq = 0.211 * r - 0.523 * g + 0.312 * b;
+      for (let k = 0; k < perPixel; k++) {
+        const s = x * perPixel + k;
+        const p = (s + linePhase) % 6;
+        signal[s] = yy + ii * SUBCARRIER_COS[p] + qq * SUBCARRIER_SIN[p];
+      }
+    }
+    for (let x = 0; x < w; x++) {
+      const center = x * perPixel + (perPixel >> 1);
+      let ys = 0, is = 0, qs = 0;
+      for (let k = center - taps / 2; k < center + taps / 2; k++) {
+        const s = signal[Math.min(samples - 1, Math.max(0, k))];
+        const p = ((k + linePhase) % 6 + 6) % 6;
+        ys += s;
+        is += s * SUBCARRIER_COS[p];
+        qs += s * SUBCARRIER_SIN[p];
+      }
+      const yy = ys / taps, ii = (2 * is) / taps, qq = (2 * qs) / taps;
+      const o = (y * w + x) * 4;
+      rgba[o] = 255 * (yy + 0.956 * ii + 0.621 * qq);
+      rgba[o + 1] = 255 * (yy - 0.272 * ii - 0.647 * qq);
+      rgba[o + 2] = 255 * (yy - 1.106 * ii + 1.703 * qq);
+      rgba[o + 3] = 255;
+    }
+  }
+  return { width: w, height: h, rgba };
+}
+
+export function applyVideoFilter(name: VideoFilterName, img: VideoImage, opts: VideoFilterOptions = {}): VideoImage {
+  switch (name) {
+    case 'nearest': {
+      const s = Math.max(1, Math.min(8, Math.floor(opts.scale ?? 2)));
+      return nearest(img, s, s);
+    }
+    case 'scale2x': return scale2x(img);
+    case 'scanlines': return scanlines(img, opts.strength ?? 0.5);
+    case 'ntsc': return ntsc(img);
+    default: return img;
+  }
+}
+
+// Filter names in a '+'-separated chain; unknown names throw
+export function parseVideoFilterChain(spec: string): VideoFilterName[] {
+  const parts = spec.split('+').map((p) => p.trim()).filter((p) => p.length > 0);
+  for (const part of parts) {
+    if (!(VIDEO_FILTERS as readonly string[]).includes(part)) throw new Error(`Unknown video filter '${part}'`);
+  }
+  return parts as VideoFilterName[];
+}
+
+// Apply a '+'-separated chain of filter names in order; unknown names throw
+export function applyVideoFilterChain(spec: string, img: VideoImage, opts: VideoFilterOptions = {}): VideoImage {
+  return parseVideoFilterChain(spec).reduce((out, name) => applyVideoFilter(name, out, opts), img);
+}
@@ -0,0 +1,172 @@
+import type { PPU } from './ppu';
+import { isHiResFrame, renderMainScreenBGR555, renderMainScreenRGBA } from './bg';
+import { convertBGR555, OutputProfile } from './output';
+import { fnv1aHex } from '../utils/hash';
+
+// Output surface is always 512 wide so hi-res and low-res frames share one layout
+export const FRAME_WIDTH = 512;
+// Rows of the scanline framebuffer: 239 overscan lines woven from two interlaced fields
+export const FRAME_MAX_ROWS = 478;
+
+export interface ScreenFrame {
+  width: number;       // always FRAME_WIDTH
+  height: number;      // 224/239 lines, doubled to 448/478 when interlaced
+  hiRes: boolean;      // true when modes 5/6 or pseudo-hires produced distinct even/odd columns
+  interlaced: boolean; // true when SETINI bit0 was set; even/odd lines come from alternate fields
+  rgba: Uint8ClampedArray;
+}
+
+// Render one field's visible lines as BGR555, 512 wide. Low-res fields have each pixel doubled horizontally.
+function renderFieldBGR555(ppu: PPU, lines: number, hiRes: boolean): Uint16Array {
+  if (hiRes) return renderMainScreenBGR555(ppu, FRAME_WIDTH, lines, true);
+  const lo = renderMainScreenBGR555(ppu, FRAME_WIDTH >> 1, lines);
+  const pixels = new Uint16Array(FRAME_WIDTH * lines);
+  for (let i = 0; i < lo.length; i++) pixels[i * 2] = pixels[i * 2 + 1] = lo[i];
+  return pixels;
+}
+
+// Interleave the current field into every other row of a double-height frame; the other field's rows
+// come from `carry` (a previous woven frame) or repeat the current field's.
+function weaveField<T extends Uint8ClampedArray | Uint8Array | Uint16Array>(field: T, out: T, rowLen: number, lines: number, fieldIndex: number, carry: T | null): T {
+  for (let y = 0; y < lines; y++) {
+    const row: ArrayLike<number> = field.subarray(y * rowLen, (y + 1) * rowLen);
+    const own = y * 2 + fieldIndex;
+    const other = y * 2 + (fieldIndex ^ 1);
+    out.set(row, own * rowLen);
+    if (carry) out.set(carry.subarray(other * rowLen, (other + 1) * rowLen), other * rowLen);
+    else out.set(row, other * rowLen);
+  }
+  return out;
+}
+
+// Render the visible screen into a 512-wide frame; `lines` defaults to 224, or 239 with overscan.
+// When interlaced, the current field fills every other line of a double-height frame and the other
+// field's lines are carried over from `previous` (or duplicated when there is no matching previous frame).
+// Colors go through the output `profile` (output.ts); renderFrameBGR555 gives the raw frame.
+export function renderFrame(ppu: PPU, lines = ppu.visibleLines(), previous?: ScreenFrame, profile: OutputProfile = 'linear'): ScreenFrame {
+  const hiRes = isHiResFrame(ppu);
+  const field = renderMainScreenRGBA(ppu, hiRes ? FRAME_WIDTH : FRAME_WIDTH >> 1, lines, hiRes, 0, undefined, profile);
+  let rgba = field;
+  if (!hiRes) {
+    rgba = new Uint8ClampedArray(FRAME_WIDTH * lines * 4);
+    const words = new Uint32Array(rgba.buffer);
+    const lo = new Uint32Array(field.buffer);
+    for (let i = 0; i < lo.length; i++) words[i * 2] = words[i * 2 + 1] = lo[i];
+  }
+  if (!ppu.interlace) return { width: FRAME_WIDTH, height: lines, hiRes, interlaced: false, rgba };
+
+  const height = lines * 2;
+  const carry = previous && previous.interlaced && previous.height === height ? previous.rgba : null;
+  const woven = weaveField(rgba, new Uint8ClampedArray(FRAME_WIDTH * 4 * height), FRAME_WIDTH * 4, lines, ppu.field, carry);
+  return { width: FRAME_WIDTH, height, hiRes, interlaced: true, rgba: woven };
+}
+
+// renderFrame's raw counterpart: BGR555 pixels with the frame's brightness per row, before any output profile
+export function renderFrameBGR555(ppu: PPU, lines = ppu.visibleLines(), previous?: ScreenFrameBGR555): ScreenFrameBGR555 {
+  const hiRes = isHiResFrame(ppu);
+  const level = ppu.forceBlank ? 0 : Math.max(0, Math.min(15, ppu.brightness));
+  const field = renderFieldBGR555(ppu, lines, hiRes);
+  if (!ppu.interlace) {
+    return { width: FRAME_WIDTH, height: lines, hiRes, interlaced: false, pixels: field, brightness: new Uint8Array(lines).fill(level), provenance: null };
+  }
+  const height = lines * 2;
+  const match = previous && previous.interlaced && previous.height === height ? previous : null;
+  const pixels = weaveField(field, new Uint16Array(FRAME_WIDTH * height), FRAME_WIDTH, lines, ppu.field, match ? match.pixels : null);
+  const brightness = weaveField(new Uint8Array(lines).fill(level), new Uint8Array(height), 1, lines, ppu.field, match ? match.brightness : null);
+  return { width: FRAME_WIDTH, height, hiRes, interlaced: true, pixels, brightness, provenance: null };
+}
+
+// Scanline renderer: draw screen line y into ppu.frameBGR555 from the current register state, with
+// low-res pixels doubled. Interlaced frames write the current field's row of the woven frame.
+// Returns whether the line was hi-res.
+export function renderScanline(ppu: PPU, y: number): boolean {
+  const row = ppu.interlace ? y * 2 + ppu.field : y;
+  const o = row * FRAME_WIDTH;
+  const pixels = ppu.frameBGR555 ??= new Uint16Array(FRAME_WIDTH * FRAME_MAX_ROWS);
+  const brightness = ppu.frameBrightness ??= new Uint8Array(FRAME_MAX_ROWS);
+  brightness[row] = ppu.forceBlank ? 0 : Math.max(0, Math.min(15, ppu.brightness));
+  const prov = ppu.frameProvenance;
+  if (ppu.forceBlank) {
+    pixels.fill(0, o, o + FRAME_WIDTH);
+    prov?.fill(0, o, o + FRAME_WIDTH);
+    return false;
+  }
+  const hiRes = isHiResFrame(ppu);
+  if (hiRes) {
+    pixels.set(renderMainScreenBGR555(ppu, FRAME_WIDTH, 1, true, y, prov?.subarray(o, o + FRAME_WIDTH)), o);
+    return true;
+  }
+  const lineProv = prov ? new Uint16Array(FRAME_WIDTH >> 1) : undefined;
+  const lo = renderMainScreenBGR555(ppu, FRAME_WIDTH >> 1, 1, false, y, lineProv);
+  for (let x = 0; x < lo.length; x++) pixels[o + x * 2] = pixels[o + x * 2 + 1] = lo[x];
+  if (prov && lineProv) for (let x = 0; x < lineProv.length; x++) prov[o + x * 2] = prov[o + x * 2 + 1] = lineProv[x];
+  return false;
+}
+
+export interface ScreenFrameBGR555 {
+  width: number;       // always FRAME_WIDTH
+  height: number;
+  hiRes: boolean;
+  interlaced: boolean;
+  pixels: Uint16Array;      // BGR555 before brightness
+  brightness: Uint8Array;   // INIDISP brightness (0-15) per row, 0 for force-blanked rows
+  provenance: Uint16Array | null; // per-pixel layer provenance when ppu.frameProvenance is set
+}
+
+// Last frame completed by the scanline renderer (ppu.scanlineRender), as drawn line by line
+export function scanlineFrameBGR555(ppu: PPU): ScreenFrameBGR555 {
+  const height = ppu.frameInterlaced ? ppu.frameLines * 2 : ppu.frameLines;
+  return {
+    width: FRAME_WIDTH,
+    height,
+    hiRes: ppu.frameHiRes,
+    interlaced: ppu.frameInterlaced,
+    pixels: ppu.frameBGR555 ? ppu.frameBGR555.slice(0, FRAME_WIDTH * height) : new Uint16Array(FRAME_WIDTH * height),
+    brightness: ppu.frameBrightness ? ppu.frameBrightness.slice(0, height) : new Uint8Array(height),
+    provenance: ppu.frameProvenance ? ppu.frameProvenance.slice(0, FRAME_WIDTH * height) : null,
+  };
+}
+
+// Apply an output profile to a raw frame, each row at its own brightness
+export function outputFrame(frame: ScreenFrameBGR555, profile: OutputProfile = 'linear'): ScreenFrame {
+  const { width, height, hiRes, interlaced } = frame;
+  return { width, height, hiRes, interlaced, rgba: convertBGR555(frame.pixels, width, frame.brightness, profile) };
+}
+
+// Hash of a raw frame's pixels and per-row brightness, independent of the output profile
+export function hashFrameBGR555(frame: ScreenFrameBGR555): string {
+  const bytes = new Uint8Array(frame.pixels.length * 2 + frame.brightness.length);
+  bytes.set(new Uint8Array(frame.pixels.buffer, frame.pixels.byteOffset, frame.pixels.length * 2));
+  bytes.set(frame.brightness, frame.pixels.length * 2);
+  return fnv1aHex(bytes);
+}
+
+// Same frame as RGBA with each row's brightness applied
+export function scanlineFrame(ppu: PPU, profile: OutputProfile = 'linear'): ScreenFrame {
+  return outputFrame(scanlineFrameBGR555(ppu), profile);
+}
+
+// Native display size: 256 columns for plain low-res frames; otherwise 512 columns with lines
+// doubled for non-interlaced frames so the image keeps the console's aspect ratio.
+export function frameDisplaySize(frame: ScreenFrame): { width: number; height: number } {
+  if (!frame.hiRes && !frame.interlaced) return { width: frame.width >> 1, height: frame.height };
+  return { width: frame.width, height: frame.interlaced ? frame.height : frame.height * 2 };
+}
+
+// Nearest-neighbour resample of a frame to an arbitrary output size
+export function scaleFrameRGBA(frame: ScreenFrame, width: number, height: number): Uint8ClampedArray {
+  const out = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const sy = Math.floor((y * frame.height) / height);
+    for (let x = 0; x < width; x++) {
+      const sx = Math.floor((x * frame.width) / width);
+      const s = (sy * frame.width + sx) * 4;
+      const o = (y * width + x) * 4;
+      out[o] = frame.rgba[s];
+      out[o + 1] = frame.rgba[s + 1];
+      out[o + 2] = frame.rgba[s + 2];
+      out[o + 3] = frame.rgba[s + 3];
+    }
+  }
+  return out;
+}
@@ -0,0 +1,140 @@
+import type { PPU } from './ppu';
+import { render4bppTileIndices } from './renderer';
+
+// OBSEL bits 5-7: [small, large] sprite sizes as [width, height]
+export const OBJ_SIZES: readonly (readonly [readonly [number, number], readonly [number, number]])[] = [
+  [[8, 8], [16, 16]],
+  [[8, 8], [32, 32]],
+  [[8, 8], [64, 64]],
+  [[16, 16], [32, 32]],
+  [[16, 16], [64, 64]],
+  [[32, 32], [64, 64]],
+  [[16, 32], [32, 64]],
+  [[16, 32], [32, 32]],
+];
+
+// Per-line limits: sprites in range (beyond this sets range over) and 8-pixel tile slivers fetched (time over)
+export const OBJ_LINE_SPRITES = 32;
+export const OBJ_LINE_TILES = 34;
+
+export interface OBJSprite {
+  index: number;
+  x: number;      // 9-bit X (0..511); 256..511 wrap in from the left edge
+  y: number;
+  tile: number;   // 9-bit name including the second-table bit (attr bit0)
+  attr: number;
+  width: number;
+  height: number;
+}
+
+export interface OBJLineEval {
+  sprites: OBJSprite[]; // in-range sprites in priority order (first entry wins overlaps)
+  rangeOver: boolean;
+  timeOver: boolean;
+}
+
+export interface OBJLine {
+  pal: Uint8Array;  // palette index per column (0..511)
+  pri: Int8Array;   // OBJ priority 0-3 per column, -1 = transparent
+}
+
+// Sprite i from OAM: X low, Y, tile, attr; the high table packs two bits per sprite (bit0 = X bit 8,
+// bit1 = large size).
+export function objSprite(ppu: PPU, i: number): OBJSprite {
+  const base = i * 4;
+  const xLow = ppu.inspectOAMByte(base) | 0;
+  const y = ppu.inspectOAMByte(base + 1) | 0;
+  const tile = ppu.inspectOAMByte(base + 2) | 0;
+  const attr = ppu.inspectOAMByte(base + 3) | 0;
+  const high = (ppu.inspectOAMByte(512 + (i >> 2)) >> ((i & 3) * 2)) & 0x03;
+  const large = (high & 0x02) !== 0;
+  const [width, height] = OBJ_SIZES[ppu.objSizeSelect & 7][large ? 1 : 0];
+  return { index: i, x: xLow | ((high & 0x01) << 8), y, tile: tile | ((attr & 0x01) << 8), attr, width, height };
+}
+
+// Sprite row for screen line y, or -1 when the sprite does not cover it. Rows wrap at line 256;
+// OBJ interlace draws alternate rows on each field, halving the sprite's height on screen.
+function objRow(ppu: PPU, s: OBJSprite, y: number): number {
+  const dy = (y - s.y) & 0xff;
+  const row = ppu.objInterlace ? dy * 2 + ppu.field : dy;
+  return row < s.height ? row : -1;
+}
+
+// Screen column of a sprite's 8-pixel tile column c, and whether any of it lands on screen
+function objTileX(s: OBJSprite, c: number): number {
+  return (s.x + c * 8) & 0x1ff;
+}
+function objTileOnScreen(sx: number): boolean {
+  return sx < 256 || sx + 7 >= 512;
+}
+
+// First sprite in priority order: OAM word address bits 1-7 select it when $2103 bit7 (priority rotation) is set
+function objFirstSprite(ppu: PPU): number {
+  return ppu.objPriorityRotation ? (ppu.oamReloadAddr >> 1) & 0x7f : 0;
+}
+
+// Range evaluation for one line: up to 32 sprites in range starting at the first priority sprite, and
+// the 34-slot tile budget. Sprites fully off the left edge don't count, except X = 256.
+export function evaluateOBJLine(ppu: PPU, y: number): OBJLineEval {
+  const sprites: OBJSprite[] = [];
+  let rangeOver = false;
+  const first = objFirstSprite(ppu);
+  for (let k = 0; k < 128; k++) {
+    const s = objSprite(ppu, (first + k) & 0x7f);
+    if (objRow(ppu, s, y) < 0) continue;
+    if (s.x > 256 && s.x + s.width - 1 < 512) continue;
+    if (sprites.length === OBJ_LINE_SPRITES) { rangeOver = true; break; }
+    sprites.push(s);
+  }
+  let tiles = 0;
+  for (const s of sprites) {
+    for (let c = 0; c < s.width >> 3; c++) if (objTileOnScreen(objTileX(s, c))) tiles++;
+  }
+  return { sprites, rangeOver, timeOver: tiles > OBJ_LINE_TILES };
+}
+
+// Tile number of the 8x8 sliver at (col, row) within a sprite; names wrap inside a 16x16 tile grid
+export function objCharWord(ppu: PPU, s: OBJSprite, col: number, row: number): number {
+  return (((s.tile & 0xf0) + (row << 4)) & 0xf0) | ((s.tile + col) & 0x0f);
+}
+
+// Name table base for a sprite: the second table (name bit 8) sits 0x1000 words past the first plus the OBSEL gap
+export function objNameBase(ppu: PPU, s: OBJSprite): number {
+  if (s.tile & 0x100) return (ppu.objCharBaseWord + 0x1000 + ppu.objNameGapWord) & 0x7fff;
+  return ppu.objCharBaseWord;
+}
+
+// Render one line of sprites into a 512-wide buffer. Tiles are fetched from the last in-range sprite
+// back to the first, so when the 34-tile budget runs out the highest-priority sprites lose tiles.
+// Overlaps go to the earlier sprite in priority order, whatever their OBJ priorities.
+export function renderOBJLine(ppu: PPU, y: number): OBJLine {
+  const pal = new Uint8Array(512);
+  const pri = new Int8Array(512).fill(-1);
+  const { sprites } = evaluateOBJLine(ppu, y);
+  let tiles = 0;
+  for (let n = sprites.length - 1; n >= 0; n--) {
+    const s = sprites[n];
+    const row = objRow(ppu, s, y);
+    const hflip = (s.attr & 0x40) !== 0;
+    const vflip = (s.attr & 0x80) !== 0;
+    const effY = vflip ? s.height - 1 - row : row;
+    const group = (s.attr >> 1) & 0x07;
+    const sprPri = (s.attr >> 4) & 0x03;
+    for (let c = 0; c < s.width >> 3; c++) {
+      const sx = objTileX(s, c);
+      if (!objTileOnScreen(sx)) continue;
+      if (tiles >= OBJ_LINE_TILES) break;
+      tiles++;
+      const col = hflip ? (s.width >> 3) - 1 - c : c;
+      const tile = render4bppTileIndices(ppu, objNameBase(ppu, s), objCharWord(ppu, s, col, effY >> 3));
+      for (let px = 0; px < 8; px++) {
+        const pix = tile[(effY & 7) * 8 + (hflip ? 7 - px : px)];
+        if ((pix & 0x0f) === 0) continue;
+        const x = (sx + px) & 0x1ff;
+        pal[x] = group * 16 + pix;
+        pri[x] = sprPri;
+      }
+    }
+  }
+  return { pal, pri };
+}
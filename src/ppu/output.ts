@@ -0,0 +1,104 @@
+// Output stage: turns the core's raw BGR555 pixels plus INIDISP brightness into display RGBA.
+// The core never applies a profile itself, so raw frames (frame.ts ScreenFrameBGR555) stay comparable
+// whatever the display uses.
+//  - linear: each 5-bit channel scaled to 8 bits, then by brightness/15 (the historical output)
+//  - bsnes-gamma: bsnes' color emulation ramp, with brightness scaling by (level + 1) / 16
+//  - crt: decode with a CRT gamma of 2.4, convert SMPTE-C phosphors to sRGB primaries, re-encode as sRGB
+export type OutputProfile = 'linear' | 'bsnes-gamma' | 'crt';
+
+export const OUTPUT_PROFILES: readonly OutputProfile[] = ['linear', 'bsnes-gamma', 'crt'];
+
+// bsnes' 5-bit -> 8-bit ramp: dark levels fall off quickly, as on the console's video DAC
+const BSNES_GAMMA_RAMP = [
+  0x00, 0x01, 0x03, 0x06, 0x0a, 0x0f, 0x15, 0x1c,
+  0x24, 0x2d, 0x37, 0x42, 0x4e, 0x5b, 0x69, 0x78,
+  0x88, 0x90, 0x98, 0xa0, 0xa8, 0xb0, 0xb8, 0xc0,
+  0xc8, 0xd0, 0xd8, 0xe0, 0xe8, 0xf0, 0xf8, 0xff,
+];
+
+// Rows give sRGB-primary linear R, G, B from SMPTE-C linear r, g, b
+const SMPTE_C_TO_SRGB = [
+  [0.939555, 0.050173, 0.010272],
+  [0.017775, 0.965795, 0.016430],
+  [-0.001622, -0.004371, 1.005993],
+];
+
+function srgbEncode(v: number): number {
+  const c = Math.max(0, Math.min(1, v));
+  return c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055;
+}
+
+// Per-channel value for each 5-bit level at one brightness: 8-bit output for linear and bsnes-gamma,
+// linear light for crt (mixed by SMPTE_C_TO_SRGB before encoding)
+function channelRamp(profile: OutputProfile, level: number): number[] {
+  const ramp: number[] = [];
+  for (let v = 0; v < 32; v++) {
+    switch (profile) {
+      case 'bsnes-gamma':
+        ramp.push(level === 0 ? 0 : BSNES_GAMMA_RAMP[v] * (level + 1) / 16);
+        break;
+      case 'crt':
+        // Brightness scales the signal, so it is applied before the CRT's gamma
+        ramp.push(Math.pow((v / 31) * (level / 15), 2.4));
+        break;
+      default:
+        ramp.push(Math.floor((v * 255) / 31) * (level / 15));
+    }
+  }
+  return ramp;
+}
+
+// 32768-entry RGBA table per profile and brightness level, built on first use
+const luts = new Map<string, Uint8ClampedArray>();
+
+export function outputLUT(profile: OutputProfile, brightness: number): Uint8ClampedArray {
+  const level = Math.max(0, Math.min(15, brightness | 0));
+  const key = `${profile}:${level}`;
+  let lut = luts.get(key);
+  if (!lut) {
+    lut = new Uint8ClampedArray(0x8000 * 4);
+    const ramp = channelRamp(profile, level);
+    const m = SMPTE_C_TO_SRGB;
+    for (let c = 0; c < 0x8000; c++) {
+      // Red in bits 10-14, blue in bits 0-4 (see palette.ts)
+      const r = ramp[(c >> 10) & 0x1f];
+      const g = ramp[(c >> 5) & 0x1f];
+      const b = ramp[c & 0x1f];
+      const o = c * 4;
+      if (profile === 'crt') {
+        lut[o] = Math.round(255 * srgbEncode(m[0][0] * r + m[0][1] * g + m[0][2] * b));
+        lut[o + 1] = Math.round(255 * srgbEncode(m[1][0] * r + m[1][1] * g + m[1][2] * b));
+        lut[o + 2] = Math.round(255 * srgbEncode(m[2][0] * r + m[2][1] * g + m[2][2] * b));
+      } else {
+        lut[o] = Math.round(r);
+        lut[o + 1] = Math.round(g);
+        lut[o + 2] = Math.round(b);
+      }
+      lut[o + 3] = 255;
+    }
+    luts.set(key, lut);
+  }
+  return lut;
+}
+
+// Convert `width`-wide rows of BGR555 pixels to RGBA. `brightness` is one level for the whole buffer or
+// one per row (frameBrightness layout).
+export function convertBGR555(
+  pixels: Uint16Array, width: number, brightness: number | Uint8Array, profile: OutputProfile = 'linear',
+): Uint8ClampedArray {
+  const out = new Uint8ClampedArray(pixels.length * 4);
+  const rows = Math.ceil(pixels.length / width);
+  for (let y = 0; y < rows; y++) {
+    const lut = outputLUT(profile, typeof brightness === 'number' ? brightness : brightness[y]);
+    const end = Math.min(pixels.length, (y + 1) * width);
+    for (let i = y * width; i < end; i++) {
+      const s = (pixels[i] & 0x7fff) * 4;
+      const o = i * 4;
+      out[o] = lut[s];
+      out[o + 1] = lut[s + 1];
+      out[o + 2] = lut[s + 2];
+      out[o + 3] = lut[s + 3];
+    }
+  }
+  return out;
+}
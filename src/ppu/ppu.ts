@@ -1,6 +1,14 @@
+import { NTSC } from '../timing/ntsc';
+import { evaluateOBJLine } from './obj';
+import { renderScanline } from './frame';
+import { lastCPUPC, PPUAccessViolation, PPUPort } from './access';
+
 export class PPU {
   // VRAM: 32K words (64KB), addressed by word
   private vram = new Uint16Array(0x8000);
+  // Decoded 8x8 tiles (see renderer.ts) keyed by bit depth and tile word address; VRAM commits drop
+  // the tiles they touch
+  private tileCache = new Map<number, number[]>();
   // CGRAM: 256 colors x 2 bytes
   private cgram = new Uint8Array(512);
   // OAM: 544 bytes
@@ -17,6 +25,11 @@ export class PPU {
   // Display control (INIDISP $2100)
   public brightness = 0x0f; // 0..15 (default full brightness)
   public forceBlank = false;
+  // Accuracy mode: while the PPU draws, VRAM writes are dropped, OAM accesses land in the sprite being
+  // evaluated and CGRAM writes outside HBlank are lost (see portBusy)
+  public accessRestrictions = false;
+  // Debug hook for VRAM/OAM/CGRAM writes made while the PPU draws; called with or without accessRestrictions
+  public onAccessViolation: ((v: PPUAccessViolation) => void) | null = null;
   // Layer designation (TM/TS: $212C/$212D)
   public tm = 0x01; // enable BG1 on main by default for tests
   public ts = 0x00; // subscreen unused in our renderer
@@ -84,6 +97,8 @@ export class PPU {
   private bg3HOfsPhase = 0;
   private bg3VOfsLatchLow = 0;
   private bg3VOfsPhase = 0;
+  public bg3MapWidth64 = false;  // $2109 bits 0-1
+  public bg3MapHeight64 = false;
 
   // BG4 registers (subset)
   public bg4MapBaseWord = 0;   // $210A
@@ -94,14 +109,31 @@ export class PPU {
   private bg4HOfsPhase = 0;
   private bg4VOfsLatchLow = 0;
   private bg4VOfsPhase = 0;
+  public bg4MapWidth64 = false;  // $210A bits 0-1
+  public bg4MapHeight64 = false;
 
   // BG mode and size
   public bgMode = 0;           // $2105 bits 0-2
-  public bg1TileSize16 = false; // $2105 bit 4
-
-  // OBJ settings (subset)
-  public objCharBaseWord = 0;  // computed from $2101 (OBSEL), simplified mapping
-  public objSize16 = false;    // simplified: OBSEL bit4 => 16x16, else 8x8
+  public bg3Priority = false;  // $2105 bit 3: mode 1 BG3 high-priority tiles in front of everything
+  public bg1TileSize16 = false; // $2105 bits 4-7: 16x16 tiles for BG1-BG4
+  public bg2TileSize16 = false;
+  public bg3TileSize16 = false;
+  public bg4TileSize16 = false;
+
+  // MOSAIC ($2106): bits 0-3 enable BG1-BG4, bits 4-7 block size - 1
+  public mosaic = 0x00;
+  // $2106 value in effect on each visible line; a write applies from the current line down
+  private mosaicLines = new Uint8Array(240);
+
+  // OBJ settings (OBSEL $2101)
+  public objCharBaseWord = 0;      // bits 0-2: first name table, 8K-word steps
+  public objNameGapWord = 0;       // bits 3-4: extra gap before the second name table
+  public objSizeSelect = 0;        // bits 5-7: small/large size pair (see OBJ_SIZES)
+  public objPriorityRotation = false; // $2103 bit7
+  public oamReloadAddr = 0;           // OAM word address (9 bits) as last set through $2102/$2103
+  // $213E STAT77: bit6 range over (>32 sprites on a line), bit7 time over (>34 tiles); cleared at frame start
+  public objRangeOver = false;
+  public objTimeOver = false;
 
   // Windowing (very simplified)
   public w12sel = 0x00;        // $2123: window enable flags for BG1/BG2 (simplified)
@@ -111,6 +143,12 @@ export class PPU {
   public wh1 = 255;            // $2127: window 1 right
   public wh2 = 0;              // $2128: window 2 left
   public wh3 = 255;            // $2129: window 2 right
+  // Window combine logic per layer (0=OR, 1=AND, 2=XOR, 3=XNOR); 0 (OR) until written
+  public wbglog = 0x00;        // $212A: BG1 bits 0-1, BG2 2-3, BG3 4-5, BG4 6-7
+  public wobjlog = 0x00;       // $212B: OBJ bits 0-1, backdrop/color window bits 2-3
+  // Window mask designation: layers (bit0-4 = BG1-BG4, OBJ) hidden inside their window on main/sub
+  public tmw = 0x00;           // $212E
+  public tsw = 0x00;           // $212F
 
   // Feature flags for testing alternate semantics
   public cgwStrictMaskMode = true; // when true, do not require CGADSUB bit5 as a global enable
@@ -118,6 +156,40 @@ export class PPU {
   public bg1MapWidth64 = false;  // $2107 bits 0-1
   public bg1MapHeight64 = false;
 
+  // Mode 7 (M7SEL $211A, matrix $211B-$2120). Matrix values are signed: A-D are 1.7.8 fixed point,
+  // X/Y and the mode 7 scroll (shared with BG1HOFS/BG1VOFS writes) are 13-bit.
+  public m7sel = 0x00;         // bits 6-7 screen over, bit1 V flip, bit0 H flip
+  public m7a = 0;
+  public m7b = 0;
+  public m7c = 0;
+  public m7d = 0;
+  public m7x = 0;
+  public m7y = 0;
+  public m7HOfs = 0;
+  public m7VOfs = 0;
+  private m7Latch = 0;         // previous byte written to any mode 7 register (write-twice latch)
+
+  // SETINI ($2133): bit6 EXTBG (mode 7 BG2), bit3 pseudo-hires, bit2 overscan, bit1 OBJ interlace, bit0 interlace
+  public setini = 0x00;
+  public interlace = false;
+  public objInterlace = false;
+  public overscan = false;
+  public field = 0;            // interlace field (0 = even, 1 = odd), flips every frame
+
+  // Scanline renderer: when enabled, endScanline draws each visible line from the registers in effect at
+  // that moment. Rows are BGR555 before brightness, 512 wide; interlaced fields weave into 478 rows.
+  // The buffers are allocated by the first line drawn.
+  public scanlineRender = false;
+  public frameBGR555: Uint16Array | null = null;
+  public frameBrightness: Uint8Array | null = null; // INIDISP brightness per row, 0 when force-blanked
+  // Optional per-pixel layer provenance (see provenance.ts), same layout as frameBGR555; assign a
+  // Uint16Array(FRAME_WIDTH * FRAME_MAX_ROWS) to have the scanline renderer fill it
+  public frameProvenance: Uint16Array | null = null;
+  public frameLines = 224;                      // layout of the last completed frame
+  public frameHiRes = false;
+  public frameInterlaced = false;
+  private lineHiRes = false;                    // any hi-res line so far in the frame being drawn
+
   // Helpers
   constructor() {
     try {
@@ -187,6 +259,54 @@ export class PPU {
     return phys & 0x7fff;
   }
 
+  // Mode 7 registers are written low byte then high byte through a single shared latch
+  private m7Word16(v: number): number {
+    const w = ((v << 8) | this.m7Latch) << 16 >> 16;
+    this.m7Latch = v;
+    return w;
+  }
+  private m7Word13(v: number): number {
+    const w = ((v << 8) | this.m7Latch) << 19 >> 19;
+    this.m7Latch = v;
+    return w;
+  }
+
+  // Decoded tile cache. A tile of `bpp` bits per pixel spans bpp*4 words, so a written word belongs to
+  // exactly one aligned tile at each depth.
+  cachedTile(bpp: number, tileWordAddr: number): number[] | undefined {
+    return this.tileCache.get(bpp * 0x8000 + tileWordAddr);
+  }
+  cacheTile(bpp: number, tileWordAddr: number, tile: number[]): void {
+    this.tileCache.set(bpp * 0x8000 + tileWordAddr, tile);
+  }
+  private invalidateTiles(addr: number): void {
+    if (this.tileCache.size === 0) return;
+    for (const bpp of [2, 4, 8]) this.tileCache.delete(bpp * 0x8000 + (addr & ~(bpp * 4 - 1)));
+  }
+
+  // A port is busy on visible lines unless the display is force-blanked; CGRAM is free again during HBlank
+  private portBusy(port: PPUPort): boolean {
+    if (this.forceBlank || this.scanline >= this.vblankStartLine()) return false;
+    return port !== 'cgram' || !this.hblank;
+  }
+
+  // H position for access checks; the line-driven PPU has none
+  protected currentDot(): number {
+    return 0;
+  }
+
+  private reportAccess(port: PPUPort, reg: number, addr: number, value: number): void {
+    this.onAccessViolation?.({
+      port, reg: 0x2100 | reg, addr, value, scanline: this.scanline, dot: this.currentDot(), pc: lastCPUPC(),
+    });
+  }
+
+  // OAM address the PPU itself drives during range evaluation: two dots per sprite from the first priority sprite
+  private evalOAMAddr(): number {
+    const first = this.objPriorityRotation ? (this.oamReloadAddr >> 1) & 0x7f : 0;
+    return ((first + (Math.min(this.currentDot(), 255) >> 1)) & 0x7f) << 2;
+  }
+
   // Expose for tests
   inspectVRAMWord(addr: number): number {
     return this.vram[addr & 0x7fff];
@@ -199,16 +319,49 @@ export class PPU {
     return this.oam[addr % 544];
   }
 
+  // First VBlank line: 224, or 240 when overscan is enabled
+  vblankStartLine(): number {
+    return this.overscan ? NTSC.vblankStartLineOverscan : NTSC.vblankStartLine;
+  }
+
+  // Lines output per field: 224, or 239 with overscan
+  visibleLines(): number {
+    return this.overscan ? 239 : 224;
+  }
+
+  // $2106 value that applied to visible line y
+  mosaicAtLine(y: number): number {
+    return y >= 0 && y < this.mosaicLines.length ? this.mosaicLines[y] : this.mosaic;
+  }
+
   // Timing hooks (minimal)
   startFrame(): void {
     this.scanline = 0;
+    this.mosaicLines.fill(this.mosaic);
     this.hblank = false;
   }
   endScanline(): void {
+    if (this.scanlineRender && this.scanline < this.visibleLines()) {
+      if (renderScanline(this, this.scanline)) this.lineHiRes = true;
+    }
+    if (this.scanline < this.visibleLines() && !this.forceBlank) {
+      const line = evaluateOBJLine(this, this.scanline);
+      if (line.rangeOver) this.objRangeOver = true;
+      if (line.timeOver) this.objTimeOver = true;
+    }
     this.scanline++;
     if (this.scanline >= 262) {
       this.frame++;
+      this.field ^= 1;
       this.scanline = 0;
+      this.mosaicLines.fill(this.mosaic);
+      if (this.scanlineRender) {
+        this.frameLines = this.visibleLines();
+        this.frameHiRes = this.lineHiRes;
+        this.frameInterlaced = this.interlace;
+        this.lineHiRes = false;
+      }
+      if (!this.forceBlank) this.objRangeOver = this.objTimeOver = false;
     }
     // Clear hblank at end of each scanline; scheduler will toggle during next scanline
     this.hblank = false;
@@ -222,7 +375,8 @@ export class PPU {
       case 0x39: {
         // Latch the current word and return low byte.
         // If bit7=0 (increment-after-LOW), the increment occurs now after reading low.
-        this.vramReadLatchWord = this.vram[this.physVRAMAddr(this.vaddr)] & 0xffff;
+        this.vramReadLatchWord = this.accessRestrictions && this.portBusy('vram')
+          ? 0 : this.vram[this.physVRAMAddr(this.vaddr)] & 0xffff;
         const v = this.vramReadLatchWord & 0xff;
         if (!this.incOnHigh()) this.incVAddr(); // increment-after-LOW
         this.vramReadLowNext = false;
@@ -239,6 +393,16 @@ export class PPU {
         return v;
       }
 
+      // MPYL/MPYM/MPYH $2134-$2136: signed M7A * (high byte of M7B), 24-bit result
+      case 0x34:
+      case 0x35:
+      case 0x36: {
+        const product = this.m7a * ((this.m7b >> 8) << 24 >> 24);
+        const v = (product >> ((addr - 0x34) * 8)) & 0xff;
+        this.regs[addr] = v;
+        return v;
+      }
+
       // CGRAM read $213B
       case 0x3b: {
         const v = this.cgram[this.cgadd & 0x1ff];
@@ -247,9 +411,17 @@ export class PPU {
         return v;
       }
 
+      // STAT77 $213E: time over, range over, PPU1 version 1
+      case 0x3e: {
+        const v = (this.objTimeOver ? 0x80 : 0) | (this.objRangeOver ? 0x40 : 0) | 0x01;
+        this.regs[addr] = v;
+        return v;
+      }
+
       // OAMDATA read $2138
       case 0x38: {
-        const v = this.oam[this.oamAddr % 544];
+        const src = this.accessRestrictions && this.portBusy('oam') ? this.evalOAMAddr() : this.oamAddr;
+        const v = this.oam[src % 544];
         this.oamAddr = (this.oamAddr + 1) % 544;
         this.regs[addr] = v;
         return v;
@@ -272,12 +444,10 @@ export class PPU {
         this.brightness = v & 0x0f;
         break;
       }
-      case 0x01: { // OBSEL ($2101) - simplified: set OBJ char base and size
-        // On real HW, bits select base/size; here simplify:
-        // - low nibble -> base in units of 0x1000 bytes
-        // - bit4 -> 1 = 16x16 sprites, 0 = 8x8 sprites
-        this.objCharBaseWord = (v & 0x0f) << 11; // words offset
-        this.objSize16 = (v & 0x10) !== 0;
+      case 0x01: { // OBSEL ($2101)
+        this.objCharBaseWord = (v & 0x07) << 13;
+        this.objNameGapWord = ((v >> 3) & 0x03) << 12;
+        this.objSizeSelect = (v >> 5) & 0x07;
         break;
       }
       case 0x15: { // VMAIN ($2115)
@@ -304,10 +474,16 @@ export class PPU {
       }
       case 0x09: { // BG3SC ($2109)
         this.bg3MapBaseWord = (v & 0xfc) << 7;
+        const size = v & 0x03;
+        this.bg3MapWidth64 = (size === 1) || (size === 3);
+        this.bg3MapHeight64 = (size === 2) || (size === 3);
         break;
       }
       case 0x0a: { // BG4SC ($210A)
         this.bg4MapBaseWord = (v & 0xfc) << 7;
+        const size = v & 0x03;
+        this.bg4MapWidth64 = (size === 1) || (size === 3);
+        this.bg4MapHeight64 = (size === 2) || (size === 3);
         break;
       }
       case 0x0b: { // BG12NBA ($210B)
@@ -332,14 +508,20 @@ export class PPU {
       }
       case 0x05: { // BGMODE ($2105)
         this.bgMode = v & 0x07;
+        this.bg3Priority = (v & 0x08) !== 0;
         this.bg1TileSize16 = (v & 0x10) !== 0;
-        // Add BG2 16x16 support via bit5
-        // Note: we don't model BG3/BG4 tile sizes here
-        // @ts-ignore - declare lazily if not present in older builds
-        (this as any).bg2TileSize16 = (v & 0x20) !== 0;
+        this.bg2TileSize16 = (v & 0x20) !== 0;
+        this.bg3TileSize16 = (v & 0x40) !== 0;
+        this.bg4TileSize16 = (v & 0x80) !== 0;
+        break;
+      }
+      case 0x06: { // MOSAIC ($2106)
+        this.mosaic = v;
+        if (this.scanline < this.mosaicLines.length) this.mosaicLines.fill(v, this.scanline);
         break;
       }
-      case 0x0d: { // BG1HOFS ($210D)
+      case 0x0d: { // BG1HOFS ($210D), also M7HOFS
+        this.m7HOfs = this.m7Word13(v);
         if (this.bg1HOfsPhase === 0) {
           this.bg1HOfsLatchLow = v;
           this.bg1HOfsPhase = 1;
@@ -349,7 +531,8 @@ export class PPU {
         }
         break;
       }
-      case 0x0e: { // BG1VOFS ($210E)
+      case 0x0e: { // BG1VOFS ($210E), also M7VOFS
+        this.m7VOfs = this.m7Word13(v);
         if (this.bg1VOfsPhase === 0) {
           this.bg1VOfsLatchLow = v;
           this.bg1VOfsPhase = 1;
@@ -437,13 +620,17 @@ export class PPU {
         }
         this.vramWriteLatchLow = v & 0xff;
         this.vramWriteHasLow = true;
+        if (this.portBusy('vram')) this.reportAccess('vram', addr, this.physVRAMAddr(this.vramWriteAddrLatch), v);
         // Apply address increment timing for LOW if configured
         if (!this.incOnHigh()) this.incVAddr();
         // If we already have a high byte, commit the pair now
         if (this.vramWriteHasHigh) {
           const addr = this.physVRAMAddr(this.vramWriteAddrLatch);
           const word = ((this.vramWriteLatchHigh & 0xff) << 8) | (this.vramWriteLatchLow & 0xff);
-          this.vram[addr] = word & 0xffff;
+          if (!this.accessRestrictions || !this.portBusy('vram')) {
+            this.vram[addr] = word & 0xffff;
+            this.invalidateTiles(addr);
+          }
           if (this.vramCommitLogEnabled && this.vramCommitLogRemaining > 0) {
             if (addr >= this.vramCommitLogFrom && addr <= this.vramCommitLogTo) {
               // eslint-disable-next-line no-console
@@ -464,13 +651,17 @@ export class PPU {
         }
         this.vramWriteLatchHigh = v & 0xff;
         this.vramWriteHasHigh = true;
+        if (this.portBusy('vram')) this.reportAccess('vram', addr, this.physVRAMAddr(this.vramWriteAddrLatch), v);
         // Apply address increment timing for HIGH if configured
         if (this.incOnHigh()) this.incVAddr();
         // If we already have a low byte, commit the pair now
         if (this.vramWriteHasLow) {
           const addr = this.physVRAMAddr(this.vramWriteAddrLatch);
           const word = ((this.vramWriteLatchHigh & 0xff) << 8) | (this.vramWriteLatchLow & 0xff);
-          this.vram[addr] = word & 0xffff;
+          if (!this.accessRestrictions || !this.portBusy('vram')) {
+            this.vram[addr] = word & 0xffff;
+            this.invalidateTiles(addr);
+          }
           if (this.vramCommitLogEnabled && this.vramCommitLogRemaining > 0) {
             if (addr >= this.vramCommitLogFrom && addr <= this.vramCommitLogTo) {
               // eslint-disable-next-line no-console
@@ -485,12 +676,50 @@ export class PPU {
         break;
       }
 
+      case 0x1a: { // M7SEL ($211A)
+        this.m7sel = v & 0xc3;
+        break;
+      }
+      case 0x1b: { // M7A ($211B)
+        this.m7a = this.m7Word16(v);
+        break;
+      }
+      case 0x1c: { // M7B ($211C)
+        this.m7b = this.m7Word16(v);
+        break;
+      }
+      case 0x1d: { // M7C ($211D)
+        this.m7c = this.m7Word16(v);
+        break;
+      }
+      case 0x1e: { // M7D ($211E)
+        this.m7d = this.m7Word16(v);
+        break;
+      }
+      case 0x1f: { // M7X ($211F)
+        this.m7x = this.m7Word13(v);
+        break;
+      }
+      case 0x20: { // M7Y ($2120)
+        this.m7y = this.m7Word13(v);
+        break;
+      }
+      case 0x33: { // SETINI ($2133)
+        this.setini = v;
+        this.interlace = (v & 0x01) !== 0;
+        this.objInterlace = (v & 0x02) !== 0;
+        this.overscan = (v & 0x04) !== 0;
+        break;
+      }
+
       case 0x21: { // CGADD ($2121)
         this.cgadd = v & 0xff; // byte index
         break;
       }
       case 0x22: { // CGDATA ($2122)
-        this.cgram[this.cgadd & 0x1ff] = v;
+        const busy = this.portBusy('cgram');
+        if (busy) this.reportAccess('cgram', addr, this.cgadd & 0x1ff, v);
+        if (!busy || !this.accessRestrictions) this.cgram[this.cgadd & 0x1ff] = v;
         this.cgadd = (this.cgadd + 1) & 0x1ff;
         break;
       }
@@ -546,17 +775,42 @@ export class PPU {
         this.wh3 = v & 0xff;
         break;
       }
+      case 0x2a: { // WBGLOG ($212A)
+        this.wbglog = v;
+        break;
+      }
+      case 0x2b: { // WOBJLOG ($212B)
+        this.wobjlog = v & 0x0f;
+        break;
+      }
+      case 0x2e: { // TMW ($212E) main screen window mask
+        this.tmw = v & 0x1f;
+        break;
+      }
+      case 0x2f: { // TSW ($212F) sub screen window mask
+        this.tsw = v & 0x1f;
+        break;
+      }
 
+      // OAMADDL/OAMADDH hold a word address; the data ports walk bytes from twice it
       case 0x02: { // OAMADDL ($2102)
-        this.oamAddr = (this.oamAddr & 0x300) | v;
+        this.oamReloadAddr = (this.oamReloadAddr & 0x100) | v;
+        this.oamAddr = (this.oamReloadAddr << 1) % 544;
         break;
       }
-      case 0x03: { // OAMADDH ($2103)
-        this.oamAddr = (this.oamAddr & 0x0ff) | ((v & 0x03) << 8);
+      case 0x03: { // OAMADDH ($2103), bit0 = word address bit 8, bit7 = OBJ priority rotation
+        this.oamReloadAddr = (this.oamReloadAddr & 0x0ff) | ((v & 0x01) << 8);
+        this.oamAddr = (this.oamReloadAddr << 1) % 544;
+        this.objPriorityRotation = (v & 0x80) !== 0;
         break;
       }
       case 0x04: { // OAMDATA ($2104)
-        this.oam[this.oamAddr % 544] = v;
+        let dst = this.oamAddr % 544;
+        if (this.portBusy('oam')) {
+          this.reportAccess('oam', addr, dst, v);
+          if (this.accessRestrictions) dst = this.evalOAMAddr();
+        }
+        this.oam[dst] = v;
         this.oamAddr = (this.oamAddr + 1) % 544;
         break;
       }
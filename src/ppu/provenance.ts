@@ -0,0 +1,42 @@
+// Per-pixel layer provenance recorded by the compositor (renderMainScreenBGR555) into a Uint16Array
+// side buffer, one entry per output pixel:
+//   bits 0-2   main screen source: 0 backdrop, 1-4 BG1-BG4, 5 OBJ
+//   bits 3-4   main source priority (BG 0-1, OBJ 0-3)
+//   bits 5-7   sub screen source: 0 backdrop, 1-4 BG1-BG4, 5 OBJ, 6 fixed color (COLDATA)
+//   bits 8-9   sub source priority
+//   bit 10     color math applied
+//   bit 11     color window clipped the main color to black
+//   bit 12     TMW/TSW hid an opaque layer pixel at this position
+export const PROV_BACKDROP = 0;
+export const PROV_OBJ = 5;
+export const PROV_FIXED = 6;
+
+export const PROV_MATH = 0x0400;
+export const PROV_CLIPPED = 0x0800;
+export const PROV_WINDOW_MASKED = 0x1000;
+
+export interface PixelProvenance {
+  mainLayer: number;
+  mainPriority: number;
+  subLayer: number;
+  subPriority: number;
+  colorMath: boolean;
+  clipped: boolean;
+  windowMasked: boolean;
+}
+
+export function packProvenance(mainLayer: number, mainPriority: number, subLayer: number, subPriority: number, flags: number): number {
+  return (mainLayer & 0x07) | ((mainPriority & 0x03) << 3) | ((subLayer & 0x07) << 5) | ((subPriority & 0x03) << 8) | flags;
+}
+
+export function decodeProvenance(v: number): PixelProvenance {
+  return {
+    mainLayer: v & 0x07,
+    mainPriority: (v >> 3) & 0x03,
+    subLayer: (v >> 5) & 0x07,
+    subPriority: (v >> 8) & 0x03,
+    colorMath: (v & PROV_MATH) !== 0,
+    clipped: (v & PROV_CLIPPED) !== 0,
+    windowMasked: (v & PROV_WINDOW_MASKED) !== 0,
+  };
+}
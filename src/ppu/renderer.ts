@@ -7,10 +7,28 @@ function readByteFromVRAM(ppu: PPU, baseWordAddr: number, byteOffset: number): n
   return (w >>> 8) & 0xff;
 }
 
+// Decode through the PPU's tile cache. Tiles are cached under their wrapped word address when it is
+// aligned to the tile size (every char base the PPU can select is), so a VRAM write can find them again.
+// The returned array is shared: callers must not modify it.
+function cachedTile(ppu: PPU, bpp: number, tileWordBase: number, decode: () => number[]): number[] {
+  const addr = tileWordBase & 0x7fff;
+  if ((addr & (bpp * 4 - 1)) !== 0) return decode();
+  let tile = ppu.cachedTile(bpp, addr);
+  if (!tile) {
+    tile = decode();
+    ppu.cacheTile(bpp, addr, tile);
+  }
+  return tile;
+}
+
 // Decode a single 2bpp tile at (baseWordAddr + tileIndex*8 words) into an array of 64 palette indices (0..3)
 export function render2bppTileIndices(ppu: PPU, baseWordAddr: number, tileIndex: number): number[] {
-  const out: number[] = new Array(64);
   const tileWordBase = baseWordAddr + tileIndex * 8; // 16 bytes = 8 words
+  return cachedTile(ppu, 2, tileWordBase, () => decode2bpp(ppu, tileWordBase));
+}
+
+function decode2bpp(ppu: PPU, tileWordBase: number): number[] {
+  const out: number[] = new Array(64);
   for (let y = 0; y < 8; y++) {
     const low0 = readByteFromVRAM(ppu, tileWordBase, y * 2 + 0); // plane 0
     const low1 = readByteFromVRAM(ppu, tileWordBase, y * 2 + 1); // plane 1
@@ -27,8 +45,12 @@ export function render2bppTileIndices(ppu: PPU, baseWordAddr: number, tileIndex:
 
 // Decode a single 4bpp tile at (baseWordAddr + tileIndex*16 words) into an array of 64 palette indices.
 export function render4bppTileIndices(ppu: PPU, baseWordAddr: number, tileIndex: number): number[] {
-  const out: number[] = new Array(64);
   const tileWordBase = baseWordAddr + tileIndex * 16; // 32 bytes = 16 words
+  return cachedTile(ppu, 4, tileWordBase, () => decode4bpp(ppu, tileWordBase));
+}
+
+function decode4bpp(ppu: PPU, tileWordBase: number): number[] {
+  const out: number[] = new Array(64);
 
   for (let y = 0; y < 8; y++) {
     const row = y;
@@ -50,3 +72,32 @@ export function render4bppTileIndices(ppu: PPU, baseWordAddr: number, tileIndex:
 
   return out;
 }
+
+// Decode a single 8bpp tile at (baseWordAddr + tileIndex*32 words) into an array of 64 palette indices (0..255).
+// Bitplanes are stored in pairs: planes 0/1, 2/3, 4/5, 6/7 in consecutive 16-byte blocks.
+export function render8bppTileIndices(ppu: PPU, baseWordAddr: number, tileIndex: number): number[] {
+  const tileWordBase = baseWordAddr + tileIndex * 32; // 64 bytes = 32 words
+  return cachedTile(ppu, 8, tileWordBase, () => decode8bpp(ppu, tileWordBase));
+}
+
+function decode8bpp(ppu: PPU, tileWordBase: number): number[] {
+  const out: number[] = new Array(64).fill(0);
+  for (let y = 0; y < 8; y++) {
+    for (let pair = 0; pair < 4; pair++) {
+      const lo = readByteFromVRAM(ppu, tileWordBase, pair * 16 + y * 2 + 0);
+      const hi = readByteFromVRAM(ppu, tileWordBase, pair * 16 + y * 2 + 1);
+      for (let x = 0; x < 8; x++) {
+        const bit = 7 - x;
+        out[y * 8 + x] |= (((lo >> bit) & 1) << (pair * 2)) | (((hi >> bit) & 1) << (pair * 2 + 1));
+      }
+    }
+  }
+  return out;
+}
+
+// Decode a tile of the given color depth (2, 4 or 8 bits per pixel)
+export function renderTileIndices(ppu: PPU, baseWordAddr: number, tileIndex: number, bpp: number): number[] {
+  if (bpp === 8) return render8bppTileIndices(ppu, baseWordAddr, tileIndex);
+  if (bpp === 4) return render4bppTileIndices(ppu, baseWordAddr, tileIndex);
+  return render2bppTileIndices(ppu, baseWordAddr, tileIndex);
+}
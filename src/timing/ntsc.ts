@@ -3,6 +3,7 @@ export interface NtscTiming {
   readonly dotsPerLine: number;
   readonly linesPerFrame: number;
   readonly vblankStartLine: number;
+  readonly vblankStartLineOverscan: number; // SETINI bit2
   readonly vblankEndLine: number; // first visible line after VBlank
   readonly visibleDotStart: number;
   readonly visibleDotEnd: number; // exclusive
@@ -14,6 +15,7 @@ export const NTSC: NtscTiming = {
   dotsPerLine: 341,          // placeholder
   linesPerFrame: 262,
   vblankStartLine: 224,
+  vblankStartLineOverscan: 240,
   vblankEndLine: 0,          // wraps to 0 at frame start
   visibleDotStart: 0,        // will refine once we model borders
   visibleDotEnd: 256,        // typical 256-wide visible region (tests often use 256)
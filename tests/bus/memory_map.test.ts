@@ -0,0 +1,127 @@
+import { describe, it, expect, vi } from 'vitest';
+import { SNESBus } from '../../src/bus/snesBus';
+import { Cartridge } from '../../src/cart/cartridge';
+import { PageHandler } from '../../src/bus/memoryMap';
+import { CPU65C816 } from '../../src/cpu/cpu65c816';
+
+function mkCart(mapping: 'lorom' | 'hirom', sramBytes?: number) {
+  const rom = new Uint8Array(0x20000);
+  for (let i = 0; i < rom.length; i++) rom[i] = (i >> 8) ^ i;
+  return new Cartridge({ rom, mapping, sramBytes });
+}
+
+const at = (bank: number, off: number) => ((bank & 0xff) << 16) | (off & 0xffff);
+
+describe('Page-table memory map', () => {
+  it('reads ROM, WRAM and small mirrored SRAM through direct pages', () => {
+    const cart = mkCart('lorom', 0x800); // 2KiB SRAM mirrored inside each 4KiB page
+    const bus = new SNESBus(cart);
+    expect(bus.read8(at(0x81, 0x9234))).toBe(cart.rom[0x8000 + 0x1234]); // LoROM bank 1 at $8000
+    expect(bus.read16(at(0x00, 0x8010))).toBe(cart.rom[0x10] | (cart.rom[0x11] << 8));
+
+    bus.write8(at(0x00, 0x1234), 0x5a);
+    expect(bus.read8(at(0x7e, 0x1234))).toBe(0x5a);
+    expect(bus.read8(at(0xbf, 0x1234))).toBe(0x5a);
+
+    bus.write8(at(0x70, 0x0001), 0x77);
+    expect(cart.sram![1]).toBe(0x77);
+    expect(bus.read8(at(0x70, 0x0801))).toBe(0x77);
+    expect(bus.read8(at(0x7d, 0x7801))).toBe(0x77);
+  });
+
+  it('keeps MMIO on the handler path and leaves unmapped areas as open bus', () => {
+    const bus = new SNESBus(mkCart('lorom'));
+    bus.write8(at(0x00, 0x2181), 0x00);
+    bus.write8(at(0x00, 0x2182), 0x20);
+    bus.write8(at(0x00, 0x2183), 0x00);
+    bus.write8(at(0x80, 0x2180), 0x99);
+    expect(bus.read8(at(0x7e, 0x2000))).toBe(0x99);
+    // ROM writes are dropped; a LoROM hole reads back the last bus value
+    bus.write8(at(0x00, 0x8000), 0x42);
+    expect(bus.read8(at(0x40, 0x1000))).toBe(0x42);
+  });
+
+  it('switches ROM in banks 80-FF to FastROM timing on MEMSEL', () => {
+    const bus = new SNESBus(mkCart('lorom'));
+    expect(bus.accessCycles(at(0x80, 0x8000))).toBe(8);
+    bus.write8(at(0x00, 0x420d), 0x01);
+    expect(bus.accessCycles(at(0x80, 0x8000))).toBe(6);
+    expect(bus.accessCycles(at(0x00, 0x8000))).toBe(8);
+    expect(bus.accessCycles(at(0x7e, 0x0000))).toBe(8);
+    expect(bus.accessCycles(at(0x00, 0x2100))).toBe(6);
+    expect(bus.accessCycles(at(0x00, 0x4016))).toBe(12);
+    bus.write8(at(0x00, 0x420d), 0x00);
+    expect(bus.accessCycles(at(0x80, 0x8000))).toBe(8);
+  });
+
+  it('charges micro-ticked CPU accesses at the page speed', () => {
+    const old = process.env.CPU_MICRO_TICK;
+    process.env.CPU_MICRO_TICK = '1';
+    try {
+      const cart = mkCart('lorom');
+      cart.rom.set([0x5c, 0x04, 0x80, 0x80, 0xea, 0xea], 0); // JML $80:8004; NOP; NOP
+      cart.rom[0x7ffc] = 0x00; cart.rom[0x7ffd] = 0x80;
+      const bus = new SNESBus(cart);
+      const cpu = new CPU65C816(bus);
+      cpu.reset();
+      cpu.stepInstruction();
+      const ticked: number[] = [];
+      const tick = vi.spyOn(bus, 'tickCycles').mockImplementation((c?: number) => { ticked.push(c ?? 0); });
+      cpu.stepInstruction();
+      bus.write8(at(0x00, 0x420d), 0x01);
+      cpu.stepInstruction();
+      tick.mockRestore();
+      expect(ticked).toEqual([8, 6]); // NOP fetches from bank 80: SlowROM, then FastROM
+    } finally {
+      if (old === undefined) delete process.env.CPU_MICRO_TICK; else process.env.CPU_MICRO_TICK = old;
+    }
+  });
+
+  it('lets a coprocessor take over pages until it is unmapped', () => {
+    const cart = mkCart('hirom');
+    const bus = new SNESBus(cart);
+    const regs = new Uint8Array(0x1000);
+    const dev: PageHandler = { read: (a) => regs[a & 0xfff], write: (a, v) => { regs[a & 0xfff] = v; } };
+    bus.mapCoprocessor({ banks: [0x00, 0x3f], offsets: [0x3000, 0x3fff], handler: dev });
+    bus.write8(at(0x12, 0x3004), 0xab);
+    expect(regs[4]).toBe(0xab);
+    expect(bus.read8(at(0x00, 0x3004))).toBe(0xab);
+    expect(bus.read8(at(0x80, 0x3004))).not.toBe(0xab);
+    bus.unmapCoprocessor(dev);
+    bus.write8(at(0x12, 0x3004), 0x01);
+    expect(regs[4]).toBe(0xab);
+  });
+
+  it('keeps low WRAM on the mapWrite path while CPU_STACK_LOG stack watches can fire', () => {
+    const old = process.env.CPU_STACK_LOG;
+    process.env.CPU_STACK_LOG = '1';
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const g = globalThis as any;
+    try {
+      const bus = new SNESBus(mkCart('lorom'));
+      g.__stackWatchAddrs = [0x01fd];
+      bus.write8(at(0x00, 0x01fd), 0x12);
+      expect(log.mock.calls.some((c) => String(c[0]).startsWith('[STKW] W 00:01fd <- 12'))).toBe(true);
+      expect(bus.read8(at(0x7e, 0x01fd))).toBe(0x12);
+    } finally {
+      delete g.__stackWatchAddrs;
+      log.mockRestore();
+      if (old === undefined) delete process.env.CPU_STACK_LOG; else process.env.CPU_STACK_LOG = old;
+    }
+  });
+
+  it('keeps low WRAM on the mapWrite path for the DP write watches', () => {
+    const old = process.env.DP21_WATCH;
+    process.env.DP21_WATCH = 'true';
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    try {
+      const bus = new SNESBus(mkCart('lorom'));
+      bus.write8(at(0x80, 0x0021), 0x34);
+      expect(log.mock.calls.some((c) => String(c[0]).startsWith('[DP21:WRITE] 80:0021 <- 34'))).toBe(true);
+      expect(bus.read8(at(0x7e, 0x0021))).toBe(0x34);
+    } finally {
+      log.mockRestore();
+      if (old === undefined) delete process.env.DP21_WATCH; else process.env.DP21_WATCH = old;
+    }
+  });
+});
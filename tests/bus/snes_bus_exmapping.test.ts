@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { SNESBus } from '../../src/bus/snesBus';
+import { Cartridge } from '../../src/cart/cartridge';
+
+const MiB = 0x100000;
+
+// Tag the first byte of every 32KiB chunk with its chunk number so translations are easy to check
+function mkCart(bytes: number, mapping: 'exlorom' | 'exhirom', sramBytes?: number) {
+  const rom = new Uint8Array(bytes);
+  for (let chunk = 0; chunk * 0x8000 < rom.length; chunk++) {
+    rom[chunk * 0x8000] = chunk & 0xff;
+    rom[chunk * 0x8000 + 1] = (chunk >>> 8) & 0xff;
+  }
+  return new Cartridge({ rom, mapping, sramBytes });
+}
+
+function chunkAt(bus: SNESBus, bank: number, off: number): number {
+  const a = ((bank & 0xff) << 16) | (off & 0xffff);
+  return bus.read8(a) | (bus.read8(a + 1) << 8);
+}
+
+describe('SNESBus extended mapping (ExHiROM / ExLoROM)', () => {
+  it('ExHiROM maps the first 4MiB at $C0-$FF and the rest at $40-$7D', () => {
+    const bus = new SNESBus(mkCart(6 * MiB, 'exhirom'));
+    // $C0:0000 -> ROM 0, $FF:8000 -> ROM 0x3F8000
+    expect(chunkAt(bus, 0xc0, 0x0000)).toBe(0);
+    expect(chunkAt(bus, 0xff, 0x8000)).toBe(0x3f8000 / 0x8000);
+    // $40:0000 -> ROM 0x400000, $5F:8000 -> ROM 0x5F8000
+    expect(chunkAt(bus, 0x40, 0x0000)).toBe(0x400000 / 0x8000);
+    expect(chunkAt(bus, 0x5f, 0x8000)).toBe(0x5f8000 / 0x8000);
+  });
+
+  it('ExHiROM system banks mirror upper halves: $00:8000 -> 0x408000, $80:8000 -> 0x008000', () => {
+    const bus = new SNESBus(mkCart(6 * MiB, 'exhirom'));
+    expect(chunkAt(bus, 0x00, 0x8000)).toBe(0x408000 / 0x8000);
+    expect(chunkAt(bus, 0x80, 0x8000)).toBe(0x008000 / 0x8000);
+    expect(chunkAt(bus, 0x81, 0x8000)).toBe(0x018000 / 0x8000);
+  });
+
+  it('ExLoROM maps the first 4MiB at $80-$FF and the rest at $00-$7D', () => {
+    const bus = new SNESBus(mkCart(6 * MiB, 'exlorom'));
+    expect(chunkAt(bus, 0x80, 0x8000)).toBe(0);
+    expect(chunkAt(bus, 0xff, 0x8000)).toBe(0x7f);
+    expect(chunkAt(bus, 0x00, 0x8000)).toBe(0x400000 / 0x8000);
+    expect(chunkAt(bus, 0x3f, 0x8000)).toBe(0x400000 / 0x8000 + 0x3f);
+  });
+
+  it('keeps SRAM windows: ExHiROM at $20-$3F:$6000, ExLoROM at $70-$7D:$0000', () => {
+    const hi = mkCart(6 * MiB, 'exhirom', 0x2000);
+    const hiBus = new SNESBus(hi);
+    hiBus.write8((0xa0 << 16) | 0x6000, 0x5a);
+    expect(hi.sram![0]).toBe(0x5a);
+
+    const lo = mkCart(6 * MiB, 'exlorom', 0x2000);
+    const loBus = new SNESBus(lo);
+    loBus.write8((0x70 << 16) | 0x0001, 0xa5);
+    expect(lo.sram![1]).toBe(0xa5);
+  });
+});
@@ -1,5 +1,5 @@
-import { describe, it, expect } from 'vitest';
-import { SNESBus } from '../../src/bus/snesBus';
+import { describe, it, expect, vi } from 'vitest';
+import { SNESBus, DMATraceEvent } from '../../src/bus/snesBus';
 import { Cartridge } from '../../src/cart/cartridge';
 
 function mkCart(bytes: number, mapping: 'lorom' | 'hirom' = 'lorom') {
@@ -68,3 +68,93 @@ describe('DMA MDMAEN basic transfers', () => {
   });
 });
 
+
+// Channel 0 setup: DMAP, BBAD, A1B:A1T, DAS
+function setupCh0(bus: SNESBus, dmap: number, bbad: number, src: number, count: number) {
+  write8(bus, 0x00, 0x4300, dmap);
+  write8(bus, 0x00, 0x4301, bbad);
+  write8(bus, 0x00, 0x4302, src & 0xff);
+  write8(bus, 0x00, 0x4303, (src >> 8) & 0xff);
+  write8(bus, 0x00, 0x4304, (src >> 16) & 0xff);
+  write8(bus, 0x00, 0x4305, count & 0xff);
+  write8(bus, 0x00, 0x4306, (count >> 8) & 0xff);
+}
+
+// Record B-bus writes made by a transfer
+function recordBWrites(bus: SNESBus): number[] {
+  const seen: number[] = [];
+  const busAny = bus as any;
+  const mapWrite = busAny.mapWrite.bind(bus);
+  busAny.mapWrite = (addr: number, v: number) => {
+    if ((addr & 0xff00) === 0x2100) seen.push(addr & 0xff);
+    mapWrite(addr, v);
+  };
+  return seen;
+}
+
+describe('DMA transfer modes and A-bus rules', () => {
+  it('follows the B-bus address pattern of every mode', () => {
+    const expected = [
+      [0x40, 0x40, 0x40, 0x40, 0x40, 0x40, 0x40, 0x40],
+      [0x40, 0x41, 0x40, 0x41, 0x40, 0x41, 0x40, 0x41],
+      [0x40, 0x40, 0x40, 0x40, 0x40, 0x40, 0x40, 0x40],
+      [0x40, 0x40, 0x41, 0x41, 0x40, 0x40, 0x41, 0x41],
+      [0x40, 0x41, 0x42, 0x43, 0x40, 0x41, 0x42, 0x43],
+      [0x40, 0x41, 0x40, 0x41, 0x40, 0x41, 0x40, 0x41],
+      [0x40, 0x40, 0x40, 0x40, 0x40, 0x40, 0x40, 0x40],
+      [0x40, 0x40, 0x41, 0x41, 0x40, 0x40, 0x41, 0x41],
+    ];
+    for (let mode = 0; mode < 8; mode++) {
+      const bus = new SNESBus(mkCart(0x20000));
+      setupCh0(bus, mode, 0x40, 0x008000, 8);
+      const seen = recordBWrites(bus);
+      write8(bus, 0x00, 0x420b, 0x01);
+      expect(seen).toEqual(expected[mode]);
+    }
+  });
+
+  it('wraps the A-bus address inside its bank and writes back A1T and DAS', () => {
+    const bus = new SNESBus(mkCart(0x20000));
+    write8(bus, 0x00, 0x0000, 0x5a); // 00:0000 mirrors WRAM
+    setupCh0(bus, 0x00, 0x80, 0x00fffe, 3); // ROM $FFFE, $FFFF, then WRAM 00:0000 -> $2180
+    write8(bus, 0x00, 0x2181, 0x00);
+    write8(bus, 0x00, 0x2182, 0x20);
+    write8(bus, 0x00, 0x2183, 0x00);
+    write8(bus, 0x00, 0x420b, 0x01);
+    expect(read8(bus, 0x7e, 0x2000)).toBe(0xfe);
+    expect(read8(bus, 0x7e, 0x2001)).toBe(0xff);
+    // The third byte came from WRAM, so the WRAM-to-WRAM transfer moved nothing
+    expect(read8(bus, 0x7e, 0x2002)).toBe(0x00);
+    expect([read8(bus, 0x00, 0x4302), read8(bus, 0x00, 0x4303), read8(bus, 0x00, 0x4304)]).toEqual([0x01, 0x00, 0x00]);
+    expect([read8(bus, 0x00, 0x4305), read8(bus, 0x00, 0x4306)]).toEqual([0x00, 0x00]);
+  });
+
+  it('refuses WRAM-to-WRAM through $2180 in both directions', () => {
+    const bus = new SNESBus(mkCart(0x20000));
+    write8(bus, 0x7e, 0x3000, 0x11);
+    write8(bus, 0x7e, 0x4000, 0x22);
+    write8(bus, 0x00, 0x2181, 0x00);
+    write8(bus, 0x00, 0x2182, 0x40);
+    write8(bus, 0x00, 0x2183, 0x00);
+    setupCh0(bus, 0x80, 0x80, 0x7e3000, 1); // B->A: $2180 -> 7E:3000
+    write8(bus, 0x00, 0x420b, 0x01);
+    expect(read8(bus, 0x7e, 0x3000)).toBe(0x11);
+    setupCh0(bus, 0x00, 0x80, 0x7e3000, 1); // A->B: 7E:3000 -> $2180
+    write8(bus, 0x00, 0x420b, 0x01);
+    expect(read8(bus, 0x7e, 0x4000)).toBe(0x22);
+  });
+
+  it('stays quiet unless a trace hook is registered', () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const bus = new SNESBus(mkCart(0x20000));
+    const events: DMATraceEvent[] = [];
+    setupCh0(bus, 0x01, 0x18, 0x018000, 4);
+    write8(bus, 0x00, 0x420b, 0x01);
+    bus.setDMATraceCallback((e) => events.push(e));
+    setupCh0(bus, 0x81, 0x39, 0x7e1000, 0);
+    write8(bus, 0x00, 0x420b, 0x01);
+    expect(log).not.toHaveBeenCalled();
+    log.mockRestore();
+    expect(events).toEqual([{ channel: 0, dmap: 0x81, bbad: 0x39, source: 0x7e1000, count: 0x10000, dirBtoA: true }]);
+  });
+});
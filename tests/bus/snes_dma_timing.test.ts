@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { SNESBus } from '../../src/bus/snesBus';
+import { Cartridge } from '../../src/cart/cartridge';
+import { Emulator } from '../../src/emulator/core';
+import { Scheduler } from '../../src/emulator/scheduler';
+
+function mkCart() {
+  const rom = new Uint8Array(0x20000);
+  // Reset vector -> $8000: LDA #$01; STA $420B; BRA -2
+  rom.set([0xa9, 0x01, 0x8d, 0x0b, 0x42, 0x80, 0xfe], 0);
+  rom[0x7ffc] = 0x00; rom[0x7ffd] = 0x80;
+  return new Cartridge({ rom, mapping: 'lorom' });
+}
+
+function write8(bus: SNESBus, bank: number, addr: number, value: number) {
+  bus.write8(((bank & 0xff) << 16) | (addr & 0xffff), value & 0xff);
+}
+
+function read8(bus: SNESBus, bank: number, addr: number) {
+  return bus.read8(((bank & 0xff) << 16) | (addr & 0xffff));
+}
+
+// Channel 0: ROM 00:8000 -> $2180 (WRAM port at 7E:2000), mode 0
+function setupDMA(bus: SNESBus, count: number) {
+  write8(bus, 0x00, 0x2181, 0x00);
+  write8(bus, 0x00, 0x2182, 0x20);
+  write8(bus, 0x00, 0x2183, 0x00);
+  write8(bus, 0x00, 0x4300, 0x00);
+  write8(bus, 0x00, 0x4301, 0x80);
+  write8(bus, 0x00, 0x4302, 0x00);
+  write8(bus, 0x00, 0x4303, 0x80);
+  write8(bus, 0x00, 0x4304, 0x00);
+  write8(bus, 0x00, 0x4305, count & 0xff);
+  write8(bus, 0x00, 0x4306, (count >> 8) & 0xff);
+}
+
+const remaining = (bus: SNESBus) => read8(bus, 0x00, 0x4305) | (read8(bus, 0x00, 0x4306) << 8);
+
+describe('DMA cycle stealing', () => {
+  it('spends 8 master cycles per byte after channel and sync overhead', () => {
+    const bus = new SNESBus(mkCart());
+    bus.setDMATiming(true);
+    setupDMA(bus, 16);
+    write8(bus, 0x00, 0x420b, 0x01);
+    expect(bus.isCPUStalled()).toBe(true);
+    expect(remaining(bus)).toBe(16);
+    bus.runStall(16 + 8 + 8); // sync, channel overhead, first byte
+    expect(remaining(bus)).toBe(15);
+    bus.runStall(15 * 8 - 1);
+    expect(remaining(bus)).toBe(0);
+    expect(bus.isCPUStalled()).toBe(true);
+    bus.runStall(1);
+    expect(bus.isCPUStalled()).toBe(false);
+    expect(read8(bus, 0x7e, 0x2000)).toBe(0xa9);
+  });
+
+  it('lets HDMA take the bus in the middle of a DMA', () => {
+    const bus = new SNESBus(mkCart());
+    bus.setDMATiming(true);
+    // HDMA channel 1: direct, mode 0, to $2121; table 7E:3000 = 2 lines of $05, then end
+    [0x02, 0x05, 0x00].forEach((v, i) => write8(bus, 0x7e, 0x3000 + i, v));
+    write8(bus, 0x00, 0x4310, 0x00);
+    write8(bus, 0x00, 0x4311, 0x21);
+    write8(bus, 0x00, 0x4312, 0x00);
+    write8(bus, 0x00, 0x4313, 0x30);
+    write8(bus, 0x00, 0x4314, 0x7e);
+    write8(bus, 0x00, 0x420c, 0x02);
+    bus.hdmaInit();
+    setupDMA(bus, 16);
+    write8(bus, 0x00, 0x420b, 0x01);
+    bus.runStall(32);
+    expect(remaining(bus)).toBe(15);
+    bus.hdmaStep();
+    bus.runStall(18 + 8 + 8); // HDMA line overhead, channel, one byte
+    expect(remaining(bus)).toBe(15);
+    bus.runStall(8);
+    expect(remaining(bus)).toBe(14);
+  });
+
+  describe('with cycle-based synthetic timing', () => {
+    const oldEnv: Record<string, any> = {};
+    beforeEach(() => {
+      oldEnv.SNES_TIMING_SIM = process.env.SNES_TIMING_SIM;
+      oldEnv.SNES_TIMING_MODE = process.env.SNES_TIMING_MODE;
+      process.env.SNES_TIMING_SIM = '1';
+      process.env.SNES_TIMING_MODE = 'cycles';
+    });
+    afterEach(() => {
+      process.env.SNES_TIMING_SIM = oldEnv.SNES_TIMING_SIM;
+      process.env.SNES_TIMING_MODE = oldEnv.SNES_TIMING_MODE;
+    });
+
+    it('runs the clock through the whole transfer on the next tickCycles', () => {
+      const bus = new SNESBus(mkCart());
+      setupDMA(bus, 0x1000);
+      write8(bus, 0x00, 0x420b, 0x01);
+      expect(remaining(bus)).toBe(0x1000);
+      bus.tickCycles(1);
+      expect(remaining(bus)).toBe(0);
+      expect(bus.isCPUStalled()).toBe(false);
+      // 1 + 16 + 8 + 0x1000 * 8 master cycles = 24 scanlines and change
+      expect(bus.getPPU().scanline).toBe(24);
+    });
+  });
+
+  it('makes the Scheduler give instruction slots to a long DMA', () => {
+    const emu = Emulator.fromCartridge(mkCart());
+    const sched = new Scheduler(emu, 100, { onCpuError: 'throw' });
+    emu.reset();
+    setupDMA(emu.bus, 0x8000);
+    sched.stepScanline();
+    // 0x8000 bytes take about 192 scanlines of bus time
+    expect(remaining(emu.bus)).toBeGreaterThan(0x7000);
+    for (let i = 0; i < 200; i++) sched.stepScanline();
+    expect(remaining(emu.bus)).toBe(0);
+    expect(emu.bus.isCPUStalled()).toBe(false);
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import { SNESBus } from '../../src/bus/snesBus';
+import { Cartridge } from '../../src/cart/cartridge';
+import { Emulator } from '../../src/emulator/core';
+import { Scheduler } from '../../src/emulator/scheduler';
+
+function mkCart() {
+  const rom = new Uint8Array(0x20000);
+  // Reset vector -> $8000; program is an endless BRA -2 so the scheduler has something to run
+  rom[0x0000] = 0x80; rom[0x0001] = 0xfe;
+  rom[0x7ffc] = 0x00; rom[0x7ffd] = 0x80;
+  return new Cartridge({ rom, mapping: 'lorom' });
+}
+
+function write8(bus: SNESBus, bank: number, addr: number, value: number) {
+  bus.write8(((bank & 0xff) << 16) | (addr & 0xffff), value & 0xff);
+}
+
+function read8(bus: SNESBus, bank: number, addr: number) {
+  return bus.read8(((bank & 0xff) << 16) | (addr & 0xffff));
+}
+
+function writeTable(bus: SNESBus, addr: number, bytes: number[]) {
+  for (let i = 0; i < bytes.length; i++) write8(bus, 0x7e, addr + i, bytes[i]);
+}
+
+// Configure channel `ch` for HDMA with table at 7E:tableAddr
+function setupChannel(bus: SNESBus, ch: number, dmap: number, bbad: number, tableAddr: number) {
+  const base = 0x4300 + ch * 0x10;
+  write8(bus, 0x00, base + 0x0, dmap);
+  write8(bus, 0x00, base + 0x1, bbad);
+  write8(bus, 0x00, base + 0x2, tableAddr & 0xff);
+  write8(bus, 0x00, base + 0x3, (tableAddr >>> 8) & 0xff);
+  write8(bus, 0x00, base + 0x4, 0x7e);
+}
+
+describe('HDMA: frame init and per-scanline transfers', () => {
+  it('direct mode 0: non-repeat entry writes once, then holds until the counter expires', () => {
+    const bus = new SNESBus(mkCart());
+    // 3 lines of value $05 (non-repeat), then 2 lines repeat with $01,$02, then end
+    writeTable(bus, 0x2000, [0x03, 0x05, 0x82, 0x01, 0x02, 0x00]);
+    setupChannel(bus, 0, 0x00, 0x32, 0x2000); // COLDATA, mode 0
+    write8(bus, 0x00, 0x420c, 0x01);
+
+    bus.hdmaInit();
+    let s = bus.getHDMAChannelState(0);
+    expect(s.lineCounter).toBe(0x03);
+    expect(s.tableAddr).toBe(0x2001);
+    expect(s.doTransfer).toBe(true);
+
+    bus.hdmaStep(); // line 0: transfer $05
+    expect(read8(bus, 0x00, 0x4300 + 0x0a)).toBe(0x02);
+    expect(bus.getHDMAChannelState(0).doTransfer).toBe(false);
+    bus.hdmaStep(); // line 1: no transfer
+    bus.hdmaStep(); // line 2: no transfer, counter expires -> load $82
+    s = bus.getHDMAChannelState(0);
+    expect(s.lineCounter).toBe(0x82);
+    expect(s.tableAddr).toBe(0x2003);
+
+    bus.hdmaStep(); // line 3: repeat -> $01
+    expect(bus.getHDMAChannelState(0).lineCounter).toBe(0x81);
+    bus.hdmaStep(); // line 4: repeat -> $02, then $00 terminates
+    s = bus.getHDMAChannelState(0);
+    expect(s.terminated).toBe(true);
+    expect(s.lineCounter).toBe(0x00);
+    expect(s.tableAddr).toBe(0x2006);
+  });
+
+  it('direct mode 2 writes the same register twice per line (CGDATA)', () => {
+    const bus = new SNESBus(mkCart());
+    const ppu = bus.getPPU();
+    // Two repeat lines, each writing a 15-bit colour into CGRAM
+    writeTable(bus, 0x2100, [0x82, 0x1f, 0x00, 0xe0, 0x03, 0x00]);
+    setupChannel(bus, 1, 0x02, 0x22, 0x2100);
+    write8(bus, 0x00, 0x420c, 0x02);
+    write8(bus, 0x00, 0x2121, 0x00);
+
+    bus.hdmaInit();
+    bus.hdmaStep();
+    expect(ppu.inspectCGRAMWord(0)).toBe(0x001f);
+    bus.hdmaStep();
+    expect(ppu.inspectCGRAMWord(1)).toBe(0x03e0);
+    expect(bus.getHDMAChannelState(1).terminated).toBe(true);
+  });
+
+  it('indirect mode reads data via DASB:DAS and reloads the pointer per entry', () => {
+    const bus = new SNESBus(mkCart());
+    // Table: 1 line -> pointer $3000, 1 line -> pointer $3010, end
+    writeTable(bus, 0x2200, [0x01, 0x00, 0x30, 0x01, 0x10, 0x30, 0x00]);
+    write8(bus, 0x7e, 0x3000, 0x11);
+    write8(bus, 0x7e, 0x3010, 0x22);
+    setupChannel(bus, 2, 0x40, 0x80, 0x2200); // indirect, mode 0, B=$2180 (WMDATA)
+    write8(bus, 0x00, 0x4327, 0x7e); // DASB
+    write8(bus, 0x00, 0x420c, 0x04);
+    // WRAM port target 7E:4000
+    write8(bus, 0x00, 0x2181, 0x00);
+    write8(bus, 0x00, 0x2182, 0x40);
+    write8(bus, 0x00, 0x2183, 0x00);
+
+    bus.hdmaInit();
+    expect(bus.getHDMAChannelState(2).indirectAddr).toBe(0x3000);
+    bus.hdmaStep();
+    expect(bus.getHDMAChannelState(2).indirectAddr).toBe(0x3010);
+    bus.hdmaStep();
+    expect(read8(bus, 0x7e, 0x4000)).toBe(0x11);
+    expect(read8(bus, 0x7e, 0x4001)).toBe(0x22);
+    expect(bus.getHDMAChannelState(2).terminated).toBe(true);
+  });
+
+  it('Scheduler drives HDMA once per visible scanline at HBlank', () => {
+    const emu = Emulator.fromCartridge(mkCart());
+    emu.reset();
+    const bus = emu.bus;
+    // Repeat for 100 lines writing COLDATA red intensity = line-dependent value via WRAM table
+    const table: number[] = [0xe4];
+    for (let i = 0; i < 100; i++) table.push(0x20 | (i & 0x1f));
+    table.push(0x00);
+    writeTable(bus, 0x2400, table);
+    setupChannel(bus, 3, 0x00, 0x32, 0x2400);
+    write8(bus, 0x00, 0x420c, 0x08);
+
+    const sched = new Scheduler(emu, 4);
+    const ppu = bus.getPPU();
+    for (let i = 0; i < 10; i++) sched.stepScanline();
+    expect(ppu.fixedR).toBe(9);
+    expect(read8(bus, 0x00, 0x433a)).toBe(0xe4 - 10);
+
+    sched.stepFrame();
+    // $64 lines (100) transferred in the repeat entry; the last written value sticks
+    expect(ppu.fixedR).toBe(99 & 0x1f);
+    expect(bus.getHDMAChannelState(3).terminated).toBe(true);
+  });
+});
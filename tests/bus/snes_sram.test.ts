@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { SNESBus } from '../../src/bus/snesBus';
+import { Cartridge } from '../../src/cart/cartridge';
+
+function mkCart(mapping: 'lorom' | 'hirom', sramBytes?: number) {
+  const rom = new Uint8Array(0x20000);
+  for (let i = 0; i < rom.length; i++) rom[i] = i & 0xff;
+  return new Cartridge({ rom, mapping, sramBytes });
+}
+
+const at = (bank: number, off: number) => ((bank & 0xff) << 16) | (off & 0xffff);
+
+describe('Cartridge SRAM mapping', () => {
+  it('LoROM maps SRAM at $70-$7D:$0000-$7FFF and mirrors by size', () => {
+    const cart = mkCart('lorom', 0x2000); // 8KiB
+    const bus = new SNESBus(cart);
+    bus.write8(at(0x70, 0x0000), 0x12);
+    bus.write8(at(0x70, 0x1fff), 0x34);
+    expect(cart.sram![0x0000]).toBe(0x12);
+    expect(cart.sram![0x1fff]).toBe(0x34);
+    // 8KiB mirrors every $2000 within the bank and across banks
+    expect(bus.read8(at(0x70, 0x2000))).toBe(0x12);
+    expect(bus.read8(at(0x71, 0x0000))).toBe(0x12);
+    expect(bus.read8(at(0xf0, 0x3fff))).toBe(0x34);
+    // ROM above $8000 in SRAM banks is untouched
+    expect(bus.read8(at(0x70, 0x8001))).toBe(0x01);
+  });
+
+  it('HiROM maps SRAM at $20-$3F:$6000-$7FFF in 8KiB pages', () => {
+    const cart = mkCart('hirom', 0x8000); // 32KiB -> 4 banks
+    const bus = new SNESBus(cart);
+    bus.write8(at(0x20, 0x6000), 0xaa);
+    bus.write8(at(0x21, 0x6000), 0xbb);
+    expect(cart.sram![0x0000]).toBe(0xaa);
+    expect(cart.sram![0x2000]).toBe(0xbb);
+    expect(bus.read8(at(0xa1, 0x6000))).toBe(0xbb);
+    expect(bus.read8(at(0x24, 0x6000))).toBe(0xaa);
+    // Outside the SRAM window: still ROM
+    expect(bus.read8(at(0x40, 0x6001))).toBe(0x01);
+  });
+
+  it('carts without SRAM leave the window as open bus', () => {
+    const cart = mkCart('lorom');
+    const bus = new SNESBus(cart);
+    expect(cart.sram).toBeNull();
+    bus.write8(at(0x70, 0x0000), 0x55);
+    expect(bus.read8(at(0x00, 0x8003))).toBe(0x03);
+    expect(bus.read8(at(0x70, 0x0000))).toBe(0x03);
+  });
+
+  it('exports and imports .srm images', () => {
+    const cart = mkCart('lorom', 0x800);
+    const bus = new SNESBus(cart);
+    bus.write8(at(0x70, 0x0010), 0x99);
+    const srm = cart.exportSRAM();
+    expect(srm.length).toBe(0x800);
+    expect(srm[0x10]).toBe(0x99);
+    // Exported image is a copy
+    srm[0x10] = 0x00;
+    expect(bus.read8(at(0x70, 0x0010))).toBe(0x99);
+
+    const other = mkCart('lorom', 0x800);
+    other.importSRAM(cart.exportSRAM());
+    expect(new SNESBus(other).read8(at(0x70, 0x0010))).toBe(0x99);
+    // Short image: tail cleared
+    other.importSRAM(new Uint8Array([1, 2]));
+    expect(other.sram![0x10]).toBe(0x00);
+    expect(other.sram![1]).toBe(2);
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { detectMapping, parseHeader } from '../../src/cart/header';
+import { detectMapping, parseHeader, scoreHeader, sramBytesFromHeader } from '../../src/cart/header';
 
 function mkRom(size: number): Uint8Array {
   return new Uint8Array(size);
@@ -30,4 +30,102 @@ describe('SNES ROM header detection', () => {
 
     expect(detectMapping(rom)).toBe('hirom');
   });
+
+  it('reads the SRAM size byte', () => {
+    const rom = mkRom(0x8000);
+    rom[0x7fc0 + 0x18] = 0x03; // 8KiB
+    expect(parseHeader(rom).sramBytes).toBe(0x2000);
+    rom[0x7fc0 + 0x18] = 0x00;
+    expect(parseHeader(rom).sramBytes).toBe(0);
+    expect(sramBytesFromHeader(0x05)).toBe(0x8000);
+    expect(sramBytesFromHeader(0xff)).toBe(0);
+  });
+
+  it('scores reset vector, first opcode and map mode when checksums are bad', () => {
+    // Homebrew-style HiROM: no valid checksum in either header
+    const rom = mkRom(0x20000);
+    const hi = 0xffc0;
+    rom[hi + 0x15] = 0x31;                          // HiROM + FastROM
+    rom[hi + 0x3c] = 0x00; rom[hi + 0x3d] = 0x80;   // reset -> $8000
+    rom[0x8000] = 0x78;                             // SEI at HiROM $00:8000
+    // LoROM candidate: reset vector points at a BRK
+    rom[0x7fc0 + 0x3c] = 0x00; rom[0x7fc0 + 0x3d] = 0x80;
+    rom[0x0000] = 0x00;
+
+    expect(scoreHeader(rom, hi, 0x21)).toBeGreaterThan(scoreHeader(rom, 0x7fc0, 0x20));
+    expect(detectMapping(rom)).toBe('hirom');
+    const h = parseHeader(rom);
+    expect(h.headerOffset).toBe(hi);
+    expect(h.mapMode).toBe(0x31);
+    expect(h.fastRom).toBe(true);
+  });
+
+  it('parses cart type, sizes, region, version and the extended header', () => {
+    const rom = mkRom(0x8000);
+    const base = 0x7fc0;
+    rom[base + 0x15] = 0x20;
+    rom[base + 0x16] = 0x35;  // SA-1 + RAM + battery
+    rom[base + 0x17] = 0x0a;  // 1MiB
+    rom[base + 0x18] = 0x05;  // 32KiB
+    rom[base + 0x19] = 0x02;  // Europe
+    rom[base + 0x1a] = 0x33;  // extended header present
+    rom[base + 0x1b] = 0x01;
+    rom.set([0x30, 0x31], base - 0x10);              // maker "01"
+    rom.set([0x41, 0x42, 0x43, 0x44], base - 0x0e);  // game code "ABCD"
+    rom[base - 0x10 + 0x0d] = 0x01;                  // 2KiB expansion RAM
+
+    const h = parseHeader(rom);
+    expect(h.cartType).toBe(0x35);
+    expect(h.coprocessor).toBe('sa1');
+    expect(h.hasBattery).toBe(true);
+    expect(h.romBytes).toBe(0x100000);
+    expect(h.sramBytes).toBe(0x8000);
+    expect(h.region).toBe(0x02);
+    expect(h.video).toBe('pal');
+    expect(h.developerId).toBe(0x33);
+    expect(h.version).toBe(1);
+    expect(h.extended).not.toBeNull();
+    expect(h.extended!.makerCode).toBe('01');
+    expect(h.extended!.gameCode).toBe('ABCD');
+    expect(h.extended!.expansionRamBytes).toBe(0x800);
+  });
+
+  it('reports no coprocessor or extended header for plain ROM carts', () => {
+    const rom = mkRom(0x8000);
+    rom[0x7fc0 + 0x16] = 0x02; // ROM + RAM + battery
+    const h = parseHeader(rom);
+    expect(h.coprocessor).toBe('none');
+    expect(h.hasBattery).toBe(true);
+    expect(h.extended).toBeNull();
+    expect(h.video).toBe('ntsc');
+  });
+
+  it('detects ExHiROM from the header at $40FFC0 in ROMs over 4MiB', () => {
+    const rom = mkRom(0x600000);
+    const base = 0x40ffc0;
+    rom[base + 0x15] = 0x35;                          // ExHiROM + FastROM
+    rom[base + 0x17] = 0x0d;                          // 8MiB
+    rom[base + 0x1c] = 0x34; rom[base + 0x1d] = 0x12;
+    rom[base + 0x1e] = 0xcb; rom[base + 0x1f] = 0xed;
+    rom[base + 0x3c] = 0x00; rom[base + 0x3d] = 0x80; // reset -> $8000 (ROM 0x408000)
+    rom[0x408000] = 0x78;
+    // A stale copy of the header in the HiROM slot loses on the map mode and the ExHiROM bonus
+    rom.set(rom.slice(base, base + 0x40), 0xffc0);
+    rom[0x8000] = 0x78;
+
+    expect(detectMapping(rom)).toBe('exhirom');
+    const h = parseHeader(rom);
+    expect(h.headerOffset).toBe(base);
+    expect(h.romBytes).toBe(0x800000);
+  });
+
+  it('detects ExLoROM from the header at $407FC0', () => {
+    const rom = mkRom(0x600000);
+    const base = 0x407fc0;
+    rom[base + 0x15] = 0x32;
+    rom[base + 0x3c] = 0x00; rom[base + 0x3d] = 0x80; // reset -> $00:8000 (ROM 0x400000)
+    rom[0x400000] = 0x18;
+
+    expect(detectMapping(rom)).toBe('exlorom');
+  });
 });
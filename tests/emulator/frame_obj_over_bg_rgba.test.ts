@@ -23,7 +23,7 @@ describe('Frame RGBA: OBJ over BG1 (priority, transparency)', () => {
 
     // BG1: map base 0x0000, char base 0x0800 words; VMAIN +1 word
     w8(bus, mmio(0x07), 0x00);
-    w8(bus, mmio(0x0b), 0x02);
+    w8(bus, mmio(0x0b), 0x01);
     w8(bus, mmio(0x15), 0x00);
 
     // Write 4bpp tile 0 at 0x0800: solid palette index 1 (plane0=0xFF)
@@ -52,19 +52,19 @@ describe('Frame RGBA: OBJ over BG1 (priority, transparency)', () => {
     w8(bus, mmio(0x22), 0x1f);
     w8(bus, mmio(0x22), 0x00);
 
-    // OBJ: char base 0x1000 bytes (words offset set via OBSEL low nibble)
-    w8(bus, mmio(0x01), 0x02); // low nibble=2 => word base 0x1000
+    // OBJ: char base 0x2000 words (OBSEL bits0-2 in 8K-word steps)
+    w8(bus, mmio(0x01), 0x01);
 
-    // Write OBJ tile index 1 at char base 0x1000 (solid red)
+    // Write OBJ tile index 1 at char base 0x2000 (solid red)
     for (let y = 0; y < 8; y++) {
-      w8(bus, mmio(0x16), (0x1000 + 16 + y) & 0xff);
-      w8(bus, mmio(0x17), ((0x1000 + 16 + y) >>> 8) & 0xff);
+      w8(bus, mmio(0x16), (0x2000 + 16 + y) & 0xff);
+      w8(bus, mmio(0x17), ((0x2000 + 16 + y) >>> 8) & 0xff);
       w8(bus, mmio(0x18), 0xff);
       w8(bus, mmio(0x19), 0x00);
     }
     for (let y = 0; y < 8; y++) {
-      w8(bus, mmio(0x16), (0x1000 + 16 + 8 + y) & 0xff);
-      w8(bus, mmio(0x17), ((0x1000 + 16 + 8 + y) >>> 8) & 0xff);
+      w8(bus, mmio(0x16), (0x2000 + 16 + 8 + y) & 0xff);
+      w8(bus, mmio(0x17), ((0x2000 + 16 + 8 + y) >>> 8) & 0xff);
       w8(bus, mmio(0x18), 0x00);
       w8(bus, mmio(0x19), 0x00);
     }
@@ -72,8 +72,8 @@ describe('Frame RGBA: OBJ over BG1 (priority, transparency)', () => {
     // OAM: sprite at (0,0), tile=1, attr: priority high (bit5=1) and OBJ palette group 1 (bits1-3=001)
     w8(bus, mmio(0x02), 0x00); // OAMADDL=0
     w8(bus, mmio(0x03), 0x00); // OAMADDH=0
-    w8(bus, mmio(0x04), 0x00); // y
     w8(bus, mmio(0x04), 0x00); // x low
+    w8(bus, mmio(0x04), 0x00); // y
     w8(bus, mmio(0x04), 0x01); // tile index 1
     w8(bus, mmio(0x04), 0x22); // attr: priority high + palette group 1
 
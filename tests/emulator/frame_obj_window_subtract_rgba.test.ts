@@ -21,19 +21,19 @@ describe('Frame RGBA: OBJ subtract-half with fixed color inside window only', ()
     w8(bus, mmio(0x00), 0x0f);
     w8(bus, mmio(0x2c), 0x10);
 
-    // OBSEL: char base word 0x1000; 8x8 sprites
-    w8(bus, mmio(0x01), 0x02);
+    // OBSEL: char base word 0x2000; 8x8 sprites
+    w8(bus, mmio(0x01), 0x01);
 
     // Write OBJ tile index 1: red solid (plane0=0xff rows)
     for (let y = 0; y < 8; y++) {
-      w8(bus, mmio(0x16), (0x1000 + 16 + y) & 0xff);
-      w8(bus, mmio(0x17), ((0x1000 + 16 + y) >>> 8) & 0xff);
+      w8(bus, mmio(0x16), (0x2000 + 16 + y) & 0xff);
+      w8(bus, mmio(0x17), ((0x2000 + 16 + y) >>> 8) & 0xff);
       w8(bus, mmio(0x18), 0xff);
       w8(bus, mmio(0x19), 0x00);
     }
     for (let y = 0; y < 8; y++) {
-      w8(bus, mmio(0x16), (0x1000 + 16 + 8 + y) & 0xff);
-      w8(bus, mmio(0x17), ((0x1000 + 16 + 8 + y) >>> 8) & 0xff);
+      w8(bus, mmio(0x16), (0x2000 + 16 + 8 + y) & 0xff);
+      w8(bus, mmio(0x17), ((0x2000 + 16 + 8 + y) >>> 8) & 0xff);
       w8(bus, mmio(0x18), 0x00);
       w8(bus, mmio(0x19), 0x00);
     }
@@ -41,8 +41,8 @@ describe('Frame RGBA: OBJ subtract-half with fixed color inside window only', ()
     // OAM: sprite at (0,0), tile=1, attr palette group 1 (bits1-3=001), high priority
     w8(bus, mmio(0x02), 0x00); // OAMADDL
     w8(bus, mmio(0x03), 0x00); // OAMADDH
-    w8(bus, mmio(0x04), 0x00); // Y
     w8(bus, mmio(0x04), 0x00); // X
+    w8(bus, mmio(0x04), 0x00); // Y
     w8(bus, mmio(0x04), 0x01); // tile=1
     w8(bus, mmio(0x04), 0x22); // attr: prio high + pal group 1
 
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { Cartridge } from '../../src/cart/cartridge';
+import { Emulator } from '../../src/emulator/core';
+import { Scheduler } from '../../src/emulator/scheduler';
+import { SNESBus } from '../../src/bus/snesBus';
+
+const NMITIMEN = 0x00004200;
+const HTIMEL = 0x00004207;
+const HTIMEH = 0x00004208;
+const VTIMEL = 0x00004209;
+const VTIMEH = 0x0000420a;
+const TIMEUP = 0x00004211;
+
+function makeCart(): Cartridge {
+  const rom = new Uint8Array(0x20000);
+  // $8000: CLI; loop: BRA loop
+  rom.set([0x58, 0x80, 0xfe], 0x0000);
+  // $9000 IRQ handler: LDA $4211 (ack); INC $10; RTI
+  rom.set([0xad, 0x11, 0x42, 0xe6, 0x10, 0x40], 0x1000);
+  // Reset vector -> $8000, emulation-mode IRQ/BRK vector -> $9000
+  rom[0x7ffc] = 0x00; rom[0x7ffd] = 0x80;
+  rom[0x7ffe] = 0x00; rom[0x7fff] = 0x90;
+  return new Cartridge({ rom, mapping: 'lorom' });
+}
+
+// Walk the bus comparator across one full scanline, reporting whether TIMEUP was latched
+function runLine(bus: SNESBus): boolean {
+  for (let h = 0; h <= 341; h += 11) bus.updateHVTimer(h);
+  bus.updateHVTimer(341);
+  const hit = bus.isIRQAsserted();
+  bus.read8(TIMEUP);
+  bus.getPPU().endScanline();
+  return hit;
+}
+
+describe('H/V timer IRQ ($4200 bits 4-5, $4207-$420A, $4211)', () => {
+  it('V-IRQ fires once per frame on the VTIME line and $4211 read acknowledges it', () => {
+    const bus = new SNESBus(makeCart());
+    bus.write8(VTIMEL, 100);
+    bus.write8(VTIMEH, 0);
+    bus.write8(NMITIMEN, 0x20);
+
+    const hits: number[] = [];
+    for (let line = 0; line < 262; line++) {
+      const ppu = bus.getPPU();
+      const sl = ppu.scanline;
+      bus.updateHVTimer(0);
+      if (bus.isIRQAsserted()) {
+        hits.push(sl);
+        expect(bus.read8(TIMEUP) & 0x80).toBe(0x80);
+        expect(bus.read8(TIMEUP) & 0x80).toBe(0x00);
+        expect(bus.isIRQAsserted()).toBe(false);
+      }
+      bus.updateHVTimer(341);
+      ppu.endScanline();
+    }
+    expect(hits).toEqual([100]);
+  });
+
+  it('H-IRQ fires on every line and HV-IRQ only on the VTIME line', () => {
+    const bus = new SNESBus(makeCart());
+    bus.write8(HTIMEL, 0x20);
+    bus.write8(HTIMEH, 0x01); // HTIME = 288
+    bus.write8(VTIMEL, 3);
+    bus.write8(VTIMEH, 0);
+    bus.write8(NMITIMEN, 0x10);
+    expect([runLine(bus), runLine(bus), runLine(bus)]).toEqual([true, true, true]);
+
+    bus.write8(NMITIMEN, 0x30);
+    const hv = [runLine(bus), runLine(bus), runLine(bus)]; // lines 3, 4, 5
+    expect(hv).toEqual([true, false, false]);
+  });
+
+  it('out-of-range HTIME never fires, and clearing $4200 bits 4-5 drops a pending IRQ', () => {
+    const bus = new SNESBus(makeCart());
+    bus.write8(HTIMEL, 0xff);
+    bus.write8(HTIMEH, 0x01); // 511 > last dot
+    bus.write8(NMITIMEN, 0x10);
+    expect(runLine(bus)).toBe(false);
+
+    bus.write8(HTIMEL, 0x10);
+    bus.write8(HTIMEH, 0x00);
+    bus.updateHVTimer(0);
+    bus.updateHVTimer(0x20);
+    expect(bus.isIRQAsserted()).toBe(true);
+    bus.write8(NMITIMEN, 0x00);
+    expect(bus.isIRQAsserted()).toBe(false);
+  });
+
+  it('CPU services the level-triggered IRQ between instructions when I=0', () => {
+    const emu = Emulator.fromCartridge(makeCart());
+    emu.reset();
+    emu.bus.write8(VTIMEL, 50);
+    emu.bus.write8(VTIMEH, 0);
+    emu.bus.write8(NMITIMEN, 0x20);
+
+    const sched = new Scheduler(emu, 20);
+    sched.stepFrame();
+    // Handler acknowledged via $4211, so it ran exactly once this frame
+    expect(emu.bus.read8(0x7e0010)).toBe(1);
+    sched.stepFrame();
+    expect(emu.bus.read8(0x7e0010)).toBe(2);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { Cartridge } from '../../src/cart/cartridge';
+import { Emulator } from '../../src/emulator/core';
+import { Scheduler } from '../../src/emulator/scheduler';
+
+function makeCart(): Cartridge {
+  const rom = new Uint8Array(0x20000);
+  rom[0x7ffc] = 0x00;
+  rom[0x7ffd] = 0x80;
+  return new Cartridge({ rom, mapping: 'lorom' });
+}
+
+const RDNMI = 0x00004210;
+const HVBJOY = 0x00004212;
+const NMITIMEN = 0x00004200;
+const SETINI = 0x00002133;
+
+describe('Overscan (SETINI bit2) moves VBlank and NMI to line 240', () => {
+  it('keeps lines 224-239 visible and pulses NMI on 239->240', () => {
+    const emu = Emulator.fromCartridge(makeCart());
+    emu.reset();
+    emu.bus.write8(NMITIMEN, 0x80);
+    emu.bus.write8(SETINI, 0x04);
+
+    const sched = new Scheduler(emu, 2);
+    const ppu = emu.bus.getPPU();
+    expect(ppu.vblankStartLine()).toBe(240);
+    expect(ppu.visibleLines()).toBe(239);
+
+    for (let i = 0; i < 224; i++) sched.stepScanline();
+    expect(ppu.scanline).toBe(224);
+    expect(emu.bus.read8(HVBJOY) & 0x80).toBe(0x00);
+    expect(emu.bus.read8(RDNMI) & 0x80).toBe(0x00);
+
+    for (let i = 224; i < 239; i++) sched.stepScanline();
+    expect(emu.bus.read8(RDNMI) & 0x80).toBe(0x00);
+
+    sched.stepScanline();
+    expect(ppu.scanline).toBe(240);
+    expect(emu.bus.read8(HVBJOY) & 0x80).toBe(0x80);
+    expect(emu.bus.read8(RDNMI) & 0x80).toBe(0x80);
+  });
+
+  it('falls back to line 224 when overscan is cleared', () => {
+    const emu = Emulator.fromCartridge(makeCart());
+    emu.reset();
+    emu.bus.write8(SETINI, 0x04);
+    emu.bus.write8(SETINI, 0x00);
+    const sched = new Scheduler(emu, 2);
+    for (let i = 0; i < 224; i++) sched.stepScanline();
+    expect(emu.bus.read8(RDNMI) & 0x80).toBe(0x80);
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { SNESBus } from '../../src/bus/snesBus';
+import { Cartridge } from '../../src/cart/cartridge';
+import { PPUAccessViolation, formatAccessViolation } from '../../src/ppu/access';
+import { TimingPPU } from '../../src/ppu/timing/ppu_timing';
+
+const mmio = (reg: number) => (0x00 << 16) | (0x2100 + (reg & 0xff));
+const w8 = (bus: SNESBus, addr: number, v: number) => bus.write8(addr, v);
+
+function mkBus(opts = {}) {
+  const rom = new Uint8Array(0x20000);
+  const cart = new Cartridge({ rom, mapping: 'lorom' });
+  return new SNESBus(cart, opts);
+}
+
+function writeWord(bus: SNESBus, addr: number, v: number) {
+  w8(bus, mmio(0x15), 0x80);
+  w8(bus, mmio(0x16), addr & 0xff);
+  w8(bus, mmio(0x17), (addr >>> 8) & 0xff);
+  w8(bus, mmio(0x18), v & 0xff);
+  w8(bus, mmio(0x19), (v >>> 8) & 0xff);
+}
+
+afterEach(() => {
+  delete (globalThis as any).__lastPC;
+});
+
+describe('PPU access restrictions during active display', () => {
+  it('reports active-display writes with the CPU PC but still performs them by default', () => {
+    const bus = mkBus();
+    const ppu = bus.getPPU();
+    const seen: PPUAccessViolation[] = [];
+    ppu.onAccessViolation = (v) => seen.push(v);
+    ppu.scanline = 10;
+    (globalThis as any).__lastPC = { PBR: 0x80, PC: 0x8123 };
+    writeWord(bus, 0x0100, 0xbeef);
+    expect(ppu.inspectVRAMWord(0x0100)).toBe(0xbeef);
+    expect(seen.map((v) => [v.port, v.reg, v.addr, v.value])).toEqual([
+      ['vram', 0x2118, 0x0100, 0xef],
+      ['vram', 0x2119, 0x0100, 0xbe],
+    ]);
+    expect(seen[0].scanline).toBe(10);
+    expect(seen[0].pc).toBe(0x808123);
+    expect(formatAccessViolation(seen[0])).toContain('PC=80:8123');
+
+    // Nothing to report once the display is force-blanked
+    w8(bus, mmio(0x00), 0x80);
+    writeWord(bus, 0x0101, 0x1234);
+    expect(seen.length).toBe(2);
+  });
+
+  it('drops VRAM writes outside VBlank and forced blank, still stepping the address', () => {
+    const bus = mkBus({ ppuAccessRestrictions: true });
+    const ppu = bus.getPPU();
+    expect(ppu.accessRestrictions).toBe(true);
+    ppu.scanline = 100;
+    writeWord(bus, 0x0200, 0x1111);
+    w8(bus, mmio(0x18), 0x22); w8(bus, mmio(0x19), 0x22);
+    expect(ppu.inspectVRAMWord(0x0200)).toBe(0);
+    expect(ppu.inspectVRAMWord(0x0201)).toBe(0);
+
+    ppu.scanline = 230;
+    writeWord(bus, 0x0200, 0x3333);
+    expect(ppu.inspectVRAMWord(0x0200)).toBe(0x3333);
+
+    // VRAM reads during rendering see nothing either
+    ppu.scanline = 100;
+    w8(bus, mmio(0x16), 0x00); w8(bus, mmio(0x17), 0x02);
+    expect(bus.read8(mmio(0x39))).toBe(0);
+
+    ppu.scanline = 50;
+    w8(bus, mmio(0x00), 0x8f);
+    writeWord(bus, 0x0201, 0x4444);
+    expect(ppu.inspectVRAMWord(0x0201)).toBe(0x4444);
+  });
+
+  it('blocks DMA to VRAM during active display', () => {
+    const bus = mkBus({ ppuAccessRestrictions: true });
+    const ppu = bus.getPPU();
+    ppu.scanline = 20;
+    w8(bus, mmio(0x15), 0x80);
+    w8(bus, mmio(0x16), 0x00);
+    w8(bus, mmio(0x17), 0x03);
+    for (let i = 0; i < 4; i++) bus.write8((0x7e << 16) | (0x1100 + i), 0xaa);
+    w8(bus, 0x004300, 0x01);
+    w8(bus, 0x004301, 0x18);
+    w8(bus, 0x004302, 0x00);
+    w8(bus, 0x004303, 0x11);
+    w8(bus, 0x004304, 0x7e);
+    w8(bus, 0x004305, 4);
+    w8(bus, 0x004306, 0x00);
+    w8(bus, 0x00420b, 0x01);
+    expect(ppu.inspectVRAMWord(0x0300)).toBe(0);
+    expect(ppu.inspectVRAMWord(0x0301)).toBe(0);
+  });
+
+  it('loses CGRAM writes outside HBlank and keeps those made inside it', () => {
+    const bus = mkBus({ ppuAccessRestrictions: true });
+    const ppu = bus.getPPU();
+    ppu.scanline = 40;
+    w8(bus, mmio(0x21), 0x02);
+    w8(bus, mmio(0x22), 0x1f);
+    w8(bus, mmio(0x22), 0x00);
+    expect(ppu.inspectCGRAMWord(1)).toBe(0);
+    ppu.hblank = true;
+    w8(bus, mmio(0x21), 0x02);
+    w8(bus, mmio(0x22), 0x1f);
+    w8(bus, mmio(0x22), 0x00);
+    expect(ppu.inspectCGRAMWord(1)).toBe(0x001f);
+  });
+
+  it('redirects OAM accesses during rendering to the sprite under evaluation', () => {
+    const bus = mkBus({ ppu: 'timing', ppuAccessRestrictions: true });
+    const ppu = bus.getPPU() as TimingPPU;
+    ppu.scanline = 60;
+    ppu.setHCounter(20); // sprite 10 is being evaluated
+    w8(bus, mmio(0x02), 0x00);
+    w8(bus, mmio(0x03), 0x00);
+    w8(bus, mmio(0x04), 0x55);
+    expect(ppu.inspectOAMByte(0)).toBe(0);
+    expect(ppu.inspectOAMByte(40)).toBe(0x55);
+    expect(bus.read8(mmio(0x38))).toBe(0x55);
+
+    // In VBlank the OAM address is honoured again
+    ppu.scanline = 230;
+    w8(bus, mmio(0x02), 0x00);
+    w8(bus, mmio(0x04), 0x66);
+    expect(ppu.inspectOAMByte(0)).toBe(0x66);
+  });
+});
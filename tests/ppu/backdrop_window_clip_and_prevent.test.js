@@ -10,15 +10,15 @@ function mkBus() {
     return new SNESBus(cart);
 }
 function writeSolid(bus) {
+    // Mode 0 uses 2bpp tiles - write tile 1 at VRAM word address 0x0008
     for (let y = 0; y < 8; y++) {
-        w8(bus, mmio(0x16), (0x1000 + 16 + y) & 0xff);
-        w8(bus, mmio(0x17), ((0x1000 + 16 + y) >>> 8) & 0xff);
-        w8(bus, mmio(0x18), 0xff);
-        w8(bus, mmio(0x19), 0x00);
-        w8(bus, mmio(0x16), (0x1000 + 16 + 8 + y) & 0xff);
-        w8(bus, mmio(0x17), ((0x1000 + 16 + 8 + y) >>> 8) & 0xff);
-        w8(bus, mmio(0x18), 0x00);
-        w8(bus, mmio(0x19), 0x00);
+        // For 2bpp: write plane 0 (bit 0) and plane 1 (bit 1) in a single word
+        // Low byte = plane 0 (all pixels have bit 0 set for value 1)
+        // High byte = plane 1 (all zeros)
+        w8(bus, mmio(0x16), (0x0008 + y) & 0xff);
+        w8(bus, mmio(0x17), ((0x0008 + y) >>> 8) & 0xff);
+        w8(bus, mmio(0x18), 0xff); // Plane 0: all pixels have bit 0 set
+        w8(bus, mmio(0x19), 0x00); // Plane 1: all zeros
     }
 }
 describe('Backdrop window gating and clip-to-black', () => {
@@ -36,7 +36,7 @@ describe('Backdrop window gating and clip-to-black', () => {
         w8(bus, mmio(0x22), 0x7c);
         // BG1 green tile on subscreen
         w8(bus, mmio(0x07), 0x00);
-        w8(bus, mmio(0x0b), 0x02);
+        w8(bus, mmio(0x0b), 0x00);
         writeSolid(bus);
         w8(bus, mmio(0x16), 0x00);
         w8(bus, mmio(0x17), 0x00);
@@ -57,8 +57,8 @@ describe('Backdrop window gating and clip-to-black', () => {
         w8(bus, mmio(0x26), 0x00);
         w8(bus, mmio(0x27), 0x03);
         w8(bus, mmio(0x25), 0x04);
-        // CGWSEL: applyInside=1, sub gate on, no clip, OR combine
-        w8(bus, mmio(0x30), 0x01 | 0x02 | (0 << 6));
+        // CGWSEL: applyInside=1, sub gate on, no clip
+        w8(bus, mmio(0x30), 0x01 | 0x02);
         const rgba = renderMainScreenRGBA(ppu, 8, 1);
         const px = (x) => [rgba[x * 4], rgba[x * 4 + 1]];
         // Inside A -> blend red+green/2
@@ -76,7 +76,7 @@ describe('Backdrop window gating and clip-to-black', () => {
         w8(bus, mmio(0x27), 0x03);
         w8(bus, mmio(0x25), 0x04);
         // CGWSEL: applyInside=1, sub gate on, clip bit on
-        w8(bus, mmio(0x30), 0x01 | 0x02 | 0x08 | (0 << 6));
+        w8(bus, mmio(0x30), 0x01 | 0x02 | 0x08);
         const rgba = renderMainScreenRGBA(ppu, 8, 1);
         const px = (x) => [rgba[x * 4], rgba[x * 4 + 1], rgba[x * 4 + 2]];
         // Inside A -> blend
@@ -95,7 +95,7 @@ describe('Backdrop window gating and clip-to-black', () => {
         w8(bus, mmio(0x27), 0x03);
         w8(bus, mmio(0x25), 0x04 | 0x40);
         // applyInside=1, no clip
-        w8(bus, mmio(0x30), 0x01 | 0x02 | (0 << 6));
+        w8(bus, mmio(0x30), 0x01 | 0x02);
         const rgba = renderMainScreenRGBA(ppu, 8, 1);
         const px = (x) => [rgba[x * 4], rgba[x * 4 + 1]];
         // Inside A now treated as non-math -> pure red
@@ -56,8 +56,8 @@ describe('Backdrop window gating and clip-to-black', () => {
     // Window A [0..3]; enable backdrop A in WOBJSEL (bit2)
     w8(bus, mmio(0x26), 0x00); w8(bus, mmio(0x27), 0x03);
     w8(bus, mmio(0x25), 0x04);
-    // CGWSEL: applyInside=1, sub gate on, no clip, OR combine
-    w8(bus, mmio(0x30), 0x01 | 0x02 | (0 << 6));
+    // CGWSEL: applyInside=1, sub gate on, no clip
+    w8(bus, mmio(0x30), 0x01 | 0x02);
     const rgba = renderMainScreenRGBA(ppu, 8, 1);
     const px = (x: number) => [rgba[x*4], rgba[x*4+1]];
     // Inside A -> blend red+green/2
@@ -73,7 +73,7 @@ describe('Backdrop window gating and clip-to-black', () => {
     w8(bus, mmio(0x26), 0x00); w8(bus, mmio(0x27), 0x03);
     w8(bus, mmio(0x25), 0x04);
     // CGWSEL: applyInside=1, sub gate on, clip bit on
-    w8(bus, mmio(0x30), 0x01 | 0x02 | 0x08 | (0 << 6));
+    w8(bus, mmio(0x30), 0x01 | 0x02 | 0x08);
     const rgba = renderMainScreenRGBA(ppu, 8, 1);
     const px = (x: number) => [rgba[x*4], rgba[x*4+1], rgba[x*4+2]];
     // Inside A -> blend
@@ -89,7 +89,7 @@ describe('Backdrop window gating and clip-to-black', () => {
     w8(bus, mmio(0x26), 0x00); w8(bus, mmio(0x27), 0x03);
     w8(bus, mmio(0x25), 0x04 | 0x40);
     // applyInside=1, no clip
-    w8(bus, mmio(0x30), 0x01 | 0x02 | (0 << 6));
+    w8(bus, mmio(0x30), 0x01 | 0x02);
     const rgba = renderMainScreenRGBA(ppu, 8, 1);
     const px = (x: number) => [rgba[x*4], rgba[x*4+1]];
     // Inside A now treated as non-math -> pure red
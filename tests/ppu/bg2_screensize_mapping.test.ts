@@ -88,10 +88,11 @@ describe('BG2 screen size mapping (64x32 and 32x64)', () => {
     console.log('  Tilemap at 0x800:', ppu.inspectVRAMWord(0x800).toString(16));
     console.log('  Tilemap at 0xc00:', ppu.inspectVRAMWord(0xc00).toString(16));
     
-    expect(tl).toBe(1); // TL -> ones
-    expect(tr).toBe(0); // TR -> zeros (crossed +0x400)
-    expect(bl).toBe(0); // BL -> zeros (crossed +0x800)
-    expect(br).toBe(1); // BR -> ones (crossed +0xC00)
+    // Mode 0 BG2 palettes start at color 32
+    expect(tl).toBe(32 + 1); // TL -> ones
+    expect(tr).toBe(32 + 0); // TR -> zeros (crossed +0x400)
+    expect(bl).toBe(32 + 0); // BL -> zeros (crossed +0x800)
+    expect(br).toBe(32 + 1); // BR -> ones (crossed +0xC00)
   });
 });
 
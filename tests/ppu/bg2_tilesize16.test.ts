@@ -63,11 +63,11 @@ describe('BG2 16x16 tile size mapping (BGMODE bit5)', () => {
     // Render 16x16 region, no flip
     const idx = renderBG2RegionIndices(ppu, 16, 16);
 
-    // Validate quadrants
-    expect(idx[0]).toBe(1);                   // top-left -> tile 0 pattern 0xF0 => leftmost bit set
-    expect(idx[8]).toBe(1);                   // top-right -> tile 1 pattern 0xCC => bit7 set
-    expect(idx[8 * 16 + 0]).toBe(1);          // bottom-left -> tile 16 pattern 0xAA => bit7 set
-    expect(idx[8 * 16 + 8]).toBe(0);          // bottom-right -> tile 17 pattern 0x55 => bit7 clear
+    // Validate quadrants (mode 0 BG2 palettes start at color 32)
+    expect(idx[0]).toBe(32 + 1);                  // top-left -> tile 0 pattern 0xF0 => leftmost bit set
+    expect(idx[8]).toBe(32 + 1);                 // top-right -> tile 1 pattern 0xCC => bit7 set
+    expect(idx[8 * 16 + 0]).toBe(32 + 1);        // bottom-left -> tile 16 pattern 0xAA => bit7 set
+    expect(idx[8 * 16 + 8]).toBe(32 + 0);        // bottom-right -> tile 17 pattern 0x55 => bit7 clear
 
     // Now set X/Y flip on tilemap entry (0xC000)
     w8(bus, mmio(0x16), 0x00);
@@ -76,7 +76,7 @@ describe('BG2 16x16 tile size mapping (BGMODE bit5)', () => {
     w8(bus, mmio(0x19), 0xc0);
 
     const idxFlip = renderBG2RegionIndices(ppu, 16, 16);
-    expect(idxFlip[0]).toBe(1);               // after flip, (0,0) samples bottom-right subtile's LSB -> 1 for 0x55 pattern
+    expect(idxFlip[0]).toBe(32 + 1);             // after flip, (0,0) samples bottom-right subtile's LSB -> 1 for 0x55 pattern
   });
 });
 
@@ -26,6 +26,8 @@ describe('BG2 window combine modes (A/B, applyInside=1)', () => {
         const ppu = bus.getPPU();
         // Brightness
         w8(bus, mmio(0x00), 0x0f);
+        // Set BG mode 1 (BG1/2 are 4bpp, BG3 is 2bpp)
+        w8(bus, mmio(0x05), 0x01);
         // BG2 main, BG1 subscreen
         w8(bus, mmio(0x2c), 0x02);
         w8(bus, mmio(0x2d), 0x01);
@@ -66,8 +68,8 @@ describe('BG2 window combine modes (A/B, applyInside=1)', () => {
         w8(bus, mmio(0x29), 0x04);
         // W12SEL: enable BG2 A and B bits (0x04 | 0x08)
         w8(bus, mmio(0x23), 0x0c);
-        // CGWSEL: applyInside=1, OR
-        w8(bus, mmio(0x30), 0x01 | (0 << 6));
+        // CGWSEL: applyInside=1
+        w8(bus, mmio(0x30), 0x01);
         const rgba = renderMainScreenRGBA(ppu, 8, 1);
         const px = (x) => [rgba[x * 4], rgba[x * 4 + 1]];
         expect(px(0)[0]).toBeGreaterThan(100);
@@ -86,7 +88,9 @@ describe('BG2 window combine modes (A/B, applyInside=1)', () => {
         w8(bus, mmio(0x28), 0x02);
         w8(bus, mmio(0x29), 0x03);
         w8(bus, mmio(0x23), 0x0c);
-        w8(bus, mmio(0x30), 0x01 | (1 << 6));
+        w8(bus, mmio(0x30), 0x01);
+        w8(bus, mmio(0x2a), 0x55);
+        w8(bus, mmio(0x2b), 0x05); // WBGLOG/WOBJLOG: AND for every layer
         const rgba = renderMainScreenRGBA(ppu, 8, 1);
         const px = (x) => [rgba[x * 4], rgba[x * 4 + 1]];
         expect(px(2)[0]).toBeGreaterThan(100);
@@ -105,7 +109,9 @@ describe('BG2 window combine modes (A/B, applyInside=1)', () => {
         w8(bus, mmio(0x28), 0x02);
         w8(bus, mmio(0x29), 0x04);
         w8(bus, mmio(0x23), 0x0c);
-        w8(bus, mmio(0x30), 0x01 | (2 << 6));
+        w8(bus, mmio(0x30), 0x01);
+        w8(bus, mmio(0x2a), 0xAA);
+        w8(bus, mmio(0x2b), 0x0A); // WBGLOG/WOBJLOG: XOR for every layer
         const rgba = renderMainScreenRGBA(ppu, 6, 1);
         const px = (x) => [rgba[x * 4], rgba[x * 4 + 1]];
         expect(px(1)[0]).toBeGreaterThan(100);
@@ -124,7 +130,9 @@ describe('BG2 window combine modes (A/B, applyInside=1)', () => {
         w8(bus, mmio(0x28), 0x02);
         w8(bus, mmio(0x29), 0x04);
         w8(bus, mmio(0x23), 0x0c);
-        w8(bus, mmio(0x30), 0x01 | (3 << 6));
+        w8(bus, mmio(0x30), 0x01);
+        w8(bus, mmio(0x2a), 0xFF);
+        w8(bus, mmio(0x2b), 0x0F); // WBGLOG/WOBJLOG: XNOR for every layer
         const rgba = renderMainScreenRGBA(ppu, 7, 1);
         const px = (x) => [rgba[x * 4], rgba[x * 4 + 1]];
         expect(px(2)[0]).toBeGreaterThan(100);
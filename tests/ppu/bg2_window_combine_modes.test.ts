@@ -66,8 +66,8 @@ describe('BG2 window combine modes (A/B, applyInside=1)', () => {
     w8(bus, mmio(0x28), 0x03); w8(bus, mmio(0x29), 0x04);
     // W12SEL: enable BG2 A and B bits (0x04 | 0x08)
     w8(bus, mmio(0x23), 0x0c);
-    // CGWSEL: applyInside=1, OR
-    w8(bus, mmio(0x30), 0x01 | (0 << 6));
+    // CGWSEL: applyInside=1
+    w8(bus, mmio(0x30), 0x01);
 
     const rgba = renderMainScreenRGBA(ppu, 8, 1);
     const px = (x: number) => [rgba[x*4], rgba[x*4+1]];
@@ -83,7 +83,8 @@ describe('BG2 window combine modes (A/B, applyInside=1)', () => {
     w8(bus, mmio(0x26), 0x01); w8(bus, mmio(0x27), 0x02);
     w8(bus, mmio(0x28), 0x02); w8(bus, mmio(0x29), 0x03);
     w8(bus, mmio(0x23), 0x0c);
-    w8(bus, mmio(0x30), 0x01 | (1 << 6));
+    w8(bus, mmio(0x30), 0x01);
+    w8(bus, mmio(0x2a), 0x55); w8(bus, mmio(0x2b), 0x05); // WBGLOG/WOBJLOG: AND for every layer
 
     const rgba = renderMainScreenRGBA(ppu, 8, 1);
     const px = (x: number) => [rgba[x*4], rgba[x*4+1]];
@@ -99,7 +100,8 @@ describe('BG2 window combine modes (A/B, applyInside=1)', () => {
     w8(bus, mmio(0x26), 0x00); w8(bus, mmio(0x27), 0x02);
     w8(bus, mmio(0x28), 0x02); w8(bus, mmio(0x29), 0x04);
     w8(bus, mmio(0x23), 0x0c);
-    w8(bus, mmio(0x30), 0x01 | (2 << 6));
+    w8(bus, mmio(0x30), 0x01);
+    w8(bus, mmio(0x2a), 0xAA); w8(bus, mmio(0x2b), 0x0A); // WBGLOG/WOBJLOG: XOR for every layer
 
     const rgba = renderMainScreenRGBA(ppu, 6, 1);
     const px = (x: number) => [rgba[x*4], rgba[x*4+1]];
@@ -115,7 +117,8 @@ describe('BG2 window combine modes (A/B, applyInside=1)', () => {
     w8(bus, mmio(0x26), 0x00); w8(bus, mmio(0x27), 0x02);
     w8(bus, mmio(0x28), 0x02); w8(bus, mmio(0x29), 0x04);
     w8(bus, mmio(0x23), 0x0c);
-    w8(bus, mmio(0x30), 0x01 | (3 << 6));
+    w8(bus, mmio(0x30), 0x01);
+    w8(bus, mmio(0x2a), 0xFF); w8(bus, mmio(0x2b), 0x0F); // WBGLOG/WOBJLOG: XNOR for every layer
 
     const rgba = renderMainScreenRGBA(ppu, 7, 1);
     const px = (x: number) => [rgba[x*4], rgba[x*4+1]];
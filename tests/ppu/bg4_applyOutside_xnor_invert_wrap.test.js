@@ -10,11 +10,18 @@ function mkBus() {
     return new SNESBus(cart);
 }
 function writeBG4SolidTile0(bus, charBaseWords) {
+    // Write 2bpp tile data for BG4 (mode 0 uses 2bpp for all BGs)
     for (let y = 0; y < 8; y++) {
-        w8(bus, mmio(0x16), ((charBaseWords + y) & 0xff));
-        w8(bus, mmio(0x17), (((charBaseWords + y) >>> 8) & 0xff));
+        // Plane 0: all bits set (0xff)
+        w8(bus, mmio(0x16), ((charBaseWords + y * 2) & 0xff));
+        w8(bus, mmio(0x17), (((charBaseWords + y * 2) >>> 8) & 0xff));
         w8(bus, mmio(0x18), 0xff);
         w8(bus, mmio(0x19), 0x00);
+        // Plane 1: all bits clear (0x00)
+        w8(bus, mmio(0x16), ((charBaseWords + y * 2 + 1) & 0xff));
+        w8(bus, mmio(0x17), (((charBaseWords + y * 2 + 1) >>> 8) & 0xff));
+        w8(bus, mmio(0x18), 0x00);
+        w8(bus, mmio(0x19), 0x00);
     }
 }
 function writeBG2SolidTile1(bus) {
@@ -31,15 +38,17 @@ describe('BG4 XNOR+invert applyInside=0 across wrap-around', () => {
         const ppu = bus.getPPU();
         // Brightness
         w8(bus, mmio(0x00), 0x0f);
+        // Set BG mode 0 (all BGs are 2bpp, supports BG1-4)
+        w8(bus, mmio(0x05), 0x00);
         // BG4 main, BG2 sub
         w8(bus, mmio(0x2c), 0x08);
         w8(bus, mmio(0x2d), 0x02);
         // BG4 map 0, char 0x0800; BG2 map 0x0200, char 0x1000
         w8(bus, mmio(0x0a), 0x00);
-        w8(bus, mmio(0x0c), 0x01);
+        w8(bus, mmio(0x0c), 0x20);
         w8(bus, mmio(0x08), 0x04);
         w8(bus, mmio(0x0b), 0x22);
-        writeBG4SolidTile0(bus, 0x0800);
+        writeBG4SolidTile0(bus, 0x1000);
         writeBG2SolidTile1(bus);
         // Tilemaps
         w8(bus, mmio(0x16), 0x00);
@@ -51,10 +60,10 @@ describe('BG4 XNOR+invert applyInside=0 across wrap-around', () => {
         w8(bus, mmio(0x18), 0x01);
         w8(bus, mmio(0x19), 0x04);
         // Palettes: red and green
-        w8(bus, mmio(0x21), 2);
+        w8(bus, mmio(0x21), 194);
         w8(bus, mmio(0x22), 0x00);
         w8(bus, mmio(0x22), 0x7c);
-        w8(bus, mmio(0x21), 34);
+        w8(bus, mmio(0x21), 74);
         w8(bus, mmio(0x22), 0xe0);
         w8(bus, mmio(0x22), 0x03);
         // Color math add-half; mask BG4
@@ -65,7 +74,9 @@ describe('BG4 XNOR+invert applyInside=0 across wrap-around', () => {
         w8(bus, mmio(0x28), 0x02);
         w8(bus, mmio(0x29), 0x04);
         w8(bus, mmio(0x24), 0x0c | 0x40);
-        w8(bus, mmio(0x30), 0x00 | 0x02 | (3 << 6));
+        w8(bus, mmio(0x30), 0x00 | 0x02);
+        w8(bus, mmio(0x2a), 0xFF);
+        w8(bus, mmio(0x2b), 0x0F); // WBGLOG/WOBJLOG: XNOR for every layer
         const rgba = renderMainScreenRGBA(ppu, 8, 1);
         const px = (x) => [rgba[x * 4], rgba[x * 4 + 1]];
         // Overlap at x=2 -> blend (applyOutside of XOR region)
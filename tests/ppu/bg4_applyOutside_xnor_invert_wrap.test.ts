@@ -60,8 +60,8 @@ describe('BG4 XNOR+invert applyInside=0 across wrap-around', () => {
     w8(bus, mmio(0x16), 0x00); w8(bus, mmio(0x17), 0x02); w8(bus, mmio(0x18), 0x01); w8(bus, mmio(0x19), 0x04);
 
     // Palettes: red and green
-    w8(bus, mmio(0x21), 2);  w8(bus, mmio(0x22), 0x00); w8(bus, mmio(0x22), 0x7c);
-    w8(bus, mmio(0x21), 34); w8(bus, mmio(0x22), 0xe0); w8(bus, mmio(0x22), 0x03);
+    w8(bus, mmio(0x21), 194);  w8(bus, mmio(0x22), 0x00); w8(bus, mmio(0x22), 0x7c);
+    w8(bus, mmio(0x21), 74); w8(bus, mmio(0x22), 0xe0); w8(bus, mmio(0x22), 0x03);
 
     // Color math add-half; mask BG4
     w8(bus, mmio(0x31), 0x60 | 0x08);
@@ -70,7 +70,8 @@ describe('BG4 XNOR+invert applyInside=0 across wrap-around', () => {
     w8(bus, mmio(0x26), 0x00); w8(bus, mmio(0x27), 0x02);
     w8(bus, mmio(0x28), 0x02); w8(bus, mmio(0x29), 0x04);
     w8(bus, mmio(0x24), 0x0c | 0x40);
-    w8(bus, mmio(0x30), 0x00 | 0x02 | (3 << 6));
+    w8(bus, mmio(0x30), 0x00 | 0x02);
+    w8(bus, mmio(0x2a), 0xFF); w8(bus, mmio(0x2b), 0x0F); // WBGLOG/WOBJLOG: XNOR for every layer
 
     const rgba = renderMainScreenRGBA(ppu, 8, 1);
     const px = (x: number) => [rgba[x*4], rgba[x*4+1]];
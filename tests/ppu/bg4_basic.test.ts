@@ -50,8 +50,8 @@ describe('BG4 2bpp basic render', () => {
     // Tilemap entry 0 -> tile 0, palette group 0
     w8(bus, mmio(0x16), 0x00); w8(bus, mmio(0x17), 0x00); w8(bus, mmio(0x18), 0x00); w8(bus, mmio(0x19), 0x00);
 
-    // CGRAM index 1 = red so pix=1 shows up
-    w8(bus, mmio(0x21), 2);
+    // CGRAM color 97 = red so pix=1 shows up (mode 0 BG4 palettes start at 96)
+    w8(bus, mmio(0x21), 194);
     w8(bus, mmio(0x22), 0x00);
     w8(bus, mmio(0x22), 0x7c);
 
@@ -45,7 +45,7 @@ describe('BG4: clip-to-black + fixed-color subtract-half', () => {
     // BG4 tile at 0 -> tile0 pal0
     w8(bus, mmio(0x16), 0x00); w8(bus, mmio(0x17), 0x00); w8(bus, mmio(0x18), 0x00); w8(bus, mmio(0x19), 0x00);
     // Palette: BG4 index1 red
-    w8(bus, mmio(0x21), 2);  w8(bus, mmio(0x22), 0x00); w8(bus, mmio(0x22), 0x7c);
+    w8(bus, mmio(0x21), 194);  w8(bus, mmio(0x22), 0x00); w8(bus, mmio(0x22), 0x7c);
 
     // CGWSEL: applyInside=0 (clip inside), subGate ON, fixed-color ON, clip-to-black ON
     w8(bus, mmio(0x30), 0x00 | 0x02 | 0x04 | 0x08);
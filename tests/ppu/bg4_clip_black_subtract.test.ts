@@ -59,9 +59,9 @@ describe('BG4 clip-to-black with subtract mode', () => {
     w8(bus, mmio(0x16), 0x00); w8(bus, mmio(0x17), 0x00); w8(bus, mmio(0x18), 0x00); w8(bus, mmio(0x19), 0x00);
     w8(bus, mmio(0x16), 0x00); w8(bus, mmio(0x17), 0x02); w8(bus, mmio(0x18), 0x01); w8(bus, mmio(0x19), 0x04);
 
-    // Palettes: BG4 index1 red; BG2 index17 blue
-    w8(bus, mmio(0x21), 2);  w8(bus, mmio(0x22), 0x00); w8(bus, mmio(0x22), 0x7c);
-    w8(bus, mmio(0x21), 34); w8(bus, mmio(0x22), 0x1f); w8(bus, mmio(0x22), 0x00);
+    // Palettes: BG4 color 97 red; BG2 color 37 blue (mode 0 bases 96 and 32)
+    w8(bus, mmio(0x21), 194);  w8(bus, mmio(0x22), 0x00); w8(bus, mmio(0x22), 0x7c);
+    w8(bus, mmio(0x21), 74); w8(bus, mmio(0x22), 0x1f); w8(bus, mmio(0x22), 0x00);
 
     // CGADSUB: subtract + half + enable; mask BG4
     w8(bus, mmio(0x31), 0xe0 | 0x08);
@@ -69,7 +69,7 @@ describe('BG4 clip-to-black with subtract mode', () => {
     // Window A [0..3] for BG4; applyInside=1, subGate on, clip-to-black on, OR combine
     w8(bus, mmio(0x26), 0x00); w8(bus, mmio(0x27), 0x03);
     w8(bus, mmio(0x24), 0x04);
-    w8(bus, mmio(0x30), 0x01 | 0x02 | 0x08 | (0 << 6));
+    w8(bus, mmio(0x30), 0x01 | 0x02 | 0x08);
 
     const rgba = renderMainScreenRGBA(ppu, 8, 1);
     const px = (x: number) => [rgba[x*4], rgba[x*4+1], rgba[x*4+2]];
@@ -45,7 +45,7 @@ describe('BG4 clip-to-black vs prevent-math', () => {
     // BG4 tilemap
     w8(bus, mmio(0x16), 0x00); w8(bus, mmio(0x17), 0x00); w8(bus, mmio(0x18), 0x00); w8(bus, mmio(0x19), 0x00);
     // Palette index1 red
-    w8(bus, mmio(0x21), 2); w8(bus, mmio(0x22), 0x00); w8(bus, mmio(0x22), 0x7c);
+    w8(bus, mmio(0x21), 194); w8(bus, mmio(0x22), 0x00); w8(bus, mmio(0x22), 0x7c);
     // Use fixed subscreen green; enable clip-to-black (bit3), applyInside=1
     w8(bus, mmio(0x30), 0x01 | 0x04 | 0x08);
     w8(bus, mmio(0x32), 0x40 | 31);
@@ -77,7 +77,7 @@ describe('BG4 clip-to-black vs prevent-math', () => {
     writeBG4SolidTile0(bus, 0x1000);
     w8(bus, mmio(0x16), 0x00); w8(bus, mmio(0x17), 0x00); w8(bus, mmio(0x18), 0x00); w8(bus, mmio(0x19), 0x00);
     // Palette index1 red
-    w8(bus, mmio(0x21), 2); w8(bus, mmio(0x22), 0x00); w8(bus, mmio(0x22), 0x7c);
+    w8(bus, mmio(0x21), 194); w8(bus, mmio(0x22), 0x00); w8(bus, mmio(0x22), 0x7c);
     // Fixed green subscreen; clip OFF; applyInside=1
     w8(bus, mmio(0x30), 0x01 | 0x04);
     w8(bus, mmio(0x32), 0x40 | 31);
@@ -55,9 +55,9 @@ describe('BG4 color math mask (per-layer) behavior', () => {
     // BG4 tilemap at 0, BG2 tilemap at word 0x0200
     w8(bus, mmio(0x16), 0x00); w8(bus, mmio(0x17), 0x00); w8(bus, mmio(0x18), 0x00); w8(bus, mmio(0x19), 0x00);
     w8(bus, mmio(0x16), 0x00); w8(bus, mmio(0x17), 0x02); w8(bus, mmio(0x18), 0x01); w8(bus, mmio(0x19), 0x04);
-    // Palettes: index1 red; index17 green
-    w8(bus, mmio(0x21), 2);  w8(bus, mmio(0x22), 0x00); w8(bus, mmio(0x22), 0x7c);
-    w8(bus, mmio(0x21), 34); w8(bus, mmio(0x22), 0xe0); w8(bus, mmio(0x22), 0x03);
+    // Palettes: color 97 (BG4 base 96) red; color 37 (BG2 base 32) green
+    w8(bus, mmio(0x21), 194);  w8(bus, mmio(0x22), 0x00); w8(bus, mmio(0x22), 0x7c);
+    w8(bus, mmio(0x21), 74); w8(bus, mmio(0x22), 0xe0); w8(bus, mmio(0x22), 0x03);
     return ppu;
   }
 
@@ -68,15 +68,15 @@ describe('BG4 window gating (2bpp like BG3) with color math', () => {
     }
     w8(bus, mmio(0x16), 0x00); w8(bus, mmio(0x17), 0x02); w8(bus, mmio(0x18), 0x01); w8(bus, mmio(0x19), 0x04);
 
-    // CGRAM: index1 red, index17 green
-    w8(bus, mmio(0x21), 2); w8(bus, mmio(0x22), 0x00); w8(bus, mmio(0x22), 0x7c);
-    w8(bus, mmio(0x21), 34); w8(bus, mmio(0x22), 0xe0); w8(bus, mmio(0x22), 0x03);
+    // CGRAM: color 97 (BG4 base 96) red, color 37 (BG2 base 32) green
+    w8(bus, mmio(0x21), 194); w8(bus, mmio(0x22), 0x00); w8(bus, mmio(0x22), 0x7c);
+    w8(bus, mmio(0x21), 74); w8(bus, mmio(0x22), 0xe0); w8(bus, mmio(0x22), 0x03);
 
     // Window A [0..3], W34SEL enables BG4 A (bit2)
     w8(bus, mmio(0x26), 0x00); w8(bus, mmio(0x27), 0x03);
     w8(bus, mmio(0x24), 0x04);
-    // CGWSEL: applyInside=1, OR combine; subscreen gating on
-    w8(bus, mmio(0x30), 0x01 | 0x02 | (0 << 6));
+    // CGWSEL: applyInside=1; subscreen gating on
+    w8(bus, mmio(0x30), 0x01 | 0x02);
 
     // Color math enable add-half global (mask=0)
     w8(bus, mmio(0x31), 0x60);
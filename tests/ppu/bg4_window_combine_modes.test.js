@@ -10,20 +10,33 @@ function mkBus() {
     return new SNESBus(cart);
 }
 function writeBG4SolidTile0(bus, charBaseWords) {
-    // 2bpp tile index 0 at char base: plane0=0xFF rows, plane1=0x00 => pix=1
+    // Write 2bpp tile data for BG4 (mode 0 uses 2bpp for all BGs)
     for (let y = 0; y < 8; y++) {
-        w8(bus, mmio(0x16), ((charBaseWords + y) & 0xff));
-        w8(bus, mmio(0x17), (((charBaseWords + y) >>> 8) & 0xff));
+        // Plane 0: all bits set (0xff)
+        w8(bus, mmio(0x16), ((charBaseWords + y * 2) & 0xff));
+        w8(bus, mmio(0x17), (((charBaseWords + y * 2) >>> 8) & 0xff));
         w8(bus, mmio(0x18), 0xff);
         w8(bus, mmio(0x19), 0x00);
+        // Plane 1: all bits clear (0x00)
+        w8(bus, mmio(0x16), ((charBaseWords + y * 2 + 1) & 0xff));
+        w8(bus, mmio(0x17), (((charBaseWords + y * 2 + 1) >>> 8) & 0xff));
+        w8(bus, mmio(0x18), 0x00);
+        w8(bus, mmio(0x19), 0x00);
     }
 }
 function writeBG2SolidTile1(bus) {
+    // Write 2bpp tile data for BG2
     for (let y = 0; y < 8; y++) {
-        w8(bus, mmio(0x16), (0x1000 + 16 + y) & 0xff);
-        w8(bus, mmio(0x17), ((0x1000 + 16 + y) >>> 8) & 0xff);
+        // Plane 0: all bits set (0xff)
+        w8(bus, mmio(0x16), (0x1000 + 16 + y * 2) & 0xff);
+        w8(bus, mmio(0x17), ((0x1000 + 16 + y * 2) >>> 8) & 0xff);
         w8(bus, mmio(0x18), 0xff);
         w8(bus, mmio(0x19), 0x00);
+        // Plane 1: all bits clear (0x00)
+        w8(bus, mmio(0x16), (0x1000 + 16 + y * 2 + 1) & 0xff);
+        w8(bus, mmio(0x17), ((0x1000 + 16 + y * 2 + 1) >>> 8) & 0xff);
+        w8(bus, mmio(0x18), 0x00);
+        w8(bus, mmio(0x19), 0x00);
     }
 }
 describe('BG4 window combine modes (AND/XOR/XNOR) with invert', () => {
@@ -31,17 +44,19 @@ describe('BG4 window combine modes (AND/XOR/XNOR) with invert', () => {
         const ppu = bus.getPPU();
         // Brightness
         w8(bus, mmio(0x00), 0x0f);
+        // Set BG mode 0 (all BGs are 2bpp, supports BG1-4)
+        w8(bus, mmio(0x05), 0x00);
         // Enable: BG4 main, BG2 subscreen
         w8(bus, mmio(0x2c), 0x08);
         w8(bus, mmio(0x2d), 0x02);
         // BG4 map base 0, BG4 char base 0x0800 words
         w8(bus, mmio(0x0a), 0x00);
-        w8(bus, mmio(0x0c), 0x01);
+        w8(bus, mmio(0x0c), 0x20);
         // BG2 map base word 0x0200, BG2 char base 0x1000 words
         w8(bus, mmio(0x08), 0x04);
         w8(bus, mmio(0x0b), 0x22);
         // Data: BG4 tile0 solid; BG2 tile1 solid
-        writeBG4SolidTile0(bus, 0x0800);
+        writeBG4SolidTile0(bus, 0x1000);
         writeBG2SolidTile1(bus);
         // BG4 tilemap entry 0 -> tile 0 pal0
         w8(bus, mmio(0x16), 0x00);
@@ -53,11 +68,11 @@ describe('BG4 window combine modes (AND/XOR/XNOR) with invert', () => {
         w8(bus, mmio(0x17), 0x02);
         w8(bus, mmio(0x18), 0x01);
         w8(bus, mmio(0x19), 0x04);
-        // Palettes: index1 red; index17 green
-        w8(bus, mmio(0x21), 2);
+        // Palettes: color 97 (BG4 base 96) red; color 37 (BG2 base 32) green
+        w8(bus, mmio(0x21), 194);
         w8(bus, mmio(0x22), 0x00);
         w8(bus, mmio(0x22), 0x7c);
-        w8(bus, mmio(0x21), 34);
+        w8(bus, mmio(0x21), 74);
         w8(bus, mmio(0x22), 0xe0);
         w8(bus, mmio(0x22), 0x03);
         // Color math add-half, mask selects BG4 (bit3)
@@ -74,8 +89,10 @@ describe('BG4 window combine modes (AND/XOR/XNOR) with invert', () => {
         w8(bus, mmio(0x29), 0x03);
         // W34SEL: enable BG4 A|B (bits2|3)
         w8(bus, mmio(0x24), 0x0c);
-        // CGWSEL: applyInside=1, AND, sub gate on
-        w8(bus, mmio(0x30), 0x01 | 0x02 | (1 << 6));
+        // CGWSEL: applyInside=1, sub gate on
+        w8(bus, mmio(0x30), 0x01 | 0x02);
+        w8(bus, mmio(0x2a), 0x55);
+        w8(bus, mmio(0x2b), 0x05); // WBGLOG/WOBJLOG: AND for every layer
         const rgba = renderMainScreenRGBA(ppu, 6, 1);
         const px = (x) => [rgba[x * 4], rgba[x * 4 + 1]];
         // Blend only at x=2
@@ -97,7 +114,9 @@ describe('BG4 window combine modes (AND/XOR/XNOR) with invert', () => {
         w8(bus, mmio(0x28), 0x02);
         w8(bus, mmio(0x29), 0x04);
         w8(bus, mmio(0x24), 0x0c);
-        w8(bus, mmio(0x30), 0x01 | 0x02 | (2 << 6));
+        w8(bus, mmio(0x30), 0x01 | 0x02);
+        w8(bus, mmio(0x2a), 0xAA);
+        w8(bus, mmio(0x2b), 0x0A); // WBGLOG/WOBJLOG: XOR for every layer
         const rgba = renderMainScreenRGBA(ppu, 6, 1);
         const px = (x) => [rgba[x * 4], rgba[x * 4 + 1]];
         expect(px(1)[0]).toBeGreaterThan(100);
@@ -118,7 +137,9 @@ describe('BG4 window combine modes (AND/XOR/XNOR) with invert', () => {
         // Enable BG4 A|B and invert A (bit6)
         w8(bus, mmio(0x24), 0x0c | 0x40);
         // XNOR
-        w8(bus, mmio(0x30), 0x01 | 0x02 | (3 << 6));
+        w8(bus, mmio(0x30), 0x01 | 0x02);
+        w8(bus, mmio(0x2a), 0xFF);
+        w8(bus, mmio(0x2b), 0x0F); // WBGLOG/WOBJLOG: XNOR for every layer
         const rgba = renderMainScreenRGBA(ppu, 7, 1);
         const px = (x) => [rgba[x * 4], rgba[x * 4 + 1]];
         // With invert A under XNOR, effective is XOR on original A/B
@@ -71,9 +71,9 @@ describe('BG4 window combine modes (AND/XOR/XNOR) with invert', () => {
     // BG2 tilemap entry at word 0x0200 -> tile 1 pal group 1
     w8(bus, mmio(0x16), 0x00); w8(bus, mmio(0x17), 0x02); w8(bus, mmio(0x18), 0x01); w8(bus, mmio(0x19), 0x04);
 
-    // Palettes: index1 red; index17 green
-    w8(bus, mmio(0x21), 2);  w8(bus, mmio(0x22), 0x00); w8(bus, mmio(0x22), 0x7c);
-    w8(bus, mmio(0x21), 34); w8(bus, mmio(0x22), 0xe0); w8(bus, mmio(0x22), 0x03);
+    // Palettes: color 97 (BG4 base 96) red; color 37 (BG2 base 32) green
+    w8(bus, mmio(0x21), 194);  w8(bus, mmio(0x22), 0x00); w8(bus, mmio(0x22), 0x7c);
+    w8(bus, mmio(0x21), 74); w8(bus, mmio(0x22), 0xe0); w8(bus, mmio(0x22), 0x03);
 
     // Color math add-half, mask selects BG4 (bit3)
     w8(bus, mmio(0x31), 0x60 | 0x08);
@@ -88,8 +88,9 @@ describe('BG4 window combine modes (AND/XOR/XNOR) with invert', () => {
     w8(bus, mmio(0x28), 0x02); w8(bus, mmio(0x29), 0x03);
     // W34SEL: enable BG4 A|B (bits2|3)
     w8(bus, mmio(0x24), 0x0c);
-    // CGWSEL: applyInside=1, AND, sub gate on
-    w8(bus, mmio(0x30), 0x01 | 0x02 | (1 << 6));
+    // CGWSEL: applyInside=1, sub gate on
+    w8(bus, mmio(0x30), 0x01 | 0x02);
+    w8(bus, mmio(0x2a), 0x55); w8(bus, mmio(0x2b), 0x05); // WBGLOG/WOBJLOG: AND for every layer
 
     const rgba = renderMainScreenRGBA(ppu, 6, 1);
     const px = (x: number) => [rgba[x*4], rgba[x*4+1]];
@@ -108,7 +109,8 @@ describe('BG4 window combine modes (AND/XOR/XNOR) with invert', () => {
     w8(bus, mmio(0x26), 0x00); w8(bus, mmio(0x27), 0x02);
     w8(bus, mmio(0x28), 0x02); w8(bus, mmio(0x29), 0x04);
     w8(bus, mmio(0x24), 0x0c);
-    w8(bus, mmio(0x30), 0x01 | 0x02 | (2 << 6));
+    w8(bus, mmio(0x30), 0x01 | 0x02);
+    w8(bus, mmio(0x2a), 0xAA); w8(bus, mmio(0x2b), 0x0A); // WBGLOG/WOBJLOG: XOR for every layer
 
     const rgba = renderMainScreenRGBA(ppu, 6, 1);
     const px = (x: number) => [rgba[x*4], rgba[x*4+1]];
@@ -126,7 +128,8 @@ describe('BG4 window combine modes (AND/XOR/XNOR) with invert', () => {
     // Enable BG4 A|B and invert A (bit6)
     w8(bus, mmio(0x24), 0x0c | 0x40);
     // XNOR
-    w8(bus, mmio(0x30), 0x01 | 0x02 | (3 << 6));
+    w8(bus, mmio(0x30), 0x01 | 0x02);
+    w8(bus, mmio(0x2a), 0xFF); w8(bus, mmio(0x2b), 0x0F); // WBGLOG/WOBJLOG: XNOR for every layer
 
     const rgba = renderMainScreenRGBA(ppu, 7, 1);
     const px = (x: number) => [rgba[x*4], rgba[x*4+1]];
@@ -52,8 +52,8 @@ describe('BG4 window gating main-only (no subscreen gating)', () => {
     // Tilemap entry 0 -> tile 0
     w8(bus, mmio(0x16), 0x00); w8(bus, mmio(0x17), 0x00); w8(bus, mmio(0x18), 0x00); w8(bus, mmio(0x19), 0x00);
 
-    // Palettes: index1 red
-    w8(bus, mmio(0x21), 2); w8(bus, mmio(0x22), 0x00); w8(bus, mmio(0x22), 0x7c);
+    // Palettes: color 97 (BG4 base 96) red
+    w8(bus, mmio(0x21), 194); w8(bus, mmio(0x22), 0x00); w8(bus, mmio(0x22), 0x7c);
 
     // Use fixed color as subscreen (green) via CGWSEL bit2; do NOT set sub gate (bit1)
     w8(bus, mmio(0x30), 0x04 | 0x01); // applyInside=1, fixed mode on, sub gate off
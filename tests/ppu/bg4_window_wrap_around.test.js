@@ -10,19 +10,33 @@ function mkBus() {
     return new SNESBus(cart);
 }
 function writeBG4SolidTile0(bus, charBaseWords) {
+    // Write 2bpp tile data for BG4 (mode 0 uses 2bpp for all BGs)
     for (let y = 0; y < 8; y++) {
-        w8(bus, mmio(0x16), ((charBaseWords + y) & 0xff));
-        w8(bus, mmio(0x17), (((charBaseWords + y) >>> 8) & 0xff));
+        // Plane 0: all bits set (0xff)
+        w8(bus, mmio(0x16), ((charBaseWords + y * 2) & 0xff));
+        w8(bus, mmio(0x17), (((charBaseWords + y * 2) >>> 8) & 0xff));
         w8(bus, mmio(0x18), 0xff);
         w8(bus, mmio(0x19), 0x00);
+        // Plane 1: all bits clear (0x00)
+        w8(bus, mmio(0x16), ((charBaseWords + y * 2 + 1) & 0xff));
+        w8(bus, mmio(0x17), (((charBaseWords + y * 2 + 1) >>> 8) & 0xff));
+        w8(bus, mmio(0x18), 0x00);
+        w8(bus, mmio(0x19), 0x00);
     }
 }
 function writeBG2SolidTile1(bus) {
+    // Write 2bpp tile data for BG2
     for (let y = 0; y < 8; y++) {
-        w8(bus, mmio(0x16), (0x1000 + 16 + y) & 0xff);
-        w8(bus, mmio(0x17), ((0x1000 + 16 + y) >>> 8) & 0xff);
+        // Plane 0: all bits set (0xff)
+        w8(bus, mmio(0x16), (0x1000 + 16 + y * 2) & 0xff);
+        w8(bus, mmio(0x17), ((0x1000 + 16 + y * 2) >>> 8) & 0xff);
         w8(bus, mmio(0x18), 0xff);
         w8(bus, mmio(0x19), 0x00);
+        // Plane 1: all bits clear (0x00)
+        w8(bus, mmio(0x16), (0x1000 + 16 + y * 2 + 1) & 0xff);
+        w8(bus, mmio(0x17), ((0x1000 + 16 + y * 2 + 1) >>> 8) & 0xff);
+        w8(bus, mmio(0x18), 0x00);
+        w8(bus, mmio(0x19), 0x00);
     }
 }
 describe('BG4 window wrap-around behavior', () => {
@@ -31,13 +45,15 @@ describe('BG4 window wrap-around behavior', () => {
         const ppu = bus.getPPU();
         // Setup BG4 main, BG2 sub
         w8(bus, mmio(0x00), 0x0f);
+        // Set BG mode 0 (all BGs are 2bpp, supports BG1-4)
+        w8(bus, mmio(0x05), 0x00);
         w8(bus, mmio(0x2c), 0x08);
         w8(bus, mmio(0x2d), 0x02);
         w8(bus, mmio(0x0a), 0x00); // BG4 map base 0
-        w8(bus, mmio(0x0c), 0x01); // BG4 char 0x0800
+        w8(bus, mmio(0x0c), 0x20); // BG4 char 0x0800
         w8(bus, mmio(0x08), 0x04); // BG2 map base word 0x0200
         w8(bus, mmio(0x0b), 0x22); // BG2 char 0x1000
-        writeBG4SolidTile0(bus, 0x0800);
+        writeBG4SolidTile0(bus, 0x1000);
         writeBG2SolidTile1(bus);
         // BG4 tile0 at map 0; BG2 tile1 at word 0x0200
         w8(bus, mmio(0x16), 0x00);
@@ -48,11 +64,11 @@ describe('BG4 window wrap-around behavior', () => {
         w8(bus, mmio(0x17), 0x02);
         w8(bus, mmio(0x18), 0x01);
         w8(bus, mmio(0x19), 0x04);
-        // Palettes: red (index1) and green (index17)
-        w8(bus, mmio(0x21), 2);
+        // Palettes: red (color 97) and green (color 37)
+        w8(bus, mmio(0x21), 194);
         w8(bus, mmio(0x22), 0x00);
         w8(bus, mmio(0x22), 0x7c);
-        w8(bus, mmio(0x21), 34);
+        w8(bus, mmio(0x21), 74);
         w8(bus, mmio(0x22), 0xe0);
         w8(bus, mmio(0x22), 0x03);
         // Color math add-half; mask BG4
@@ -61,7 +77,7 @@ describe('BG4 window wrap-around behavior', () => {
         w8(bus, mmio(0x26), 0x06);
         w8(bus, mmio(0x27), 0x01);
         w8(bus, mmio(0x24), 0x04);
-        w8(bus, mmio(0x30), 0x01 | 0x02 | (0 << 6));
+        w8(bus, mmio(0x30), 0x01 | 0x02);
         const rgba = renderMainScreenRGBA(ppu, 8, 1);
         const px = (x) => [rgba[x * 4], rgba[x * 4 + 1]];
         // Inside wrap -> blend at 6,7,0,1
@@ -67,9 +67,9 @@ describe('BG4 window wrap-around behavior', () => {
     w8(bus, mmio(0x16), 0x00); w8(bus, mmio(0x17), 0x00); w8(bus, mmio(0x18), 0x00); w8(bus, mmio(0x19), 0x00);
     w8(bus, mmio(0x16), 0x00); w8(bus, mmio(0x17), 0x02); w8(bus, mmio(0x18), 0x01); w8(bus, mmio(0x19), 0x04);
 
-    // Palettes: red (index1) and green (index17)
-    w8(bus, mmio(0x21), 2);  w8(bus, mmio(0x22), 0x00); w8(bus, mmio(0x22), 0x7c);
-    w8(bus, mmio(0x21), 34); w8(bus, mmio(0x22), 0xe0); w8(bus, mmio(0x22), 0x03);
+    // Palettes: red (color 97) and green (color 37)
+    w8(bus, mmio(0x21), 194);  w8(bus, mmio(0x22), 0x00); w8(bus, mmio(0x22), 0x7c);
+    w8(bus, mmio(0x21), 74); w8(bus, mmio(0x22), 0xe0); w8(bus, mmio(0x22), 0x03);
 
     // Color math add-half; mask BG4
     w8(bus, mmio(0x31), 0x60 | 0x08);
@@ -77,7 +77,7 @@ describe('BG4 window wrap-around behavior', () => {
     // Window A wrap-around [6..1]; enable BG4 A; OR combine; sub gate on
     w8(bus, mmio(0x26), 0x06); w8(bus, mmio(0x27), 0x01);
     w8(bus, mmio(0x24), 0x04);
-    w8(bus, mmio(0x30), 0x01 | 0x02 | (0 << 6));
+    w8(bus, mmio(0x30), 0x01 | 0x02);
 
     const rgba = renderMainScreenRGBA(ppu, 8, 1);
     const px = (x: number) => [rgba[x*4], rgba[x*4+1]];
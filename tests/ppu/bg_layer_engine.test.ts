@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { SNESBus } from '../../src/bus/snesBus';
+import { Cartridge } from '../../src/cart/cartridge';
+import { bgLayerRegs, renderBGRegionIndices } from '../../src/ppu/bg';
+
+const mmio = (reg: number) => (0x00 << 16) | (0x2100 + (reg & 0xff));
+const w8 = (bus: SNESBus, addr: number, v: number) => bus.write8(addr, v);
+
+function mkBus() {
+  const rom = new Uint8Array(0x20000);
+  const cart = new Cartridge({ rom, mapping: 'lorom' });
+  return new SNESBus(cart);
+}
+
+function writeWord(bus: SNESBus, addr: number, v: number) {
+  w8(bus, mmio(0x15), 0x80);
+  w8(bus, mmio(0x16), addr & 0xff);
+  w8(bus, mmio(0x17), (addr >>> 8) & 0xff);
+  w8(bus, mmio(0x18), v & 0xff);
+  w8(bus, mmio(0x19), (v >>> 8) & 0xff);
+}
+
+// 2bpp tile `n` at char base `base` filled with color `c` (1-3)
+function solid2bpp(bus: SNESBus, base: number, n: number, c: number) {
+  for (let y = 0; y < 8; y++) writeWord(bus, base + n * 8 + y, (c & 1 ? 0x00ff : 0) | (c & 2 ? 0xff00 : 0));
+}
+
+function scroll(bus: SNESBus, reg: number, v: number) {
+  w8(bus, mmio(reg), v & 0xff);
+  w8(bus, mmio(reg), (v >> 8) & 0xff);
+}
+
+describe('Generic BG layer engine', () => {
+  it('gives every layer the $2105 tile size bits and $2107-$210A screen sizes', () => {
+    const bus = mkBus();
+    const ppu = bus.getPPU();
+    w8(bus, mmio(0x05), 0xf0);
+    w8(bus, mmio(0x09), 0x08 | 0x03);
+    w8(bus, mmio(0x0a), 0x0c | 0x02);
+    expect([ppu.bg1TileSize16, ppu.bg2TileSize16, ppu.bg3TileSize16, ppu.bg4TileSize16]).toEqual([true, true, true, true]);
+    expect(bgLayerRegs(ppu, 3)).toMatchObject({ mapBase: 0x0400, mapWidth: 64, mapHeight: 64, tileSize: 16 });
+    expect(bgLayerRegs(ppu, 4)).toMatchObject({ mapBase: 0x0600, mapWidth: 32, mapHeight: 64, tileSize: 16 });
+  });
+
+  it('draws BG3 16x16 tiles from four 8x8 tiles across a 64x64 map', () => {
+    const bus = mkBus();
+    w8(bus, mmio(0x05), 0x40);        // mode 0, BG3 16x16
+    w8(bus, mmio(0x09), 0x08 | 0x03); // BG3 map 0x0400, 64x64
+    w8(bus, mmio(0x0c), 0x01);        // BG3 chars 0x0800
+    solid2bpp(bus, 0x0800, 2, 1);
+    solid2bpp(bus, 0x0800, 3, 2);
+    solid2bpp(bus, 0x0800, 18, 3);
+    // Bottom-right screen (+$C00), tile (1, 0) of that screen = map tile (33, 32)
+    writeWord(bus, 0x0400 + 0xc00 + 1, 0x0002);
+    scroll(bus, 0x11, 33 * 16);
+    scroll(bus, 0x12, 32 * 16);
+    const row0 = renderBGRegionIndices(bus.getPPU(), 3, 16, 1);
+    const row8 = renderBGRegionIndices(bus.getPPU(), 3, 16, 9).slice(8 * 16);
+    // Mode 0 gives BG3 the palette block at 64
+    expect([row0[0], row0[8], row8[0], row8[8]]).toEqual([64 + 1, 64 + 2, 64 + 3, 64]);
+  });
+
+  it('places the lower screen of a 32x64 map at +$400 and flips large BG4 tiles', () => {
+    const bus = mkBus();
+    w8(bus, mmio(0x05), 0x80);        // mode 0, BG4 16x16
+    w8(bus, mmio(0x0a), 0x10 | 0x02); // BG4 map 0x0800, 32x64
+    w8(bus, mmio(0x0c), 0x10);        // BG4 chars 0x0800
+    solid2bpp(bus, 0x0800, 4, 1);
+    solid2bpp(bus, 0x0800, 5, 2);
+    writeWord(bus, 0x0800 + 0x400, 0x4004); // lower screen, tile (0, 0), H flip
+    scroll(bus, 0x14, 32 * 16);
+    const row = renderBGRegionIndices(bus.getPPU(), 4, 16, 1);
+    expect([row[0], row[8]]).toEqual([96 + 2, 96 + 1]);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { SNESBus } from '../../src/bus/snesBus';
+import { Cartridge } from '../../src/cart/cartridge';
+import { renderBG1RegionIndices, renderBG3RegionIndices } from '../../src/ppu/bg';
+
+const mmio = (reg: number) => (0x00 << 16) | (0x2100 + (reg & 0xff));
+const w8 = (bus: SNESBus, addr: number, v: number) => bus.write8(addr, v);
+
+function mkBus() {
+  const rom = new Uint8Array(0x20000);
+  const cart = new Cartridge({ rom, mapping: 'lorom' });
+  return new SNESBus(cart);
+}
+
+function writeWord(bus: SNESBus, addr: number, v: number) {
+  w8(bus, mmio(0x16), addr & 0xff);
+  w8(bus, mmio(0x17), (addr >>> 8) & 0xff);
+  w8(bus, mmio(0x18), v & 0xff);
+  w8(bus, mmio(0x19), (v >>> 8) & 0xff);
+}
+
+// 4bpp tile 0 at 0x1000 where pixel (x, y) = (y % 4) * 4 + (x % 4)
+function setupBG1Gradient(bus: SNESBus) {
+  w8(bus, mmio(0x05), 0x01);
+  w8(bus, mmio(0x15), 0x80);
+  w8(bus, mmio(0x07), 0x08); // BG1 map 0x0400
+  w8(bus, mmio(0x0b), 0x02); // BG1 chars 0x1000
+  for (let y = 0; y < 8; y++) {
+    const planes = [0, 0, 0, 0];
+    for (let x = 0; x < 8; x++) {
+      const v = (y % 4) * 4 + (x % 4);
+      for (let p = 0; p < 4; p++) if ((v >> p) & 1) planes[p] |= 0x80 >> x;
+    }
+    writeWord(bus, 0x1000 + y, planes[0] | (planes[1] << 8));
+    writeWord(bus, 0x1000 + 8 + y, planes[2] | (planes[3] << 8));
+  }
+  for (let i = 0; i < 32 * 32; i++) writeWord(bus, 0x0400 + i, 0x0000);
+}
+
+describe('MOSAIC ($2106)', () => {
+  it('BG1 without mosaic renders the raw gradient', () => {
+    const bus = mkBus();
+    setupBG1Gradient(bus);
+    const idx = renderBG1RegionIndices(bus.getPPU(), 8, 2);
+    expect(idx).toEqual([
+      0, 1, 2, 3, 0, 1, 2, 3,
+      4, 5, 6, 7, 4, 5, 6, 7,
+    ]);
+  });
+
+  it('2x2 blocks on BG1 take the top-left pixel of each block', () => {
+    const bus = mkBus();
+    setupBG1Gradient(bus);
+    w8(bus, mmio(0x06), 0x11); // size 2, BG1
+    const idx = renderBG1RegionIndices(bus.getPPU(), 8, 4);
+    expect(idx).toEqual([
+      0, 0, 2, 2, 0, 0, 2, 2,
+      0, 0, 2, 2, 0, 0, 2, 2,
+      8, 8, 10, 10, 8, 8, 10, 10,
+      8, 8, 10, 10, 8, 8, 10, 10,
+    ]);
+  });
+
+  it('only layers with their enable bit set are affected', () => {
+    const bus = mkBus();
+    setupBG1Gradient(bus);
+    w8(bus, mmio(0x06), 0xf4); // size 16, BG3 only
+    expect(renderBG1RegionIndices(bus.getPPU(), 4, 1)).toEqual([0, 1, 2, 3]);
+    // BG3 is empty here, but the call must still cope with mosaic on
+    expect(renderBG3RegionIndices(bus.getPPU(), 4, 1)).toEqual([0, 0, 0, 0]);
+  });
+
+  it('vertical blocks follow the line counter across a mid-frame size change', () => {
+    const bus = mkBus();
+    const ppu = bus.getPPU();
+    setupBG1Gradient(bus);
+    ppu.startFrame();
+    w8(bus, mmio(0x06), 0x21); // size 3 from line 0
+    for (let i = 0; i < 4; i++) ppu.endScanline();
+    w8(bus, mmio(0x06), 0x11); // size 2 from line 4
+    // Block 3-5 was latched at size 3; the next block starts on line 6 with size 2
+    const column = renderBG1RegionIndices(ppu, 1, 8);
+    expect(column).toEqual([0, 0, 0, 12, 12, 12, 8, 8]);
+
+    // Horizontal size follows each line's value
+    const rows = renderBG1RegionIndices(ppu, 4, 8);
+    expect(rows.slice(0, 4)).toEqual([0, 0, 0, 3]);
+    expect(rows.slice(4 * 4, 4 * 4 + 4)).toEqual([12, 12, 14, 14]);
+  });
+
+  it('the next frame starts over with the latest $2106 value', () => {
+    const bus = mkBus();
+    const ppu = bus.getPPU();
+    setupBG1Gradient(bus);
+    w8(bus, mmio(0x06), 0x00);
+    for (let i = 0; i < 100; i++) ppu.endScanline();
+    w8(bus, mmio(0x06), 0x11);
+    expect(renderBG1RegionIndices(ppu, 2, 1)).toEqual([0, 1]);
+    for (let i = 100; i < 262; i++) ppu.endScanline();
+    expect(renderBG1RegionIndices(ppu, 2, 1)).toEqual([0, 0]);
+  });
+});
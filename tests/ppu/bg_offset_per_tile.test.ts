@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { SNESBus } from '../../src/bus/snesBus';
+import { Cartridge } from '../../src/cart/cartridge';
+import { renderBG1RegionIndices, renderBG2RegionIndices } from '../../src/ppu/bg';
+
+const mmio = (reg: number) => (0x00 << 16) | (0x2100 + (reg & 0xff));
+const w8 = (bus: SNESBus, addr: number, v: number) => bus.write8(addr, v);
+
+function mkBus() {
+  const rom = new Uint8Array(0x20000);
+  const cart = new Cartridge({ rom, mapping: 'lorom' });
+  return new SNESBus(cart);
+}
+
+function writeWord(bus: SNESBus, addr: number, v: number) {
+  w8(bus, mmio(0x16), addr & 0xff);
+  w8(bus, mmio(0x17), (addr >>> 8) & 0xff);
+  w8(bus, mmio(0x18), v & 0xff);
+  w8(bus, mmio(0x19), (v >>> 8) & 0xff);
+}
+
+// Solid tile where every pixel has value `pix`, for the given depth
+function writeSolidTile(bus: SNESBus, charBase: number, tile: number, bpp: number, pix: number) {
+  const base = charBase + tile * bpp * 4;
+  for (let pair = 0; pair < bpp / 2; pair++) {
+    const lo = (pix >> (pair * 2)) & 1 ? 0xff : 0x00;
+    const hi = (pix >> (pair * 2 + 1)) & 1 ? 0xff : 0x00;
+    for (let y = 0; y < 8; y++) writeWord(bus, base + pair * 8 + y, lo | (hi << 8));
+  }
+}
+
+// BG1 row 0: column c shows tile (c % 4) + 1 (pixel value c % 4 + 1); row 1 is all tile 9.
+// BG3's map at 0x0800 holds the offset table and starts out empty.
+function setupOPT(bus: SNESBus, mode: number, bpp = 4) {
+  w8(bus, mmio(0x05), mode);
+  w8(bus, mmio(0x15), 0x80);
+  w8(bus, mmio(0x07), 0x08); // BG1 map 0x0400
+  w8(bus, mmio(0x08), 0x08); // BG2 shares the map
+  w8(bus, mmio(0x09), 0x10); // BG3 map 0x0800
+  w8(bus, mmio(0x0b), 0x22); // BG1/BG2 chars 0x1000
+  for (let t = 1; t <= 4; t++) writeSolidTile(bus, 0x1000, t, bpp, t);
+  writeSolidTile(bus, 0x1000, 9, bpp, 9);
+  for (let tx = 0; tx < 32; tx++) {
+    writeWord(bus, 0x0400 + tx, (tx % 4) + 1);
+    writeWord(bus, 0x0400 + 32 + tx, 9);
+  }
+}
+
+// One pixel per 8-wide screen column
+const columns = (idx: number[], n: number) => Array.from({ length: n }, (_, c) => idx[c * 8]);
+
+describe('Offset-per-tile (modes 2/4/6)', () => {
+  it('mode 2 replaces H and V scroll per column from BG3 rows 0 and 1', () => {
+    const bus = mkBus();
+    setupOPT(bus, 0x02);
+    expect(columns(renderBG1RegionIndices(bus.getPPU(), 32, 1), 4)).toEqual([1, 2, 3, 4]);
+
+    writeWord(bus, 0x0800 + 0, 0x2000 | 16); // column 1: HOFS 16
+    writeWord(bus, 0x0800 + 32 + 1, 0x2000 | 8); // column 2: VOFS 8
+    expect(columns(renderBG1RegionIndices(bus.getPPU(), 32, 1), 4)).toEqual([1, 4, 9, 4]);
+  });
+
+  it('entries only apply to the BG whose enable bit is set', () => {
+    const bus = mkBus();
+    setupOPT(bus, 0x02);
+    writeWord(bus, 0x0800 + 0, 0x4000 | 16); // BG2 only
+    expect(columns(renderBG1RegionIndices(bus.getPPU(), 16, 1), 2)).toEqual([1, 2]);
+    expect(columns(renderBG2RegionIndices(bus.getPPU(), 16, 1), 2)).toEqual([1, 4]);
+  });
+
+  it('the leftmost column is never offset and columns follow BG fine scroll', () => {
+    const bus = mkBus();
+    const ppu = bus.getPPU();
+    setupOPT(bus, 0x02);
+    writeWord(bus, 0x0800 + 0, 0x2000 | 16);
+    ppu.bg1HOfs = 4;
+    const idx = renderBG1RegionIndices(ppu, 16, 1);
+    // x 0-3 is column 0 (registers); column 1 starts at x=4 and keeps the fine scroll
+    expect(idx.slice(0, 4)).toEqual([1, 1, 1, 1]);
+    expect(idx.slice(4, 12)).toEqual(new Array(8).fill(4));
+  });
+
+  it('mode 4 uses a single row where bit 15 selects vertical', () => {
+    const bus = mkBus();
+    setupOPT(bus, 0x04, 8); // BG1 is 8bpp in mode 4
+    writeWord(bus, 0x0800 + 0, 0x2000 | 16);
+    writeWord(bus, 0x0800 + 1, 0xa000 | 8);
+    writeWord(bus, 0x0800 + 32 + 2, 0x2000 | 8); // second row is ignored in mode 4
+    expect(columns(renderBG1RegionIndices(bus.getPPU(), 32, 1), 4)).toEqual([1, 4, 9, 4]);
+  });
+
+  it('reads the offset table through a 64-wide BG3 map', () => {
+    const bus = mkBus();
+    const ppu = bus.getPPU();
+    setupOPT(bus, 0x02);
+    w8(bus, mmio(0x09), 0x10 | 0x01); // BG3 map 0x0800, 64x32
+    writeWord(bus, 0x0800 + 0, 0x2000 | 8); // left screen, entry 0: must not be used
+    writeWord(bus, 0x0800 + 0x400 + 0, 0x2000 | 16); // right screen, entry 0 (map column 32)
+    ppu.bg3HOfs = 31 * 8; // column 1 reads map column 31, column 2 map column 32
+    expect(columns(renderBG1RegionIndices(ppu, 32, 1), 4)).toEqual([1, 2, 1, 4]);
+  });
+
+  it('other modes ignore the offset table', () => {
+    const bus = mkBus();
+    setupOPT(bus, 0x01);
+    writeWord(bus, 0x0800 + 0, 0x2000 | 16);
+    expect(columns(renderBG1RegionIndices(bus.getPPU(), 16, 1), 2)).toEqual([1, 2]);
+  });
+});
@@ -19,6 +19,8 @@ describe('Golden RGBA hash for BG1 render', () => {
     const ppu = bus.getPPU();
 
     // Setup: map base 0x0000, char base 0x1000
+    // Mode 1: BG1 is 4bpp, so palette index = group*16 + pix
+    w8(bus, mmio(0x05), 0x01);
     w8(bus, mmio(0x07), 0x00);
     w8(bus, mmio(0x0b), 0x02);
 
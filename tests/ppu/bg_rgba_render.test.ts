@@ -18,6 +18,8 @@ describe('BG1 RGBA render with CGRAM colors', () => {
     const ppu = bus.getPPU();
 
     // Set BG1 map base at 0x0000, char base at 0x1000 (BG1 uses LOW nibble)
+    // Mode 1: BG1 is 4bpp, so palette index = group*16 + pix
+    w8(bus, mmio(0x05), 0x01);
     w8(bus, mmio(0x07), 0x00);
     w8(bus, mmio(0x0b), 0x02);
 
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { SNESBus } from '../../src/bus/snesBus';
+import { Cartridge } from '../../src/cart/cartridge';
+import { renderBGTilemap, renderCGRAMGrid, renderOAMTable, renderTileSheet, DebugView } from '../../src/ppu/debug/views';
+
+const mmio = (reg: number) => (0x00 << 16) | (0x2100 + (reg & 0xff));
+const w8 = (bus: SNESBus, addr: number, v: number) => bus.write8(addr, v);
+
+function mkBus() {
+  const rom = new Uint8Array(0x20000);
+  const cart = new Cartridge({ rom, mapping: 'lorom' });
+  return new SNESBus(cart);
+}
+
+function writeWord(bus: SNESBus, addr: number, v: number) {
+  w8(bus, mmio(0x15), 0x80);
+  w8(bus, mmio(0x16), addr & 0xff);
+  w8(bus, mmio(0x17), (addr >>> 8) & 0xff);
+  w8(bus, mmio(0x18), v & 0xff);
+  w8(bus, mmio(0x19), (v >>> 8) & 0xff);
+}
+
+function writeColor(bus: SNESBus, color: number, bgr: number) {
+  w8(bus, mmio(0x21), color * 2);
+  w8(bus, mmio(0x22), bgr & 0xff);
+  w8(bus, mmio(0x22), (bgr >>> 8) & 0xff);
+}
+
+const rgb = (v: DebugView, x: number, y: number) => Array.from(v.rgba.slice((y * v.width + x) * 4, (y * v.width + x) * 4 + 4));
+const RED = [255, 0, 0, 255];
+const GREEN = [0, 255, 0, 255];
+const BLACK = [0, 0, 0, 255];
+const YELLOW = [255, 255, 0, 255];
+
+describe('PPU debug views', () => {
+  it('lays out all of VRAM as a tile sheet in the chosen depth and palette', () => {
+    const bus = mkBus();
+    // 4bpp tile 3 (words 0x30-0x3f): row 0 plane 0 set -> color 1
+    writeWord(bus, 0x0030, 0x00ff);
+    writeColor(bus, 1, 0x7c00);
+    writeColor(bus, 17, 0x03e0);
+    const sheet = renderTileSheet(bus.getPPU(), { bpp: 4 });
+    expect([sheet.width, sheet.height]).toEqual([128, 1024]);
+    expect(rgb(sheet, 24, 0)).toEqual(RED);
+    expect(rgb(sheet, 24, 1)).toEqual(BLACK);
+    expect(rgb(renderTileSheet(bus.getPPU(), { bpp: 4, palette: 1 }), 24, 0)).toEqual(GREEN);
+    // As 2bpp the same words are tile 6
+    const two = renderTileSheet(bus.getPPU(), { bpp: 2, columns: 32 });
+    expect([two.width, two.height]).toEqual([256, 1024]);
+    expect(rgb(two, 48, 0)).toEqual(RED);
+  });
+
+  it('draws a BG tilemap across every screen with the viewport outlined', () => {
+    const bus = mkBus();
+    const ppu = bus.getPPU();
+    w8(bus, mmio(0x05), 0x01);
+    w8(bus, mmio(0x07), 0x08 | 0x01); // BG1 map 0x0400, 64x32
+    w8(bus, mmio(0x0b), 0x02);        // BG1 chars 0x1000
+    for (let y = 0; y < 8; y++) writeWord(bus, 0x1000 + 16 + y, 0x00ff);
+    writeColor(bus, 1, 0x7c00);
+    writeWord(bus, 0x0400 + 0x400 + 2 * 32 + 1, 0x0001); // second screen, tile (1, 2)
+    w8(bus, mmio(0x0d), 0x10); w8(bus, mmio(0x0d), 0x00); // BG1HOFS 16
+    w8(bus, mmio(0x0e), 0x08); w8(bus, mmio(0x0e), 0x00); // BG1VOFS 8
+
+    const map = renderBGTilemap(ppu, 1);
+    expect([map.width, map.height]).toEqual([512, 256]);
+    expect(rgb(map, 256 + 8 + 3, 16 + 3)).toEqual(RED);
+    expect(rgb(map, 8 + 3, 16 + 3)).toEqual(BLACK);
+    expect(map.viewport).toEqual({ x: 16, y: 8, width: 256, height: 224 });
+    expect(rgb(map, 16, 8)).toEqual(YELLOW);
+    expect(rgb(map, 16 + 255, 8 + 223)).toEqual(YELLOW);
+    expect(rgb(renderBGTilemap(ppu, 1, false), 16, 8)).toEqual(BLACK);
+
+    // A viewport past the map's bottom edge wraps to the top
+    w8(bus, mmio(0x0e), 100); w8(bus, mmio(0x0e), 0x00);
+    const wrapped = renderBGTilemap(ppu, 1);
+    expect(rgb(wrapped, 40, (100 + 223) - 256)).toEqual(YELLOW);
+  });
+
+  it('decodes every OAM entry and draws it with its size, flip and palette', () => {
+    const bus = mkBus();
+    const ppu = bus.getPPU();
+    w8(bus, mmio(0x01), 0x00); // 8x8 / 16x16, names at 0x0000
+    // 4bpp tile 2: row 0 leftmost pixel color 1
+    writeWord(bus, 0x0020, 0x0080);
+    // CGADD holds a byte index here, so OBJ colors are reached by writing on from the last byte it can address
+    w8(bus, mmio(0x21), 0xfe);
+    for (let i = 0xfe; i < (128 + 16 + 1) * 2; i++) w8(bus, mmio(0x22), 0);
+    w8(bus, mmio(0x22), 0x1f); w8(bus, mmio(0x22), 0x00);
+    // Sprite 1: Y=10, X=20, tile 2, palette 1, H flip
+    w8(bus, mmio(0x02), 2); w8(bus, mmio(0x03), 0);
+    for (const b of [20, 10, 2, 0x40 | (1 << 1)]) w8(bus, mmio(0x04), b);
+
+    const oam = renderOAMTable(ppu);
+    expect(oam.sprites.length).toBe(128);
+    expect(oam.sprites[1]).toMatchObject({ index: 1, x: 20, y: 10, tile: 2, width: 8, height: 8 });
+    expect([oam.cellWidth, oam.cellHeight]).toEqual([8, 8]);
+    expect([oam.width, oam.height]).toEqual([128, 64]);
+    expect(rgb(oam, 8 + 7, 0)).toEqual([0, 0, 255, 255]);
+    expect(rgb(oam, 8, 0)[3]).toBe(0);
+  });
+
+  it('shows CGRAM as a 16x16 grid', () => {
+    const bus = mkBus();
+    writeColor(bus, 0x35, 0x03e0);
+    const grid = renderCGRAMGrid(bus.getPPU(), 4);
+    expect([grid.width, grid.height]).toEqual([64, 64]);
+    expect(rgb(grid, 5 * 4 + 1, 3 * 4 + 2)).toEqual(GREEN);
+    expect(rgb(grid, 0, 0)).toEqual(BLACK);
+  });
+});
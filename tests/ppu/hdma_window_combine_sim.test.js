@@ -22,11 +22,13 @@ describe('HDMA-like mid-scanline window combine changes (simulated)', () => {
             w8(bus, mmio(0x19), 0x00);
         }
     }
-    it('switches CGWSEL combine OR -> AND mid-line', () => {
+    it('switches WBGLOG combine OR -> AND mid-line', () => {
         const bus = mkBus();
         const ppu = bus.getPPU();
         // Brightness, enable BG1 main, BG2 subscreen
         w8(bus, mmio(0x00), 0x0f);
+        // Set BG mode 1 (BG1/2 are 4bpp, BG3 is 2bpp)
+        w8(bus, mmio(0x05), 0x01);
         w8(bus, mmio(0x2c), 0x01);
         w8(bus, mmio(0x2d), 0x02);
         // Char bases and BG2 map base
@@ -58,11 +60,12 @@ describe('HDMA-like mid-scanline window combine changes (simulated)', () => {
         w8(bus, mmio(0x23), 0x03);
         // Color math enable+half mask=BG1
         w8(bus, mmio(0x31), 0x60 | 0x01);
-        // Left half: combine OR (00), applyInside=1
-        w8(bus, mmio(0x30), 0x01 | (0 << 6));
+        // Left half: WBGLOG BG1 combine OR (00), applyInside=1
+        w8(bus, mmio(0x30), 0x01);
+        w8(bus, mmio(0x2a), 0x00);
         const left = renderMainScreenRGBA(ppu, 4, 1);
-        // Right half: combine AND (01), applyInside=1
-        w8(bus, mmio(0x30), 0x01 | (1 << 6));
+        // Right half: WBGLOG BG1 combine AND (01)
+        w8(bus, mmio(0x2a), 0x01);
         const right = renderMainScreenRGBA(ppu, 4, 1);
         const rgba = new Uint8ClampedArray(8 * 4);
         rgba.set(left, 0);
@@ -82,6 +85,8 @@ describe('HDMA-like mid-scanline window combine changes (simulated)', () => {
         const ppu = bus.getPPU();
         // Brightness, enable BG1 main, BG2 subscreen
         w8(bus, mmio(0x00), 0x0f);
+        // Set BG mode 1 (BG1/2 are 4bpp, BG3 is 2bpp)
+        w8(bus, mmio(0x05), 0x01);
         w8(bus, mmio(0x2c), 0x01);
         w8(bus, mmio(0x2d), 0x02);
         w8(bus, mmio(0x0b), 0x22);
@@ -110,10 +115,10 @@ describe('HDMA-like mid-scanline window combine changes (simulated)', () => {
         // Color math enable+half
         w8(bus, mmio(0x31), 0x60 | 0x01);
         // Left: applyInside=1 (blend inside)
-        w8(bus, mmio(0x30), 0x01 | (0 << 6));
+        w8(bus, mmio(0x30), 0x01);
         const left = renderMainScreenRGBA(ppu, 4, 1);
         // Right: applyInside=0 (blend outside)
-        w8(bus, mmio(0x30), 0x00 | (0 << 6));
+        w8(bus, mmio(0x30), 0x00);
         const right = renderMainScreenRGBA(ppu, 4, 1);
         const rgba = new Uint8ClampedArray(8 * 4);
         rgba.set(left, 0);
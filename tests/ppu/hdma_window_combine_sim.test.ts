@@ -26,7 +26,7 @@ describe('HDMA-like mid-scanline window combine changes (simulated)', () => {
     }
   }
 
-  it('switches CGWSEL combine OR -> AND mid-line', () => {
+  it('switches WBGLOG combine OR -> AND mid-line', () => {
     const bus = mkBus();
     const ppu = bus.getPPU();
 
@@ -59,12 +59,13 @@ describe('HDMA-like mid-scanline window combine changes (simulated)', () => {
     // Color math enable+half mask=BG1
     w8(bus, mmio(0x31), 0x60 | 0x01);
 
-    // Left half: combine OR (00), applyInside=1
-    w8(bus, mmio(0x30), 0x01 | (0 << 6));
+    // Left half: WBGLOG BG1 combine OR (00), applyInside=1
+    w8(bus, mmio(0x30), 0x01);
+    w8(bus, mmio(0x2a), 0x00);
     const left = renderMainScreenRGBA(ppu, 4, 1);
 
-    // Right half: combine AND (01), applyInside=1
-    w8(bus, mmio(0x30), 0x01 | (1 << 6));
+    // Right half: WBGLOG BG1 combine AND (01)
+    w8(bus, mmio(0x2a), 0x01);
     const right = renderMainScreenRGBA(ppu, 4, 1);
 
     const rgba = new Uint8ClampedArray(8 * 4);
@@ -112,11 +113,11 @@ describe('HDMA-like mid-scanline window combine changes (simulated)', () => {
     w8(bus, mmio(0x31), 0x60 | 0x01);
 
     // Left: applyInside=1 (blend inside)
-    w8(bus, mmio(0x30), 0x01 | (0 << 6));
+    w8(bus, mmio(0x30), 0x01);
     const left = renderMainScreenRGBA(ppu, 4, 1);
 
     // Right: applyInside=0 (blend outside)
-    w8(bus, mmio(0x30), 0x00 | (0 << 6));
+    w8(bus, mmio(0x30), 0x00);
     const right = renderMainScreenRGBA(ppu, 4, 1);
 
     const rgba = new Uint8ClampedArray(8 * 4);
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { SNESBus } from '../../src/bus/snesBus';
+import { Cartridge } from '../../src/cart/cartridge';
+import { renderBG1RegionIndices } from '../../src/ppu/bg';
+import { renderFrame, frameDisplaySize, scaleFrameRGBA } from '../../src/ppu/frame';
+
+const mmio = (reg: number) => (0x00 << 16) | (0x2100 + (reg & 0xff));
+const w8 = (bus: SNESBus, addr: number, v: number) => bus.write8(addr, v);
+
+function mkBus() {
+  const rom = new Uint8Array(0x20000);
+  const cart = new Cartridge({ rom, mapping: 'lorom' });
+  return new SNESBus(cart);
+}
+
+function writeWord(bus: SNESBus, addr: number, v: number) {
+  w8(bus, mmio(0x16), addr & 0xff);
+  w8(bus, mmio(0x17), (addr >>> 8) & 0xff);
+  w8(bus, mmio(0x18), v & 0xff);
+  w8(bus, mmio(0x19), (v >>> 8) & 0xff);
+}
+
+function writeColor(bus: SNESBus, color: number, bgr: number) {
+  w8(bus, mmio(0x21), color * 2);
+  w8(bus, mmio(0x22), bgr & 0xff);
+  w8(bus, mmio(0x22), (bgr >>> 8) & 0xff);
+}
+
+// Solid 4bpp (or 2bpp) tile with every pixel = pix
+function writeSolidTile(bus: SNESBus, charBase: number, tile: number, bpp: number, pix: number) {
+  const base = charBase + tile * bpp * 4;
+  for (let pair = 0; pair < bpp / 2; pair++) {
+    const lo = (pix >> (pair * 2)) & 1 ? 0xff : 0x00;
+    const hi = (pix >> (pair * 2 + 1)) & 1 ? 0xff : 0x00;
+    for (let y = 0; y < 8; y++) writeWord(bus, base + pair * 8 + y, lo | (hi << 8));
+  }
+}
+
+const RED = 0x7c00;
+const GREEN = 0x03e0;
+const BLUE = 0x001f;
+
+function setupBG1(bus: SNESBus, mode: number) {
+  w8(bus, mmio(0x00), 0x0f);
+  w8(bus, mmio(0x05), mode);
+  w8(bus, mmio(0x15), 0x80);
+  w8(bus, mmio(0x07), 0x08); // BG1 map 0x0400
+  w8(bus, mmio(0x0b), 0x02); // BG1 chars 0x1000
+  writeSolidTile(bus, 0x1000, 1, 4, 1);
+  writeSolidTile(bus, 0x1000, 2, 4, 2);
+  for (let tx = 0; tx < 32; tx++) writeWord(bus, 0x0400 + tx, 0x0001);
+  writeColor(bus, 0, BLUE);
+  writeColor(bus, 1, RED);
+  writeColor(bus, 2, GREEN);
+}
+
+describe('Hi-res modes 5/6 and pseudo-hires', () => {
+  it('mode 5 tiles are 16 hi-res pixels wide (tile n, then n+1)', () => {
+    const bus = mkBus();
+    setupBG1(bus, 0x05);
+    const idx = renderBG1RegionIndices(bus.getPPU(), 32, 1, true);
+    expect(idx.slice(0, 8)).toEqual(new Array(8).fill(1));
+    expect(idx.slice(8, 16)).toEqual(new Array(8).fill(2));
+    expect(idx[16]).toBe(1);
+
+    // HOFS counts hi-res pixels in steps of two
+    bus.getPPU().bg1HOfs = 4;
+    const scrolled = renderBG1RegionIndices(bus.getPPU(), 16, 1, true);
+    expect(scrolled[0]).toBe(2);
+  });
+
+  it('mode 5 frame interleaves sub screen (even) and main screen (odd) columns', () => {
+    const bus = mkBus();
+    setupBG1(bus, 0x05);
+    w8(bus, mmio(0x2c), 0x01); // BG1 on main only
+    w8(bus, mmio(0x2d), 0x00);
+    const frame = renderFrame(bus.getPPU(), 8);
+    expect(frame.width).toBe(512);
+    expect(frame.height).toBe(8);
+    expect(frame.hiRes).toBe(true);
+    // Column 1 is main (red), column 0 is the sub screen backdrop (blue)
+    expect(frame.rgba[1 * 4]).toBeGreaterThan(200);
+    expect(frame.rgba[0 * 4 + 2]).toBeGreaterThan(200);
+    expect(frame.rgba[0 * 4]).toBe(0);
+    // Column 9 is in the right half of the first 16-wide tile (tile 2, green)
+    expect(frame.rgba[9 * 4 + 1]).toBeGreaterThan(200);
+  });
+
+  it('SETINI bit3 turns mode 1 into pseudo-hires', () => {
+    const bus = mkBus();
+    setupBG1(bus, 0x01);
+    w8(bus, mmio(0x2c), 0x01);
+    w8(bus, mmio(0x2d), 0x00);
+    expect(renderFrame(bus.getPPU(), 8).hiRes).toBe(false);
+
+    w8(bus, mmio(0x33), 0x08);
+    const frame = renderFrame(bus.getPPU(), 8);
+    expect(frame.hiRes).toBe(true);
+    expect(frame.rgba[1 * 4]).toBeGreaterThan(200);   // main: BG1 red
+    expect(frame.rgba[0 * 4 + 2]).toBeGreaterThan(200); // sub: backdrop blue
+  });
+
+  it('low-res frames double pixels and report their display size', () => {
+    const bus = mkBus();
+    setupBG1(bus, 0x01);
+    w8(bus, mmio(0x2c), 0x01);
+    const frame = renderFrame(bus.getPPU(), 8);
+    expect(frame.width).toBe(512);
+    expect(Array.from(frame.rgba.slice(0, 4))).toEqual(Array.from(frame.rgba.slice(4, 8)));
+    expect(frameDisplaySize(frame)).toEqual({ width: 256, height: 8 });
+    const scaled = scaleFrameRGBA(frame, 256, 8);
+    expect(scaled.length).toBe(256 * 8 * 4);
+    expect(scaled[0]).toBeGreaterThan(200);
+
+    w8(bus, mmio(0x33), 0x08);
+    expect(frameDisplaySize(renderFrame(bus.getPPU(), 224))).toEqual({ width: 512, height: 448 });
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { SNESBus } from '../../src/bus/snesBus';
+import { Cartridge } from '../../src/cart/cartridge';
+import { renderFrame, frameDisplaySize } from '../../src/ppu/frame';
+
+const mmio = (reg: number) => (0x00 << 16) | (0x2100 + (reg & 0xff));
+const w8 = (bus: SNESBus, addr: number, v: number) => bus.write8(addr, v);
+
+function mkBus() {
+  const rom = new Uint8Array(0x20000);
+  const cart = new Cartridge({ rom, mapping: 'lorom' });
+  return new SNESBus(cart);
+}
+
+function setBackdrop(bus: SNESBus, bgr: number) {
+  w8(bus, mmio(0x21), 0);
+  w8(bus, mmio(0x22), bgr & 0xff);
+  w8(bus, mmio(0x22), (bgr >>> 8) & 0xff);
+}
+
+const rowRed = (rgba: Uint8ClampedArray, y: number) => rgba[y * 512 * 4];
+
+describe('Interlace and overscan frame output', () => {
+  it('overscan frames are 239 lines', () => {
+    const bus = mkBus();
+    w8(bus, mmio(0x33), 0x04);
+    const frame = renderFrame(bus.getPPU());
+    expect(frame.height).toBe(239);
+    expect(frame.interlaced).toBe(false);
+  });
+
+  it('interlace weaves the current field into a 448-line frame', () => {
+    const bus = mkBus();
+    const ppu = bus.getPPU();
+    w8(bus, mmio(0x00), 0x0f);
+    w8(bus, mmio(0x33), 0x01);
+    w8(bus, mmio(0x2c), 0x00);
+
+    // Field 0 shows a red backdrop; with no previous frame both lines of each pair are filled
+    setBackdrop(bus, 0x7c00);
+    ppu.field = 0;
+    const even = renderFrame(ppu, 4);
+    expect(even.height).toBe(8);
+    expect(even.interlaced).toBe(true);
+    expect(rowRed(even.rgba, 0)).toBeGreaterThan(200);
+    expect(rowRed(even.rgba, 1)).toBeGreaterThan(200);
+
+    // Field 1 is black: only odd lines change, even lines come from the previous field
+    setBackdrop(bus, 0x0000);
+    ppu.field = 1;
+    const odd = renderFrame(ppu, 4, even);
+    expect(rowRed(odd.rgba, 0)).toBeGreaterThan(200);
+    expect(rowRed(odd.rgba, 1)).toBe(0);
+    expect(rowRed(odd.rgba, 2)).toBeGreaterThan(200);
+    expect(rowRed(odd.rgba, 3)).toBe(0);
+
+    expect(frameDisplaySize(renderFrame(ppu))).toEqual({ width: 512, height: 448 });
+  });
+
+  it('the field flips once per frame', () => {
+    const bus = mkBus();
+    const ppu = bus.getPPU();
+    const start = ppu.field;
+    for (let i = 0; i < 262; i++) ppu.endScanline();
+    expect(ppu.field).toBe(start ^ 1);
+  });
+});
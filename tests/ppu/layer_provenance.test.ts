@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { SNESBus } from '../../src/bus/snesBus';
+import { Cartridge } from '../../src/cart/cartridge';
+import { renderMainScreenBGR555 } from '../../src/ppu/bg';
+import { FRAME_WIDTH } from '../../src/ppu/frame';
+import { decodeProvenance, PROV_FIXED, PROV_OBJ } from '../../src/ppu/provenance';
+
+const mmio = (reg: number) => (0x00 << 16) | (0x2100 + (reg & 0xff));
+const w8 = (bus: SNESBus, addr: number, v: number) => bus.write8(addr, v);
+
+function mkBus() {
+  const rom = new Uint8Array(0x20000);
+  const cart = new Cartridge({ rom, mapping: 'lorom' });
+  return new SNESBus(cart);
+}
+
+function writeWord(bus: SNESBus, addr: number, v: number) {
+  w8(bus, mmio(0x16), addr & 0xff);
+  w8(bus, mmio(0x17), (addr >>> 8) & 0xff);
+  w8(bus, mmio(0x18), v & 0xff);
+  w8(bus, mmio(0x19), (v >>> 8) & 0xff);
+}
+
+// Mode 1 BG1 at map 0x0400 / chars 0x1000: solid tile 1 in map column 0 (high priority) and column 1
+// (low priority), the rest transparent. OBJ tile 1 (solid) lives at word 16.
+function setup(bus: SNESBus) {
+  w8(bus, mmio(0x00), 0x0f);
+  w8(bus, mmio(0x05), 0x01);
+  w8(bus, mmio(0x15), 0x80);
+  w8(bus, mmio(0x07), 0x08);
+  w8(bus, mmio(0x0b), 0x02);
+  for (let y = 0; y < 8; y++) writeWord(bus, 0x1000 + 16 + y, 0x00ff);
+  for (let y = 0; y < 8; y++) writeWord(bus, 16 + y, 0x00ff);
+  writeWord(bus, 0x0400, 0x2001);
+  writeWord(bus, 0x0401, 0x0001);
+  w8(bus, mmio(0x2c), 0x01);
+}
+
+function provenanceOf(bus: SNESBus, width = 32) {
+  const prov = new Uint16Array(width);
+  renderMainScreenBGR555(bus.getPPU(), width, 1, false, 0, prov);
+  return Array.from(prov, decodeProvenance);
+}
+
+describe('Compositor layer provenance', () => {
+  it('records main/sub sources, priorities and color math per pixel', () => {
+    const bus = mkBus();
+    setup(bus);
+    const ppu = bus.getPPU();
+    ppu.cgwStrictMaskMode = false;
+    w8(bus, mmio(0x2d), 0x01);      // BG1 on the sub screen too
+    w8(bus, mmio(0x31), 0x20 | 0x01); // color math enabled for BG1 only
+    const p = provenanceOf(bus);
+    expect(p[0]).toEqual({ mainLayer: 1, mainPriority: 1, subLayer: 1, subPriority: 1, colorMath: true, clipped: false, windowMasked: false });
+    expect(p[8]).toMatchObject({ mainLayer: 1, mainPriority: 0, colorMath: true });
+    expect(p[16]).toEqual({ mainLayer: 0, mainPriority: 0, subLayer: 0, subPriority: 0, colorMath: false, clipped: false, windowMasked: false });
+  });
+
+  it('reports OBJ priority and the fixed color standing in for an empty sub screen', () => {
+    const bus = mkBus();
+    setup(bus);
+    w8(bus, mmio(0x2c), 0x11);
+    w8(bus, mmio(0x30), 0x04); // fixed color as sub screen when nothing is there
+    w8(bus, mmio(0x02), 0x00); w8(bus, mmio(0x03), 0x00);
+    for (const b of [20, 0, 1, 0x30]) w8(bus, mmio(0x04), b); // sprite 0: X=20, Y=0, tile 1, priority 3
+    const p = provenanceOf(bus);
+    expect(p[20]).toMatchObject({ mainLayer: PROV_OBJ, mainPriority: 3, subLayer: PROV_FIXED });
+    expect(p[0]).toMatchObject({ mainLayer: 1, subLayer: PROV_FIXED });
+  });
+
+  it('flags pixels hidden by TMW and clipped by the color window', () => {
+    const bus = mkBus();
+    setup(bus);
+    w8(bus, mmio(0x23), 0x01); // BG1 window A
+    w8(bus, mmio(0x26), 0);
+    w8(bus, mmio(0x27), 3);
+    w8(bus, mmio(0x2e), 0x01); // TMW: hide BG1 inside its window
+    let p = provenanceOf(bus);
+    expect(p[2]).toMatchObject({ mainLayer: 0, windowMasked: true });
+    expect(p[5]).toMatchObject({ mainLayer: 1, windowMasked: false });
+
+    w8(bus, mmio(0x2e), 0x00);
+    w8(bus, mmio(0x30), 0x08); // clip to black on the non-math side (inside the window)
+    p = provenanceOf(bus);
+    expect(p[2]).toMatchObject({ mainLayer: 1, clipped: true, colorMath: false });
+    expect(p[5]).toMatchObject({ mainLayer: 1, clipped: false });
+  });
+
+  it('fills ppu.frameProvenance from the scanline renderer', () => {
+    const bus = mkBus();
+    setup(bus);
+    const ppu = bus.getPPU();
+    ppu.scanlineRender = true;
+    ppu.frameProvenance = new Uint16Array(FRAME_WIDTH * 478);
+    ppu.startFrame();
+    for (let y = 0; y < 262; y++) ppu.endScanline();
+    const row = 3 * FRAME_WIDTH;
+    // Low-res pixels are doubled like the color buffer
+    expect(decodeProvenance(ppu.frameProvenance[row + 1])).toMatchObject({ mainLayer: 1, mainPriority: 1 });
+    expect(decodeProvenance(ppu.frameProvenance[row + 17])).toMatchObject({ mainLayer: 1, mainPriority: 0 });
+    expect(decodeProvenance(ppu.frameProvenance[row + 40]).mainLayer).toBe(0);
+  });
+});
@@ -27,6 +27,8 @@ describe('Mixed main/sub gating with wrap-around windows and subGate', () => {
         const ppu = bus.getPPU();
         // BG1 main, BG2 subscreen
         w8(bus, mmio(0x00), 0x0f);
+        // Set BG mode 1 (BG1/2 are 4bpp, BG3 is 2bpp)
+        w8(bus, mmio(0x05), 0x01);
         w8(bus, mmio(0x2c), 0x01);
         w8(bus, mmio(0x2d), 0x02);
         w8(bus, mmio(0x0b), 0x22);
@@ -55,8 +57,8 @@ describe('Mixed main/sub gating with wrap-around windows and subGate', () => {
         w8(bus, mmio(0x29), 0x04);
         // Enable BG1 A only (bit0) and BG2 B only (bit3)
         w8(bus, mmio(0x23), 0x01 | 0x08);
-        // CGWSEL: applyInside=1, OR combine (irrelevant since A-only/B-only), sub gate ON
-        w8(bus, mmio(0x30), 0x01 | 0x02 | (0 << 6));
+        // CGWSEL: applyInside=1 (irrelevant since A-only/B-only), sub gate ON
+        w8(bus, mmio(0x30), 0x01 | 0x02);
         // Color math add-half, mask BG1
         w8(bus, mmio(0x31), 0x60 | 0x01);
         const rgba = renderMainScreenRGBA(ppu, 8, 1);
@@ -54,8 +54,8 @@ describe('Mixed main/sub gating with wrap-around windows and subGate', () => {
     // Enable BG1 A only (bit0) and BG2 B only (bit3)
     w8(bus, mmio(0x23), 0x01 | 0x08);
 
-    // CGWSEL: applyInside=1, OR combine (irrelevant since A-only/B-only), sub gate ON
-    w8(bus, mmio(0x30), 0x01 | 0x02 | (0 << 6));
+    // CGWSEL: applyInside=1 (irrelevant since A-only/B-only), sub gate ON
+    w8(bus, mmio(0x30), 0x01 | 0x02);
     // Color math add-half, mask BG1
     w8(bus, mmio(0x31), 0x60 | 0x01);
 
@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import { SNESBus } from '../../src/bus/snesBus';
+import { Cartridge } from '../../src/cart/cartridge';
+import { renderMainScreenRGBA, renderMode7RegionIndices } from '../../src/ppu/bg';
+
+const mmio = (reg: number) => (0x00 << 16) | (0x2100 + (reg & 0xff));
+const w8 = (bus: SNESBus, addr: number, v: number) => bus.write8(addr, v);
+
+function mkBus() {
+  const rom = new Uint8Array(0x20000);
+  const cart = new Cartridge({ rom, mapping: 'lorom' });
+  return new SNESBus(cart);
+}
+
+// Mode 7 VRAM word: low byte = tilemap entry, high byte = tile pixel
+function writeWord(bus: SNESBus, addr: number, map: number, pix: number) {
+  w8(bus, mmio(0x16), addr & 0xff);
+  w8(bus, mmio(0x17), (addr >>> 8) & 0xff);
+  w8(bus, mmio(0x18), map & 0xff);
+  w8(bus, mmio(0x19), pix & 0xff);
+}
+
+function write16(bus: SNESBus, reg: number, v: number) {
+  w8(bus, mmio(reg), v & 0xff);
+  w8(bus, mmio(reg), (v >> 8) & 0xff);
+}
+
+function setupMode7(bus: SNESBus) {
+  w8(bus, mmio(0x00), 0x0f);
+  w8(bus, mmio(0x05), 0x07);
+  w8(bus, mmio(0x15), 0x80); // increment after high byte
+  // Tile 0: pixel (1,0) = 5. Tile 1: row 0 = 9.
+  writeWord(bus, 1, 0, 5);
+  for (let x = 0; x < 8; x++) writeWord(bus, 64 + x, 0, 9);
+  // Tilemap row 0, column 127 -> tile 1 (word 127 low byte)
+  writeWord(bus, 127, 1, 0);
+  // Identity matrix
+  write16(bus, 0x1b, 0x0100);
+  write16(bus, 0x1c, 0x0000);
+  write16(bus, 0x1d, 0x0000);
+  write16(bus, 0x1e, 0x0100);
+}
+
+describe('Mode 7 affine BG', () => {
+  it('identity matrix maps screen pixels straight onto the 1024x1024 plane', () => {
+    const bus = mkBus();
+    setupMode7(bus);
+    const idx = renderMode7RegionIndices(bus.getPPU(), 16, 1);
+    expect(idx[0]).toBe(0);
+    expect(idx[1]).toBe(5);
+    expect(idx[9]).toBe(5);
+  });
+
+  it('M7A scales horizontally (0x0080 = 2x zoom)', () => {
+    const bus = mkBus();
+    setupMode7(bus);
+    write16(bus, 0x1b, 0x0080);
+    const idx = renderMode7RegionIndices(bus.getPPU(), 4, 1);
+    expect(idx).toEqual([0, 0, 5, 5]);
+  });
+
+  it('M7SEL bit0 flips the screen horizontally', () => {
+    const bus = mkBus();
+    setupMode7(bus);
+    w8(bus, mmio(0x1a), 0x01);
+    const idx = renderMode7RegionIndices(bus.getPPU(), 256, 1);
+    expect(idx[254]).toBe(5);
+    expect(idx[1]).toBe(0);
+  });
+
+  it('screen-over modes: wrap, transparent and tile 0 fill', () => {
+    const bus = mkBus();
+    setupMode7(bus);
+    write16(bus, 0x0d, 0x1ff8); // M7HOFS = -8
+
+    // Wrap: x=0 -> plane x=1016 -> tilemap column 127 -> tile 1 (row 0 = 9)
+    let idx = renderMode7RegionIndices(bus.getPPU(), 10, 1);
+    expect(idx[0]).toBe(9);
+    expect(idx[9]).toBe(5); // back on the plane at x=1
+
+    w8(bus, mmio(0x1a), 0x80); // transparent outside
+    idx = renderMode7RegionIndices(bus.getPPU(), 10, 1);
+    expect(idx.slice(0, 8)).toEqual([0, 0, 0, 0, 0, 0, 0, 0]);
+    expect(idx[9]).toBe(5);
+
+    w8(bus, mmio(0x1a), 0xc0); // tile 0 outside
+    idx = renderMode7RegionIndices(bus.getPPU(), 10, 1);
+    expect(idx[1]).toBe(5);
+    expect(idx[0]).toBe(0);
+  });
+
+  it('EXTBG exposes BG2 with bit7 as priority and bits 0-6 as color', () => {
+    const bus = mkBus();
+    setupMode7(bus);
+    writeWord(bus, 1, 0, 0x81);
+    w8(bus, mmio(0x33), 0x40); // SETINI EXTBG
+    w8(bus, mmio(0x2c), 0x02); // BG2 only
+    // CGRAM 1 = red (CGADD is a byte index here)
+    w8(bus, mmio(0x21), 2);
+    w8(bus, mmio(0x22), 0x00); w8(bus, mmio(0x22), 0x7c);
+
+    const rgba = renderMainScreenRGBA(bus.getPPU(), 2, 1);
+    expect(rgba[4]).toBeGreaterThan(200);
+    expect(rgba[5]).toBeLessThan(10);
+
+    // Without EXTBG, BG2 is empty and BG1 shows the full 8-bit value (color $81, black here)
+    w8(bus, mmio(0x33), 0x00);
+    expect(renderMainScreenRGBA(bus.getPPU(), 2, 1)[4]).toBe(0);
+    w8(bus, mmio(0x2c), 0x01);
+    writeWord(bus, 1, 0, 0x01);
+    expect(renderMainScreenRGBA(bus.getPPU(), 2, 1)[4]).toBeGreaterThan(200);
+  });
+
+  it('$2134-$2136 return the signed 16x8 product of M7A and the last M7B byte', () => {
+    const bus = mkBus();
+    write16(bus, 0x1b, 0x1234);
+    w8(bus, mmio(0x1c), 0xfe); // -2
+    expect(bus.read8(mmio(0x34))).toBe(0x98);
+    expect(bus.read8(mmio(0x35))).toBe(0xdb);
+    expect(bus.read8(mmio(0x36))).toBe(0xff);
+
+    write16(bus, 0x1b, 0x8000); // -32768
+    w8(bus, mmio(0x1c), 0x7f);  // 127
+    // -32768 * 127 = -4161536 = 0xC08000
+    expect(bus.read8(mmio(0x34))).toBe(0x00);
+    expect(bus.read8(mmio(0x35))).toBe(0x80);
+    expect(bus.read8(mmio(0x36))).toBe(0xc0);
+  });
+});
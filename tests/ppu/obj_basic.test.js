@@ -10,15 +10,15 @@ function mkBus() {
     return new SNESBus(cart);
 }
 describe('OBJ rendering (minimal)', () => {
-    function writeSolid4bppTile(bus) {
-        // tile index 1 @ char base 0x1000: plane0=0xFF, rest 0
+    function writeSolid4bppTile(bus, base) {
+        // tile index 1 @ char base `base`: plane0=0xFF, rest 0
         for (let y = 0; y < 8; y++) {
-            w8(bus, mmio(0x16), (0x1000 + 16 + y) & 0xff);
-            w8(bus, mmio(0x17), ((0x1000 + 16 + y) >>> 8) & 0xff);
+            w8(bus, mmio(0x16), (base + 16 + y) & 0xff);
+            w8(bus, mmio(0x17), ((base + 16 + y) >>> 8) & 0xff);
             w8(bus, mmio(0x18), 0xff);
             w8(bus, mmio(0x19), 0x00);
-            w8(bus, mmio(0x16), (0x1000 + 16 + 8 + y) & 0xff);
-            w8(bus, mmio(0x17), ((0x1000 + 16 + 8 + y) >>> 8) & 0xff);
+            w8(bus, mmio(0x16), (base + 16 + 8 + y) & 0xff);
+            w8(bus, mmio(0x17), ((base + 16 + 8 + y) >>> 8) & 0xff);
             w8(bus, mmio(0x18), 0x00);
             w8(bus, mmio(0x19), 0x00);
         }
@@ -27,9 +27,11 @@ describe('OBJ rendering (minimal)', () => {
         const bus = mkBus();
         const ppu = bus.getPPU();
         w8(bus, mmio(0x00), 0x0f);
-        // OBJ char base 0x1000
-        w8(bus, mmio(0x01), 0x02);
-        writeSolid4bppTile(bus);
+        // Set BG mode 1 (BG1/2 are 4bpp, BG3 is 2bpp)
+        w8(bus, mmio(0x05), 0x01);
+        // OBJ char base 0x2000
+        w8(bus, mmio(0x01), 0x01);
+        writeSolid4bppTile(bus, 0x2000);
         // OAM[0..3]: y=0, x=0, tile=1, attr palette group 0
         w8(bus, mmio(0x02), 0x00);
         w8(bus, mmio(0x04), 0x00);
@@ -9,14 +9,14 @@ function mkBus() {
     const cart = new Cartridge({ rom, mapping: 'lorom' });
     return new SNESBus(cart);
 }
-function writeObjSolidTile(bus) {
+function writeObjSolidTile(bus, base) {
     for (let y = 0; y < 8; y++) {
-        w8(bus, mmio(0x16), (0x1000 + 16 + y) & 0xff);
-        w8(bus, mmio(0x17), ((0x1000 + 16 + y) >>> 8) & 0xff);
+        w8(bus, mmio(0x16), (base + 16 + y) & 0xff);
+        w8(bus, mmio(0x17), ((base + 16 + y) >>> 8) & 0xff);
         w8(bus, mmio(0x18), 0xff);
         w8(bus, mmio(0x19), 0x00);
-        w8(bus, mmio(0x16), (0x1000 + 16 + 8 + y) & 0xff);
-        w8(bus, mmio(0x17), ((0x1000 + 16 + 8 + y) >>> 8) & 0xff);
+        w8(bus, mmio(0x16), (base + 16 + 8 + y) & 0xff);
+        w8(bus, mmio(0x17), ((base + 16 + 8 + y) >>> 8) & 0xff);
         w8(bus, mmio(0x18), 0x00);
         w8(bus, mmio(0x19), 0x00);
     }
@@ -27,12 +27,14 @@ describe('OBJ: clip-to-black + fixed-color subtract-half', () => {
         const ppu = bus.getPPU();
         // Brightness
         w8(bus, mmio(0x00), 0x0f);
+        // Set BG mode 1 (BG1/2 are 4bpp, BG3 is 2bpp)
+        w8(bus, mmio(0x05), 0x01);
         // OBJ main only (no subscreen layers)
         w8(bus, mmio(0x2c), 0x10);
         w8(bus, mmio(0x2d), 0x00);
-        // OBJ setup: char base 0x1000, one sprite at (0,0)
-        w8(bus, mmio(0x01), 0x02);
-        writeObjSolidTile(bus);
+        // OBJ setup: char base 0x2000, one sprite at (0,0)
+        w8(bus, mmio(0x01), 0x01);
+        writeObjSolidTile(bus, 0x2000);
         w8(bus, mmio(0x02), 0x00);
         w8(bus, mmio(0x04), 0x00);
         w8(bus, mmio(0x04), 0x00);
@@ -12,13 +12,13 @@ function mkBus() {
   return new SNESBus(cart);
 }
 
-function writeObjSolidTile(bus: SNESBus) {
+function writeObjSolidTile(bus: SNESBus, base: number) {
   for (let y = 0; y < 8; y++) {
-    w8(bus, mmio(0x16), (0x1000 + 16 + y) & 0xff);
-    w8(bus, mmio(0x17), ((0x1000 + 16 + y) >>> 8) & 0xff);
+    w8(bus, mmio(0x16), (base + 16 + y) & 0xff);
+    w8(bus, mmio(0x17), ((base + 16 + y) >>> 8) & 0xff);
     w8(bus, mmio(0x18), 0xff); w8(bus, mmio(0x19), 0x00);
-    w8(bus, mmio(0x16), (0x1000 + 16 + 8 + y) & 0xff);
-    w8(bus, mmio(0x17), ((0x1000 + 16 + 8 + y) >>> 8) & 0xff);
+    w8(bus, mmio(0x16), (base + 16 + 8 + y) & 0xff);
+    w8(bus, mmio(0x17), ((base + 16 + 8 + y) >>> 8) & 0xff);
     w8(bus, mmio(0x18), 0x00); w8(bus, mmio(0x19), 0x00);
   }
 }
@@ -35,9 +35,9 @@ describe('OBJ: clip-to-black + fixed-color subtract-half', () => {
     w8(bus, mmio(0x2c), 0x10);
     w8(bus, mmio(0x2d), 0x00);
 
-    // OBJ setup: char base 0x1000, one sprite at (0,0)
-    w8(bus, mmio(0x01), 0x02);
-    writeObjSolidTile(bus);
+    // OBJ setup: char base 0x2000, one sprite at (0,0)
+    w8(bus, mmio(0x01), 0x01);
+    writeObjSolidTile(bus, 0x2000);
     w8(bus, mmio(0x02), 0x00);
     w8(bus, mmio(0x04), 0x00); w8(bus, mmio(0x04), 0x00); w8(bus, mmio(0x04), 0x01); w8(bus, mmio(0x04), 0x00);
 
@@ -12,13 +12,13 @@ function mkBus() {
   return new SNESBus(cart);
 }
 
-function writeObjSolidTile(bus: SNESBus) {
+function writeObjSolidTile(bus: SNESBus, base: number) {
   for (let y = 0; y < 8; y++) {
-    w8(bus, mmio(0x16), (0x1000 + 16 + y) & 0xff);
-    w8(bus, mmio(0x17), ((0x1000 + 16 + y) >>> 8) & 0xff);
+    w8(bus, mmio(0x16), (base + 16 + y) & 0xff);
+    w8(bus, mmio(0x17), ((base + 16 + y) >>> 8) & 0xff);
     w8(bus, mmio(0x18), 0xff); w8(bus, mmio(0x19), 0x00);
-    w8(bus, mmio(0x16), (0x1000 + 16 + 8 + y) & 0xff);
-    w8(bus, mmio(0x17), ((0x1000 + 16 + 8 + y) >>> 8) & 0xff);
+    w8(bus, mmio(0x16), (base + 16 + 8 + y) & 0xff);
+    w8(bus, mmio(0x17), ((base + 16 + 8 + y) >>> 8) & 0xff);
     w8(bus, mmio(0x18), 0x00); w8(bus, mmio(0x19), 0x00);
   }
 }
@@ -35,9 +35,10 @@ describe('OBJ clip-to-black with subtract mode', () => {
     w8(bus, mmio(0x2c), 0x10);
     w8(bus, mmio(0x2d), 0x02);
 
-    // OBJ setup: char base 0x1000, sprite at (0,0)
-    w8(bus, mmio(0x01), 0x02);
-    writeObjSolidTile(bus);
+    // OBJ setup: char base 0x2000, sprite at (0,0)
+    w8(bus, mmio(0x01), 0x01);
+    writeObjSolidTile(bus, 0x1000); // BG2 tile 1
+    writeObjSolidTile(bus, 0x2000); // OBJ tile 1
     w8(bus, mmio(0x02), 0x00);
     w8(bus, mmio(0x04), 0x00); w8(bus, mmio(0x04), 0x00); w8(bus, mmio(0x04), 0x01); w8(bus, mmio(0x04), 0x00);
 
@@ -56,7 +57,7 @@ describe('OBJ clip-to-black with subtract mode', () => {
     // Window A [0..3] for OBJ; applyInside=1, subGate on, clip-to-black on
     w8(bus, mmio(0x26), 0x00); w8(bus, mmio(0x27), 0x03);
     w8(bus, mmio(0x25), 0x01);
-    w8(bus, mmio(0x30), 0x01 | 0x02 | 0x08 | (0 << 6));
+    w8(bus, mmio(0x30), 0x01 | 0x02 | 0x08);
 
     const rgba = renderMainScreenRGBA(ppu, 8, 1);
     const px = (x: number) => [rgba[x*4], rgba[x*4+1], rgba[x*4+2]];
@@ -12,14 +12,14 @@ function mkBus() {
   return new SNESBus(cart);
 }
 
-function writeSolid(bus: SNESBus) {
+function writeSolid(bus: SNESBus, base: number) {
   for (let y = 0; y < 8; y++) {
-    w8(bus, mmio(0x16), (0x1000 + 16 + y) & 0xff);
-    w8(bus, mmio(0x17), ((0x1000 + 16 + y) >>> 8) & 0xff);
+    w8(bus, mmio(0x16), (base + 16 + y) & 0xff);
+    w8(bus, mmio(0x17), ((base + 16 + y) >>> 8) & 0xff);
     w8(bus, mmio(0x18), 0xff);
     w8(bus, mmio(0x19), 0x00);
-    w8(bus, mmio(0x16), (0x1000 + 16 + 8 + y) & 0xff);
-    w8(bus, mmio(0x17), ((0x1000 + 16 + 8 + y) >>> 8) & 0xff);
+    w8(bus, mmio(0x16), (base + 16 + 8 + y) & 0xff);
+    w8(bus, mmio(0x17), ((base + 16 + 8 + y) >>> 8) & 0xff);
     w8(bus, mmio(0x18), 0x00);
     w8(bus, mmio(0x19), 0x00);
   }
@@ -39,9 +39,10 @@ describe('OBJ clip-to-black window mode (CGWSEL bit3) works', () => {
     w8(bus, mmio(0x2c), 0x10);
     w8(bus, mmio(0x2d), 0x02);
 
-    // OBJ char base 0x1000; one sprite at (0,0) tile1
-    w8(bus, mmio(0x01), 0x02);
-    writeSolid(bus);
+    // OBJ char base 0x2000; one sprite at (0,0) tile1
+    w8(bus, mmio(0x01), 0x01);
+    writeSolid(bus, 0x1000); // BG2 tile 1
+    writeSolid(bus, 0x2000); // OBJ tile 1
     w8(bus, mmio(0x02), 0x00);
     w8(bus, mmio(0x04), 0x00);
     w8(bus, mmio(0x04), 0x00);
@@ -63,7 +64,7 @@ describe('OBJ clip-to-black window mode (CGWSEL bit3) works', () => {
     // Window A [0..3] enabled for OBJ, CGWSEL: applyInside=0, sub gate on, clip bit on
     w8(bus, mmio(0x26), 0x00); w8(bus, mmio(0x27), 0x03);
     w8(bus, mmio(0x25), 0x01); // WOBJSEL: A enable
-    w8(bus, mmio(0x30), 0x00 | 0x02 | 0x08 | (0 << 6));
+    w8(bus, mmio(0x30), 0x00 | 0x02 | 0x08);
 
     const rgba = renderMainScreenRGBA(ppu, 8, 1);
     const px = (x: number) => [rgba[x*4], rgba[x*4+1], rgba[x*4+2]];
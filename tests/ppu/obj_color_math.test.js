@@ -10,14 +10,14 @@ function mkBus() {
     return new SNESBus(cart);
 }
 describe('OBJ + color math (minimal)', () => {
-    function writeSolid4bppTile(bus) {
+    function writeSolid4bppTile(bus, base) {
         for (let y = 0; y < 8; y++) {
-            w8(bus, mmio(0x16), (0x1000 + 16 + y) & 0xff);
-            w8(bus, mmio(0x17), ((0x1000 + 16 + y) >>> 8) & 0xff);
+            w8(bus, mmio(0x16), (base + 16 + y) & 0xff);
+            w8(bus, mmio(0x17), ((base + 16 + y) >>> 8) & 0xff);
             w8(bus, mmio(0x18), 0xff);
             w8(bus, mmio(0x19), 0x00);
-            w8(bus, mmio(0x16), (0x1000 + 16 + 8 + y) & 0xff);
-            w8(bus, mmio(0x17), ((0x1000 + 16 + 8 + y) >>> 8) & 0xff);
+            w8(bus, mmio(0x16), (base + 16 + 8 + y) & 0xff);
+            w8(bus, mmio(0x17), ((base + 16 + 8 + y) >>> 8) & 0xff);
             w8(bus, mmio(0x18), 0x00);
             w8(bus, mmio(0x19), 0x00);
         }
@@ -27,10 +27,13 @@ describe('OBJ + color math (minimal)', () => {
         const ppu = bus.getPPU();
         // Brightness
         w8(bus, mmio(0x00), 0x0f);
+        // Set BG mode 1 (BG1/2 are 4bpp, BG3 is 2bpp)
+        w8(bus, mmio(0x05), 0x01);
         // Setup BG2 subscreen green pixel at (0,0)
         w8(bus, mmio(0x08), 0x00); // BG2 map base 0
         w8(bus, mmio(0x0b), 0x22); // BG1/BG2 char base 0x1000
-        writeSolid4bppTile(bus);
+        writeSolid4bppTile(bus, 0x1000); // BG2 tile 1
+        writeSolid4bppTile(bus, 0x2000); // OBJ tile 1
         // BG2 tilemap entry 0 -> tile1, pal group 1 (so CGRAM index 16+pix)
         w8(bus, mmio(0x16), 0x00);
         w8(bus, mmio(0x17), 0x00);
@@ -40,11 +43,11 @@ describe('OBJ + color math (minimal)', () => {
         w8(bus, mmio(0x21), 34);
         w8(bus, mmio(0x22), 0xe0);
         w8(bus, mmio(0x22), 0x03);
-        // OBJ: char base 0x1000, OAM sprite at (0,0) tile1 group0 -> index1 red
-        w8(bus, mmio(0x01), 0x02);
-        w8(bus, mmio(0x02), 0x00); // OAM Y
+        // OBJ: char base 0x2000, OAM sprite at (0,0) tile1 group0 -> index1 red
+        w8(bus, mmio(0x01), 0x01);
+        w8(bus, mmio(0x02), 0x00); // OAMADDL=0
         w8(bus, mmio(0x04), 0x00); // OAM X
-        w8(bus, mmio(0x04), 0x00); // tile low (we'll set below)
+        w8(bus, mmio(0x04), 0x00); // OAM Y
         w8(bus, mmio(0x04), 0x01); // tile=1
         w8(bus, mmio(0x04), 0x00); // attr group0
         // CGRAM index1 red
@@ -13,14 +13,14 @@ function mkBus() {
 }
 
 describe('OBJ color math subtract (full and half)', () => {
-  function writeSolid4bppTile(bus: SNESBus) {
+  function writeSolid4bppTile(bus: SNESBus, base: number) {
     for (let y = 0; y < 8; y++) {
-      w8(bus, mmio(0x16), (0x1000 + 16 + y) & 0xff);
-      w8(bus, mmio(0x17), ((0x1000 + 16 + y) >>> 8) & 0xff);
+      w8(bus, mmio(0x16), (base + 16 + y) & 0xff);
+      w8(bus, mmio(0x17), ((base + 16 + y) >>> 8) & 0xff);
       w8(bus, mmio(0x18), 0xff);
       w8(bus, mmio(0x19), 0x00);
-      w8(bus, mmio(0x16), (0x1000 + 16 + 8 + y) & 0xff);
-      w8(bus, mmio(0x17), ((0x1000 + 16 + 8 + y) >>> 8) & 0xff);
+      w8(bus, mmio(0x16), (base + 16 + 8 + y) & 0xff);
+      w8(bus, mmio(0x17), ((base + 16 + 8 + y) >>> 8) & 0xff);
       w8(bus, mmio(0x18), 0x00);
       w8(bus, mmio(0x19), 0x00);
     }
@@ -36,13 +36,14 @@ describe('OBJ color math subtract (full and half)', () => {
     w8(bus, mmio(0x2c), 0x10);
     w8(bus, mmio(0x2d), 0x02);
 
-    // OBJ char base 0x1000, write solid tile
-    w8(bus, mmio(0x01), 0x02);
-    writeSolid4bppTile(bus);
+    // OBJ char base 0x2000, write solid tile
+    w8(bus, mmio(0x01), 0x01);
+    writeSolid4bppTile(bus, 0x1000); // BG2 tile 1
+    writeSolid4bppTile(bus, 0x2000); // OBJ tile 1
     // One sprite at (0,0), tile=1, group 0
     w8(bus, mmio(0x02), 0x00);
     w8(bus, mmio(0x04), 0x00); // X
-    w8(bus, mmio(0x04), 0x00); // tile low
+    w8(bus, mmio(0x04), 0x00); // Y
     w8(bus, mmio(0x04), 0x01); // tile=1
     w8(bus, mmio(0x04), 0x00); // attr
 
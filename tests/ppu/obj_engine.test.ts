@@ -0,0 +1,182 @@
+import { describe, it, expect } from 'vitest';
+import { SNESBus } from '../../src/bus/snesBus';
+import { Cartridge } from '../../src/cart/cartridge';
+import { OBJ_SIZES, renderOBJLine } from '../../src/ppu/obj';
+
+const mmio = (reg: number) => (0x00 << 16) | (0x2100 + (reg & 0xff));
+const w8 = (bus: SNESBus, addr: number, v: number) => bus.write8(addr, v);
+
+function mkBus() {
+  const rom = new Uint8Array(0x20000);
+  const cart = new Cartridge({ rom, mapping: 'lorom' });
+  return new SNESBus(cart);
+}
+
+function writeWord(bus: SNESBus, addr: number, v: number) {
+  w8(bus, mmio(0x16), addr & 0xff);
+  w8(bus, mmio(0x17), (addr >>> 8) & 0xff);
+  w8(bus, mmio(0x18), v & 0xff);
+  w8(bus, mmio(0x19), (v >>> 8) & 0xff);
+}
+
+// Solid 4bpp tile where every pixel = pix
+function writeSolidTile(bus: SNESBus, charBase: number, tile: number, pix: number) {
+  const base = charBase + tile * 16;
+  for (let pair = 0; pair < 2; pair++) {
+    const lo = (pix >> (pair * 2)) & 1 ? 0xff : 0x00;
+    const hi = (pix >> (pair * 2 + 1)) & 1 ? 0xff : 0x00;
+    for (let y = 0; y < 8; y++) writeWord(bus, base + pair * 8 + y, lo | (hi << 8));
+  }
+}
+
+// OAM word address through $2102/$2103 (bit7 of $2103 = priority rotation); sprite i starts at word i * 2
+function setOAMAddr(bus: SNESBus, word: number, rotate = false) {
+  w8(bus, mmio(0x02), word & 0xff);
+  w8(bus, mmio(0x03), ((word >> 8) & 0x01) | (rotate ? 0x80 : 0));
+}
+
+// OAM entry: X low, Y, tile, attr
+function writeSprite(bus: SNESBus, i: number, x: number, y: number, tile: number, attr: number) {
+  setOAMAddr(bus, i * 2);
+  w8(bus, mmio(0x04), x & 0xff);
+  w8(bus, mmio(0x04), y);
+  w8(bus, mmio(0x04), tile);
+  w8(bus, mmio(0x04), attr);
+}
+
+function writeHighTable(bus: SNESBus, bytes: number[]) {
+  setOAMAddr(bus, 0x100);
+  for (const b of bytes) w8(bus, mmio(0x04), b);
+}
+
+// Every sprite below the visible area (up to 32 lines tall), small, X < 256
+function parkSprites(bus: SNESBus) {
+  for (let i = 0; i < 128; i++) writeSprite(bus, i, 0, 224, 0, 0);
+  writeHighTable(bus, new Array(32).fill(0));
+}
+
+const opaque = (pri: Int8Array, from: number, to: number) =>
+  Array.from(pri.slice(from, to)).map((p) => p >= 0);
+
+describe('OBJ engine', () => {
+  it('OBSEL selects one of eight small/large size pairs', () => {
+    expect(OBJ_SIZES[0]).toEqual([[8, 8], [16, 16]]);
+    expect(OBJ_SIZES[5]).toEqual([[32, 32], [64, 64]]);
+    expect(OBJ_SIZES[6]).toEqual([[16, 32], [32, 64]]);
+
+    const bus = mkBus();
+    const ppu = bus.getPPU();
+    parkSprites(bus);
+    w8(bus, mmio(0x01), 0x61); // 16x16 / 32x32, names at 0x2000
+    // Tile r*16+c (4 columns x 4 rows) has pixel value r*3+c+1
+    for (let r = 0; r < 4; r++) for (let c = 0; c < 4; c++) writeSolidTile(bus, 0x2000, r * 16 + c, r * 3 + c + 1);
+    writeSprite(bus, 0, 0, 0, 0x00, 0x00);
+    writeHighTable(bus, [0x02]); // sprite 0 large
+
+    const top = renderOBJLine(ppu, 0);
+    expect([0, 8, 16, 24].map((x) => top.pal[x])).toEqual([1, 2, 3, 4]);
+    expect(top.pri[32]).toBe(-1);
+    const bottom = renderOBJLine(ppu, 31);
+    expect([0, 8, 16, 24].map((x) => bottom.pal[x])).toEqual([10, 11, 12, 13]);
+    expect(renderOBJLine(ppu, 32).pri[0]).toBe(-1);
+
+    writeHighTable(bus, [0x00]); // small: 16x16
+    expect(opaque(renderOBJLine(ppu, 15).pri, 14, 18)).toEqual([true, true, false, false]);
+    expect(renderOBJLine(ppu, 16).pri[0]).toBe(-1);
+  });
+
+  it('rectangular sizes and flips cover the full sprite', () => {
+    const bus = mkBus();
+    const ppu = bus.getPPU();
+    parkSprites(bus);
+    w8(bus, mmio(0x01), 0xc1); // 16x32 / 32x64
+    for (let r = 0; r < 4; r++) for (let c = 0; c < 2; c++) writeSolidTile(bus, 0x2000, r * 16 + c, r * 3 + c + 1);
+    writeSprite(bus, 0, 0, 0, 0x00, 0x00);
+    expect([0, 8].map((x) => renderOBJLine(ppu, 31).pal[x])).toEqual([10, 11]);
+    expect(renderOBJLine(ppu, 0).pri[16]).toBe(-1);
+
+    writeSprite(bus, 0, 0, 0, 0x00, 0xc0); // H+V flip
+    expect([0, 8].map((x) => renderOBJLine(ppu, 0).pal[x])).toEqual([11, 10]);
+  });
+
+  it('attr bit0 selects the second name table after the OBSEL gap', () => {
+    const bus = mkBus();
+    const ppu = bus.getPPU();
+    parkSprites(bus);
+    w8(bus, mmio(0x01), 0x09); // names at 0x2000, second table at 0x2000 + 0x1000 + 0x1000
+    writeSolidTile(bus, 0x2000, 5, 3);
+    writeSolidTile(bus, 0x4000, 5, 7);
+    writeSprite(bus, 0, 0, 0, 0x05, 0x00);
+    expect(renderOBJLine(ppu, 0).pal[0]).toBe(3);
+    writeSprite(bus, 0, 0, 0, 0x05, 0x01);
+    expect(renderOBJLine(ppu, 0).pal[0]).toBe(7);
+  });
+
+  it('X wraps at 512 so sprites can enter from the left edge', () => {
+    const bus = mkBus();
+    const ppu = bus.getPPU();
+    parkSprites(bus);
+    w8(bus, mmio(0x01), 0x01);
+    writeSolidTile(bus, 0x2000, 1, 1);
+    writeSprite(bus, 0, 508 & 0xff, 0, 1, 0x00);
+    writeHighTable(bus, [0x01]); // X bit 8
+    expect(opaque(renderOBJLine(ppu, 0).pri, 0, 6)).toEqual([true, true, true, true, false, false]);
+  });
+
+  it('the first sprite in OAM order wins overlaps; $2103 bit7 rotates the order', () => {
+    const bus = mkBus();
+    const ppu = bus.getPPU();
+    parkSprites(bus);
+    w8(bus, mmio(0x01), 0x01);
+    writeSolidTile(bus, 0x2000, 1, 1);
+    writeSolidTile(bus, 0x2000, 2, 2);
+    writeSprite(bus, 0, 0, 0, 1, 0x00); // priority 0
+    writeSprite(bus, 5, 0, 0, 2, 0x30); // priority 3
+    let line = renderOBJLine(ppu, 0);
+    expect(line.pal[0]).toBe(1);
+    expect(line.pri[0]).toBe(0);
+
+    setOAMAddr(bus, 10, true); // OAMADDL=10: sprite 5 first
+    line = renderOBJLine(ppu, 0);
+    expect(line.pal[0]).toBe(2);
+    expect(line.pri[0]).toBe(3);
+  });
+
+  it('more than 32 sprites on a line drops the rest and sets range over', () => {
+    const bus = mkBus();
+    const ppu = bus.getPPU();
+    parkSprites(bus);
+    w8(bus, mmio(0x01), 0x01);
+    writeSolidTile(bus, 0x2000, 1, 1);
+    for (let i = 0; i < 33; i++) writeSprite(bus, i, i * 7, 0, 1, 0x00);
+    const line = renderOBJLine(ppu, 0);
+    expect(line.pri[31 * 7]).toBe(0);
+    expect(line.pri[32 * 7 + 7]).toBe(-1);
+
+    ppu.startFrame();
+    expect(bus.read8(mmio(0x3e))).toBe(0x01);
+    ppu.endScanline();
+    expect(bus.read8(mmio(0x3e))).toBe(0x41);
+  });
+
+  it('more than 34 tiles drops the first sprites and sets time over until the next frame', () => {
+    const bus = mkBus();
+    const ppu = bus.getPPU();
+    parkSprites(bus);
+    w8(bus, mmio(0x01), 0x01);
+    for (const t of [0x01, 0x02, 0x11, 0x12]) writeSolidTile(bus, 0x2000, t, 1);
+    // 18 large (16x16) sprites = 36 tiles
+    for (let i = 0; i < 18; i++) writeSprite(bus, i, i * 14, 0, 1, 0x00);
+    writeHighTable(bus, [0xaa, 0xaa, 0xaa, 0xaa, 0xaa]);
+    const line = renderOBJLine(ppu, 0);
+    // Tiles are fetched from sprite 17 backwards: sprite 0 gets none
+    expect(line.pri[0]).toBe(-1);
+    expect(line.pri[14]).toBe(0);
+
+    ppu.startFrame();
+    ppu.endScanline();
+    expect(bus.read8(mmio(0x3e))).toBe(0x81);
+    while (ppu.scanline !== 0) ppu.endScanline();
+    expect(bus.read8(mmio(0x3e))).toBe(0x01);
+  });
+});
@@ -13,39 +13,41 @@ describe('OBJ priority and flip handling (minimal)', () => {
     function writeSolidTile(bus, tileIndex) {
         for (let y = 0; y < 8; y++) {
             // plane0
-            w8(bus, mmio(0x16), (0x1000 + tileIndex * 16 + y) & 0xff);
-            w8(bus, mmio(0x17), ((0x1000 + tileIndex * 16 + y) >>> 8) & 0xff);
+            w8(bus, mmio(0x16), (0x2000 + tileIndex * 16 + y) & 0xff);
+            w8(bus, mmio(0x17), ((0x2000 + tileIndex * 16 + y) >>> 8) & 0xff);
             w8(bus, mmio(0x18), 0xff);
             w8(bus, mmio(0x19), 0x00);
             // plane1
-            w8(bus, mmio(0x16), (0x1000 + tileIndex * 16 + 16 + y) & 0xff);
-            w8(bus, mmio(0x17), ((0x1000 + tileIndex * 16 + 16 + y) >>> 8) & 0xff);
+            w8(bus, mmio(0x16), (0x2000 + tileIndex * 16 + 16 + y) & 0xff);
+            w8(bus, mmio(0x17), ((0x2000 + tileIndex * 16 + 16 + y) >>> 8) & 0xff);
             w8(bus, mmio(0x18), 0x00);
             w8(bus, mmio(0x19), 0x00);
         }
     }
-    it('higher-priority sprite wins over lower-priority sprite', () => {
+    it('lower OAM index wins over a higher-priority sprite', () => {
         const bus = mkBus();
         const ppu = bus.getPPU();
         w8(bus, mmio(0x00), 0x0f);
-        // OBJ char base 0x1000
-        w8(bus, mmio(0x01), 0x02);
+        // Set BG mode 1 (BG1/2 are 4bpp, BG3 is 2bpp)
+        w8(bus, mmio(0x05), 0x01);
+        // OBJ char base 0x2000
+        w8(bus, mmio(0x01), 0x01);
         // Two tiles: 1 (red), 2 (green)
         writeSolidTile(bus, 1);
         writeSolidTile(bus, 2);
-        // OAM sprite 0 at (0,0) tile 1, low priority (attr bit5=0), pal group 0
+        // OAM sprite 0 at (0,0) tile 2, low priority (attr bits4-5=0), pal group 1
         w8(bus, mmio(0x02), 0x00); // OAMADDL -> 0
         w8(bus, mmio(0x04), 0x00); // X
-        w8(bus, mmio(0x04), 0x00); // tile low
-        w8(bus, mmio(0x04), 0x01); // tile=1
-        w8(bus, mmio(0x04), 0x00); // attr group0, pri=0
-        // OAM sprite 1 at (0,0) tile 2, high priority (attr bit5=1), pal group 1
-        // Set OAM address to 4
-        w8(bus, mmio(0x02), 0x04);
-        w8(bus, mmio(0x04), 0x00); // X
-        w8(bus, mmio(0x04), 0x00); // tile low
+        w8(bus, mmio(0x04), 0x00); // Y
         w8(bus, mmio(0x04), 0x02); // tile=2
-        w8(bus, mmio(0x04), 0x22); // attr: bit5=1 priority, bits1-3=1 => pal group 1
+        w8(bus, mmio(0x04), 0x02); // attr: bits1-3=1 => pal group 1, pri=0
+        // OAM sprite 1 at (0,0) tile 1, high priority (attr bit5=1), pal group 0
+        // OAM word address 2 = sprite 1
+        w8(bus, mmio(0x02), 0x02);
+        w8(bus, mmio(0x04), 0x00); // X
+        w8(bus, mmio(0x04), 0x00); // Y
+        w8(bus, mmio(0x04), 0x01); // tile=1
+        w8(bus, mmio(0x04), 0x20); // attr: bit5=1 priority
         // Enable OBJ on main
         w8(bus, mmio(0x2c), 0x10);
         // Palette: index1=red, index(16+1)=green
@@ -56,38 +58,40 @@ describe('OBJ priority and flip handling (minimal)', () => {
         w8(bus, mmio(0x22), 0xe0);
         w8(bus, mmio(0x22), 0x03);
         const rgba = renderMainScreenRGBA(ppu, 1, 1);
-        // Expect green from the higher priority sprite
+        // Sprites are layered by OAM index; priority only orders them against BGs
         expect(rgba[1]).toBeGreaterThan(200);
     });
     it('horizontal flip mirrors sprite pixels', () => {
         const bus = mkBus();
         const ppu = bus.getPPU();
         w8(bus, mmio(0x00), 0x0f);
-        w8(bus, mmio(0x01), 0x02);
+        // Set BG mode 1 (BG1/2 are 4bpp, BG3 is 2bpp)
+        w8(bus, mmio(0x05), 0x01);
+        w8(bus, mmio(0x01), 0x01);
         // Create a tile with left half solid (plane0=0xF0), right half zero
         for (let y = 0; y < 8; y++) {
-            w8(bus, mmio(0x16), (0x1000 + 16 + y) & 0xff);
-            w8(bus, mmio(0x17), ((0x1000 + 16 + y) >>> 8) & 0xff);
+            w8(bus, mmio(0x16), (0x2000 + 16 + y) & 0xff);
+            w8(bus, mmio(0x17), ((0x2000 + 16 + y) >>> 8) & 0xff);
             w8(bus, mmio(0x18), 0xf0); // 11110000 -> left 4 pixels solid
             w8(bus, mmio(0x19), 0x00);
-            w8(bus, mmio(0x16), (0x1000 + 16 + 8 + y) & 0xff);
-            w8(bus, mmio(0x17), ((0x1000 + 16 + 8 + y) >>> 8) & 0xff);
+            w8(bus, mmio(0x16), (0x2000 + 16 + 8 + y) & 0xff);
+            w8(bus, mmio(0x17), ((0x2000 + 16 + 8 + y) >>> 8) & 0xff);
             w8(bus, mmio(0x18), 0x00);
             w8(bus, mmio(0x19), 0x00);
         }
-        // Two sprites: one normal at x=0, one hflip at x=0 (higher priority to pick it)
-        // Normal sprite (low pri)
+        // Two sprites at x=0: the hflip one first so it is drawn in front of the normal one
+        // HFlip sprite
         w8(bus, mmio(0x02), 0x00);
         w8(bus, mmio(0x04), 0x00); // X=0
-        w8(bus, mmio(0x04), 0x00);
+        w8(bus, mmio(0x04), 0x00); // Y=0
         w8(bus, mmio(0x04), 0x01); // tile=1
-        w8(bus, mmio(0x04), 0x00); // attr no flip
-        // HFlip sprite (high pri)
-        w8(bus, mmio(0x02), 0x04);
+        w8(bus, mmio(0x04), 0x60); // attr: bit5=1 pri, bit6=1 hflip
+        // Normal sprite (word address 2 = sprite 1)
+        w8(bus, mmio(0x02), 0x02);
         w8(bus, mmio(0x04), 0x00); // X=0
-        w8(bus, mmio(0x04), 0x00);
+        w8(bus, mmio(0x04), 0x00); // Y=0
         w8(bus, mmio(0x04), 0x01); // tile=1
-        w8(bus, mmio(0x04), 0x60); // attr: bit5=1 pri, bit6=1 hflip
+        w8(bus, mmio(0x04), 0x00); // attr no flip
         // Enable OBJ
         w8(bus, mmio(0x2c), 0x10);
         // Palette index1 red
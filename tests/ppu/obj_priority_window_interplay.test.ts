@@ -12,14 +12,14 @@ function mkBus() {
   return new SNESBus(cart);
 }
 
-function writeSolidOBJTile1(bus: SNESBus) {
-  // 4bpp OBJ tile index 1 at char base 0x1000: plane0 rows = 0xFF
+function writeSolidOBJTile1(bus: SNESBus, base: number) {
+  // 4bpp OBJ tile index 1 at char base `base`: plane0 rows = 0xFF
   for (let y = 0; y < 8; y++) {
-    w8(bus, mmio(0x16), (0x1000 + 16 + y) & 0xff);
-    w8(bus, mmio(0x17), ((0x1000 + 16 + y) >>> 8) & 0xff);
+    w8(bus, mmio(0x16), (base + 16 + y) & 0xff);
+    w8(bus, mmio(0x17), ((base + 16 + y) >>> 8) & 0xff);
     w8(bus, mmio(0x18), 0xff); w8(bus, mmio(0x19), 0x00);
-    w8(bus, mmio(0x16), (0x1000 + 16 + 8 + y) & 0xff);
-    w8(bus, mmio(0x17), ((0x1000 + 16 + 8 + y) >>> 8) & 0xff);
+    w8(bus, mmio(0x16), (base + 16 + 8 + y) & 0xff);
+    w8(bus, mmio(0x17), ((base + 16 + 8 + y) >>> 8) & 0xff);
     w8(bus, mmio(0x18), 0x00); w8(bus, mmio(0x19), 0x00);
   }
 }
@@ -38,22 +38,23 @@ describe('OBJ priority vs windowed color math', () => {
     w8(bus, mmio(0x2c), 0x10);
     w8(bus, mmio(0x2d), 0x02);
 
-    // OBJ char base 0x1000
-    w8(bus, mmio(0x01), 0x02);
-    writeSolidOBJTile1(bus);
+    // OBJ char base 0x2000
+    w8(bus, mmio(0x01), 0x01);
+    writeSolidOBJTile1(bus, 0x1000); // BG2 tile 1
+    writeSolidOBJTile1(bus, 0x2000); // OBJ tile 1
 
     // Two sprites at same area: index=1 red for both
     // Sprite 0: position (0,0), low priority (attr bit5=0)
-    w8(bus, mmio(0x02), 0x00); // Y
+    w8(bus, mmio(0x02), 0x00); // OAMADDL=0
     w8(bus, mmio(0x04), 0x00); // X
-    w8(bus, mmio(0x04), 0x00); // tile low
+    w8(bus, mmio(0x04), 0x00); // Y
     w8(bus, mmio(0x04), 0x01); // tile=1
     w8(bus, mmio(0x04), 0x00); // attr (priority=0)
 
     // Sprite 1: position (0,0), high priority (attr bit5=1)
-    w8(bus, mmio(0x02), 0x00); // Y for next
+    w8(bus, mmio(0x02), 0x02); // OAMADDL=2: next sprite
     w8(bus, mmio(0x04), 0x00); // X
-    w8(bus, mmio(0x04), 0x00); // tile low
+    w8(bus, mmio(0x04), 0x00); // Y
     w8(bus, mmio(0x04), 0x01); // tile=1
     w8(bus, mmio(0x04), 0x20); // attr (priority=1)
 
@@ -28,18 +28,20 @@ describe('OBJ 16x16 size and high X support (minimal)', () => {
         const bus = mkBus();
         const ppu = bus.getPPU();
         w8(bus, mmio(0x00), 0x0f);
-        // OBSEL: base 0x1000 and 16x16 (bit4)
-        w8(bus, mmio(0x01), 0x12); // low nibble 2 => 0x1000, bit4=1 size16
+        // Set BG mode 1 (BG1/2 are 4bpp, BG3 is 2bpp)
+        w8(bus, mmio(0x05), 0x01);
+        // OBSEL: base 0x2000, size select 3 => small sprites are 16x16
+        w8(bus, mmio(0x01), 0x61);
         // Create four subtiles for tile index 0x10 as base: 0x10,0x11,0x20,0x21
         // We'll just use tile base 0 and rely on subX/subY offsetting, so tile=0
-        writeSolidTile(bus, 0x1000, 0, 0xff); // top-left solid
-        writeSolidTile(bus, 0x1000, 1, 0x00); // top-right transparent
-        writeSolidTile(bus, 0x1000, 16, 0x00); // bottom-left transparent
-        writeSolidTile(bus, 0x1000, 17, 0xff); // bottom-right solid
+        writeSolidTile(bus, 0x2000, 0, 0xff); // top-left solid
+        writeSolidTile(bus, 0x2000, 1, 0x00); // top-right transparent
+        writeSolidTile(bus, 0x2000, 16, 0x00); // bottom-left transparent
+        writeSolidTile(bus, 0x2000, 17, 0xff); // bottom-right solid
         // Put sprite at (0,0), tile=0, high priority, group 0
         w8(bus, mmio(0x02), 0x00); // OAMADDL=0
         w8(bus, mmio(0x04), 0x00); // X low
-        w8(bus, mmio(0x04), 0x00); // tile low
+        w8(bus, mmio(0x04), 0x00); // Y
         w8(bus, mmio(0x04), 0x00); // tile=0
         w8(bus, mmio(0x04), 0x20); // attr pri=1
         // Enable OBJ
@@ -58,21 +60,23 @@ describe('OBJ 16x16 size and high X support (minimal)', () => {
         const o2 = (15 + 0 * 16) * 4;
         expect(rgba[o2]).toBeLessThan(20);
     });
-    it('supports high X via attr bit0 (X += 256)', () => {
+    it('treats the high X bit as the sign of a 9-bit X', () => {
         const bus = mkBus();
         const ppu = bus.getPPU();
         w8(bus, mmio(0x00), 0x0f);
-        // 8x8 for simplicity here
-        w8(bus, mmio(0x01), 0x02);
-        writeSolidTile(bus, 0x1000, 1, 0xff);
-        // Sprite at X=300: set low byte 44, then set OAM high table for sprite 0 bit0=1 (high X)
+        // Set BG mode 1 (BG1/2 are 4bpp, BG3 is 2bpp)
+        w8(bus, mmio(0x05), 0x01);
+        // 8x8 for simplicity here, base 0x2000
+        w8(bus, mmio(0x01), 0x01);
+        writeSolidTile(bus, 0x2000, 1, 0xff);
+        // Sprite at X=-4: set low byte 252, then set OAM high table for sprite 0 bit0=1 (high X)
         w8(bus, mmio(0x02), 0x00);
+        w8(bus, mmio(0x04), 252); // X low
         w8(bus, mmio(0x04), 0x00); // Y=0
-        w8(bus, mmio(0x04), 44); // X low
         w8(bus, mmio(0x04), 0x01); // tile=1
         w8(bus, mmio(0x04), 0x00); // attr
-        // Write high table at OAM address 512 for sprite 0
-        w8(bus, mmio(0x03), 0x02); // OAMADDH -> 0x200
+        // Write high table (OAM word 0x100, byte 512) for sprite 0
+        w8(bus, mmio(0x03), 0x01); // OAMADDH bit0 -> word 0x100
         w8(bus, mmio(0x02), 0x00); // OAMADDL -> 0
         w8(bus, mmio(0x04), 0x01); // high X bit set
         // Enable OBJ
@@ -81,10 +85,9 @@ describe('OBJ 16x16 size and high X support (minimal)', () => {
         w8(bus, mmio(0x21), 2);
         w8(bus, mmio(0x22), 0x00);
         w8(bus, mmio(0x22), 0x7c);
-        // Render width 400 to include X=300
-        const W = 400;
-        const rgba = renderMainScreenRGBA(ppu, W, 1);
-        const o = (300 * 4);
-        expect(rgba[o]).toBeGreaterThan(200);
+        // 256 + 252 - 512 = -4: the last four columns of the sprite land on x=0..3
+        const rgba = renderMainScreenRGBA(ppu, 8, 1);
+        expect(rgba[3 * 4]).toBeGreaterThan(200);
+        expect(rgba[4 * 4]).toBeLessThan(20);
     });
 });
@@ -10,14 +10,14 @@ function mkBus() {
     return new SNESBus(cart);
 }
 describe('OBJ windowed color math (WOBJSEL, simplified)', () => {
-    function writeSolid4bppTile(bus) {
+    function writeSolid4bppTile(bus, base) {
         for (let y = 0; y < 8; y++) {
-            w8(bus, mmio(0x16), (0x1000 + 16 + y) & 0xff);
-            w8(bus, mmio(0x17), ((0x1000 + 16 + y) >>> 8) & 0xff);
+            w8(bus, mmio(0x16), (base + 16 + y) & 0xff);
+            w8(bus, mmio(0x17), ((base + 16 + y) >>> 8) & 0xff);
             w8(bus, mmio(0x18), 0xff);
             w8(bus, mmio(0x19), 0x00);
-            w8(bus, mmio(0x16), (0x1000 + 16 + 8 + y) & 0xff);
-            w8(bus, mmio(0x17), ((0x1000 + 16 + 8 + y) >>> 8) & 0xff);
+            w8(bus, mmio(0x16), (base + 16 + 8 + y) & 0xff);
+            w8(bus, mmio(0x17), ((base + 16 + 8 + y) >>> 8) & 0xff);
             w8(bus, mmio(0x18), 0x00);
             w8(bus, mmio(0x19), 0x00);
         }
@@ -25,16 +25,19 @@ describe('OBJ windowed color math (WOBJSEL, simplified)', () => {
     function setupOBJMain_BG2Sub(bus) {
         // Brightness
         w8(bus, mmio(0x00), 0x0f);
+        // Set BG mode 1 (BG1/2 are 4bpp, BG3 is 2bpp)
+        w8(bus, mmio(0x05), 0x01);
         // Enable OBJ main, BG2 subscreen
         w8(bus, mmio(0x2c), 0x10);
         w8(bus, mmio(0x2d), 0x02);
-        // OBJ char base 0x1000
-        w8(bus, mmio(0x01), 0x02);
-        writeSolid4bppTile(bus);
+        // OBJ char base 0x2000
+        w8(bus, mmio(0x01), 0x01);
+        writeSolid4bppTile(bus, 0x1000); // BG2 tile 1
+        writeSolid4bppTile(bus, 0x2000); // OBJ tile 1
         // One sprite at (0,0) tile 1, pal group 0
         w8(bus, mmio(0x02), 0x00);
         w8(bus, mmio(0x04), 0x00); // X
-        w8(bus, mmio(0x04), 0x00); // tile low
+        w8(bus, mmio(0x04), 0x00); // Y
         w8(bus, mmio(0x04), 0x01); // tile=1
         w8(bus, mmio(0x04), 0x00); // attr
         // BG2: char base 0x1000, map base 0x0000, tile 1 pal group 1
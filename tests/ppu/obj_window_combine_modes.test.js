@@ -10,14 +10,14 @@ function mkBus() {
     return new SNESBus(cart);
 }
 describe('OBJ window combine modes (simplified)', () => {
-    function writeSolid4bppTile(bus) {
+    function writeSolid4bppTile(bus, base) {
         for (let y = 0; y < 8; y++) {
-            w8(bus, mmio(0x16), (0x1000 + 16 + y) & 0xff);
-            w8(bus, mmio(0x17), ((0x1000 + 16 + y) >>> 8) & 0xff);
+            w8(bus, mmio(0x16), (base + 16 + y) & 0xff);
+            w8(bus, mmio(0x17), ((base + 16 + y) >>> 8) & 0xff);
             w8(bus, mmio(0x18), 0xff);
             w8(bus, mmio(0x19), 0x00);
-            w8(bus, mmio(0x16), (0x1000 + 16 + 8 + y) & 0xff);
-            w8(bus, mmio(0x17), ((0x1000 + 16 + 8 + y) >>> 8) & 0xff);
+            w8(bus, mmio(0x16), (base + 16 + 8 + y) & 0xff);
+            w8(bus, mmio(0x17), ((base + 16 + 8 + y) >>> 8) & 0xff);
             w8(bus, mmio(0x18), 0x00);
             w8(bus, mmio(0x19), 0x00);
         }
@@ -25,10 +25,13 @@ describe('OBJ window combine modes (simplified)', () => {
     function setup(bus) {
         const ppu = bus.getPPU();
         w8(bus, mmio(0x00), 0x0f); // brightness
+        // Set BG mode 1 (BG1/2 are 4bpp, BG3 is 2bpp)
+        w8(bus, mmio(0x05), 0x01);
         w8(bus, mmio(0x2c), 0x10); // OBJ main
         w8(bus, mmio(0x2d), 0x02); // BG2 subscreen
-        w8(bus, mmio(0x01), 0x02); // OBJ char base 0x1000
-        writeSolid4bppTile(bus);
+        w8(bus, mmio(0x01), 0x01); // OBJ char base 0x2000
+        writeSolid4bppTile(bus, 0x1000); // BG2 tile 1
+        writeSolid4bppTile(bus, 0x2000); // OBJ tile 1
         // Place one sprite at (0,0), tile=1, group0
         w8(bus, mmio(0x02), 0x00);
         w8(bus, mmio(0x04), 0x00);
@@ -63,8 +66,8 @@ describe('OBJ window combine modes (simplified)', () => {
         w8(bus, mmio(0x29), 0x04);
         // WOBJSEL: enable A and B for OBJ
         w8(bus, mmio(0x25), 0x03);
-        // CGWSEL: applyInside=1, combine OR (00)
-        w8(bus, mmio(0x30), 0x01 | (0 << 6));
+        // CGWSEL: applyInside=1
+        w8(bus, mmio(0x30), 0x01);
         const rgba = renderMainScreenRGBA(ppu, 8, 1);
         const px = (x) => [rgba[x * 4], rgba[x * 4 + 1]];
         // x=0,1 in A -> blend; x=3,4 in B -> blend; x=2,5 not in A|B -> no blend
@@ -84,7 +87,9 @@ describe('OBJ window combine modes (simplified)', () => {
         w8(bus, mmio(0x28), 0x02);
         w8(bus, mmio(0x29), 0x03);
         w8(bus, mmio(0x25), 0x03);
-        w8(bus, mmio(0x30), 0x01 | (1 << 6));
+        w8(bus, mmio(0x30), 0x01);
+        w8(bus, mmio(0x2a), 0x55);
+        w8(bus, mmio(0x2b), 0x05); // WBGLOG/WOBJLOG: AND for every layer
         const rgba = renderMainScreenRGBA(ppu, 8, 1);
         const px = (x) => [rgba[x * 4], rgba[x * 4 + 1]];
         expect(px(2)[0]).toBeGreaterThan(100);
@@ -103,7 +108,9 @@ describe('OBJ window combine modes (simplified)', () => {
         w8(bus, mmio(0x28), 0x02);
         w8(bus, mmio(0x29), 0x04);
         w8(bus, mmio(0x25), 0x03);
-        w8(bus, mmio(0x30), 0x01 | (2 << 6));
+        w8(bus, mmio(0x30), 0x01);
+        w8(bus, mmio(0x2a), 0xAA);
+        w8(bus, mmio(0x2b), 0x0A); // WBGLOG/WOBJLOG: XOR for every layer
         const rgba = renderMainScreenRGBA(ppu, 6, 1);
         const px = (x) => [rgba[x * 4], rgba[x * 4 + 1]];
         expect(px(1)[0]).toBeGreaterThan(100);
@@ -122,7 +129,9 @@ describe('OBJ window combine modes (simplified)', () => {
         w8(bus, mmio(0x28), 0x02);
         w8(bus, mmio(0x29), 0x04);
         w8(bus, mmio(0x25), 0x03);
-        w8(bus, mmio(0x30), 0x01 | (3 << 6));
+        w8(bus, mmio(0x30), 0x01);
+        w8(bus, mmio(0x2a), 0xFF);
+        w8(bus, mmio(0x2b), 0x0F); // WBGLOG/WOBJLOG: XNOR for every layer
         const rgba = renderMainScreenRGBA(ppu, 7, 1);
         const px = (x) => [rgba[x * 4], rgba[x * 4 + 1]];
         expect(px(2)[0]).toBeGreaterThan(100);
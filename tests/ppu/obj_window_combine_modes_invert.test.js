@@ -9,14 +9,14 @@ function mkBus() {
     const cart = new Cartridge({ rom, mapping: 'lorom' });
     return new SNESBus(cart);
 }
-function writeObjSolidTile(bus) {
+function writeObjSolidTile(bus, base) {
     for (let y = 0; y < 8; y++) {
-        w8(bus, mmio(0x16), (0x1000 + 16 + y) & 0xff);
-        w8(bus, mmio(0x17), ((0x1000 + 16 + y) >>> 8) & 0xff);
+        w8(bus, mmio(0x16), (base + 16 + y) & 0xff);
+        w8(bus, mmio(0x17), ((base + 16 + y) >>> 8) & 0xff);
         w8(bus, mmio(0x18), 0xff);
         w8(bus, mmio(0x19), 0x00);
-        w8(bus, mmio(0x16), (0x1000 + 16 + 8 + y) & 0xff);
-        w8(bus, mmio(0x17), ((0x1000 + 16 + 8 + y) >>> 8) & 0xff);
+        w8(bus, mmio(0x16), (base + 16 + 8 + y) & 0xff);
+        w8(bus, mmio(0x17), ((base + 16 + 8 + y) >>> 8) & 0xff);
         w8(bus, mmio(0x18), 0x00);
         w8(bus, mmio(0x19), 0x00);
     }
@@ -25,12 +25,15 @@ describe('OBJ window combine with invert and sub gating', () => {
     function setup(bus) {
         const ppu = bus.getPPU();
         w8(bus, mmio(0x00), 0x0f);
+        // Set BG mode 1 (BG1/2 are 4bpp, BG3 is 2bpp)
+        w8(bus, mmio(0x05), 0x01);
         // OBJ main, BG2 subscreen green
         w8(bus, mmio(0x2c), 0x10);
         w8(bus, mmio(0x2d), 0x02);
-        // OBJ char base 0x1000, sprite at (0,0)
-        w8(bus, mmio(0x01), 0x02);
-        writeObjSolidTile(bus);
+        // OBJ char base 0x2000, sprite at (0,0)
+        w8(bus, mmio(0x01), 0x01);
+        writeObjSolidTile(bus, 0x1000); // BG2 tile 1
+        writeObjSolidTile(bus, 0x2000); // OBJ tile 1
         w8(bus, mmio(0x02), 0x00);
         w8(bus, mmio(0x04), 0x00);
         w8(bus, mmio(0x04), 0x00);
@@ -63,8 +66,10 @@ describe('OBJ window combine with invert and sub gating', () => {
         w8(bus, mmio(0x28), 0x02);
         w8(bus, mmio(0x29), 0x04);
         w8(bus, mmio(0x25), 0x03 | 0x10);
-        // CGWSEL: applyInside=1, XNOR, sub gate ON
-        w8(bus, mmio(0x30), 0x01 | 0x02 | (3 << 6));
+        // CGWSEL: applyInside=1, sub gate ON
+        w8(bus, mmio(0x30), 0x01 | 0x02);
+        w8(bus, mmio(0x2a), 0xFF);
+        w8(bus, mmio(0x2b), 0x0F); // WBGLOG/WOBJLOG: XNOR for every layer
         const rgba = renderMainScreenRGBA(ppu, 6, 1);
         const px = (x) => [rgba[x * 4], rgba[x * 4 + 1]];
         expect(px(1)[0]).toBeGreaterThan(100);
@@ -83,8 +88,10 @@ describe('OBJ window combine with invert and sub gating', () => {
         w8(bus, mmio(0x28), 0x02);
         w8(bus, mmio(0x29), 0x04);
         w8(bus, mmio(0x25), 0x03 | 0x20);
-        // CGWSEL: applyInside=1, XOR, sub gate OFF
-        w8(bus, mmio(0x30), 0x01 | (2 << 6));
+        // CGWSEL: applyInside=1, sub gate OFF
+        w8(bus, mmio(0x30), 0x01);
+        w8(bus, mmio(0x2a), 0xAA);
+        w8(bus, mmio(0x2b), 0x0A); // WBGLOG/WOBJLOG: XOR for every layer
         const rgba = renderMainScreenRGBA(ppu, 7, 1);
         const px = (x) => [rgba[x * 4], rgba[x * 4 + 1]];
         // With invert-B + XOR: blend at overlap (x=2) and outside both (x=5)
@@ -12,13 +12,13 @@ function mkBus() {
   return new SNESBus(cart);
 }
 
-function writeObjSolidTile(bus: SNESBus) {
+function writeObjSolidTile(bus: SNESBus, base: number) {
   for (let y = 0; y < 8; y++) {
-    w8(bus, mmio(0x16), (0x1000 + 16 + y) & 0xff);
-    w8(bus, mmio(0x17), ((0x1000 + 16 + y) >>> 8) & 0xff);
+    w8(bus, mmio(0x16), (base + 16 + y) & 0xff);
+    w8(bus, mmio(0x17), ((base + 16 + y) >>> 8) & 0xff);
     w8(bus, mmio(0x18), 0xff); w8(bus, mmio(0x19), 0x00);
-    w8(bus, mmio(0x16), (0x1000 + 16 + 8 + y) & 0xff);
-    w8(bus, mmio(0x17), ((0x1000 + 16 + 8 + y) >>> 8) & 0xff);
+    w8(bus, mmio(0x16), (base + 16 + 8 + y) & 0xff);
+    w8(bus, mmio(0x17), ((base + 16 + 8 + y) >>> 8) & 0xff);
     w8(bus, mmio(0x18), 0x00); w8(bus, mmio(0x19), 0x00);
   }
 }
@@ -32,9 +32,10 @@ describe('OBJ window combine with invert and sub gating', () => {
     // OBJ main, BG2 subscreen green
     w8(bus, mmio(0x2c), 0x10);
     w8(bus, mmio(0x2d), 0x02);
-    // OBJ char base 0x1000, sprite at (0,0)
-    w8(bus, mmio(0x01), 0x02);
-    writeObjSolidTile(bus);
+    // OBJ char base 0x2000, sprite at (0,0)
+    w8(bus, mmio(0x01), 0x01);
+    writeObjSolidTile(bus, 0x1000); // BG2 tile 1
+    writeObjSolidTile(bus, 0x2000); // OBJ tile 1
     w8(bus, mmio(0x02), 0x00);
     w8(bus, mmio(0x04), 0x00); w8(bus, mmio(0x04), 0x00); w8(bus, mmio(0x04), 0x01); w8(bus, mmio(0x04), 0x00);
     // BG2 map 0x0000, char 0x1000, tile1 pal group1
@@ -55,8 +56,9 @@ describe('OBJ window combine with invert and sub gating', () => {
     w8(bus, mmio(0x26), 0x00); w8(bus, mmio(0x27), 0x02);
     w8(bus, mmio(0x28), 0x02); w8(bus, mmio(0x29), 0x04);
     w8(bus, mmio(0x25), 0x03 | 0x10);
-    // CGWSEL: applyInside=1, XNOR, sub gate ON
-    w8(bus, mmio(0x30), 0x01 | 0x02 | (3 << 6));
+    // CGWSEL: applyInside=1, sub gate ON
+    w8(bus, mmio(0x30), 0x01 | 0x02);
+    w8(bus, mmio(0x2a), 0xFF); w8(bus, mmio(0x2b), 0x0F); // WBGLOG/WOBJLOG: XNOR for every layer
 
     const rgba = renderMainScreenRGBA(ppu, 6, 1);
     const px = (x: number) => [rgba[x*4], rgba[x*4+1]];
@@ -72,8 +74,9 @@ describe('OBJ window combine with invert and sub gating', () => {
     w8(bus, mmio(0x26), 0x00); w8(bus, mmio(0x27), 0x02);
     w8(bus, mmio(0x28), 0x02); w8(bus, mmio(0x29), 0x04);
     w8(bus, mmio(0x25), 0x03 | 0x20);
-    // CGWSEL: applyInside=1, XOR, sub gate OFF
-    w8(bus, mmio(0x30), 0x01 | (2 << 6));
+    // CGWSEL: applyInside=1, sub gate OFF
+    w8(bus, mmio(0x30), 0x01);
+    w8(bus, mmio(0x2a), 0xAA); w8(bus, mmio(0x2b), 0x0A); // WBGLOG/WOBJLOG: XOR for every layer
 
     const rgba = renderMainScreenRGBA(ppu, 7, 1);
     const px = (x: number) => [rgba[x*4], rgba[x*4+1]];
@@ -12,14 +12,14 @@ function mkBus() {
   return new SNESBus(cart);
 }
 
-function writeSolid(bus: SNESBus) {
+function writeSolid(bus: SNESBus, base: number) {
   for (let y = 0; y < 8; y++) {
-    w8(bus, mmio(0x16), (0x1000 + 16 + y) & 0xff);
-    w8(bus, mmio(0x17), ((0x1000 + 16 + y) >>> 8) & 0xff);
+    w8(bus, mmio(0x16), (base + 16 + y) & 0xff);
+    w8(bus, mmio(0x17), ((base + 16 + y) >>> 8) & 0xff);
     w8(bus, mmio(0x18), 0xff);
     w8(bus, mmio(0x19), 0x00);
-    w8(bus, mmio(0x16), (0x1000 + 16 + 8 + y) & 0xff);
-    w8(bus, mmio(0x17), ((0x1000 + 16 + 8 + y) >>> 8) & 0xff);
+    w8(bus, mmio(0x16), (base + 16 + 8 + y) & 0xff);
+    w8(bus, mmio(0x17), ((base + 16 + 8 + y) >>> 8) & 0xff);
     w8(bus, mmio(0x18), 0x00);
     w8(bus, mmio(0x19), 0x00);
   }
@@ -34,9 +34,10 @@ describe('OBJ window wrap-around and invert edge cases', () => {
     // OBJ main, BG2 subscreen
     w8(bus, mmio(0x2c), 0x10);
     w8(bus, mmio(0x2d), 0x02);
-    // OBJ char base 0x1000, one sprite at (0,0) tile1
-    w8(bus, mmio(0x01), 0x02);
-    writeSolid(bus);
+    // OBJ char base 0x2000, one sprite at (0,0) tile1
+    w8(bus, mmio(0x01), 0x01);
+    writeSolid(bus, 0x1000); // BG2 tile 1
+    writeSolid(bus, 0x2000); // OBJ tile 1
     w8(bus, mmio(0x02), 0x00);
     w8(bus, mmio(0x04), 0x00);
     w8(bus, mmio(0x04), 0x00);
@@ -61,8 +62,8 @@ describe('OBJ window wrap-around and invert edge cases', () => {
     w8(bus, mmio(0x26), 0x06); w8(bus, mmio(0x27), 0x01);
     // Enable OBJ A only
     w8(bus, mmio(0x25), 0x01);
-    // CGWSEL: applyInside=1, OR combine
-    w8(bus, mmio(0x30), 0x01 | (0 << 6));
+    // CGWSEL: applyInside=1
+    w8(bus, mmio(0x30), 0x01);
     const rgba = renderMainScreenRGBA(ppu, 8, 1);
     const px = (x: number) => [rgba[x*4], rgba[x*4+1]];
     // x=0,1 and x=6,7 inside -> blend
@@ -81,7 +82,8 @@ describe('OBJ window wrap-around and invert edge cases', () => {
     // Enable OBJ A|B
     w8(bus, mmio(0x25), 0x03);
     // XOR
-    w8(bus, mmio(0x30), 0x01 | (2 << 6));
+    w8(bus, mmio(0x30), 0x01);
+    w8(bus, mmio(0x2a), 0xAA); w8(bus, mmio(0x2b), 0x0A); // WBGLOG/WOBJLOG: XOR for every layer
     const rgba = renderMainScreenRGBA(ppu, 8, 1);
     const px = (x: number) => [rgba[x*4], rgba[x*4+1]];
     // x=6,7 in A-only -> blend; x=0,1 in B-only -> blend; x=7-> also in B? no; x=2 outside -> red
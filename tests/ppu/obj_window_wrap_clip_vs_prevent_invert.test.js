@@ -9,14 +9,14 @@ function mkBus() {
     const cart = new Cartridge({ rom, mapping: 'lorom' });
     return new SNESBus(cart);
 }
-function writeObjSolidTile(bus) {
+function writeObjSolidTile(bus, base) {
     for (let y = 0; y < 8; y++) {
-        w8(bus, mmio(0x16), (0x1000 + 16 + y) & 0xff);
-        w8(bus, mmio(0x17), ((0x1000 + 16 + y) >>> 8) & 0xff);
+        w8(bus, mmio(0x16), (base + 16 + y) & 0xff);
+        w8(bus, mmio(0x17), ((base + 16 + y) >>> 8) & 0xff);
         w8(bus, mmio(0x18), 0xff);
         w8(bus, mmio(0x19), 0x00);
-        w8(bus, mmio(0x16), (0x1000 + 16 + 8 + y) & 0xff);
-        w8(bus, mmio(0x17), ((0x1000 + 16 + 8 + y) >>> 8) & 0xff);
+        w8(bus, mmio(0x16), (base + 16 + 8 + y) & 0xff);
+        w8(bus, mmio(0x17), ((base + 16 + 8 + y) >>> 8) & 0xff);
         w8(bus, mmio(0x18), 0x00);
         w8(bus, mmio(0x19), 0x00);
     }
@@ -25,12 +25,15 @@ describe('OBJ wrap-around windows with invert and clip/prevent modes', () => {
     function setup(bus) {
         const ppu = bus.getPPU();
         w8(bus, mmio(0x00), 0x0f);
+        // Set BG mode 1 (BG1/2 are 4bpp, BG3 is 2bpp)
+        w8(bus, mmio(0x05), 0x01);
         // OBJ main, BG2 subscreen
         w8(bus, mmio(0x2c), 0x10);
         w8(bus, mmio(0x2d), 0x02);
-        // OBJ char base 0x1000, one sprite at (0,0) tile1
-        w8(bus, mmio(0x01), 0x02);
-        writeObjSolidTile(bus);
+        // OBJ char base 0x2000, one sprite at (0,0) tile1
+        w8(bus, mmio(0x01), 0x01);
+        writeObjSolidTile(bus, 0x1000); // BG2 tile 1
+        writeObjSolidTile(bus, 0x2000); // OBJ tile 1
         w8(bus, mmio(0x02), 0x00);
         w8(bus, mmio(0x04), 0x00);
         w8(bus, mmio(0x04), 0x00);
@@ -61,8 +64,8 @@ describe('OBJ wrap-around windows with invert and clip/prevent modes', () => {
         w8(bus, mmio(0x26), 0x06);
         w8(bus, mmio(0x27), 0x01);
         w8(bus, mmio(0x25), 0x01);
-        // CGWSEL: applyInside=1, OR combine, sub gate on, clip-to-black on
-        w8(bus, mmio(0x30), 0x01 | 0x02 | 0x08 | (0 << 6));
+        // CGWSEL: applyInside=1, sub gate on, clip-to-black on
+        w8(bus, mmio(0x30), 0x01 | 0x02 | 0x08);
         const rgba = renderMainScreenRGBA(ppu, 8, 1);
         const px = (x) => [rgba[x * 4], rgba[x * 4 + 1], rgba[x * 4 + 2]];
         // Inside wrap (x=0 or 7) -> blend red+green
@@ -82,8 +85,8 @@ describe('OBJ wrap-around windows with invert and clip/prevent modes', () => {
         w8(bus, mmio(0x26), 0x06);
         w8(bus, mmio(0x27), 0x01);
         w8(bus, mmio(0x25), 0x01);
-        // CGWSEL: applyInside=1, OR combine, sub gate on, clip off
-        w8(bus, mmio(0x30), 0x01 | 0x02 | (0 << 6));
+        // CGWSEL: applyInside=1, sub gate on, clip off
+        w8(bus, mmio(0x30), 0x01 | 0x02);
         const rgba = renderMainScreenRGBA(ppu, 8, 1);
         const px = (x) => [rgba[x * 4], rgba[x * 4 + 1]];
         // Inside -> blend
@@ -103,8 +106,10 @@ describe('OBJ wrap-around windows with invert and clip/prevent modes', () => {
         w8(bus, mmio(0x29), 0x01);
         // Enable OBJ A|B and invert A
         w8(bus, mmio(0x25), 0x03 | 0x10);
-        // CGWSEL: applyInside=1, XNOR, sub gate ON
-        w8(bus, mmio(0x30), 0x01 | 0x02 | (3 << 6));
+        // CGWSEL: applyInside=1, sub gate ON
+        w8(bus, mmio(0x30), 0x01 | 0x02);
+        w8(bus, mmio(0x2a), 0xFF);
+        w8(bus, mmio(0x2b), 0x0F); // WBGLOG/WOBJLOG: XNOR for every layer
         const rgba = renderMainScreenRGBA(ppu, 8, 1);
         const px = (x) => [rgba[x * 4], rgba[x * 4 + 1]];
         // XOR(original A,B) -> blend at 6,7 and 0,1 only
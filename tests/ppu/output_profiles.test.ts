@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { SNESBus } from '../../src/bus/snesBus';
+import { Cartridge } from '../../src/cart/cartridge';
+import { decodeSNESColorToRGBA } from '../../src/ppu/palette';
+import { convertBGR555, outputLUT } from '../../src/ppu/output';
+import { hashFrameBGR555, outputFrame, renderFrame, renderFrameBGR555 } from '../../src/ppu/frame';
+
+const mmio = (reg: number) => (0x00 << 16) | (0x2100 + (reg & 0xff));
+const w8 = (bus: SNESBus, addr: number, v: number) => bus.write8(addr, v);
+
+function mkBus() {
+  const rom = new Uint8Array(0x20000);
+  const cart = new Cartridge({ rom, mapping: 'lorom' });
+  return new SNESBus(cart);
+}
+
+const rgb = (lut: Uint8ClampedArray, c: number) => Array.from(lut.slice(c * 4, c * 4 + 4));
+
+describe('Output profiles', () => {
+  it('linear reproduces the 5-bit scale with brightness applied', () => {
+    for (const level of [15, 7, 1]) {
+      const lut = outputLUT('linear', level);
+      for (const c of [0x0000, 0x7fff, 0x7c00, 0x1234, 0x03e0]) {
+        const { r, g, b } = decodeSNESColorToRGBA(c);
+        const s = level / 15;
+        expect(rgb(lut, c)).toEqual([Math.round(r * s), Math.round(g * s), Math.round(b * s), 255]);
+      }
+    }
+  });
+
+  it('bsnes-gamma follows its ramp and CRT keeps black and white', () => {
+    const gamma = outputLUT('bsnes-gamma', 15);
+    expect(rgb(gamma, 0x7fff)).toEqual([255, 255, 255, 255]);
+    expect(rgb(gamma, 0x0010)).toEqual([0, 0, 0x88, 255]);
+    expect(rgb(gamma, 0x0001)).toEqual([0, 0, 1, 255]);
+    expect(rgb(outputLUT('bsnes-gamma', 0), 0x7fff)).toEqual([0, 0, 0, 255]);
+
+    const crt = outputLUT('crt', 15);
+    expect(rgb(crt, 0x0000)).toEqual([0, 0, 0, 255]);
+    expect(rgb(crt, 0x7fff)).toEqual([255, 255, 255, 255]);
+    // Pure red picks up a little green through the phosphor conversion and mid grey is darker than linear
+    expect(crt[0x7c00 * 4 + 1]).toBeGreaterThan(0);
+    expect(crt[0x3def * 4]).toBeLessThan(outputLUT('linear', 15)[0x3def * 4]);
+  });
+
+  it('applies per-row brightness', () => {
+    const out = convertBGR555(new Uint16Array([0x7fff, 0x7fff, 0x7fff, 0x7fff]), 2, new Uint8Array([15, 0]));
+    expect(Array.from(out.slice(0, 8))).toEqual([255, 255, 255, 255, 255, 255, 255, 255]);
+    expect(Array.from(out.slice(8))).toEqual([0, 0, 0, 255, 0, 0, 0, 255]);
+  });
+
+  it('keeps the raw frame hash independent of the display profile', () => {
+    const bus = mkBus();
+    w8(bus, mmio(0x00), 0x08);
+    w8(bus, mmio(0x21), 0x00);
+    w8(bus, mmio(0x22), 0x1f); w8(bus, mmio(0x22), 0x00); // backdrop
+    const ppu = bus.getPPU();
+    const raw = renderFrameBGR555(ppu, 8);
+    expect(raw.pixels[0]).toBe(0x001f);
+    expect(Array.from(raw.brightness.slice(0, 2))).toEqual([8, 8]);
+    expect(outputFrame(raw, 'linear').rgba).toEqual(renderFrame(ppu, 8).rgba);
+    expect(outputFrame(raw, 'crt').rgba).toEqual(renderFrame(ppu, 8, undefined, 'crt').rgba);
+    expect(outputFrame(raw, 'crt').rgba).not.toEqual(outputFrame(raw, 'bsnes-gamma').rgba);
+
+    const hash = hashFrameBGR555(raw);
+    w8(bus, mmio(0x00), 0x09);
+    expect(hashFrameBGR555(renderFrameBGR555(ppu, 8))).not.toBe(hash);
+    w8(bus, mmio(0x00), 0x08);
+    expect(hashFrameBGR555(renderFrameBGR555(ppu, 8))).toBe(hash);
+  });
+});
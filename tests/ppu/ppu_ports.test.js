@@ -50,13 +50,14 @@ describe('PPU ports: VRAM/CGRAM/OAM basic behaviors', () => {
     });
     it('OAM writes via $2102/$2103 set address; $2104 writes increment address', () => {
         const bus = new SNESBus(mkCart(0x20000));
-        // Set OAM address to 0x020
+        // Set OAM word address 0x020 (byte 0x040)
         w8(bus, mmio(0x02), 0x20);
         w8(bus, mmio(0x03), 0x00);
         // Write three bytes
         w8(bus, mmio(0x04), 0x11);
         w8(bus, mmio(0x04), 0x22);
         w8(bus, mmio(0x04), 0x33);
+        expect(bus.getPPU().inspectOAMByte(0x40)).toBe(0x11);
         // Reset OAM address and read back via $2138 (auto-increment on read)
         w8(bus, mmio(0x02), 0x20);
         w8(bus, mmio(0x03), 0x00);
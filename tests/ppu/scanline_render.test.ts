@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { SNESBus } from '../../src/bus/snesBus';
+import { Cartridge } from '../../src/cart/cartridge';
+import { renderFrame, scanlineFrame, scanlineFrameBGR555 } from '../../src/ppu/frame';
+
+const mmio = (reg: number) => (0x00 << 16) | (0x2100 + (reg & 0xff));
+const w8 = (bus: SNESBus, addr: number, v: number) => bus.write8(addr, v);
+
+function mkBus() {
+  const rom = new Uint8Array(0x20000);
+  const cart = new Cartridge({ rom, mapping: 'lorom' });
+  return new SNESBus(cart);
+}
+
+function writeWord(bus: SNESBus, addr: number, v: number) {
+  w8(bus, mmio(0x16), addr & 0xff);
+  w8(bus, mmio(0x17), (addr >>> 8) & 0xff);
+  w8(bus, mmio(0x18), v & 0xff);
+  w8(bus, mmio(0x19), (v >>> 8) & 0xff);
+}
+
+function writeColor(bus: SNESBus, color: number, bgr: number) {
+  w8(bus, mmio(0x21), color * 2);
+  w8(bus, mmio(0x22), bgr & 0xff);
+  w8(bus, mmio(0x22), (bgr >>> 8) & 0xff);
+}
+
+const RED = 0x7c00;
+const GREEN = 0x03e0;
+
+// Mode 1 BG1: tile 1 (solid color 1, red) in map column 0 only, everything else transparent over a black backdrop
+function setupBG1(bus: SNESBus) {
+  w8(bus, mmio(0x00), 0x0f);
+  w8(bus, mmio(0x05), 0x01);
+  w8(bus, mmio(0x15), 0x80);
+  w8(bus, mmio(0x07), 0x08); // BG1 map 0x0400
+  w8(bus, mmio(0x0b), 0x02); // BG1 chars 0x1000
+  w8(bus, mmio(0x2c), 0x01);
+  for (let y = 0; y < 8; y++) writeWord(bus, 0x1000 + 16 + y, 0x00ff);
+  for (let ty = 0; ty < 32; ty++) writeWord(bus, 0x0400 + ty * 32, 0x0001);
+  writeColor(bus, 1, RED);
+}
+
+// Run one frame through the PPU's end-of-line hook, calling `onLine` before each line ends
+function runFrame(bus: SNESBus, onLine: (y: number) => void = () => {}) {
+  const ppu = bus.getPPU();
+  ppu.startFrame();
+  for (let y = 0; y < 262; y++) {
+    onLine(y);
+    ppu.endScanline();
+  }
+}
+
+const px = (bgr: Uint16Array, x: number, y: number) => bgr[y * 512 + x];
+
+describe('Scanline renderer', () => {
+  it('captures mid-frame scroll and palette changes line by line', () => {
+    const bus = mkBus();
+    const ppu = bus.getPPU();
+    setupBG1(bus);
+    ppu.scanlineRender = true;
+    runFrame(bus, (y) => {
+      if (y === 100) { w8(bus, mmio(0x0d), 0xfc); w8(bus, mmio(0x0d), 0x00); } // BG1HOFS = -4
+      if (y === 150) writeColor(bus, 1, GREEN);
+    });
+    const { pixels, height, hiRes } = scanlineFrameBGR555(ppu);
+    expect(height).toBe(224);
+    expect(hiRes).toBe(false);
+    // Low-res pixels are doubled: screen column 0 is frame columns 0-1
+    expect(px(pixels, 0, 99)).toBe(RED);
+    expect(px(pixels, 1, 99)).toBe(RED);
+    expect(px(pixels, 16, 99)).toBe(0);
+    // From line 100 the tile column moves 4 pixels right
+    expect(px(pixels, 0, 100)).toBe(0);
+    expect(px(pixels, 8, 100)).toBe(RED);
+    expect(px(pixels, 8, 149)).toBe(RED);
+    expect(px(pixels, 8, 150)).toBe(GREEN);
+
+    // An after-the-fact render only sees the final registers
+    const after = renderFrame(ppu).rgba;
+    expect(after[99 * 512 * 4 + 1]).toBe(0);
+    expect(after[(99 * 512 + 8) * 4 + 1]).toBeGreaterThan(200);
+  });
+
+  it('applies each line\'s brightness and force blank to the RGBA frame', () => {
+    const bus = mkBus();
+    const ppu = bus.getPPU();
+    setupBG1(bus);
+    ppu.scanlineRender = true;
+    runFrame(bus, (y) => {
+      if (y === 10) w8(bus, mmio(0x00), 0x07);
+      if (y === 20) w8(bus, mmio(0x00), 0x80);
+      if (y === 30) w8(bus, mmio(0x00), 0x0f);
+    });
+    const bgr = scanlineFrameBGR555(ppu);
+    expect(Array.from(bgr.brightness.slice(9, 11))).toEqual([15, 7]);
+    expect(bgr.brightness[20]).toBe(0);
+    const { rgba } = scanlineFrame(ppu);
+    const red = (y: number) => rgba[y * 512 * 4];
+    expect(red(9)).toBe(255);
+    expect(red(10)).toBe(Math.round(255 * 7 / 15));
+    expect(red(20)).toBe(0);
+    expect(red(30)).toBe(255);
+  });
+
+  it('matches the whole-frame render when registers stay put, mosaic included', () => {
+    const bus = mkBus();
+    const ppu = bus.getPPU();
+    setupBG1(bus);
+    w8(bus, mmio(0x0d), 0x03); w8(bus, mmio(0x0d), 0x00);
+    w8(bus, mmio(0x06), 0x31); // BG1 mosaic, 4x4 blocks
+    ppu.scanlineRender = true;
+    runFrame(bus);
+    expect(scanlineFrame(ppu).rgba).toEqual(renderFrame(ppu).rgba);
+  });
+
+  it('leaves the framebuffer alone unless enabled', () => {
+    const bus = mkBus();
+    const ppu = bus.getPPU();
+    setupBG1(bus);
+    runFrame(bus);
+    expect(ppu.frameBGR555).toBeNull();
+    expect(ppu.frameBrightness).toBeNull();
+  });
+});
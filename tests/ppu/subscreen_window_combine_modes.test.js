@@ -26,6 +26,8 @@ describe('Subscreen window combine modes (CGWSEL bit1, applyInside=1)', () => {
         const ppu = bus.getPPU();
         // Brightness
         w8(bus, mmio(0x00), 0x0f);
+        // Set BG mode 1 (BG1/2 are 4bpp, BG3 is 2bpp)
+        w8(bus, mmio(0x05), 0x01);
         // Main BG1, Sub BG2
         w8(bus, mmio(0x2c), 0x01);
         w8(bus, mmio(0x2d), 0x02);
@@ -66,8 +68,8 @@ describe('Subscreen window combine modes (CGWSEL bit1, applyInside=1)', () => {
         w8(bus, mmio(0x29), 0x04);
         // Enable BG2 A and B for subscreen gating via W12SEL bits2/3
         w8(bus, mmio(0x23), 0x0c);
-        // CGWSEL: applyInside=1 and subscreen gate=1; combine OR (00)
-        w8(bus, mmio(0x30), 0x03 | (0 << 6));
+        // CGWSEL: applyInside=1 and subscreen gate=1
+        w8(bus, mmio(0x30), 0x03);
         const rgba = renderMainScreenRGBA(ppu, 8, 1);
         const px = (x) => [rgba[x * 4], rgba[x * 4 + 1]];
         // Expect blend at x=0,1 and x=3,4; where subscreen masked (x=2,5), math occurs against backdrop -> half red
@@ -87,7 +89,9 @@ describe('Subscreen window combine modes (CGWSEL bit1, applyInside=1)', () => {
         w8(bus, mmio(0x28), 0x02);
         w8(bus, mmio(0x29), 0x03);
         w8(bus, mmio(0x23), 0x0c);
-        w8(bus, mmio(0x30), 0x03 | (1 << 6));
+        w8(bus, mmio(0x30), 0x03);
+        w8(bus, mmio(0x2a), 0x55);
+        w8(bus, mmio(0x2b), 0x05); // WBGLOG/WOBJLOG: AND for every layer
         const rgba = renderMainScreenRGBA(ppu, 8, 1);
         const px = (x) => [rgba[x * 4], rgba[x * 4 + 1]];
         expect(px(2)[0]).toBeGreaterThan(100);
@@ -107,7 +111,9 @@ describe('Subscreen window combine modes (CGWSEL bit1, applyInside=1)', () => {
         w8(bus, mmio(0x28), 0x02);
         w8(bus, mmio(0x29), 0x04);
         w8(bus, mmio(0x23), 0x0c);
-        w8(bus, mmio(0x30), 0x03 | (2 << 6));
+        w8(bus, mmio(0x30), 0x03);
+        w8(bus, mmio(0x2a), 0xAA);
+        w8(bus, mmio(0x2b), 0x0A); // WBGLOG/WOBJLOG: XOR for every layer
         const rgba = renderMainScreenRGBA(ppu, 6, 1);
         const px = (x) => [rgba[x * 4], rgba[x * 4 + 1]];
         expect(px(1)[0]).toBeGreaterThan(100);
@@ -127,7 +133,9 @@ describe('Subscreen window combine modes (CGWSEL bit1, applyInside=1)', () => {
         w8(bus, mmio(0x28), 0x02);
         w8(bus, mmio(0x29), 0x04);
         w8(bus, mmio(0x23), 0x0c);
-        w8(bus, mmio(0x30), 0x03 | (3 << 6));
+        w8(bus, mmio(0x30), 0x03);
+        w8(bus, mmio(0x2a), 0xFF);
+        w8(bus, mmio(0x2b), 0x0F); // WBGLOG/WOBJLOG: XNOR for every layer
         const rgba = renderMainScreenRGBA(ppu, 7, 1);
         const px = (x) => [rgba[x * 4], rgba[x * 4 + 1]];
         // x=2 (both) and x=5 (outside both) blended; x=1 (A-only) subscreen masked -> half red
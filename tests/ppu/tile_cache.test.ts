@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { SNESBus } from '../../src/bus/snesBus';
+import { Cartridge } from '../../src/cart/cartridge';
+import { render2bppTileIndices, render4bppTileIndices, render8bppTileIndices } from '../../src/ppu/renderer';
+
+const mmio = (reg: number) => (0x00 << 16) | (0x2100 + (reg & 0xff));
+const w8 = (bus: SNESBus, addr: number, v: number) => bus.write8(addr, v);
+
+function mkBus() {
+  const rom = new Uint8Array(0x20000);
+  const cart = new Cartridge({ rom, mapping: 'lorom' });
+  return new SNESBus(cart);
+}
+
+function writeWord(bus: SNESBus, addr: number, v: number) {
+  w8(bus, mmio(0x15), 0x80);
+  w8(bus, mmio(0x16), addr & 0xff);
+  w8(bus, mmio(0x17), (addr >>> 8) & 0xff);
+  w8(bus, mmio(0x18), v & 0xff);
+  w8(bus, mmio(0x19), (v >>> 8) & 0xff);
+}
+
+describe('PPU decoded tile cache', () => {
+  it('returns the cached decode until VRAM under the tile is written', () => {
+    const bus = mkBus();
+    const ppu = bus.getPPU();
+    writeWord(bus, 0x1000, 0x00ff); // tile 0 row 0: plane 0 set
+    const a = render4bppTileIndices(ppu, 0x1000, 0);
+    expect(a.slice(0, 8)).toEqual([1, 1, 1, 1, 1, 1, 1, 1]);
+    expect(render4bppTileIndices(ppu, 0x1000, 0)).toBe(a);
+
+    // Writes to another tile leave this one cached
+    writeWord(bus, 0x1010, 0xffff);
+    expect(render4bppTileIndices(ppu, 0x1000, 0)).toBe(a);
+
+    // Plane 2 of row 0 lives in the tile's second half
+    writeWord(bus, 0x1008, 0x00ff);
+    const b = render4bppTileIndices(ppu, 0x1000, 0);
+    expect(b).not.toBe(a);
+    expect(b.slice(0, 8)).toEqual([5, 5, 5, 5, 5, 5, 5, 5]);
+  });
+
+  it('keys tiles by bit depth and invalidates every depth covering the word', () => {
+    const bus = mkBus();
+    const ppu = bus.getPPU();
+    writeWord(bus, 0x2000, 0xff00);
+    const t2 = render2bppTileIndices(ppu, 0x2000, 0);
+    const t8 = render8bppTileIndices(ppu, 0x2000, 0);
+    expect(t2[0]).toBe(2);
+    expect(t8[0]).toBe(2);
+    expect(render2bppTileIndices(ppu, 0x2000, 0)).toBe(t2);
+
+    // Word 0x2018 is outside the 2bpp tile but inside the 8bpp one
+    writeWord(bus, 0x2018, 0x0001);
+    expect(render2bppTileIndices(ppu, 0x2000, 0)).toBe(t2);
+    const t8b = render8bppTileIndices(ppu, 0x2000, 0);
+    expect(t8b).not.toBe(t8);
+    expect(t8b[7]).toBe(0x42);
+  });
+
+  it('drops tiles written by DMA through $2118/$2119', () => {
+    const bus = mkBus();
+    const ppu = bus.getPPU();
+    const before = render2bppTileIndices(ppu, 0x0200, 0);
+    expect(before.every((p) => p === 0)).toBe(true);
+
+    w8(bus, mmio(0x15), 0x80);
+    w8(bus, mmio(0x16), 0x00);
+    w8(bus, mmio(0x17), 0x02);
+    for (let i = 0; i < 16; i++) bus.write8((0x7e << 16) | (0x1100 + i), 0xff);
+    w8(bus, 0x004300, 0x01);
+    w8(bus, 0x004301, 0x18);
+    w8(bus, 0x004302, 0x00);
+    w8(bus, 0x004303, 0x11);
+    w8(bus, 0x004304, 0x7e);
+    w8(bus, 0x004305, 16);
+    w8(bus, 0x004306, 0x00);
+    w8(bus, 0x00420b, 0x01);
+
+    const after = render2bppTileIndices(ppu, 0x0200, 0);
+    expect(after).not.toBe(before);
+    expect(after.every((p) => p === 3)).toBe(true);
+  });
+});
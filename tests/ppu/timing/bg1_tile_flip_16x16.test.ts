@@ -31,8 +31,8 @@ describe('PPU timing: BG1 16x16 tile flips', () => {
     ppu.writeReg(TM, 0x01);
     ppu.writeReg(VMAIN, 0x00);
     ppu.writeReg(BG1SC, 0x00);
-    ppu.writeReg(BG12NBA, 0x10); // BG1 char base high nibble=1 -> 0x0800 words
-    ppu.writeReg(BGMODE, 0x10);  // 16x16
+    ppu.writeReg(BG12NBA, 0x01); // BG1 char base low nibble=1 -> 0x0800 words
+    ppu.writeReg(BGMODE, 0x11);  // mode 1 (BG1 4bpp), 16x16
 
     const charBase = 0x0800;
     // Four subtiles with palette indices 1..4 at (0,0),(1,0),(0,1),(1,1)
@@ -51,7 +51,7 @@ describe('PPU timing: BG1 16x16 tile flips', () => {
 
     const sampleAt = (entryWord: number, x: number, y: number): number => {
       const p = new TimingPPU(); p.reset();
-      p.writeReg(TM, 0x01); p.writeReg(VMAIN, 0x00); p.writeReg(BG1SC, 0x00); p.writeReg(BG12NBA, 0x10); p.writeReg(BGMODE, 0x10);
+      p.writeReg(TM, 0x01); p.writeReg(VMAIN, 0x00); p.writeReg(BG1SC, 0x00); p.writeReg(BG12NBA, 0x01); p.writeReg(BGMODE, 0x11);
       writeSolid4bppTile(p, charBase, 0, 1); writeSolid4bppTile(p, charBase, 1, 2); writeSolid4bppTile(p, charBase, 16, 3); writeSolid4bppTile(p, charBase, 17, 4);
       setVAddr(p, 0x0000); wWord(p, entryWord);
       setCGRAM(p, 1, 0x7c00); setCGRAM(p, 2, 0x03e0); setCGRAM(p, 3, 0x001f); setCGRAM(p, 4, 0x7fff);
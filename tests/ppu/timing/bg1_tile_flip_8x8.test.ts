@@ -38,8 +38,8 @@ describe('PPU timing: BG1 8x8 tile flips', () => {
     ppu.writeReg(TM, 0x01);
     ppu.writeReg(VMAIN, 0x00);
     ppu.writeReg(BG1SC, 0x00);
-    ppu.writeReg(BG12NBA, 0x10); // BG1 char base high nibble=1 -> 0x0800 words
-    ppu.writeReg(BGMODE, 0x00);  // 8x8
+    ppu.writeReg(BG12NBA, 0x01); // BG1 char base low nibble=1 -> 0x0800 words
+    ppu.writeReg(BGMODE, 0x01);  // mode 1 (BG1 4bpp), 8x8
 
     const charBase = 0x0800;
     writeTileColsLeft1Right2(ppu, charBase, 0);
@@ -52,7 +52,7 @@ describe('PPU timing: BG1 8x8 tile flips', () => {
     // Sample left (x=2) and right (x=6) without flip
     const sample = (x: number, y: number) => { const p = new TimingPPU(); p.reset();
       // copy state quickly by redoing writes
-      p.writeReg(TM, 0x01); p.writeReg(VMAIN, 0x00); p.writeReg(BG1SC, 0x00); p.writeReg(BG12NBA, 0x10); p.writeReg(BGMODE, 0x00);
+      p.writeReg(TM, 0x01); p.writeReg(VMAIN, 0x00); p.writeReg(BG1SC, 0x00); p.writeReg(BG12NBA, 0x01); p.writeReg(BGMODE, 0x01);
       // copy VRAM and CGRAM by redoing the minimal writes
       writeTileColsLeft1Right2(p, charBase, 0);
       setVAddr(p, 0x0000); wWord(p, 0x0000);
@@ -66,7 +66,7 @@ describe('PPU timing: BG1 8x8 tile flips', () => {
     setVAddr(ppu, 0x0000); wWord(ppu, 0x4000); // hflip
 
     const sampleFlip = (x: number, y: number) => { const p = new TimingPPU(); p.reset();
-      p.writeReg(TM, 0x01); p.writeReg(VMAIN, 0x00); p.writeReg(BG1SC, 0x00); p.writeReg(BG12NBA, 0x10); p.writeReg(BGMODE, 0x00);
+      p.writeReg(TM, 0x01); p.writeReg(VMAIN, 0x00); p.writeReg(BG1SC, 0x00); p.writeReg(BG12NBA, 0x01); p.writeReg(BGMODE, 0x01);
       writeTileColsLeft1Right2(p, charBase, 0);
       setVAddr(p, 0x0000); wWord(p, 0x4000);
       setCGRAM(p, 1, 0x7c00); setCGRAM(p, 2, 0x03e0);
@@ -81,8 +81,8 @@ describe('PPU timing: BG1 8x8 tile flips', () => {
     ppu.writeReg(TM, 0x01);
     ppu.writeReg(VMAIN, 0x00);
     ppu.writeReg(BG1SC, 0x00);
-    ppu.writeReg(BG12NBA, 0x10);
-    ppu.writeReg(BGMODE, 0x00);
+    ppu.writeReg(BG12NBA, 0x01);
+    ppu.writeReg(BGMODE, 0x01);
 
     const charBase = 0x0800;
     writeTileRowsTop1Bottom2(ppu, charBase, 1);
@@ -93,7 +93,7 @@ describe('PPU timing: BG1 8x8 tile flips', () => {
     setCGRAM(ppu, 2, 0x03e0); // green (bottom)
 
     const sample = (x: number, y: number) => { const p = new TimingPPU(); p.reset();
-      p.writeReg(TM, 0x01); p.writeReg(VMAIN, 0x00); p.writeReg(BG1SC, 0x00); p.writeReg(BG12NBA, 0x10); p.writeReg(BGMODE, 0x00);
+      p.writeReg(TM, 0x01); p.writeReg(VMAIN, 0x00); p.writeReg(BG1SC, 0x00); p.writeReg(BG12NBA, 0x01); p.writeReg(BGMODE, 0x01);
       writeTileRowsTop1Bottom2(p, charBase, 1);
       setVAddr(p, 0x0000); wWord(p, 0x0001);
       setCGRAM(p, 1, 0x7c00); setCGRAM(p, 2, 0x03e0);
@@ -106,7 +106,7 @@ describe('PPU timing: BG1 8x8 tile flips', () => {
     setVAddr(ppu, 0x0000); wWord(ppu, 0x8001); // vflip
 
     const sampleFlip = (x: number, y: number) => { const p = new TimingPPU(); p.reset();
-      p.writeReg(TM, 0x01); p.writeReg(VMAIN, 0x00); p.writeReg(BG1SC, 0x00); p.writeReg(BG12NBA, 0x10); p.writeReg(BGMODE, 0x00);
+      p.writeReg(TM, 0x01); p.writeReg(VMAIN, 0x00); p.writeReg(BG1SC, 0x00); p.writeReg(BG12NBA, 0x01); p.writeReg(BGMODE, 0x01);
       writeTileRowsTop1Bottom2(p, charBase, 1);
       setVAddr(p, 0x0000); wWord(p, 0x8001);
       setCGRAM(p, 1, 0x7c00); setCGRAM(p, 2, 0x03e0);
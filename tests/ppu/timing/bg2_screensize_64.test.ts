@@ -3,7 +3,7 @@ import { TimingPPU } from '../../../src/ppu/timing/ppu_timing';
 
 // Registers
 const VMAIN = 0x15; const VMADDL = 0x16; const VMADDH = 0x17; const VMDATAL = 0x18; const VMDATAH = 0x19;
-const BG2SC = 0x08; const BG12NBA = 0x0b; const TM = 0x2c; const BG2HOFS = 0x0f;
+const BG2SC = 0x08; const BG12NBA = 0x0b; const TM = 0x2c; const BG2HOFS = 0x0f; const BGMODE = 0x05;
 const CGADD = 0x21; const CGDATA = 0x22;
 
 function setVAddr(ppu: TimingPPU, addr: number) { ppu.writeReg(VMADDL, addr & 0xff); ppu.writeReg(VMADDH, (addr>>>8)&0xff); }
@@ -31,10 +31,11 @@ describe('PPU timing: BG2 64× screen width mapping', () => {
     const ppu = new TimingPPU(); ppu.reset();
     ppu.writeReg(TM, 0x02); // enable BG2 only
     ppu.writeReg(VMAIN, 0x00);
+    ppu.writeReg(BGMODE, 0x01); // mode 1: BG2 4bpp
     // BG2 map base 0x0000, size=01 (64x32)
     ppu.writeReg(BG2SC, 0x01);
-    // BG2 char base low nibble=1 -> 0x0800 words
-    ppu.writeReg(BG12NBA, 0x01);
+    // BG2 char base high nibble=1 -> 0x0800 words
+    ppu.writeReg(BG12NBA, 0x10);
 
     const charBase = 0x0800;
     writeSolid4bppTile(ppu, charBase, 1, 1); // red
@@ -31,8 +31,8 @@ describe('PPU timing: BG2 16x16 tiles per-dot', () => {
     ppu.writeReg(TM, 0x02); // BG2 only
     ppu.writeReg(VMAIN, 0x00);
     ppu.writeReg(BG2SC, 0x00);
-    ppu.writeReg(BG12NBA, 0x01); // BG2 char base low nibble=1 -> 0x0800 words
-    ppu.writeReg(BGMODE, 0x20); // bit5=1 -> BG2 16x16
+    ppu.writeReg(BG12NBA, 0x10); // BG2 char base high nibble=1 -> 0x0800 words
+    ppu.writeReg(BGMODE, 0x21); // mode 1 (BG2 4bpp), bit5=1 -> BG2 16x16
 
     const charBase = 0x0800;
     writeSolid4bppTile(ppu, charBase, 0, 1);
@@ -9,15 +9,14 @@ const CGADD = 0x21; const CGDATA = 0x22;
 function setVAddr(ppu: TimingPPU, addr: number) { ppu.writeReg(VMADDL, addr & 0xff); ppu.writeReg(VMADDH, (addr>>>8)&0xff); }
 function wWord(ppu: TimingPPU, w: number) { ppu.writeReg(VMDATAL, w & 0xff); ppu.writeReg(VMDATAH, (w>>>8)&0xff); }
 
-function writeSolid4bppTile(ppu: TimingPPU, charBaseWord: number, tileIndex: number, value: 1|2) {
-  const tileBase = charBaseWord + tileIndex * 16;
+function writeSolid2bppTile(ppu: TimingPPU, charBaseWord: number, tileIndex: number, value: 1|2) {
+  const tileBase = charBaseWord + tileIndex * 8;
   for (let y=0;y<8;y++) {
     setVAddr(ppu, tileBase + y);
     const p0 = (value===1)?0xff:0x00;
     const p1 = (value===2)?0xff:0x00;
     ppu.writeReg(VMDATAL, p0); ppu.writeReg(VMDATAH, p1);
   }
-  for (let y=0;y<8;y++) { setVAddr(ppu, tileBase + 8 + y); ppu.writeReg(VMDATAL, 0x00); ppu.writeReg(VMDATAH, 0x00); }
 }
 
 function setCGRAM(ppu: TimingPPU, index: number, bgr15: number) {
@@ -33,19 +32,20 @@ describe('PPU timing: BG3 64× screen width mapping', () => {
     ppu.writeReg(VMAIN, 0x00);
     // BG3 map base 0x0000, size=01 (64x32)
     ppu.writeReg(BG3SC, 0x01);
-    // BG3 char base high nibble=1 -> 0x0800 words
-    ppu.writeReg(BG34NBA, 0x10);
+    // BG3 char base low nibble=1 -> 0x0800 words
+    ppu.writeReg(BG34NBA, 0x01);
 
     const charBase = 0x0800;
-    writeSolid4bppTile(ppu, charBase, 1, 1); // red
-    writeSolid4bppTile(ppu, charBase, 2, 2); // green
+    writeSolid2bppTile(ppu, charBase, 1, 1); // red
+    writeSolid2bppTile(ppu, charBase, 2, 2); // green
 
     // Tilemap (31,0)=tile1, (32,0)=tile2 at +0x400
     setVAddr(ppu, 0x001f); wWord(ppu, 0x0001);
     setVAddr(ppu, 0x0400); wWord(ppu, 0x0002);
 
-    setCGRAM(ppu, 1, 0x7c00); // red
-    setCGRAM(ppu, 2, 0x03e0); // green
+    // Mode 0: BG3 is 2bpp with CGRAM 64-95
+    setCGRAM(ppu, 64 + 1, 0x7c00); // red
+    setCGRAM(ppu, 64 + 2, 0x03e0); // green
 
     // Scroll to 31*8 so that next dot crosses into second screen
     ppu.writeReg(BG3HOFS, 0xf8); ppu.writeReg(BG3HOFS, 0x00);
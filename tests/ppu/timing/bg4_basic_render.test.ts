@@ -9,15 +9,14 @@ const CGADD = 0x21; const CGDATA = 0x22;
 function setVAddr(ppu: TimingPPU, addr: number) { ppu.writeReg(VMADDL, addr & 0xff); ppu.writeReg(VMADDH, (addr>>>8)&0xff); }
 function wWord(ppu: TimingPPU, w: number) { ppu.writeReg(VMDATAL, w & 0xff); ppu.writeReg(VMDATAH, (w>>>8)&0xff); }
 
-function writeSolid4bppTile(ppu: TimingPPU, charBaseWord: number, tileIndex: number, value: 1|2) {
-  const tileBase = charBaseWord + tileIndex * 16;
+function writeSolid2bppTile(ppu: TimingPPU, charBaseWord: number, tileIndex: number, value: 1|2) {
+  const tileBase = charBaseWord + tileIndex * 8;
   for (let y=0;y<8;y++) {
     setVAddr(ppu, tileBase + y);
     const p0 = (value===1)?0xff:0x00;
     const p1 = (value===2)?0xff:0x00;
     ppu.writeReg(VMDATAL, p0); ppu.writeReg(VMDATAH, p1);
   }
-  for (let y=0;y<8;y++) { setVAddr(ppu, tileBase + 8 + y); ppu.writeReg(VMDATAL, 0x00); ppu.writeReg(VMDATAH, 0x00); }
 }
 
 function setCGRAM(ppu: TimingPPU, index: number, bgr15: number) {
@@ -27,21 +26,22 @@ function setCGRAM(ppu: TimingPPU, index: number, bgr15: number) {
 }
 
 describe('PPU timing: BG4 basic render', () => {
-  it('renders BG4 when enabled via TM bit3 and uses BG34NBA low nibble', () => {
+  it('renders BG4 when enabled via TM bit3 and uses BG34NBA high nibble', () => {
     const ppu = new TimingPPU(); ppu.reset();
     ppu.writeReg(TM, 0x08); // enable BG4 only
     ppu.writeReg(VMAIN, 0x00);
     ppu.writeReg(BG4SC, 0x00); // map base 0x0000, 32x32
-    ppu.writeReg(BG34NBA, 0x01); // BG4 char base low nibble=1 -> 0x0800 words
+    ppu.writeReg(BG34NBA, 0x10); // BG4 char base high nibble=1 -> 0x0800 words
 
     const charBase = 0x0800;
-    writeSolid4bppTile(ppu, charBase, 1, 1); // red
+    writeSolid2bppTile(ppu, charBase, 1, 1); // red
 
     // Map (0,0) -> tile 1
     setVAddr(ppu, 0x0000); wWord(ppu, 0x0001);
 
     // Set palette 1 to red
-    setCGRAM(ppu, 1, 0x7c00);
+    // Mode 0: BG4 is 2bpp with CGRAM 96-127
+    setCGRAM(ppu, 96 + 1, 0x7c00);
 
     // Pixel at (0,0) should be red
     expect(ppu.getPixelRGB15()).toBe(0x7c00);
@@ -9,14 +9,11 @@ const CGADD = 0x21; const CGDATA = 0x22;
 function setVAddr(ppu: TimingPPU, addr: number) { ppu.writeReg(VMADDL, addr & 0xff); ppu.writeReg(VMADDH, (addr>>>8)&0xff); }
 function wWord(ppu: TimingPPU, w: number) { ppu.writeReg(VMDATAL, w & 0xff); ppu.writeReg(VMDATAH, (w>>>8)&0xff); }
 
-function writeSolid4bppTile(ppu: TimingPPU, charBaseWord: number, tileIndex: number, colorVal: number) {
+function writeSolid2bppTile(ppu: TimingPPU, charBaseWord: number, tileIndex: number, colorVal: number) {
   const p0 = (colorVal & 1) ? 0xff : 0x00;
   const p1 = (colorVal & 2) ? 0xff : 0x00;
-  const p2 = (colorVal & 4) ? 0xff : 0x00;
-  const p3 = (colorVal & 8) ? 0xff : 0x00;
-  const tileBase = charBaseWord + tileIndex * 16;
+  const tileBase = charBaseWord + tileIndex * 8;
   for (let y=0;y<8;y++) { setVAddr(ppu, tileBase + y); ppu.writeReg(VMDATAL, p0); ppu.writeReg(VMDATAH, p1); }
-  for (let y=0;y<8;y++) { setVAddr(ppu, tileBase + 8 + y); ppu.writeReg(VMDATAL, p2); ppu.writeReg(VMDATAH, p3); }
 }
 
 function setCGRAM(ppu: TimingPPU, index: number, bgr15: number) {
@@ -31,22 +28,21 @@ describe('PPU timing: BG4 16x16 tiles per-dot', () => {
     ppu.writeReg(TM, 0x08); // BG4 only
     ppu.writeReg(VMAIN, 0x00);
     ppu.writeReg(BG4SC, 0x00);
-    ppu.writeReg(BG34NBA, 0x01); // BG4 char base low nibble=1 -> 0x0800 words
+    ppu.writeReg(BG34NBA, 0x10); // BG4 char base high nibble=1 -> 0x0800 words
     ppu.writeReg(BGMODE, 0x80); // bit7=1 -> BG4 16x16
 
     const charBase = 0x0800;
-    writeSolid4bppTile(ppu, charBase, 0, 1);
-    writeSolid4bppTile(ppu, charBase, 1, 2);
-    writeSolid4bppTile(ppu, charBase, 16, 3);
-    writeSolid4bppTile(ppu, charBase, 17, 4);
+    writeSolid2bppTile(ppu, charBase, 0, 1);
+    writeSolid2bppTile(ppu, charBase, 1, 2);
+    writeSolid2bppTile(ppu, charBase, 16, 3);
 
     // Map entry tileIndexBase = 0
     setVAddr(ppu, 0x0000); wWord(ppu, 0x0000);
 
-    setCGRAM(ppu, 1, 0x7c00); // red
-    setCGRAM(ppu, 2, 0x03e0); // green
-    setCGRAM(ppu, 3, 0x001f); // blue
-    setCGRAM(ppu, 4, 0x7fff); // white
+    // Mode 0: BG4 is 2bpp with CGRAM 96-127; subtile (1,1) is left transparent (backdrop)
+    setCGRAM(ppu, 96 + 1, 0x7c00); // red
+    setCGRAM(ppu, 96 + 2, 0x03e0); // green
+    setCGRAM(ppu, 96 + 3, 0x001f); // blue
 
     const sampleAt = (sx: number, sy: number): number => {
       ppu.reset();
@@ -58,7 +54,7 @@ describe('PPU timing: BG4 16x16 tiles per-dot', () => {
     expect(sampleAt(4,4)).toBe(0x7c00);
     expect(sampleAt(12,4)).toBe(0x03e0);
     expect(sampleAt(4,12)).toBe(0x001f);
-    expect(sampleAt(12,12)).toBe(0x7fff);
+    expect(sampleAt(12,12)).toBe(0x0000);
   });
 });
 
@@ -30,11 +30,12 @@ describe('PPU timing: Tile priority between BG1 and BG2', () => {
     const p = new TimingPPU(); p.reset();
     p.writeReg(TM, 0x03); // enable BG1 and BG2
     p.writeReg(VMAIN, 0x00);
+    p.writeReg(BGMODE, 0x01); // mode 1: BG1/BG2 4bpp
     // Place BG1 map at 0x0000 and BG2 map at 0x0800 words to avoid overlap
     p.writeReg(BG1SC, 0x00);
     p.writeReg(BG2SC, 0x10); // (0x10 & 0xFC)<<7 = 0x0800 words
-    // BG1 char base high nibble=3 (0x1800); BG2 low nibble=4 (0x2000)
-    p.writeReg(BG12NBA, 0x34);
+    // BG1 char base low nibble=3 (0x1800); BG2 high nibble=4 (0x2000)
+    p.writeReg(BG12NBA, 0x43);
 
     const bg1Char = 0x1800; const bg2Char = 0x2000;
     writeSolid4bppTile(p, bg1Char, 1, 1); // red
@@ -52,12 +53,14 @@ describe('PPU timing: Tile priority between BG1 and BG2', () => {
     // Scenario B: BG1 prio=1, BG2 prio=1 -> tie; BG1 should win (red)
     setVAddr(p, 0x0000); wWord(p, 0x2001);      // BG1 prio=1
     setVAddr(p, 0x0800); wWord(p, 0x2002);      // BG2 prio=1
+    p.stepScanline(); // dot 0 was already fetched; sample the next line
 
     expect(p.getPixelRGB15()).toBe(0x7c00);
 
     // Scenario C: BG1 prio=0, BG2 prio=0 -> tie; BG1 should win (red)
     setVAddr(p, 0x0000); wWord(p, 0x0001);
     setVAddr(p, 0x0800); wWord(p, 0x0002);
+    p.stepScanline();
 
     expect(p.getPixelRGB15()).toBe(0x7c00);
   });
@@ -32,8 +32,8 @@ describe('PPU timing: BG1 16x16 tiles per-dot', () => {
     ppu.writeReg(TM, 0x01);
     ppu.writeReg(VMAIN, 0x00);
     ppu.writeReg(BG1SC, 0x00);
-    ppu.writeReg(BG12NBA, 0x10); // char base = 0x0800 words
-    ppu.writeReg(BGMODE, 0x10); // bit4=1 -> BG1 16x16
+    ppu.writeReg(BG12NBA, 0x01); // BG1 char base = 0x0800 words
+    ppu.writeReg(BGMODE, 0x11); // mode 1 (BG1 4bpp), bit4=1 -> BG1 16x16
 
     const charBase = 0x0800;
     // Prepare four tiles with palette indices 1,2,3,4 across subtiles (0,0),(1,0),(0,1),(1,1)
@@ -3,7 +3,7 @@ import { TimingPPU } from '../../../src/ppu/timing/ppu_timing';
 
 // Registers
 const VMAIN = 0x15; const VMADDL = 0x16; const VMADDH = 0x17; const VMDATAL = 0x18; const VMDATAH = 0x19;
-const BG1SC = 0x07; const BG2SC = 0x08; const BG12NBA = 0x0b; const TM = 0x2c; const TS = 0x2d; const CGADSUB = 0x31;
+const BGMODE = 0x05; const BG1SC = 0x07; const BG2SC = 0x08; const BG12NBA = 0x0b; const TM = 0x2c; const TS = 0x2d; const CGADSUB = 0x31;
 const CGADD = 0x21; const CGDATA = 0x22;
 
 function setVAddr(ppu: TimingPPU, addr: number) { ppu.writeReg(VMADDL, addr & 0xff); ppu.writeReg(VMADDH, (addr>>>8)&0xff); }
@@ -31,13 +31,14 @@ describe('PPU timing: color math add half (main BG1 + sub BG2)', () => {
     p.writeReg(TM, 0x01); // main: BG1
     p.writeReg(TS, 0x02); // sub: BG2
     p.writeReg(VMAIN, 0x00);
+    p.writeReg(BGMODE, 0x01); // mode 1: BG1/BG2 4bpp
 
     // Separate map bases to avoid overwriting
     p.writeReg(BG1SC, 0x00);     // map base 0x0000
     p.writeReg(BG2SC, 0x10);     // (0x10 & 0xFC)<<7 = 0x0800 words
 
-    // BG1 char base high nibble=1 -> 0x0800; BG2 low nibble=2 -> 0x1000
-    p.writeReg(BG12NBA, 0x12);
+    // BG1 char base low nibble=1 -> 0x0800; BG2 high nibble=2 -> 0x1000
+    p.writeReg(BG12NBA, 0x21);
 
     const bg1Char = 0x0800; const bg2Char = 0x1000;
     writeSolid4bppTile(p, bg1Char, 1, 1); // red
@@ -51,8 +52,8 @@ describe('PPU timing: color math add half (main BG1 + sub BG2)', () => {
     setCGRAM(p, 1, 0x7c00); // red
     setCGRAM(p, 2, 0x03e0); // green
 
-    // CGADSUB: apply to BG1 (bit0), half (bit7=1), add (bit6=0)
-    p.writeReg(CGADSUB, 0x81);
+    // CGADSUB: apply to BG1 (bit0), enable (bit5), half (bit6=1), add (bit7=0)
+    p.writeReg(CGADSUB, 0x61);
 
     // Expected: (red + green)/2 = (R=31,G=31,B=0)/2 -> (15,15,0) => 0x3DE0
     expect(p.getPixelRGB15()).toBe(0x3DE0);
@@ -4,7 +4,7 @@ import { TimingPPU } from '../../../src/ppu/timing/ppu_timing';
 // Registers
 const VMAIN = 0x15; const VMADDL = 0x16; const VMADDH = 0x17; const VMDATAL = 0x18; const VMDATAH = 0x19;
 const BG1SC = 0x07; const BG12NBA = 0x0b; const TM = 0x2c; const CGADSUB = 0x31; const COLDATA = 0x32;
-const CGADD = 0x21; const CGDATA = 0x22;
+const CGADD = 0x21; const CGDATA = 0x22; const CGWSEL = 0x30; const BGMODE = 0x05;
 
 function setVAddr(ppu: TimingPPU, addr: number) { ppu.writeReg(VMADDL, addr & 0xff); ppu.writeReg(VMADDH, (addr>>>8)&0xff); }
 function wWord(ppu: TimingPPU, w: number) { ppu.writeReg(VMDATAL, w & 0xff); ppu.writeReg(VMDATAH, (w>>>8)&0xff); }
@@ -30,10 +30,11 @@ describe('PPU timing: color math add half with fixed color', () => {
     const p = new TimingPPU(); p.reset();
     p.writeReg(TM, 0x01); // main: BG1 only
     p.writeReg(VMAIN, 0x00);
+    p.writeReg(BGMODE, 0x01); // Mode 1 (BG1 4bpp)
 
-    // BG1 map base 0x0000, char base high nibble=1 -> 0x0800
+    // BG1 map base 0x0000, char base low nibble=1 -> 0x0800
     p.writeReg(BG1SC, 0x00);
-    p.writeReg(BG12NBA, 0x10);
+    p.writeReg(BG12NBA, 0x01);
 
     const bg1Char = 0x0800;
     writeSolid4bppTile(p, bg1Char, 1, 1); // red
@@ -44,11 +45,13 @@ describe('PPU timing: color math add half with fixed color', () => {
     // Colors
     setCGRAM(p, 1, 0x7c00); // red
 
-    // Set fixed blue = 31 via COLDATA (select B with bit5)
-    p.writeReg(COLDATA, 0x20 | 31);
+    // Set fixed blue = 31 via COLDATA (select B with bit7)
+    p.writeReg(COLDATA, 0x80 | 31);
+    // CGWSEL: fixed color as the sub screen (bit2)
+    p.writeReg(CGWSEL, 0x04);
 
-    // CGADSUB: apply to BG1 (bit0), use fixed (bit5), add (bit6=0), half (bit7=1)
-    p.writeReg(CGADSUB, 0xA1);
+    // CGADSUB: apply to BG1 (bit0), enable (bit5), half (bit6=1), add (bit7=0)
+    p.writeReg(CGADSUB, 0x61);
 
     // Expected: (red + blue)/2 => (15,0,15) => 0x3C0F
     expect(p.getPixelRGB15()).toBe(0x3C0F);
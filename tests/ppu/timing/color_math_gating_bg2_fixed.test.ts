@@ -4,7 +4,7 @@ import { TimingPPU } from '../../../src/ppu/timing/ppu_timing';
 // Registers
 const VMAIN = 0x15; const VMADDL = 0x16; const VMADDH = 0x17; const VMDATAL = 0x18; const VMDATAH = 0x19;
 const BG2SC = 0x08; const BG12NBA = 0x0b; const TM = 0x2c; const CGADSUB = 0x31; const COLDATA = 0x32;
-const CGADD = 0x21; const CGDATA = 0x22;
+const CGADD = 0x21; const CGDATA = 0x22; const CGWSEL = 0x30; const BGMODE = 0x05;
 
 function setVAddr(ppu: TimingPPU, addr: number) { ppu.writeReg(VMADDL, addr & 0xff); ppu.writeReg(VMADDH, (addr>>>8)&0xff); }
 function wWord(ppu: TimingPPU, w: number) { ppu.writeReg(VMDATAL, w & 0xff); ppu.writeReg(VMDATAH, (w>>>8)&0xff); }
@@ -30,10 +30,11 @@ describe('PPU timing: CGADSUB gating per-layer (BG2)', () => {
     const p = new TimingPPU(); p.reset();
     p.writeReg(TM, 0x02); // main: BG2 only
     p.writeReg(VMAIN, 0x00);
+    p.writeReg(BGMODE, 0x01); // Mode 1 (BG2 4bpp)
 
-    // BG2 map base 0x0000, BG2 char base low nibble=1 -> 0x0800
+    // BG2 map base 0x0000, BG2 char base high nibble=1 -> 0x0800
     p.writeReg(BG2SC, 0x00);
-    p.writeReg(BG12NBA, 0x01);
+    p.writeReg(BG12NBA, 0x10);
 
     const bg2Char = 0x0800;
     writeSolid4bppTile(p, bg2Char, 1, 1); // red
@@ -44,14 +45,17 @@ describe('PPU timing: CGADSUB gating per-layer (BG2)', () => {
     setCGRAM(p, 1, 0x7c00); // red
 
     // Fixed blue=31
-    p.writeReg(COLDATA, 0x20 | 31);
+    p.writeReg(COLDATA, 0x80 | 31);
+    p.writeReg(CGWSEL, 0x04); // fixed color as the sub screen
 
-    // CGADSUB: use fixed + half add, but no BG2 gating bit -> expect unchanged red
-    p.writeReg(CGADSUB, 0xA0);
+    // CGADSUB: use fixed + half add, but target BG1 only -> expect unchanged red
+    p.writeReg(CGADSUB, 0x61);
     expect(p.getPixelRGB15()).toBe(0x7c00);
 
     // Now enable BG2 target (bit1)
-    p.writeReg(CGADSUB, 0xA2);
+    p.writeReg(CGADSUB, 0x62);
+    // The first 8-dot group was fetched before the write; sample the next line
+    p.stepScanline();
     // Expect (red + blue)/2 = (15,0,15) => 0x3C0F
     expect(p.getPixelRGB15()).toBe(0x3C0F);
   });
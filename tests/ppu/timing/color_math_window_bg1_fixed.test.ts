@@ -5,7 +5,7 @@ import { TimingPPU } from '../../../src/ppu/timing/ppu_timing';
 const VMAIN = 0x15; const VMADDL = 0x16; const VMADDH = 0x17; const VMDATAL = 0x18; const VMDATAH = 0x19;
 const BG1SC = 0x07; const BG12NBA = 0x0b; const TM = 0x2c; const CGADSUB = 0x31; const COLDATA = 0x32;
 const W12SEL = 0x23; const WH0 = 0x26; const WH1 = 0x27;
-const CGADD = 0x21; const CGDATA = 0x22;
+const CGADD = 0x21; const CGDATA = 0x22; const CGWSEL = 0x30; const BGMODE = 0x05;
 
 function setVAddr(ppu: TimingPPU, addr: number) { ppu.writeReg(VMADDL, addr & 0xff); ppu.writeReg(VMADDH, (addr>>>8)&0xff); }
 function wWord(ppu: TimingPPU, w: number) { ppu.writeReg(VMDATAL, w & 0xff); ppu.writeReg(VMDATAH, (w>>>8)&0xff); }
@@ -31,10 +31,11 @@ describe('PPU timing: BG1 color math window (W12SEL/WH0/WH1)', () => {
     const p = new TimingPPU(); p.reset();
     p.writeReg(TM, 0x01); // main: BG1 only
     p.writeReg(VMAIN, 0x00);
+    p.writeReg(BGMODE, 0x01); // Mode 1 (BG1 4bpp)
 
-    // BG1 map base 0x0000, char base high nibble=1 -> 0x0800
+    // BG1 map base 0x0000, char base low nibble=1 -> 0x0800
     p.writeReg(BG1SC, 0x00);
-    p.writeReg(BG12NBA, 0x10);
+    p.writeReg(BG12NBA, 0x01);
 
     const bg1Char = 0x0800;
     writeSolid4bppTile(p, bg1Char, 1, 1); // red
@@ -46,10 +47,12 @@ describe('PPU timing: BG1 color math window (W12SEL/WH0/WH1)', () => {
     setCGRAM(p, 1, 0x7c00); // red
 
     // Fixed blue=31 via COLDATA
-    p.writeReg(COLDATA, 0x20 | 31);
+    p.writeReg(COLDATA, 0x80 | 31);
+    // CGWSEL: math only inside the color window (bit0), fixed color as the sub screen (bit2)
+    p.writeReg(CGWSEL, 0x05);
 
-    // CGADSUB: target BG1 (bit0), use fixed (bit5), half add (bit7)
-    p.writeReg(CGADSUB, 0xA1);
+    // CGADSUB: target BG1 (bit0), enable (bit5), half add (bit6)
+    p.writeReg(CGADSUB, 0x61);
 
     // Window: enable BG1 W1 (bit0), not inverted (bit1=0), WH0=0, WH1=127 (left half)
     p.writeReg(W12SEL, 0x01);
@@ -60,12 +63,12 @@ describe('PPU timing: BG1 color math window (W12SEL/WH0/WH1)', () => {
     const sampleAtX = (x: number) => {
       const pp = new TimingPPU(); pp.reset();
       // Re-create state
-      pp.writeReg(TM, 0x01); pp.writeReg(VMAIN, 0x00); pp.writeReg(BG1SC, 0x00); pp.writeReg(BG12NBA, 0x10);
+      pp.writeReg(TM, 0x01); pp.writeReg(VMAIN, 0x00); pp.writeReg(BGMODE, 0x01); pp.writeReg(BG1SC, 0x00); pp.writeReg(BG12NBA, 0x01);
       writeSolid4bppTile(pp, bg1Char, 1, 1);
       for (let i=0;i<32;i++) { setVAddr(pp, 0x0000 + i); wWord(pp, 0x0001); }
       setCGRAM(pp, 1, 0x7c00);
-      pp.writeReg(COLDATA, 0x20 | 31);
-      pp.writeReg(CGADSUB, 0xA1);
+      pp.writeReg(COLDATA, 0x80 | 31); pp.writeReg(CGWSEL, 0x05);
+      pp.writeReg(CGADSUB, 0x61);
       pp.writeReg(W12SEL, 0x01); pp.writeReg(WH0, 0x00); pp.writeReg(WH1, 0x7F);
       for (let d=0; d<x; d++) pp.stepDot();
       return pp.getPixelRGB15();
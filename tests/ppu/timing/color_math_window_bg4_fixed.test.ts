@@ -5,19 +5,16 @@ import { TimingPPU } from '../../../src/ppu/timing/ppu_timing';
 const VMAIN = 0x15; const VMADDL = 0x16; const VMADDH = 0x17; const VMDATAL = 0x18; const VMDATAH = 0x19;
 const BG4SC = 0x0a; const BG34NBA = 0x0c; const TM = 0x2c; const CGADSUB = 0x31; const COLDATA = 0x32;
 const W34SEL = 0x24; const WH0 = 0x26; const WH1 = 0x27;
-const CGADD = 0x21; const CGDATA = 0x22;
+const CGADD = 0x21; const CGDATA = 0x22; const CGWSEL = 0x30;
 
 function setVAddr(ppu: TimingPPU, addr: number) { ppu.writeReg(VMADDL, addr & 0xff); ppu.writeReg(VMADDH, (addr>>>8)&0xff); }
 function wWord(ppu: TimingPPU, w: number) { ppu.writeReg(VMDATAL, w & 0xff); ppu.writeReg(VMDATAH, (w>>>8)&0xff); }
 
-function writeSolid4bppTile(ppu: TimingPPU, charBaseWord: number, tileIndex: number, colorVal: number) {
+function writeSolid2bppTile(ppu: TimingPPU, charBaseWord: number, tileIndex: number, colorVal: number) {
   const p0 = (colorVal & 1) ? 0xff : 0x00;
   const p1 = (colorVal & 2) ? 0xff : 0x00;
-  const p2 = (colorVal & 4) ? 0xff : 0x00;
-  const p3 = (colorVal & 8) ? 0xff : 0x00;
-  const tileBase = charBaseWord + tileIndex * 16;
+  const tileBase = charBaseWord + tileIndex * 8;
   for (let y=0;y<8;y++) { setVAddr(ppu, tileBase + y); ppu.writeReg(VMDATAL, p0); ppu.writeReg(VMDATAH, p1); }
-  for (let y=0;y<8;y++) { setVAddr(ppu, tileBase + 8 + y); ppu.writeReg(VMDATAL, p2); ppu.writeReg(VMDATAH, p3); }
 }
 
 function setCGRAM(ppu: TimingPPU, index: number, bgr15: number) {
@@ -32,27 +29,29 @@ describe('PPU timing: BG4 color math window (W34SEL/WH0/WH1)', () => {
     p.writeReg(TM, 0x08); // main: BG4 only
     p.writeReg(VMAIN, 0x00);
 
-    // BG4 map base 0x0000, BG4 char base low nibble=1 -> 0x0800
+    // BG4 map base 0x0000, BG4 char base high nibble=1 -> 0x0800
     p.writeReg(BG4SC, 0x00);
-    p.writeReg(BG34NBA, 0x01);
+    p.writeReg(BG34NBA, 0x10);
 
     const bg4Char = 0x0800;
-    writeSolid4bppTile(p, bg4Char, 1, 1); // red
+    writeSolid2bppTile(p, bg4Char, 1, 1); // red
 
     // Map row: fill tiles 0..31 with tile 1 so the whole row is red
     for (let i=0;i<32;i++) { setVAddr(p, 0x0000 + i); wWord(p, 0x0001); }
 
-    // Colors
-    setCGRAM(p, 1, 0x7c00); // red
+    // Colors (Mode 0: BG4 is 2bpp with CGRAM 96-127)
+    setCGRAM(p, 96 + 1, 0x7c00); // red
 
     // Fixed blue=31 via COLDATA
-    p.writeReg(COLDATA, 0x20 | 31);
+    p.writeReg(COLDATA, 0x80 | 31);
+    // CGWSEL: math only inside the color window (bit0), fixed color as the sub screen (bit2)
+    p.writeReg(CGWSEL, 0x05);
 
-    // CGADSUB: target BG4 (bit3), use fixed (bit5), half add (bit7)
-    p.writeReg(CGADSUB, 0xA8);
+    // CGADSUB: target BG4 (bit3), enable (bit5), half add (bit6)
+    p.writeReg(CGADSUB, 0x68);
 
-    // Window: enable BG4 W1 (bit4), not inverted (bit5=0), WH0=0, WH1=127 (left half)
-    p.writeReg(W34SEL, 0x10);
+    // Window: enable BG4 W1 (bit2), not inverted (bit6=0), WH0=0, WH1=127 (left half)
+    p.writeReg(W34SEL, 0x04);
     p.writeReg(WH0, 0x00);
     p.writeReg(WH1, 0x7F);
 
@@ -60,13 +59,13 @@ describe('PPU timing: BG4 color math window (W34SEL/WH0/WH1)', () => {
     const sampleAtX = (x: number) => {
       const pp = new TimingPPU(); pp.reset();
       // Re-create state
-      pp.writeReg(TM, 0x08); pp.writeReg(VMAIN, 0x00); pp.writeReg(BG4SC, 0x00); pp.writeReg(BG34NBA, 0x01);
-      writeSolid4bppTile(pp, bg4Char, 1, 1);
+      pp.writeReg(TM, 0x08); pp.writeReg(VMAIN, 0x00); pp.writeReg(BG4SC, 0x00); pp.writeReg(BG34NBA, 0x10);
+      writeSolid2bppTile(pp, bg4Char, 1, 1);
       for (let i=0;i<32;i++) { setVAddr(pp, 0x0000 + i); wWord(pp, 0x0001); }
-      setCGRAM(pp, 1, 0x7c00);
-      pp.writeReg(COLDATA, 0x20 | 31);
-      pp.writeReg(CGADSUB, 0xA8);
-      pp.writeReg(W34SEL, 0x10); pp.writeReg(WH0, 0x00); pp.writeReg(WH1, 0x7F);
+      setCGRAM(pp, 96 + 1, 0x7c00);
+      pp.writeReg(COLDATA, 0x80 | 31); pp.writeReg(CGWSEL, 0x05);
+      pp.writeReg(CGADSUB, 0x68);
+      pp.writeReg(W34SEL, 0x04); pp.writeReg(WH0, 0x00); pp.writeReg(WH1, 0x7F);
       for (let d=0; d<x; d++) pp.stepDot();
       return pp.getPixelRGB15();
     };
@@ -1,44 +1,64 @@
 import { describe, it, expect } from 'vitest';
 import { TimingPPU } from '../../../src/ppu/timing/ppu_timing';
 
-// Verify $2137 latch behavior and $213C-$213F reads.
-describe('PPU timing: $2137 HV latch and $213C-$213F counter reads', () => {
-  it('latches H and V; low reads repeat until high is read; high read clears latch for that counter', () => {
+// Verify $2137 latch behavior, $213C/$213D counter reads and $213F status.
+describe('PPU timing: $2137 HV latch and $213C/$213D/$213F reads', () => {
+  it('latches H and V on $2137 read; each counter reads low byte then bit 8; $213F resets the flip-flops', () => {
     const ppu = new TimingPPU();
     ppu.reset();
 
-    // Advance to a known position
-    // Move to scanline 10, dot 123
-    for (let sl = 0; sl < 10; sl++) ppu.stepScanline();
-    for (let d = 0; d < 123; d++) ppu.stepDot();
+    // Move to scanline 260, dot 300 so both counters need bit 8
+    for (let sl = 0; sl < 260; sl++) ppu.stepScanline();
+    for (let d = 0; d < 300; d++) ppu.stepDot();
+    expect(ppu.getVCounter()).toBe(260);
+    expect(ppu.getHCounter()).toBe(300);
 
-    const hAtLatch = ppu.getHCounter() & 0xffff;
-    const vAtLatch = ppu.getVCounter() & 0xffff;
+    // Reading SLHV latches both counters
+    ppu.readReg(0x37);
+    for (let d = 0; d < 5; d++) ppu.stepDot();
 
-    // Write $2137 to latch HV
-    ppu.writeReg(0x37, 0x00);
+    // OPHCT: low byte, then bit 8, then low byte again
+    expect(ppu.readReg(0x3c)).toBe(300 & 0xff);
+    expect(ppu.readReg(0x3c)).toBe(1);
+    expect(ppu.readReg(0x3c)).toBe(300 & 0xff);
 
-    // Read OPHCT low twice; should be the same (latched)
-    const hL1 = ppu.readReg(0x3c);
-    const hL2 = ppu.readReg(0x3c);
-    expect(hL1).toBe(hAtLatch & 0xff);
-    expect(hL2).toBe(hAtLatch & 0xff);
+    // OPVCT has its own flip-flop
+    expect(ppu.readReg(0x3d)).toBe(260 & 0xff);
+    expect(ppu.readReg(0x3d)).toBe(1);
 
-    // Read OPHCT high; clears H latch
-    const hH = ppu.readReg(0x3d);
-    expect(hH).toBe((hAtLatch >>> 8) & 0xff);
+    // STAT78 reports the latch, then clears it and resets both flip-flops
+    const stat = ppu.readReg(0x3f);
+    expect(stat & 0x40).toBe(0x40);
+    expect(stat & 0x0f).toBe(0x03);
+    expect(ppu.readReg(0x3f) & 0x40).toBe(0);
+    expect(ppu.readReg(0x3c)).toBe(300 & 0xff);
 
-    // Read OPVCT low/high (V latch still valid)
-    const vL = ppu.readReg(0x3e);
-    const vH = ppu.readReg(0x3f);
-    expect(vL).toBe(vAtLatch & 0xff);
-    expect(vH).toBe((vAtLatch >>> 8) & 0xff);
+    // The counters hold their latched values until the next latch
+    expect(ppu.readReg(0x3d)).toBe(260 & 0xff);
+    ppu.readReg(0x37);
+    ppu.readReg(0x3f);
+    expect(ppu.readReg(0x3c)).toBe(305 & 0xff);
+  });
 
-    // After clearing both latches, counters should read live values (advance some dots)
-    for (let d = 0; d < 5; d++) ppu.stepDot();
-    const liveH = ppu.getHCounter() & 0xffff;
-    const readHLo = ppu.readReg(0x3c);
-    expect(readHLo).toBe(liveH & 0xff);
+  it('WRIO bit7 gates $2137 and latches on a 1 -> 0 edge', () => {
+    const ppu = new TimingPPU();
+    ppu.reset();
+    for (let d = 0; d < 40; d++) ppu.stepDot();
+    ppu.setLatchEnable(false);
+    expect(ppu.readReg(0x3f) & 0x40).toBe(0x40);
+    expect(ppu.readReg(0x3c)).toBe(40);
+
+    for (let d = 0; d < 10; d++) ppu.stepDot();
+    ppu.readReg(0x37); // ignored while bit7 is clear
+    ppu.readReg(0x3f);
+    expect(ppu.readReg(0x3c)).toBe(40);
   });
-});
 
+  it('$213F bit7 shows the interlace field', () => {
+    const ppu = new TimingPPU();
+    ppu.reset();
+    expect(ppu.readReg(0x3f) & 0x80).toBe(0);
+    for (let sl = 0; sl < 262; sl++) ppu.stepScanline();
+    expect(ppu.readReg(0x3f) & 0x80).toBe(0x80);
+  });
+});
@@ -2,12 +2,14 @@ import { describe, it, expect } from 'vitest';
 import { SNESBus } from '../../../src/bus/snesBus';
 import { Cartridge } from '../../../src/cart/cartridge';
 import { TimingPPU } from '../../../src/ppu/timing/ppu_timing';
+import { Emulator } from '../../../src/emulator/core';
+import { Scheduler } from '../../../src/emulator/scheduler';
 
+const WRIO = 0x00004201;
 const SLHV = 0x00002137;
-const OPHCT_L = 0x0000213c;
-const OPHCT_H = 0x0000213d;
-const OPVCT_L = 0x0000213e;
-const OPVCT_H = 0x0000213f;
+const OPHCT = 0x0000213c;
+const OPVCT = 0x0000213d;
+const STAT78 = 0x0000213f;
 
 function mkCart(): Cartridge {
   const rom = new Uint8Array(0x20000);
@@ -15,29 +17,53 @@ function mkCart(): Cartridge {
 }
 
 describe('Bus bridge: $2137/$213C-$213F via TimingPPU counters', () => {
+  it('selects TimingPPU per bus instance', () => {
+    expect(new SNESBus(mkCart(), { ppu: 'timing' }).getPPU()).toBeInstanceOf(TimingPPU);
+    expect(new SNESBus(mkCart()).getPPU()).not.toBeInstanceOf(TimingPPU);
+  });
+
   it('latches and reads HV counters through bus', () => {
-    const bus = new SNESBus(mkCart());
-    const tppu = new TimingPPU();
+    const bus = new SNESBus(mkCart(), { ppu: 'timing' });
+    const tppu = bus.getPPU() as TimingPPU;
     tppu.reset();
-    (bus as any).ppu = tppu;
 
     // Move to scanline 5, dot 42
     for (let sl = 0; sl < 5; sl++) tppu.stepScanline();
     for (let d = 0; d < 42; d++) tppu.stepDot();
 
-    const h = tppu.getHCounter() & 0xffff;
-    const v = tppu.getVCounter() & 0xffff;
+    bus.read8(SLHV);
+    bus.read8(STAT78);
+    expect(bus.read8(OPHCT)).toBe(42);
+    expect(bus.read8(OPHCT)).toBe(0);
+    expect(bus.read8(OPVCT)).toBe(5);
+    expect(bus.read8(OPVCT)).toBe(0);
+  });
+
+  it('WRIO bit7 falling edge latches through the bus', () => {
+    const bus = new SNESBus(mkCart(), { ppu: 'timing' });
+    const tppu = bus.getPPU() as TimingPPU;
+    tppu.reset();
+    for (let d = 0; d < 17; d++) tppu.stepDot();
+    bus.write8(WRIO, 0xff);
+    bus.write8(WRIO, 0x7f);
+    expect(bus.read8(STAT78) & 0x40).toBe(0x40);
+    expect(bus.read8(OPHCT)).toBe(17);
+  });
 
-    bus.write8(SLHV, 0x00);
-    const hL = bus.read8(OPHCT_L);
-    const hH = bus.read8(OPHCT_H);
-    const vL = bus.read8(OPVCT_L);
-    const vH = bus.read8(OPVCT_H);
+  it('follows the bus H position when the bus drives timing', () => {
+    const bus = new SNESBus(mkCart(), { ppu: 'timing' });
+    bus.updateHVTimer(123);
+    bus.read8(SLHV);
+    expect(bus.read8(OPHCT)).toBe(123);
+  });
 
-    expect(hL).toBe(h & 0xff);
-    expect(hH).toBe((h >>> 8) & 0xff);
-    expect(vL).toBe(v & 0xff);
-    expect(vH).toBe((v >>> 8) & 0xff);
+  it('runs under the line-driven Scheduler when selected for an emulator', () => {
+    const emu = Emulator.fromCartridge(mkCart(), { ppu: 'timing' });
+    emu.reset();
+    const ppu = emu.bus.getPPU() as TimingPPU;
+    new Scheduler(emu, 20).stepFrame();
+    expect(ppu.frame).toBe(1);
+    expect(ppu.getVCounter()).toBe(0);
+    expect(ppu.getHCounter()).toBe(0);
   });
 });
-
@@ -3,7 +3,7 @@ import { TimingPPU } from '../../../src/ppu/timing/ppu_timing';
 
 // Registers
 const VMAIN = 0x15; const VMADDL = 0x16; const VMADDH = 0x17; const VMDATAL = 0x18; const VMDATAH = 0x19;
-const BG1SC = 0x07; const BG12NBA = 0x0b; const BG1HOFS = 0x0d; const TM = 0x2c;
+const BGMODE = 0x05; const BG1SC = 0x07; const BG12NBA = 0x0b; const BG1HOFS = 0x0d; const TM = 0x2c;
 const CGADD = 0x21; const CGDATA = 0x22;
 
 function setVAddr(ppu: TimingPPU, addr: number) { ppu.writeReg(VMADDL, addr & 0xff); ppu.writeReg(VMADDH, (addr>>>8)&0xff); }
@@ -39,9 +39,10 @@ describe('PPU timing: mid-scanline BG1 HOFS applies at next 8px boundary', () =>
     ppu.writeReg(TM, 0x01);
     // Set VMAIN to inc after high
     ppu.writeReg(VMAIN, 0x00);
-    // BG1 map at 0x0000, char base nibble=1 -> 0x0800 words
+    // Mode 1 (BG1 4bpp); BG1 map at 0x0000, char base low nibble=1 -> 0x0800 words
+    ppu.writeReg(BGMODE, 0x01);
     ppu.writeReg(BG1SC, 0x00);
-    ppu.writeReg(BG12NBA, 0x10);
+    ppu.writeReg(BG12NBA, 0x01);
 
     const charBase = 0x0800;
 
@@ -79,5 +80,28 @@ describe('PPU timing: mid-scanline BG1 HOFS applies at next 8px boundary', () =>
     for (let i=0;i<8;i++) expect(colors[i]).toBe(0x7c00);
     for (let i=8;i<16;i++) expect(colors[i]).toBe(0x03e0);
   });
+
+  it('holds a write made inside a group until the next boundary', () => {
+    const ppu = new TimingPPU(); ppu.reset();
+    ppu.writeReg(TM, 0x01);
+    ppu.writeReg(VMAIN, 0x00);
+    ppu.writeReg(BGMODE, 0x01);
+    ppu.writeReg(BG1SC, 0x00);
+    ppu.writeReg(BG12NBA, 0x01);
+    writeSolid4bppTile(ppu, 0x0800, 1, 1);
+    writeSolid4bppTile(ppu, 0x0800, 2, 2);
+    // Map entries 0, 1 and 3 -> tile 1 (red), entry 2 -> tile 2 (green)
+    for (let i=0;i<4;i++) { setVAddr(ppu, i); wWord(ppu, i === 2 ? 0x0002 : 0x0001); }
+    setCGRAM(ppu, 1, 0x7c00);
+    setCGRAM(ppu, 2, 0x03e0);
+
+    for (let d=0; d<12; d++) ppu.stepDot();
+    // HOFS=8 at dot 12: dots 12-15 keep the entry 1 fetch, dots 16-19 read entry 3 (entry 2 if either were off)
+    ppu.writeReg(BG1HOFS, 0x08);
+    ppu.writeReg(BG1HOFS, 0x00);
+    const colors: number[] = [];
+    for (let d=12; d<20; d++) { colors.push(ppu.getPixelRGB15()); ppu.stepDot(); }
+    expect(colors).toEqual(new Array(8).fill(0x7c00));
+  });
 });
 
@@ -10,7 +10,7 @@ describe('PPU timing: OAM ports $2102/$2103/$2104/$2138 basic sequencing', () =>
   it('sets address and auto-increments on write and read', () => {
     const ppu = new TimingPPU(); ppu.reset();
 
-    // Set address to 0x020
+    // Set word address 0x020
     ppu.writeReg(OAMADDL, 0x20);
     ppu.writeReg(OAMADDH, 0x00);
 
@@ -27,9 +27,9 @@ describe('PPU timing: OAM ports $2102/$2103/$2104/$2138 basic sequencing', () =>
     expect(ppu.readReg(OAMREAD)).toBe(0x33);
   });
 
-  it('high address bits (0..3) via $2103 map into addr 0x100/0x200/0x300 region', () => {
+  it('$2103 bit0 selects word 0x100, the high table at byte 0x200', () => {
     const ppu = new TimingPPU(); ppu.reset();
-    // Set to 0x100 exactly (low=0, high=1)
+    // Word 0x100 (low=0, high=1)
     ppu.writeReg(OAMADDL, 0x00);
     ppu.writeReg(OAMADDH, 0x01);
     ppu.writeReg(OAMDATA, 0x7A);
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { applyVideoFilter, applyVideoFilterChain, parseVideoFilterChain, VideoImage } from '../../src/ppu/filters';
+
+// Image from rows of 0xRRGGBB values
+function image(rows: number[][]): VideoImage {
+  const height = rows.length;
+  const width = rows[0].length;
+  const rgba = new Uint8ClampedArray(width * height * 4);
+  rows.flat().forEach((c, i) => rgba.set([(c >> 16) & 0xff, (c >> 8) & 0xff, c & 0xff, 255], i * 4));
+  return { width, height, rgba };
+}
+
+const px = (img: VideoImage, x: number, y: number) => {
+  const o = (y * img.width + x) * 4;
+  return ((img.rgba[o] << 16) | (img.rgba[o + 1] << 8) | img.rgba[o + 2]) >>> 0;
+};
+
+const W = 0xffffff;
+const K = 0x000000;
+
+describe('Video filters', () => {
+  it('scales by an integer factor with nearest neighbour', () => {
+    const out = applyVideoFilter('nearest', image([[W, K]]), { scale: 3 });
+    expect([out.width, out.height]).toEqual([6, 3]);
+    expect([px(out, 2, 2), px(out, 3, 0)]).toEqual([W, K]);
+  });
+
+  it('rounds diagonal edges with Scale2x/EPX', () => {
+    const out = applyVideoFilter('scale2x', image([
+      [K, W, K],
+      [W, K, K],
+      [K, K, K],
+    ]));
+    expect([out.width, out.height]).toEqual([6, 6]);
+    // Centre pixel: its top and left neighbours agree, so its top-left quarter takes their color
+    expect([px(out, 2, 2), px(out, 3, 2), px(out, 2, 3), px(out, 3, 3)]).toEqual([W, K, K, K]);
+    // A flat area stays flat
+    expect(px(out, 5, 5)).toBe(K);
+  });
+
+  it('darkens every second output row for scanlines', () => {
+    const out = applyVideoFilter('scanlines', image([[W]]), { strength: 0.5 });
+    expect([out.width, out.height]).toEqual([2, 2]);
+    expect(px(out, 0, 0)).toBe(W);
+    expect(out.rgba[(1 * 2) * 4]).toBe(128);
+  });
+
+  it('blends a dithered column pattern through the NTSC composite filter', () => {
+    const row = Array.from({ length: 32 }, (_, x) => (x & 1 ? 0x0000ff : 0xff0000));
+    const input = image([row, row]);
+    const out = applyVideoFilter('ntsc', input);
+    expect([out.width, out.height]).toEqual([32, 2]);
+    const red = (img: VideoImage, x: number) => img.rgba[x * 4];
+    // Neighbouring columns end up far closer than the 255 step of the input
+    expect(Math.abs(red(out, 16) - red(out, 17))).toBeLessThan(128);
+    // A flat color survives the round trip
+    const flat = applyVideoFilter('ntsc', image([Array(16).fill(0x808080)]));
+    expect(Math.abs(flat.rgba[8 * 4] - 0x80)).toBeLessThanOrEqual(2);
+  });
+
+  it('chains filters by name and rejects unknown ones', () => {
+    const out = applyVideoFilterChain('nearest+scanlines', image([[W]]));
+    expect([out.width, out.height]).toEqual([4, 4]);
+    expect(applyVideoFilterChain('none', image([[W]])).width).toBe(1);
+    expect(() => applyVideoFilterChain('blur', image([[W]]))).toThrow(/Unknown video filter/);
+    expect(parseVideoFilterChain(' nearest + ntsc ')).toEqual(['nearest', 'ntsc']);
+    expect(() => parseVideoFilterChain('nearest+scan2x')).toThrow(/Unknown video filter 'scan2x'/);
+  });
+});
@@ -25,6 +25,8 @@ describe('Color window: prevent-math vs clip-to-black (simplified CGWSEL bit3)',
     function setup(bus) {
         const ppu = bus.getPPU();
         w8(bus, mmio(0x00), 0x0f);
+        // Set BG mode 1 (BG1/2 are 4bpp, BG3 is 2bpp)
+        w8(bus, mmio(0x05), 0x01);
         // BG1 main, BG2 sub
         w8(bus, mmio(0x2c), 0x01);
         w8(bus, mmio(0x2d), 0x02);
@@ -59,8 +61,8 @@ describe('Color window: prevent-math vs clip-to-black (simplified CGWSEL bit3)',
         w8(bus, mmio(0x26), 0x00);
         w8(bus, mmio(0x27), 0x03);
         w8(bus, mmio(0x23), 0x01);
-        // CGWSEL applyInside=1, combine OR, sub gate on, clip bit off
-        w8(bus, mmio(0x30), 0x01 | 0x02 | (0 << 6));
+        // CGWSEL applyInside=1, sub gate on, clip bit off
+        w8(bus, mmio(0x30), 0x01 | 0x02);
         const rgba = renderMainScreenRGBA(ppu, 8, 1);
         const px = (x) => [rgba[x * 4], rgba[x * 4 + 1], rgba[x * 4 + 2]];
         // Inside A -> blend
@@ -78,8 +80,8 @@ describe('Color window: prevent-math vs clip-to-black (simplified CGWSEL bit3)',
         w8(bus, mmio(0x26), 0x00);
         w8(bus, mmio(0x27), 0x03);
         w8(bus, mmio(0x23), 0x01);
-        // CGWSEL applyInside=1, OR, sub gate on, clip bit on (bit3)
-        w8(bus, mmio(0x30), 0x01 | 0x02 | 0x08 | (0 << 6));
+        // CGWSEL applyInside=1, sub gate on, clip bit on (bit3)
+        w8(bus, mmio(0x30), 0x01 | 0x02 | 0x08);
         const rgba = renderMainScreenRGBA(ppu, 8, 1);
         const px = (x) => [rgba[x * 4], rgba[x * 4 + 1], rgba[x * 4 + 2]];
         // Inside A -> blend
@@ -97,8 +99,8 @@ describe('Color window: prevent-math vs clip-to-black (simplified CGWSEL bit3)',
         w8(bus, mmio(0x26), 0x00);
         w8(bus, mmio(0x27), 0x03);
         w8(bus, mmio(0x23), 0x01);
-        // CGWSEL applyInside=0, OR, sub gate on, clip bit on
-        w8(bus, mmio(0x30), 0x00 | 0x02 | 0x08 | (0 << 6));
+        // CGWSEL applyInside=0, sub gate on, clip bit on
+        w8(bus, mmio(0x30), 0x00 | 0x02 | 0x08);
         const rgba = renderMainScreenRGBA(ppu, 8, 1);
         const px = (x) => [rgba[x * 4], rgba[x * 4 + 1], rgba[x * 4 + 2]];
         // Inside A -> clipped to black
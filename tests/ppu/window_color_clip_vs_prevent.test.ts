@@ -55,8 +55,8 @@ describe('Color window: prevent-math vs clip-to-black (simplified CGWSEL bit3)',
     // Window A [0..3], enable BG1 A
     w8(bus, mmio(0x26), 0x00); w8(bus, mmio(0x27), 0x03);
     w8(bus, mmio(0x23), 0x01);
-    // CGWSEL applyInside=1, combine OR, sub gate on, clip bit off
-    w8(bus, mmio(0x30), 0x01 | 0x02 | (0 << 6));
+    // CGWSEL applyInside=1, sub gate on, clip bit off
+    w8(bus, mmio(0x30), 0x01 | 0x02);
 
     const rgba = renderMainScreenRGBA(ppu, 8, 1);
     const px = (x: number) => [rgba[x*4], rgba[x*4+1], rgba[x*4+2]];
@@ -72,8 +72,8 @@ describe('Color window: prevent-math vs clip-to-black (simplified CGWSEL bit3)',
     // Window A [0..3], enable BG1 A
     w8(bus, mmio(0x26), 0x00); w8(bus, mmio(0x27), 0x03);
     w8(bus, mmio(0x23), 0x01);
-    // CGWSEL applyInside=1, OR, sub gate on, clip bit on (bit3)
-    w8(bus, mmio(0x30), 0x01 | 0x02 | 0x08 | (0 << 6));
+    // CGWSEL applyInside=1, sub gate on, clip bit on (bit3)
+    w8(bus, mmio(0x30), 0x01 | 0x02 | 0x08);
 
     const rgba = renderMainScreenRGBA(ppu, 8, 1);
     const px = (x: number) => [rgba[x*4], rgba[x*4+1], rgba[x*4+2]];
@@ -89,8 +89,8 @@ describe('Color window: prevent-math vs clip-to-black (simplified CGWSEL bit3)',
     // Window A [0..3], enable BG1 A
     w8(bus, mmio(0x26), 0x00); w8(bus, mmio(0x27), 0x03);
     w8(bus, mmio(0x23), 0x01);
-    // CGWSEL applyInside=0, OR, sub gate on, clip bit on
-    w8(bus, mmio(0x30), 0x00 | 0x02 | 0x08 | (0 << 6));
+    // CGWSEL applyInside=0, sub gate on, clip bit on
+    w8(bus, mmio(0x30), 0x00 | 0x02 | 0x08);
 
     const rgba = renderMainScreenRGBA(ppu, 8, 1);
     const px = (x: number) => [rgba[x*4], rgba[x*4+1], rgba[x*4+2]];
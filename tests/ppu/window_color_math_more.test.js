@@ -23,14 +23,14 @@ describe('Window gating for BG3 and OBJ (simplified)', () => {
             w8(bus, mmio(0x19), 0x00);
         }
     }
-    function writeOBJSolid(bus) {
+    function writeOBJSolid(bus, base) {
         for (let y = 0; y < 8; y++) {
-            w8(bus, mmio(0x16), (0x1000 + 16 + y) & 0xff);
-            w8(bus, mmio(0x17), ((0x1000 + 16 + y) >>> 8) & 0xff);
+            w8(bus, mmio(0x16), (base + 16 + y) & 0xff);
+            w8(bus, mmio(0x17), ((base + 16 + y) >>> 8) & 0xff);
             w8(bus, mmio(0x18), 0xff);
             w8(bus, mmio(0x19), 0x00);
-            w8(bus, mmio(0x16), (0x1000 + 16 + 8 + y) & 0xff);
-            w8(bus, mmio(0x17), ((0x1000 + 16 + 8 + y) >>> 8) & 0xff);
+            w8(bus, mmio(0x16), (base + 16 + 8 + y) & 0xff);
+            w8(bus, mmio(0x17), ((base + 16 + 8 + y) >>> 8) & 0xff);
             w8(bus, mmio(0x18), 0x00);
             w8(bus, mmio(0x19), 0x00);
         }
@@ -39,11 +39,13 @@ describe('Window gating for BG3 and OBJ (simplified)', () => {
         const bus = mkBus();
         const ppu = bus.getPPU();
         w8(bus, mmio(0x00), 0x0f);
+        // Set BG mode 1 (BG1/2 are 4bpp, BG3 is 2bpp)
+        w8(bus, mmio(0x05), 0x01);
         // Enable BG3 main, BG2 subscreen
         w8(bus, mmio(0x2c), 0x04);
         w8(bus, mmio(0x2d), 0x02);
         // Setup BG3 char/map base and tile 1 solid at (0,0), pal group 0
-        w8(bus, mmio(0x0c), 0x20); // BG3 char base 0x1000
+        w8(bus, mmio(0x0c), 0x02); // BG3 char base 0x1000 (nibble 2 in low position)
         writeBG3Solid(bus);
         w8(bus, mmio(0x09), 0x00); // BG3 map base 0
         w8(bus, mmio(0x16), 0x00);
@@ -54,7 +56,7 @@ describe('Window gating for BG3 and OBJ (simplified)', () => {
         w8(bus, mmio(0x0b), 0x22); // BG2 char base 0x1000
         w8(bus, mmio(0x08), 0x04); // BG2 map base 0x0400 bytes
         // Write solid 4bpp tile 1
-        writeOBJSolid(bus);
+        writeOBJSolid(bus, 0x1000);
         w8(bus, mmio(0x16), 0x00);
         w8(bus, mmio(0x17), 0x02);
         w8(bus, mmio(0x18), 0x01);
@@ -84,12 +86,14 @@ describe('Window gating for BG3 and OBJ (simplified)', () => {
         const bus = mkBus();
         const ppu = bus.getPPU();
         w8(bus, mmio(0x00), 0x0f);
+        // Set BG mode 1 (BG1/2 are 4bpp, BG3 is 2bpp)
+        w8(bus, mmio(0x05), 0x01);
         // Enable OBJ main, BG2 subscreen
         w8(bus, mmio(0x2c), 0x10);
         w8(bus, mmio(0x2d), 0x02);
-        // OBJ char base 0x1000, OAM sprite at (0,0) tile1 group0
-        w8(bus, mmio(0x01), 0x02);
-        writeOBJSolid(bus);
+        // OBJ char base 0x2000, OAM sprite at (0,0) tile1 group0
+        w8(bus, mmio(0x01), 0x01);
+        writeOBJSolid(bus, 0x2000);
         w8(bus, mmio(0x02), 0x00);
         w8(bus, mmio(0x04), 0x00);
         w8(bus, mmio(0x04), 0x00);
@@ -97,6 +101,7 @@ describe('Window gating for BG3 and OBJ (simplified)', () => {
         w8(bus, mmio(0x04), 0x00);
         // BG2 subscreen green tile
         w8(bus, mmio(0x0b), 0x22);
+        writeOBJSolid(bus, 0x1000);
         w8(bus, mmio(0x08), 0x04);
         w8(bus, mmio(0x16), 0x00);
         w8(bus, mmio(0x17), 0x02);
@@ -27,14 +27,14 @@ describe('Window gating for BG3 and OBJ (simplified)', () => {
     }
   }
 
-  function writeOBJSolid(bus: SNESBus) {
+  function writeOBJSolid(bus: SNESBus, base: number) {
     for (let y = 0; y < 8; y++) {
-      w8(bus, mmio(0x16), (0x1000 + 16 + y) & 0xff);
-      w8(bus, mmio(0x17), ((0x1000 + 16 + y) >>> 8) & 0xff);
+      w8(bus, mmio(0x16), (base + 16 + y) & 0xff);
+      w8(bus, mmio(0x17), ((base + 16 + y) >>> 8) & 0xff);
       w8(bus, mmio(0x18), 0xff);
       w8(bus, mmio(0x19), 0x00);
-      w8(bus, mmio(0x16), (0x1000 + 16 + 8 + y) & 0xff);
-      w8(bus, mmio(0x17), ((0x1000 + 16 + 8 + y) >>> 8) & 0xff);
+      w8(bus, mmio(0x16), (base + 16 + 8 + y) & 0xff);
+      w8(bus, mmio(0x17), ((base + 16 + 8 + y) >>> 8) & 0xff);
       w8(bus, mmio(0x18), 0x00);
       w8(bus, mmio(0x19), 0x00);
     }
@@ -61,7 +61,7 @@ describe('Window gating for BG3 and OBJ (simplified)', () => {
     w8(bus, mmio(0x0b), 0x22); // BG2 char base 0x1000
     w8(bus, mmio(0x08), 0x04); // BG2 map base 0x0400 bytes
     // Write solid 4bpp tile 1
-    writeOBJSolid(bus);
+    writeOBJSolid(bus, 0x1000);
     w8(bus, mmio(0x16), 0x00); w8(bus, mmio(0x17), 0x02); w8(bus, mmio(0x18), 0x01); w8(bus, mmio(0x19), 0x04);
 
     // Palettes: BG3 index1=red, BG2 index17=green
@@ -94,14 +94,15 @@ describe('Window gating for BG3 and OBJ (simplified)', () => {
     w8(bus, mmio(0x2c), 0x10);
     w8(bus, mmio(0x2d), 0x02);
 
-    // OBJ char base 0x1000, OAM sprite at (0,0) tile1 group0
-    w8(bus, mmio(0x01), 0x02);
-    writeOBJSolid(bus);
+    // OBJ char base 0x2000, OAM sprite at (0,0) tile1 group0
+    w8(bus, mmio(0x01), 0x01);
+    writeOBJSolid(bus, 0x2000);
     w8(bus, mmio(0x02), 0x00);
     w8(bus, mmio(0x04), 0x00); w8(bus, mmio(0x04), 0x00); w8(bus, mmio(0x04), 0x01); w8(bus, mmio(0x04), 0x00);
 
     // BG2 subscreen green tile
     w8(bus, mmio(0x0b), 0x22);
+    writeOBJSolid(bus, 0x1000);
     w8(bus, mmio(0x08), 0x04);
     w8(bus, mmio(0x16), 0x00); w8(bus, mmio(0x17), 0x02); w8(bus, mmio(0x18), 0x01); w8(bus, mmio(0x19), 0x04);
 
@@ -25,6 +25,8 @@ describe('Two-window combine modes for BG1 (simplified)', () => {
     function setupBG1BG2(bus) {
         // Brightness
         w8(bus, mmio(0x00), 0x0f);
+        // Set BG mode 1 (BG1/2 are 4bpp, BG3 is 2bpp)
+        w8(bus, mmio(0x05), 0x01);
         // Main BG1, Sub BG2
         w8(bus, mmio(0x2c), 0x01);
         w8(bus, mmio(0x2d), 0x02);
@@ -52,7 +54,7 @@ describe('Two-window combine modes for BG1 (simplified)', () => {
         w8(bus, mmio(0x22), 0xe0);
         w8(bus, mmio(0x22), 0x03);
     }
-    it('OR combine (CGWSEL bits6-7=00) blends in regions covered by A or B', () => {
+    it('OR combine (WBGLOG BG1=00) blends in regions covered by A or B', () => {
         const bus = mkBus();
         const ppu = bus.getPPU();
         setupBG1BG2(bus);
@@ -61,9 +63,9 @@ describe('Two-window combine modes for BG1 (simplified)', () => {
         w8(bus, mmio(0x27), 0x01);
         w8(bus, mmio(0x28), 0x03);
         w8(bus, mmio(0x29), 0x04);
-        // W12SEL: BG1 uses Window A and B; CGWSEL: applyInside=1, combine=OR (00)
+        // W12SEL: BG1 uses Window A and B; CGWSEL: applyInside=1; WBGLOG left at OR (00)
         w8(bus, mmio(0x23), 0x03); // A and B enabled for BG1
-        w8(bus, mmio(0x30), 0x01 | (0 << 6));
+        w8(bus, mmio(0x30), 0x01);
         // CGADSUB: enable+half, mask=BG1
         w8(bus, mmio(0x31), 0x60 | 0x01);
         const rgba = renderMainScreenRGBA(ppu, 8, 1);
@@ -76,7 +78,7 @@ describe('Two-window combine modes for BG1 (simplified)', () => {
         expect(px(3)[0]).toBeGreaterThan(100);
         expect(px(3)[1]).toBeGreaterThan(100);
     });
-    it('AND combine (CGWSEL bits6-7=01) blends only where A and B overlap', () => {
+    it('AND combine (WBGLOG BG1=01) blends only where A and B overlap', () => {
         const bus = mkBus();
         const ppu = bus.getPPU();
         setupBG1BG2(bus);
@@ -87,7 +89,9 @@ describe('Two-window combine modes for BG1 (simplified)', () => {
         w8(bus, mmio(0x29), 0x03); // B [2..3]
         // Enable A and B for BG1 to participate in AND
         w8(bus, mmio(0x23), 0x03);
-        w8(bus, mmio(0x30), 0x01 | (1 << 6)); // applyInside=1, AND
+        w8(bus, mmio(0x30), 0x01); // applyInside=1
+        w8(bus, mmio(0x2a), 0x55);
+        w8(bus, mmio(0x2b), 0x05); // WBGLOG/WOBJLOG: AND for every layer
         w8(bus, mmio(0x31), 0x60 | 0x01);
         const rgba = renderMainScreenRGBA(ppu, 8, 1);
         const px = (x) => [rgba[x * 4], rgba[x * 4 + 1]];
@@ -99,7 +103,7 @@ describe('Two-window combine modes for BG1 (simplified)', () => {
         expect(px(3)[0]).toBeGreaterThan(200);
         expect(px(3)[1]).toBeLessThan(10);
     });
-    it('XOR combine (CGWSEL bits6-7=10) blends only where A xor B', () => {
+    it('XOR combine (WBGLOG BG1=10) blends only where A xor B', () => {
         const bus = mkBus();
         const ppu = bus.getPPU();
         setupBG1BG2(bus);
@@ -109,7 +113,9 @@ describe('Two-window combine modes for BG1 (simplified)', () => {
         w8(bus, mmio(0x28), 0x02);
         w8(bus, mmio(0x29), 0x04);
         w8(bus, mmio(0x23), 0x03); // enable A and B for BG1
-        w8(bus, mmio(0x30), 0x01 | (2 << 6)); // applyInside=1, XOR
+        w8(bus, mmio(0x30), 0x01); // applyInside=1
+        w8(bus, mmio(0x2a), 0xAA);
+        w8(bus, mmio(0x2b), 0x0A); // WBGLOG/WOBJLOG: XOR for every layer
         w8(bus, mmio(0x31), 0x60 | 0x01);
         const rgba = renderMainScreenRGBA(ppu, 6, 1);
         const px = (x) => [rgba[x * 4], rgba[x * 4 + 1]];
@@ -120,7 +126,7 @@ describe('Two-window combine modes for BG1 (simplified)', () => {
         expect(px(4)[0]).toBeGreaterThan(100);
         expect(px(4)[1]).toBeGreaterThan(100); // in B only
     });
-    it('XNOR combine (CGWSEL bits6-7=11) blends where both in or both out', () => {
+    it('XNOR combine (WBGLOG BG1=11) blends where both in or both out', () => {
         const bus = mkBus();
         const ppu = bus.getPPU();
         setupBG1BG2(bus);
@@ -130,7 +136,9 @@ describe('Two-window combine modes for BG1 (simplified)', () => {
         w8(bus, mmio(0x28), 0x02);
         w8(bus, mmio(0x29), 0x04);
         w8(bus, mmio(0x23), 0x03);
-        w8(bus, mmio(0x30), 0x01 | (3 << 6)); // applyInside=1, XNOR
+        w8(bus, mmio(0x30), 0x01); // applyInside=1
+        w8(bus, mmio(0x2a), 0xFF);
+        w8(bus, mmio(0x2b), 0x0F); // WBGLOG/WOBJLOG: XNOR for every layer
         w8(bus, mmio(0x31), 0x60 | 0x01);
         const rgba = renderMainScreenRGBA(ppu, 7, 1);
         const px = (x) => [rgba[x * 4], rgba[x * 4 + 1]];
@@ -152,7 +160,7 @@ describe('Two-window combine modes for BG1 (simplified)', () => {
         w8(bus, mmio(0x26), 0x00);
         w8(bus, mmio(0x27), 0x02);
         w8(bus, mmio(0x23), 0x01);
-        w8(bus, mmio(0x30), 0x00 | (0 << 6)); // applyInside=0, OR
+        w8(bus, mmio(0x30), 0x00); // applyInside=0
         w8(bus, mmio(0x31), 0x60 | 0x01);
         const rgba = renderMainScreenRGBA(ppu, 6, 1);
         const px = (x) => [rgba[x * 4], rgba[x * 4 + 1]];
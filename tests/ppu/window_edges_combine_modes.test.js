@@ -25,6 +25,8 @@ describe('Window edges for combine modes (AND/XOR/XNOR)', () => {
     function setup(bus) {
         const ppu = bus.getPPU();
         w8(bus, mmio(0x00), 0x0f);
+        // Set BG mode 1 (BG1/2 are 4bpp, BG3 is 2bpp)
+        w8(bus, mmio(0x05), 0x01);
         w8(bus, mmio(0x2c), 0x01); // BG1 main
         w8(bus, mmio(0x2d), 0x02); // BG2 sub
         w8(bus, mmio(0x0b), 0x22);
@@ -58,7 +60,9 @@ describe('Window edges for combine modes (AND/XOR/XNOR)', () => {
         w8(bus, mmio(0x28), 0x03);
         w8(bus, mmio(0x29), 0x04);
         w8(bus, mmio(0x23), 0x03); // BG1 A|B
-        w8(bus, mmio(0x30), 0x01 | (1 << 6)); // AND
+        w8(bus, mmio(0x30), 0x01);
+        w8(bus, mmio(0x2a), 0x55);
+        w8(bus, mmio(0x2b), 0x05); // WBGLOG/WOBJLOG: AND for every layer
         const rgba = renderMainScreenRGBA(ppu, 6, 1);
         const px = (x) => [rgba[x * 4], rgba[x * 4 + 1]];
         expect(px(3)[0]).toBeGreaterThan(100);
@@ -77,7 +81,9 @@ describe('Window edges for combine modes (AND/XOR/XNOR)', () => {
         w8(bus, mmio(0x28), 0x04);
         w8(bus, mmio(0x29), 0x06);
         w8(bus, mmio(0x23), 0x03);
-        w8(bus, mmio(0x30), 0x01 | (2 << 6)); // XOR
+        w8(bus, mmio(0x30), 0x01);
+        w8(bus, mmio(0x2a), 0xAA);
+        w8(bus, mmio(0x2b), 0x0A); // WBGLOG/WOBJLOG: XOR for every layer
         const rgba = renderMainScreenRGBA(ppu, 8, 1);
         const px = (x) => [rgba[x * 4], rgba[x * 4 + 1]];
         // Boundaries x=2,6 inside one window -> blend; x=4 inside both -> no blend for XOR
@@ -97,7 +103,9 @@ describe('Window edges for combine modes (AND/XOR/XNOR)', () => {
         w8(bus, mmio(0x28), 0x04);
         w8(bus, mmio(0x29), 0x06);
         w8(bus, mmio(0x23), 0x03);
-        w8(bus, mmio(0x30), 0x01 | (3 << 6)); // XNOR
+        w8(bus, mmio(0x30), 0x01);
+        w8(bus, mmio(0x2a), 0xFF);
+        w8(bus, mmio(0x2b), 0x0F); // WBGLOG/WOBJLOG: XNOR for every layer
         const rgba = renderMainScreenRGBA(ppu, 8, 1);
         const px = (x) => [rgba[x * 4], rgba[x * 4 + 1]];
         // x=4 overlap -> blend; x=7 outside both -> blend
@@ -53,7 +53,8 @@ describe('Window edges for combine modes (AND/XOR/XNOR)', () => {
     w8(bus, mmio(0x26), 0x02); w8(bus, mmio(0x27), 0x03);
     w8(bus, mmio(0x28), 0x03); w8(bus, mmio(0x29), 0x04);
     w8(bus, mmio(0x23), 0x03); // BG1 A|B
-    w8(bus, mmio(0x30), 0x01 | (1 << 6)); // AND
+    w8(bus, mmio(0x30), 0x01);
+    w8(bus, mmio(0x2a), 0x55); w8(bus, mmio(0x2b), 0x05); // WBGLOG/WOBJLOG: AND for every layer
 
     const rgba = renderMainScreenRGBA(ppu, 6, 1);
     const px = (x: number) => [rgba[x*4], rgba[x*4+1]];
@@ -69,7 +70,8 @@ describe('Window edges for combine modes (AND/XOR/XNOR)', () => {
     w8(bus, mmio(0x26), 0x02); w8(bus, mmio(0x27), 0x04);
     w8(bus, mmio(0x28), 0x04); w8(bus, mmio(0x29), 0x06);
     w8(bus, mmio(0x23), 0x03);
-    w8(bus, mmio(0x30), 0x01 | (2 << 6)); // XOR
+    w8(bus, mmio(0x30), 0x01);
+    w8(bus, mmio(0x2a), 0xAA); w8(bus, mmio(0x2b), 0x0A); // WBGLOG/WOBJLOG: XOR for every layer
 
     const rgba = renderMainScreenRGBA(ppu, 8, 1);
     const px = (x: number) => [rgba[x*4], rgba[x*4+1]];
@@ -86,7 +88,8 @@ describe('Window edges for combine modes (AND/XOR/XNOR)', () => {
     w8(bus, mmio(0x26), 0x02); w8(bus, mmio(0x27), 0x04);
     w8(bus, mmio(0x28), 0x04); w8(bus, mmio(0x29), 0x06);
     w8(bus, mmio(0x23), 0x03);
-    w8(bus, mmio(0x30), 0x01 | (3 << 6)); // XNOR
+    w8(bus, mmio(0x30), 0x01);
+    w8(bus, mmio(0x2a), 0xFF); w8(bus, mmio(0x2b), 0x0F); // WBGLOG/WOBJLOG: XNOR for every layer
 
     const rgba = renderMainScreenRGBA(ppu, 8, 1);
     const px = (x: number) => [rgba[x*4], rgba[x*4+1]];
@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import { SNESBus } from '../../src/bus/snesBus';
+import { Cartridge } from '../../src/cart/cartridge';
+import { renderMainScreenRGBA } from '../../src/ppu/bg';
+
+const mmio = (reg: number) => (0x00 << 16) | (0x2100 + (reg & 0xff));
+const w8 = (bus: SNESBus, addr: number, v: number) => bus.write8(addr, v);
+
+function mkBus() {
+  const rom = new Uint8Array(0x20000);
+  const cart = new Cartridge({ rom, mapping: 'lorom' });
+  return new SNESBus(cart);
+}
+
+function writeWord(bus: SNESBus, addr: number, v: number) {
+  w8(bus, mmio(0x16), addr & 0xff);
+  w8(bus, mmio(0x17), (addr >>> 8) & 0xff);
+  w8(bus, mmio(0x18), v & 0xff);
+  w8(bus, mmio(0x19), (v >>> 8) & 0xff);
+}
+
+function writeColor(bus: SNESBus, color: number, bgr: number) {
+  w8(bus, mmio(0x21), color * 2);
+  w8(bus, mmio(0x22), bgr & 0xff);
+  w8(bus, mmio(0x22), (bgr >>> 8) & 0xff);
+}
+
+// Solid 4bpp tile with every pixel = 1
+function writeSolidTile(bus: SNESBus, charBase: number, tile: number) {
+  for (let y = 0; y < 8; y++) {
+    writeWord(bus, charBase + tile * 16 + y, 0x00ff);
+    writeWord(bus, charBase + tile * 16 + 8 + y, 0x0000);
+  }
+}
+
+// Mode 1: BG1 solid red, BG2 solid green; windows A = [0..3], B = [2..5]
+function setup(bus: SNESBus) {
+  w8(bus, mmio(0x00), 0x0f);
+  w8(bus, mmio(0x05), 0x01);
+  w8(bus, mmio(0x15), 0x80);
+  w8(bus, mmio(0x07), 0x08); // BG1 map 0x0400
+  w8(bus, mmio(0x08), 0x10); // BG2 map 0x0800
+  w8(bus, mmio(0x0b), 0x42); // BG1 chars 0x1000, BG2 chars 0x2000
+  writeSolidTile(bus, 0x1000, 1);
+  writeSolidTile(bus, 0x2000, 1);
+  writeWord(bus, 0x0400, 0x0001);
+  writeWord(bus, 0x0800, 0x0401); // palette group 1
+  writeColor(bus, 1, 0x7c00);
+  writeColor(bus, 17, 0x03e0);
+  w8(bus, mmio(0x26), 0); w8(bus, mmio(0x27), 3);
+  w8(bus, mmio(0x28), 2); w8(bus, mmio(0x29), 5);
+}
+
+// 'R' red, 'G' green, '.' black, per pixel of an 8x1 render
+function pixels(rgba: Uint8ClampedArray): string {
+  let s = '';
+  for (let i = 0; i < rgba.length; i += 4) s += rgba[i] > 200 ? 'R' : rgba[i + 1] > 200 ? 'G' : '.';
+  return s;
+}
+
+describe('WBGLOG/WOBJLOG window logic and TMW/TSW masking', () => {
+  it('TMW hides BG1 inside its window using the WBGLOG logic', () => {
+    const bus = mkBus();
+    setup(bus);
+    w8(bus, mmio(0x2c), 0x01);
+    w8(bus, mmio(0x23), 0x03); // BG1: A and B
+    w8(bus, mmio(0x2e), 0x01);
+    const ppu = bus.getPPU();
+    w8(bus, mmio(0x2a), 0x00); // OR
+    expect(pixels(renderMainScreenRGBA(ppu, 8, 1))).toBe('......RR');
+    w8(bus, mmio(0x2a), 0x01); // AND
+    expect(pixels(renderMainScreenRGBA(ppu, 8, 1))).toBe('RR..RRRR');
+    w8(bus, mmio(0x2a), 0x02); // XOR
+    expect(pixels(renderMainScreenRGBA(ppu, 8, 1))).toBe('..RR..RR');
+    w8(bus, mmio(0x2a), 0x03); // XNOR
+    expect(pixels(renderMainScreenRGBA(ppu, 8, 1))).toBe('RR..RR..');
+  });
+
+  it('each BG has its own logic; a masked BG1 reveals BG2 behind it', () => {
+    const bus = mkBus();
+    setup(bus);
+    w8(bus, mmio(0x2c), 0x03);
+    w8(bus, mmio(0x23), 0x0f); // BG1 and BG2: A and B
+    w8(bus, mmio(0x2a), 0x01 | (0x02 << 2)); // BG1 AND, BG2 XOR
+    w8(bus, mmio(0x2e), 0x03);
+    // BG1 is hidden at 2-3, where BG2's XOR window is empty
+    expect(pixels(renderMainScreenRGBA(bus.getPPU(), 8, 1))).toBe('RRGGRRRR');
+    w8(bus, mmio(0x2a), 0x02 | (0x01 << 2)); // BG1 XOR, BG2 AND
+    expect(pixels(renderMainScreenRGBA(bus.getPPU(), 8, 1))).toBe('GGRRGGRR');
+  });
+
+  it('WOBJLOG bits 0-1 set the OBJ window logic independently of WBGLOG', () => {
+    const bus = mkBus();
+    setup(bus);
+    w8(bus, mmio(0x01), 0x01); // OBJ names at 0x2000 (tile 1 is solid)
+    w8(bus, mmio(0x02), 0x00);
+    w8(bus, mmio(0x04), 0x00); w8(bus, mmio(0x04), 0x00); w8(bus, mmio(0x04), 0x01); w8(bus, mmio(0x04), 0x30);
+    w8(bus, mmio(0x2c), 0x10);
+    w8(bus, mmio(0x25), 0x03); // OBJ: A and B
+    w8(bus, mmio(0x2e), 0x10);
+    w8(bus, mmio(0x2a), 0x00);
+    w8(bus, mmio(0x2b), 0x01); // AND
+    expect(pixels(renderMainScreenRGBA(bus.getPPU(), 8, 1))).toBe('RR..RRRR');
+    w8(bus, mmio(0x2b), 0x03); // XNOR
+    expect(pixels(renderMainScreenRGBA(bus.getPPU(), 8, 1))).toBe('RR..RR..');
+  });
+
+  it('windows without TMW do not hide layers', () => {
+    const bus = mkBus();
+    setup(bus);
+    w8(bus, mmio(0x2c), 0x01);
+    w8(bus, mmio(0x23), 0x03);
+    expect(pixels(renderMainScreenRGBA(bus.getPPU(), 8, 1))).toBe('RRRRRRRR');
+  });
+
+  it('TSW hides sub screen layers inside their window', () => {
+    const bus = mkBus();
+    setup(bus);
+    // Main shows only the black backdrop; color math adds the sub screen (BG2 green) everywhere
+    w8(bus, mmio(0x2c), 0x00);
+    w8(bus, mmio(0x2d), 0x02);
+    w8(bus, mmio(0x23), 0x04); // BG2: A only
+    expect(pixels(renderMainScreenRGBA(bus.getPPU(), 8, 1))).toBe('GGGGGGGG');
+    w8(bus, mmio(0x2f), 0x02);
+    expect(pixels(renderMainScreenRGBA(bus.getPPU(), 8, 1))).toBe('....GGGG');
+  });
+
+  it('combines with OR until WBGLOG is written, whatever CGWSEL bits 6-7 hold', () => {
+    const bus = mkBus();
+    setup(bus);
+    w8(bus, mmio(0x2c), 0x01);
+    w8(bus, mmio(0x23), 0x03);
+    w8(bus, mmio(0x2e), 0x01);
+    w8(bus, mmio(0x30), 0x40);
+    expect(pixels(renderMainScreenRGBA(bus.getPPU(), 8, 1))).toBe('......RR');
+    w8(bus, mmio(0x2a), 0x02); // XOR
+    expect(pixels(renderMainScreenRGBA(bus.getPPU(), 8, 1))).toBe('..RR..RR');
+  });
+});
@@ -25,6 +25,8 @@ describe('Mixed main/sub combine modes (main uses A, sub uses B)', () => {
     function setup(bus) {
         const ppu = bus.getPPU();
         w8(bus, mmio(0x00), 0x0f);
+        // Set BG mode 1 (BG1/2 are 4bpp, BG3 is 2bpp)
+        w8(bus, mmio(0x05), 0x01);
         w8(bus, mmio(0x2c), 0x01); // BG1 main
         w8(bus, mmio(0x2d), 0x02); // BG2 sub
         w8(bus, mmio(0x0b), 0x22);
@@ -60,7 +62,9 @@ describe('Mixed main/sub combine modes (main uses A, sub uses B)', () => {
         // Enable BG1 A and B (bits0|1) and BG2 B only (bit3)
         w8(bus, mmio(0x23), 0x03 | 0x08);
         // applyInside=1, AND combine, subscreen gate on
-        w8(bus, mmio(0x30), 0x03 | (1 << 6));
+        w8(bus, mmio(0x30), 0x03);
+        w8(bus, mmio(0x2a), 0x55);
+        w8(bus, mmio(0x2b), 0x05); // WBGLOG/WOBJLOG: AND for every layer
         const rgba = renderMainScreenRGBA(ppu, 6, 1);
         const px = (x) => [rgba[x * 4], rgba[x * 4 + 1]];
         // Blend only at x=2
@@ -84,7 +88,9 @@ describe('Mixed main/sub combine modes (main uses A, sub uses B)', () => {
         // BG1 A and B enabled for main combine; BG2 B only for subscreen
         w8(bus, mmio(0x23), 0x03 | 0x08);
         // applyInside=1, XOR, subscreen gate on
-        w8(bus, mmio(0x30), 0x03 | (2 << 6));
+        w8(bus, mmio(0x30), 0x03);
+        w8(bus, mmio(0x2a), 0xAA);
+        w8(bus, mmio(0x2b), 0x0A); // WBGLOG/WOBJLOG: XOR for every layer
         const rgba = renderMainScreenRGBA(ppu, 6, 1);
         const px = (x) => [rgba[x * 4], rgba[x * 4 + 1]];
         // x=1: main inside, sub masked -> half red
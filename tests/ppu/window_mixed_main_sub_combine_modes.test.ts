@@ -55,7 +55,8 @@ describe('Mixed main/sub combine modes (main uses A, sub uses B)', () => {
     // Enable BG1 A and B (bits0|1) and BG2 B only (bit3)
     w8(bus, mmio(0x23), 0x03 | 0x08);
     // applyInside=1, AND combine, subscreen gate on
-    w8(bus, mmio(0x30), 0x03 | (1 << 6));
+    w8(bus, mmio(0x30), 0x03);
+    w8(bus, mmio(0x2a), 0x55); w8(bus, mmio(0x2b), 0x05); // WBGLOG/WOBJLOG: AND for every layer
 
     const rgba = renderMainScreenRGBA(ppu, 6, 1);
     const px = (x: number) => [rgba[x*4], rgba[x*4+1]];
@@ -76,7 +77,8 @@ describe('Mixed main/sub combine modes (main uses A, sub uses B)', () => {
     // BG1 A and B enabled for main combine; BG2 B only for subscreen
     w8(bus, mmio(0x23), 0x03 | 0x08);
     // applyInside=1, XOR, subscreen gate on
-    w8(bus, mmio(0x30), 0x03 | (2 << 6));
+    w8(bus, mmio(0x30), 0x03);
+    w8(bus, mmio(0x2a), 0xAA); w8(bus, mmio(0x2b), 0x0A); // WBGLOG/WOBJLOG: XOR for every layer
 
     const rgba = renderMainScreenRGBA(ppu, 6, 1);
     const px = (x: number) => [rgba[x*4], rgba[x*4+1]];
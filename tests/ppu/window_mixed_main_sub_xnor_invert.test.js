@@ -25,6 +25,8 @@ describe('Mixed main/sub: XNOR combine and invert flags', () => {
     function setup(bus) {
         const ppu = bus.getPPU();
         w8(bus, mmio(0x00), 0x0f);
+        // Set BG mode 1 (BG1/2 are 4bpp, BG3 is 2bpp)
+        w8(bus, mmio(0x05), 0x01);
         w8(bus, mmio(0x2c), 0x01); // BG1 main
         w8(bus, mmio(0x2d), 0x02); // BG2 sub
         w8(bus, mmio(0x0b), 0x22);
@@ -60,7 +62,9 @@ describe('Mixed main/sub: XNOR combine and invert flags', () => {
         // Enable BG1 A|B and BG2 A|B
         w8(bus, mmio(0x23), 0x03 | 0x0c);
         // applyInside=1, XNOR, sub gate on
-        w8(bus, mmio(0x30), 0x01 | 0x02 | (3 << 6));
+        w8(bus, mmio(0x30), 0x01 | 0x02);
+        w8(bus, mmio(0x2a), 0xFF);
+        w8(bus, mmio(0x2b), 0x0F); // WBGLOG/WOBJLOG: XNOR for every layer
         const rgba = renderMainScreenRGBA(ppu, 7, 1);
         const px = (x) => [rgba[x * 4], rgba[x * 4 + 1]];
         // Overlap at x=2
@@ -82,7 +86,7 @@ describe('Mixed main/sub: XNOR combine and invert flags', () => {
         // Enable only A for both BG1 and BG2, with invert A on both (bit4 for each selector)
         w8(bus, mmio(0x23), 0x01 | 0x10 | 0x04 | 0x40); // BG1 A+invA, BG2 A+invA
         // applyInside=1, OR, sub gate on
-        w8(bus, mmio(0x30), 0x01 | 0x02 | (0 << 6));
+        w8(bus, mmio(0x30), 0x01 | 0x02);
         const rgba = renderMainScreenRGBA(ppu, 8, 1);
         const px = (x) => [rgba[x * 4], rgba[x * 4 + 1]];
         // Inside A (x=1) -> inverted means no math; expect red
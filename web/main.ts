@@ -1,10 +1,15 @@
 import { Emulator } from "../src/emulator/core";
 import { Scheduler } from "../src/emulator/scheduler";
-import { renderMainScreenRGBA } from "../src/ppu/bg";
+import type { OutputProfile } from "../src/ppu/output";
+import { applyVideoFilterChain } from "../src/ppu/filters";
+import { FRAME_WIDTH, scanlineFrame, scanlineFrameBGR555, frameDisplaySize, scaleFrameRGBA } from "../src/ppu/frame";
 import { normaliseRom } from "../src/cart/loader";
 import { parseHeader } from "../src/cart/header";
 import { Cartridge } from "../src/cart/cartridge";
 import type { Button } from "../src/input/controller";
+import {
+  DebugView, renderBGTilemap, renderCGRAMGrid, renderOAMTable, renderProvenanceView, renderTileSheet,
+} from "../src/ppu/debug/views";
 
 const $ = <T extends HTMLElement = HTMLElement>(sel: string) =>
   document.querySelector(sel) as T;
@@ -26,9 +31,18 @@ const pauseBtn = $("#pauseBtn");
 const saveBtn = $("#saveBtn");
 const canvas = $("#screen") as HTMLCanvasElement;
 const ctx = canvas.getContext("2d", { alpha: false })!;
+const outputProfileSel = $("#outputProfile") as HTMLSelectElement;
+const videoFilterSel = $("#videoFilter") as HTMLSelectElement;
+const debugViewSel = $("#debugView") as HTMLSelectElement;
+const debugPaletteInput = $("#debugPalette") as HTMLInputElement;
+const debugCanvas = $("#debug") as HTMLCanvasElement;
+const debugCtx = debugCanvas.getContext("2d")!;
 
 let emu: Emulator | null = null;
 let sched: Scheduler | null = null;
+let cart: Cartridge | null = null;
+let sramKey = "";
+let sramFrames = 0;
 let rafId = 0;
 let running = false;
 
@@ -78,6 +92,36 @@ function setCanvasScale() {
   canvas.style.height = `${224 * scale}px`;
 }
 
+// Draw the selected PPU debug view under the screen (nothing when "None" is selected)
+function drawDebugView() {
+  const kind = debugViewSel.value;
+  if (!emu || !kind) {
+    if (emu) emu.bus.getPPU().frameProvenance = null;
+    debugCanvas.width = debugCanvas.height = 0;
+    return;
+  }
+  const ppu = emu.bus.getPPU();
+  // Provenance is recorded only while its view is open; it shows from the next frame on
+  if (kind === "layers") ppu.frameProvenance ??= new Uint16Array(FRAME_WIDTH * 478);
+  else ppu.frameProvenance = null;
+  const palette = Math.max(0, Math.min(15, Number(debugPaletteInput.value) || 0));
+  let view: DebugView;
+  if (kind === "layers") {
+    const frame = scanlineFrameBGR555(ppu);
+    view = renderProvenanceView(frame.provenance ?? new Uint16Array(frame.width * frame.height), frame.width, frame.height);
+  } else if (kind === "tiles2") view = renderTileSheet(ppu, { bpp: 2, palette });
+  else if (kind === "tiles4") view = renderTileSheet(ppu, { bpp: 4, palette });
+  else if (kind === "tiles8") view = renderTileSheet(ppu, { bpp: 8 });
+  else if (kind.startsWith("bg")) view = renderBGTilemap(ppu, Number(kind.slice(2)));
+  else if (kind === "oam") view = renderOAMTable(ppu);
+  else view = renderCGRAMGrid(ppu, 16);
+  if (debugCanvas.width !== view.width || debugCanvas.height !== view.height) {
+    debugCanvas.width = view.width;
+    debugCanvas.height = view.height;
+  }
+  debugCtx.putImageData(new ImageData(view.rgba, view.width, view.height), 0, 0);
+}
+
 function attachKeyboard() {
   window.addEventListener("keydown", (e) => {
     const btn = keyToBtn[e.code];
@@ -113,6 +157,29 @@ function setStatus(text: string) {
   statusEl.textContent = text;
 }
 
+// Battery saves persist in localStorage as base64 .srm images, keyed by title + checksum
+function loadSram() {
+  if (!cart?.sram || !sramKey) return;
+  try {
+    const b64 = localStorage.getItem(sramKey);
+    if (!b64) return;
+    const bin = atob(b64);
+    const data = new Uint8Array(bin.length);
+    for (let i = 0; i < bin.length; i++) data[i] = bin.charCodeAt(i);
+    cart.importSRAM(data);
+  } catch { /* storage unavailable */ }
+}
+
+function persistSram() {
+  if (!cart?.sram || !sramKey) return;
+  try {
+    const data = cart.exportSRAM();
+    let bin = "";
+    for (let i = 0; i < data.length; i++) bin += String.fromCharCode(data[i]);
+    localStorage.setItem(sramKey, btoa(bin));
+  } catch { /* storage unavailable or full */ }
+}
+
 function stopLoop() {
   running = false;
   if (rafId) cancelAnimationFrame(rafId);
@@ -134,11 +201,21 @@ function frame() {
     stopLoop();
     return;
   }
-  // Render PPU output to canvas
-  const ppu = emu.bus.getPPU();
-  const rgba = renderMainScreenRGBA(ppu, 256, 224);
-  const img = new ImageData(rgba, 256, 224);
-  ctx.putImageData(img, 0, 0);
+  // Present the frame the PPU drew line by line during stepFrame
+  // Canvas backing store follows the filtered frame (256x224, or 512x448 for hi-res/interlace, before
+  // filters that scale); CSS size stays fixed.
+  const out = scanlineFrame(emu.bus.getPPU(), outputProfileSel.value as OutputProfile);
+  const size = frameDisplaySize(out);
+  const shown = applyVideoFilterChain(videoFilterSel.value, { ...size, rgba: scaleFrameRGBA(out, size.width, size.height) });
+  if (canvas.width !== shown.width || canvas.height !== shown.height) {
+    canvas.width = shown.width;
+    canvas.height = shown.height;
+  }
+  ctx.putImageData(new ImageData(shown.rgba, shown.width, shown.height), 0, 0);
+  drawDebugView();
+
+  // Flush SRAM roughly once a second
+  if (++sramFrames >= 60) { sramFrames = 0; persistSram(); }
 
   if (running) rafId = requestAnimationFrame(frame);
 }
@@ -151,9 +228,14 @@ async function bootFromRomBytes(bytes: Uint8Array) {
   // Normalise and parse header
   const { rom } = normaliseRom(bytes);
   const header = parseHeader(rom);
-  const cart = new Cartridge({ rom, mapping: header.mapping });
+  persistSram();
+  cart = new Cartridge({ rom, mapping: header.mapping, sramBytes: header.sramBytes });
+  sramKey = `snes-srm:${header.title}:${header.checksum.toString(16)}`;
+  sramFrames = 0;
+  loadSram();
   const _emu = Emulator.fromCartridge(cart);
   _emu.reset();
+  _emu.bus.getPPU().scanlineRender = true;
 
   // If real APU core is active, forward HLE toggles now
   try {
@@ -259,7 +341,7 @@ function timestampName(): string {
 }
 
 saveBtn.addEventListener("click", () => {
-  // Export the current canvas contents as a native-resolution PNG (256x224)
+  // Export the current canvas contents as a PNG: native resolution (256x224, or 512x448 for hi-res) after the video filter
   const name = timestampName();
   if (canvas.toBlob) {
     canvas.toBlob((blob) => {
@@ -286,11 +368,14 @@ saveBtn.addEventListener("click", () => {
 });
 
 scaleInput.addEventListener("change", setCanvasScale);
+debugViewSel.addEventListener("change", drawDebugView);
+debugPaletteInput.addEventListener("change", drawDebugView);
 [apuCoreChk, shimChk, shimOnlyChk, shimTileChk, apuIplHleChk, nullIrqIplHleChk, rewriteNullIrqChk].forEach((el) => el.addEventListener("change", () => {
   // Re-apply env flags next boot. No hot reload for now.
   setEnvForShim();
 }));
 
+window.addEventListener("beforeunload", persistSram);
 attachKeyboard();
 setCanvasScale();
 log(